@@ -23,13 +23,19 @@
  *
  * For development, you can also use `npm run db:push` which applies
  * schema changes directly without generating migration files (faster
- * iteration, but no migration history).
+ * iteration, but no migration history). Run `npm run search:setup` first
+ * on a fresh database so the pg_trgm index in the schema can be created.
+ *
+ * Search extensions (unaccent, pg_trgm) and the `wtf_search` text search
+ * configuration are created before migrations run, since drizzle-kit
+ * doesn't manage extensions.
  */
 
 import 'dotenv/config';
 import { drizzle } from 'drizzle-orm/postgres-js';
 import { migrate } from 'drizzle-orm/postgres-js/migrator';
 import postgres from 'postgres';
+import { ensureSearchSetup } from '../lib/search.js';
 
 async function main() {
   if (!process.env.DATABASE_URL) {
@@ -41,6 +47,7 @@ async function main() {
   const sql = postgres(process.env.DATABASE_URL, { max: 1 });
   const db = drizzle(sql);
 
+  await ensureSearchSetup(sql);
   await migrate(db, { migrationsFolder: './drizzle' });
 
   console.log('✅ Migrations complete');
@@ -16,6 +16,8 @@
  * - `source_posts` — Instagram posts (source material for events)
  * - `events` — Core event records extracted by Gemini AI
  * - `sub_events` — Multi-act lineups, screening schedules, etc.
+ * - `event_source_post` — Every post an event was extracted from
+ * - `event_search` — Full-text search documents (rebuilt on ingest)
  *
  * ### 2. Platform Features
  * - `account` — Platform user accounts (email + password auth)
@@ -24,6 +26,9 @@
  *
  * ### 3. Infrastructure
  * - `sync_log` — Tracks ingest pipeline runs and sync health
+ * - `ingest_cursor` — How far ingest has read each source
+ * - `sync_snapshot` — Rows as they were before the latest ingest run
+ * - `ingest_quarantine` — Source records ingest rejected, and why
  *
  * ## Key Design Decisions
  *
@@ -80,8 +85,15 @@ import {
   jsonb,
   uniqueIndex,
   index,
+  primaryKey,
+  customType,
+  type AnyPgColumn,
 } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { relations, sql } from 'drizzle-orm';
+import type { OperatingHours } from '../lib/hours.js';
+import type { EventChanges, RescheduledFrom } from '../lib/revisions.js';
+import type { FieldSources } from '../lib/merges.js';
+import type { SyncPhase, SyncReport } from '../lib/syncs.js';
 
 // ============================================================================
 // ENUMS
@@ -175,12 +187,69 @@ export const accountCategoryEnum = pgEnum('account_category', [
 ]);
 
 /**
- * Sync status — for blead ingest log.
+ * Sync status — for blead ingest log. `rolled_back`: an admin undid the
+ * run (see `lib/syncs.ts`).
  */
 export const syncStatusEnum = pgEnum('sync_status', [
   'running',
   'completed',
   'failed',
+  'rolled_back',
+]);
+
+/**
+ * Revision source — what changed an event (see `event_revision`).
+ */
+export const revisionSourceEnum = pgEnum('revision_source', [
+  'ingest',
+  'admin',
+]);
+
+/**
+ * Merge rule — which dedup pass matched two events (see `event_merge`).
+ */
+export const mergeRuleEnum = pgEnum('merge_rule', [
+  'exact_title_date',
+  'fuzzy_title_venue',
+  'same_image',
+]);
+
+/**
+ * Dedup candidate status — an admin's verdict on a possible duplicate
+ * (see `dedup_candidate`).
+ */
+export const candidateStatusEnum = pgEnum('candidate_status', [
+  'pending',
+  'confirmed',
+  'rejected',
+]);
+
+/**
+ * Ingest source — the adapter ingest read a record through (see
+ * `lib/adapters/index.ts`).
+ * - blead: blead's SQLite database of scraped Instagram posts
+ * - drop_folder: CSV and JSON files dropped in INGEST_DROP_DIR
+ * - ics: external `.ics` calendars listed in INGEST_ICS_FEEDS
+ */
+export const ingestSourceEnum = pgEnum('ingest_source', [
+  'blead',
+  'drop_folder',
+  'ics',
+]);
+
+/**
+ * Quarantine status — where a rejected record stands (see
+ * `ingest_quarantine`).
+ * - pending: waiting for an admin
+ * - resubmitted: fixed by an admin; the next ingest writes it
+ * - resolved: written after all, fixed or because its source fixed it
+ * - dismissed: an admin decided it isn't worth keeping
+ */
+export const quarantineStatusEnum = pgEnum('quarantine_status', [
+  'pending',
+  'resubmitted',
+  'resolved',
+  'dismissed',
 ]);
 
 // ============================================================================
@@ -189,33 +258,60 @@ export const syncStatusEnum = pgEnum('sync_status', [
 
 /**
  * Venues — canonical venue directory with geocoding.
- * Matches the blead VPS PostgreSQL schema exactly.
+ * Mirrors blead's `known_venue`.
+ *
+ * - `aliases` (JSONB): other names the venue goes by in captions
+ *   ["78salcedo", "78-33"]. Used with `instagram_handle` by
+ *   `VenueResolver` (see `lib/venues.ts`) to link events to venues.
+ * - `instagram_handle`: lowercase, without "@".
+ * - `operating_hours` (JSONB): per-day open/close times set by admins,
+ *   null when unknown. See `lib/hours.ts`.
  */
 export const venue = pgTable('venue', {
   id: serial('id').primaryKey(),
   name: text('name').notNull().unique(),
+  aliases: jsonb('aliases').$type<string[]>().default([]),
   address: text('address'),
+  city: text('city'),
   lat: real('lat'),
   lng: real('lng'),
   category: text('category'),
+  instagramHandle: varchar('instagram_handle', { length: 100 }),
+  operatingHours: jsonb('operating_hours').$type<OperatingHours>(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow(),
 }, (table) => [
   index('idx_venue_name').on(table.name),
+  index('idx_venue_instagram_handle').on(table.instagramHandle),
 ]);
 
 /**
  * Source Accounts — Instagram accounts tracked by blead.
  * Matches the blead VPS PostgreSQL schema exactly.
+ *
+ * Profile fields (`display_name` through `last_scraped_at`) are
+ * refreshed from blead's `ig_account` on every ingest. Accounts double
+ * as the organizer directory (`/api/accounts`).
  */
 export const sourceAccount = pgTable('source_account', {
   id: serial('id').primaryKey(),
   username: text('username').notNull().unique(),
   fullName: text('full_name'),
+  displayName: text('display_name'),
+  bio: text('bio'),
+  followerCount: integer('follower_count'),
+  followingCount: integer('following_count'),
+  postCount: integer('post_count'),
+  profilePicUrl: text('profile_pic_url'),
+  isVerified: boolean('is_verified').default(false),
+  isBusiness: boolean('is_business').default(false),
+  category: accountCategoryEnum('category').default('other'),
   isActive: boolean('is_active').default(true),
+  lastScrapedAt: timestamp('last_scraped_at'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
 }, (table) => [
   uniqueIndex('idx_source_account_username').on(table.username),
+  index('idx_source_account_category').on(table.category),
 ]);
 
 /**
@@ -230,14 +326,48 @@ export const sourcePost = pgTable('source_post', {
   caption: text('caption'),
   postedAt: timestamp('posted_at'),
   imageUrl: text('image_url'),
+  /** dHash of blead's cached copy of the first image (see `lib/images.ts`) */
+  imageHash: text('image_hash'),
   likesCount: integer('likes_count').default(0),
   commentsCount: integer('comments_count').default(0),
   createdAt: timestamp('created_at').defaultNow().notNull(),
 }, (table) => [
   uniqueIndex('idx_source_post_shortcode').on(table.shortcode),
   index('idx_source_post_account').on(table.accountId),
+  index('idx_source_post_posted_at').on(table.postedAt),
 ]);
 
+/**
+ * A valid "H:MM" or "HH:MM" clock time, as a Postgres regex. Anchored,
+ * so `7:00 PM` or `19:00-22:00` don't match, and hours stop at 23: the
+ * casts it guards can't fail.
+ */
+export const CLOCK_TIME_PATTERN = '^([01]?\\d|2[0-3]):[0-5]\\d$';
+
+/**
+ * "HH:MM" text column → interval, NULL when missing or malformed. Built
+ * from immutable functions only, so it can feed generated columns.
+ */
+function clockInterval(column: string): string {
+  return `CASE WHEN ${column} ~ '${CLOCK_TIME_PATTERN}' THEN make_interval(hours => split_part(${column}, ':', 1)::int, mins => split_part(${column}, ':', 2)::int) END`;
+}
+
+/** Date the event (or a series' single occurrence) ends on */
+const EVENT_END_DATE = 'CASE WHEN is_recurring THEN event_date ELSE coalesce(event_end_date, event_date) END';
+
+/** Local start: event_date + event_time (midnight when no time) */
+const EVENT_LOCAL_START = `event_date + coalesce(${clockInterval('event_time')}, interval '0')`;
+
+/** Local end — the rules are tabulated in `lib/time.ts` */
+const EVENT_LOCAL_END = `CASE
+    WHEN ${clockInterval('end_time')} IS NOT NULL THEN
+      ${EVENT_END_DATE} + ${clockInterval('end_time')}
+      + CASE WHEN ${EVENT_END_DATE} + ${clockInterval('end_time')} <= ${EVENT_LOCAL_START} THEN interval '1 day' ELSE interval '0' END
+    WHEN ${clockInterval('event_time')} IS NOT NULL THEN
+      ${EVENT_END_DATE} + ${clockInterval('event_time')} + interval '3 hours'
+    ELSE ${EVENT_END_DATE} + interval '1 day'
+  END`;
+
 /**
  * Events — the core data table for WheresTheFX.
  *
@@ -252,9 +382,21 @@ export const sourcePost = pgTable('source_post', {
  *
  * - `venue_id` + `venue_name`: The FK provides normalized venue
  *   reference; the denormalized name enables fast display without joins.
+ *   `venue_id` is resolved at ingest from the caption's venue name via
+ *   names, aliases and handles; `venue_match_confidence` (0-1) records
+ *   how sure that match was (1 = exact name or alias).
  *
  * - `artists` (JSONB): Array of performer names ["DJ Name", "Band Name"].
  *
+ * - `geohash`: 9-char geohash of `venue_lat`/`venue_lng`, kept in sync by
+ *   `refreshEventGeohashes()`. Indexed for nearby/bounding-box queries
+ *   via prefix ranges (see `lib/geo.ts`).
+ *
+ * - `start_at` / `end_at`: Generated timestamptz columns — the instants
+ *   the event starts and ends, resolved in Asia/Manila from the date and
+ *   time fields, with overnight end times rolling into the next day.
+ *   Used for "upcoming" and "happening now" queries (see `lib/time.ts`).
+ *
  * - `completeness_score` (0-1): Quality score based on how many fields
  *   are filled. Used for dedup ranking — when two events have the same
  *   hash, the one with higher completeness wins.
@@ -264,6 +406,22 @@ export const sourcePost = pgTable('source_post', {
  *
  * - `image_url`: Primary event image URL (Instagram CDN, may expire).
  *   Served through the proxy endpoint which falls back to local cache.
+ *
+ * - `rescheduled_from` (JSONB): `{ eventDate, eventTime }` the event was
+ *   last moved from, null if it never moved. Maintained alongside
+ *   `event_revision` (see `lib/revisions.ts`).
+ *
+ * - `ingest_source`: the adapter that last wrote the event — blead, the
+ *   drop folder or an `.ics` feed (see `lib/adapters/index.ts`).
+ *
+ * - `merged_into_id`: set when dedup found this event to be a duplicate
+ *   of another. Merged events stay in the table (ingest keeps updating
+ *   them by hash) but drop out of every listing; see `lib/merges.ts`.
+ *
+ * - `field_sources` (JSONB): on an event that absorbed duplicates, which
+ *   duplicate (event, post, account) supplied each field group it was
+ *   missing, e.g. `{ signupUrl: { eventId, sourcePostId, sourceUsername } }`,
+ *   and which artist names each duplicate added. Empty for own values.
  */
 export const event = pgTable('event', {
   id: serial('id').primaryKey(),
@@ -276,14 +434,20 @@ export const event = pgTable('event', {
   eventEndDate: date('event_end_date'),
   eventTime: text('event_time'),     // HH:MM format
   endTime: text('end_time'),         // HH:MM format
+  startAt: timestamp('start_at', { withTimezone: true })
+    .generatedAlwaysAs(sql.raw(`(${EVENT_LOCAL_START}) AT TIME ZONE 'Asia/Manila'`)),
+  endAt: timestamp('end_at', { withTimezone: true })
+    .generatedAlwaysAs(sql.raw(`(${EVENT_LOCAL_END}) AT TIME ZONE 'Asia/Manila'`)),
   description: text('description'),
 
   // Venue (FK + denormalized)
   venueId: integer('venue_id').references(() => venue.id),
   venueName: text('venue_name'),     // Denormalized for fast display
+  venueMatchConfidence: real('venue_match_confidence'),
   venueAddress: text('venue_address'),
   venueLat: real('venue_lat'),
   venueLng: real('venue_lng'),
+  geohash: text('geohash'),          // Derived from venue_lat/lng for spatial lookups
   locationStatus: locationStatusEnum('location_status').default('confirmed'),
 
   // Pricing
@@ -303,6 +467,7 @@ export const event = pgTable('event', {
   // Status
   eventStatus: eventStatusEnum('event_status').default('confirmed'),
   availabilityStatus: availabilityStatusEnum('availability_status').default('available'),
+  rescheduledFrom: jsonb('rescheduled_from').$type<RescheduledFrom>(),
   isRecurring: boolean('is_recurring').default(false),
   recurrencePattern: text('recurrence_pattern'),
 
@@ -317,6 +482,9 @@ export const event = pgTable('event', {
 
   // Deduplication
   eventHash: text('event_hash').unique(),
+  ingestSource: ingestSourceEnum('ingest_source').default('blead').notNull(),
+  mergedIntoId: integer('merged_into_id').references((): AnyPgColumn => event.id, { onDelete: 'set null' }),
+  fieldSources: jsonb('field_sources').$type<FieldSources>().default({}).notNull(),
 
   // Timestamps
   createdAt: timestamp('created_at').defaultNow().notNull(),
@@ -328,6 +496,10 @@ export const event = pgTable('event', {
   index('idx_event_venue').on(table.venueId),
   index('idx_event_hash').on(table.eventHash),
   index('idx_event_account').on(table.sourceAccountId),
+  index('idx_event_geohash').on(table.geohash),
+  index('idx_event_start_at').on(table.startAt),
+  index('idx_event_end_at').on(table.endAt),
+  index('idx_event_merged_into').on(table.mergedIntoId),
 ]);
 
 /**
@@ -338,7 +510,8 @@ export const event = pgTable('event', {
  * their own time slot, or a film festival has different screenings.
  *
  * Sub-events are always children of a parent event. They inherit
- * the parent's venue unless overridden.
+ * the parent's venue unless overridden. Copies taken from a merged
+ * duplicate's lineup carry `merged_from_id` (the duplicate's event).
  *
  * Current data: 178 sub-events across 97 events (avg ~1.8 per event).
  */
@@ -350,11 +523,199 @@ export const subEvent = pgTable('sub_event', {
   eventTime: text('event_time'),
   endTime: text('end_time'),
   description: text('description'),
+  mergedFromId: integer('merged_from_id').references(() => event.id, { onDelete: 'cascade' }),
   createdAt: timestamp('created_at').defaultNow().notNull(),
 }, (table) => [
   index('idx_sub_event_event').on(table.eventId),
 ]);
 
+/**
+ * Artists — performers credited on events, normalized across posts.
+ *
+ * Built by `syncArtists()` (see `lib/artists.ts`) from `event.artists`
+ * and performer sub-events after every ingest. The same act spelled
+ * differently ("DJ Kat", "dj kat", "DJ KAT") shares one row keyed by
+ * `normalized_name`; spellings that only match through the Instagram
+ * handle are kept in `aliases`.
+ *
+ * - `aliases` (JSONB): other names this artist was credited as.
+ * - `instagram_handle`: lowercase, without "@"; taken from credits like
+ *   "DJ Kat (@djkat)".
+ */
+export const artist = pgTable('artist', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  normalizedName: text('normalized_name').notNull(),
+  aliases: jsonb('aliases').$type<string[]>().default([]),
+  instagramHandle: varchar('instagram_handle', { length: 100 }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('idx_artist_normalized_name').on(table.normalizedName),
+  index('idx_artist_instagram_handle').on(table.instagramHandle),
+]);
+
+/**
+ * Event Artists — the lineup of an event.
+ *
+ * Covers everyone credited in `event.artists` plus performers only
+ * listed as sub-events, so "events featuring X" is one join.
+ * `position` keeps the billing order of the post.
+ */
+export const eventArtist = pgTable('event_artist', {
+  eventId: integer('event_id').references(() => event.id, { onDelete: 'cascade' }).notNull(),
+  artistId: integer('artist_id').references(() => artist.id, { onDelete: 'cascade' }).notNull(),
+  position: integer('position').notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.eventId, table.artistId] }),
+  index('idx_event_artist_artist').on(table.artistId),
+]);
+
+/**
+ * Event Source Posts — every Instagram post an event was found in.
+ *
+ * The same party is posted by the venue, the promoter and each DJ.
+ * `event.source_post_id` is the post the row itself was extracted
+ * from; this table also credits the posts of duplicates merged into
+ * it. `via_event_id` is the event row extracted from the post (the
+ * event itself, or the merged duplicate), so an un-merge can take the
+ * duplicate's posts back. Maintained by ingest and `lib/sources.ts`.
+ */
+export const eventSourcePost = pgTable('event_source_post', {
+  eventId: integer('event_id').references(() => event.id, { onDelete: 'cascade' }).notNull(),
+  sourcePostId: integer('source_post_id').references(() => sourcePost.id, { onDelete: 'cascade' }).notNull(),
+  viaEventId: integer('via_event_id').references(() => event.id, { onDelete: 'cascade' }).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.eventId, table.sourcePostId] }),
+  index('idx_event_source_post_post').on(table.sourcePostId),
+]);
+
+/**
+ * Sub-Event Artists — who plays which set or slot of an event.
+ */
+export const subEventArtist = pgTable('sub_event_artist', {
+  subEventId: integer('sub_event_id').references(() => subEvent.id, { onDelete: 'cascade' }).notNull(),
+  artistId: integer('artist_id').references(() => artist.id, { onDelete: 'cascade' }).notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.subEventId, table.artistId] }),
+  index('idx_sub_event_artist_artist').on(table.artistId),
+]);
+
+/**
+ * Event Revisions — field-level history of changes to an event.
+ *
+ * One row per ingest run or admin edit that changed a tracked field
+ * (date, time, venue, price, status, availability), written before the
+ * change is applied. `changes` maps each changed field to
+ * `{ from, to }`; see `lib/revisions.ts`. `account_id` is the admin who
+ * made the edit (null for ingest).
+ */
+export const eventRevision = pgTable('event_revision', {
+  id: serial('id').primaryKey(),
+  eventId: integer('event_id').references(() => event.id, { onDelete: 'cascade' }).notNull(),
+  source: revisionSourceEnum('source').notNull(),
+  accountId: integer('account_id').references(() => account.id, { onDelete: 'set null' }),
+  changes: jsonb('changes').$type<EventChanges>().notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('idx_event_revision_event').on(table.eventId, table.createdAt),
+]);
+
+/**
+ * Event Merges — audit trail of deduplication.
+ *
+ * One row per duplicate folded into a surviving event, with the dedup
+ * rule that matched them and, for fuzzy and image matches, how similar
+ * the titles or flyers were.
+ * Bookmarks on the duplicate move to the survivor; `moved_saves` lists
+ * the accounts whose bookmark moved and `dropped_saves` those who had
+ * already saved the survivor, so an admin undo can put them back.
+ * Undone merges keep their row (`undone_at`) and stop dedup from
+ * merging the pair again.
+ */
+export const eventMerge = pgTable('event_merge', {
+  id: serial('id').primaryKey(),
+  winnerId: integer('winner_id').references(() => event.id, { onDelete: 'cascade' }).notNull(),
+  loserId: integer('loser_id').references(() => event.id, { onDelete: 'cascade' }).notNull(),
+  rule: mergeRuleEnum('rule').notNull(),
+  similarity: real('similarity'),
+  movedSaves: jsonb('moved_saves').$type<number[]>().default([]).notNull(),
+  droppedSaves: jsonb('dropped_saves').$type<number[]>().default([]).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  undoneAt: timestamp('undone_at'),
+  undoneBy: integer('undone_by').references(() => account.id, { onDelete: 'set null' }),
+}, (table) => [
+  index('idx_event_merge_winner').on(table.winnerId),
+  index('idx_event_merge_loser').on(table.loserId),
+]);
+
+/**
+ * Dedup Candidates — possible duplicates waiting for an admin.
+ *
+ * Dedup only merges matches it is sure of (exact titles, or fuzzy
+ * titles above `AUTO_MERGE_SCORE`). Weaker matches are queued here with
+ * their score and the reasons they matched, and merged only when an
+ * admin confirms them (`merge_id` then points at the merge). Rejected
+ * pairs stay, so dedup never proposes them again.
+ *
+ * `pair_key` is the two event ids in ascending order (`pairKey()`), so
+ * a pair has one row whichever event dedup would keep.
+ */
+export const dedupCandidate = pgTable('dedup_candidate', {
+  id: serial('id').primaryKey(),
+  pairKey: text('pair_key').notNull().unique(),
+  winnerId: integer('winner_id').references(() => event.id, { onDelete: 'cascade' }).notNull(),
+  loserId: integer('loser_id').references(() => event.id, { onDelete: 'cascade' }).notNull(),
+  rule: mergeRuleEnum('rule').notNull(),
+  similarity: real('similarity'),
+  score: real('score').notNull(),
+  reasons: jsonb('reasons').$type<string[]>().default([]).notNull(),
+  status: candidateStatusEnum('status').default('pending').notNull(),
+  mergeId: integer('merge_id').references(() => eventMerge.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  reviewedAt: timestamp('reviewed_at'),
+  reviewedBy: integer('reviewed_by').references(() => account.id, { onDelete: 'set null' }),
+}, (table) => [
+  index('idx_dedup_candidate_status').on(table.status, table.score),
+]);
+
+/**
+ * PostgreSQL `tsvector` column. Drizzle has no built-in type for it;
+ * values are only ever written by SQL (see `lib/search.ts`).
+ */
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return 'tsvector';
+  },
+});
+
+/**
+ * Event Search — one full-text search document per event.
+ *
+ * Kept out of `event` so search internals never leak into API payloads.
+ * Rows are rebuilt by `refreshSearchIndex()` at the end of every ingest
+ * and cascade-deleted with their event.
+ *
+ * - `document`: weighted tsvector (title/artists A, lineup/venue/account B,
+ *   description C) in the accent-insensitive `wtf_search` configuration.
+ * - `content`: the original text the document was built from, used for
+ *   highlighted snippets.
+ * - `search_text`: lowercased, unaccented names (no description) for
+ *   trigram typo matching. Requires the `pg_trgm` and `unaccent` extensions.
+ */
+export const eventSearch = pgTable('event_search', {
+  eventId: integer('event_id').primaryKey().references(() => event.id, { onDelete: 'cascade' }),
+  document: tsvector('document').notNull(),
+  content: text('content').notNull(),
+  searchText: text('search_text').notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  index('idx_event_search_document').using('gin', table.document),
+  index('idx_event_search_text').using('gin', table.searchText.op('gin_trgm_ops')),
+]);
+
 // ============================================================================
 // PLATFORM FEATURE TABLES
 // ============================================================================
@@ -428,6 +789,14 @@ export const accountPreference = pgTable('account_preference', {
  * The cron job runs every 6 hours. If a sync fails, the next run
  * will pick up from where the last successful sync left off (since
  * upserts are idempotent via event_hash).
+ *
+ * - `phases` (JSONB): each phase's outcome, in order — status, rows
+ *   written, duration and error (`SyncPhase`).
+ * - `report` (JSONB): what the run inserted, updated (with field
+ *   diffs), deleted or left unchanged, and what dedup merged
+ *   (`SyncReport`). Set once the run completes.
+ * - `rolled_back_at` / `rolled_back_by`: set when an admin rolled the
+ *   run back (status `rolled_back`).
  */
 export const syncLog = pgTable('sync_log', {
   id: serial('id').primaryKey(),
@@ -439,9 +808,100 @@ export const syncLog = pgTable('sync_log', {
   eventsSynced: integer('events_synced').default(0),
   venuesSynced: integer('venues_synced').default(0),
   subEventsSynced: integer('sub_events_synced').default(0),
+  isFullSync: boolean('is_full_sync').default(false).notNull(),
+  phases: jsonb('phases').$type<SyncPhase[]>().default([]).notNull(),
+  report: jsonb('report').$type<SyncReport>(),
   errorMessage: text('error_message'),
+  rolledBackAt: timestamp('rolled_back_at'),
+  rolledBackBy: integer('rolled_back_by').references(() => account.id, { onDelete: 'set null' }),
+});
+
+/**
+ * Ingest Cursor — how far ingest has read each source.
+ *
+ * - `source_table`: what the cursor tracks — a blead table (`ig_event`)
+ *   or block of its rowids (`ig_event:3`), a dropped file
+ *   (`drop_folder:events.csv`) or a feed (`ics:<url>`).
+ * - `row_id`: for blead, the highest SQLite rowid synced (blead appends
+ *   rows, so rows above it are new), or a block's last; for files and
+ *   feeds, how many records they held.
+ * - `changed_at`: newest change stamp synced, for tables blead stamps
+ *   when it rewrites a row (`ig_account.last_scraped_at`), kept as
+ *   blead's own text so it compares the way SQLite does; a hash of a
+ *   block's rows, for the tables it doesn't stamp; a file's
+ *   modification time; a feed's content hash.
+ *
+ * A run pulls only what moved past these marks and advances the cursors
+ * once it completes; `--full` ignores them and pulls everything.
+ */
+export const ingestCursor = pgTable('ingest_cursor', {
+  sourceTable: text('source_table').primaryKey(),
+  rowId: integer('row_id').notNull(),
+  changedAt: text('changed_at'),
+  syncLogId: integer('sync_log_id').references(() => syncLog.id, { onDelete: 'set null' }),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
+/**
+ * Sync Snapshot — rows as they were before an ingest run first touched
+ * them, so the run can be rolled back (`rollbackRun()` in `lib/syncs.ts`).
+ *
+ * Written by triggers while a run's phases execute, never by hand.
+ *
+ * - `row_key` (JSONB): the row's primary key, e.g. `{"id": 42}`.
+ * - `before` (JSONB): the whole row before the run; null for rows the
+ *   run created.
+ *
+ * Only the latest run keeps its snapshots; the next run drops them.
+ */
+export const syncSnapshot = pgTable('sync_snapshot', {
+  id: serial('id').primaryKey(),
+  syncLogId: integer('sync_log_id').references(() => syncLog.id, { onDelete: 'cascade' }).notNull(),
+  tableName: text('table_name').notNull(),
+  rowKey: jsonb('row_key').$type<Record<string, string | number>>().notNull(),
+  before: jsonb('before').$type<Record<string, unknown>>(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('idx_sync_snapshot_row').on(table.syncLogId, table.tableName, table.rowKey),
+]);
+
+/**
+ * Ingest Quarantine — source records ingest refused to write, with why
+ * (`lib/quarantine.ts`).
+ *
+ * A record lands here when it fails its kind's validation
+ * (`lib/records.ts`) or the database rejects it anyway. One entry per
+ * record: a later run that rejects it again refreshes the entry, unless
+ * an admin has already dealt with it.
+ *
+ * - `ingest_source`: the adapter it came through (blead, drop folder, ics).
+ * - `kind`: `venue`, `account`, `post`, `event` or `sub_event`.
+ * - `row_key`: the record's natural key, or its `source_id` (blead's
+ *   `ig_event_id:42`, a file's `events.csv:7`) for records without one.
+ * - `payload` (JSONB): the record as ingest read it; after a resubmit,
+ *   the admin's fixed version.
+ * - `issues` (JSONB): `{ column: message }` for validation failures.
+ */
+export const ingestQuarantine = pgTable('ingest_quarantine', {
+  id: serial('id').primaryKey(),
+  syncLogId: integer('sync_log_id').references(() => syncLog.id, { onDelete: 'set null' }),
+  ingestSource: ingestSourceEnum('ingest_source').notNull(),
+  kind: text('kind').notNull(),
+  rowKey: text('row_key').notNull(),
+  payload: jsonb('payload').$type<Record<string, unknown>>().notNull(),
+  reason: text('reason').notNull(),
+  issues: jsonb('issues').$type<Record<string, string>>().default({}).notNull(),
+  status: quarantineStatusEnum('status').default('pending').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  reviewedAt: timestamp('reviewed_at'),
+  reviewedBy: integer('reviewed_by').references(() => account.id, { onDelete: 'set null' }),
+  resolvedAt: timestamp('resolved_at'),
+}, (table) => [
+  uniqueIndex('idx_ingest_quarantine_row').on(table.ingestSource, table.kind, table.rowKey),
+  index('idx_ingest_quarantine_status').on(table.status),
+]);
+
 // ============================================================================
 // RELATIONS (for Drizzle's relational query builder)
 // ============================================================================
@@ -466,6 +926,7 @@ export const sourcePostRelation = relations(sourcePost, ({ one, many }) => ({
     references: [sourceAccount.id],
   }),
   event: many(event),
+  eventSourcePost: many(eventSourcePost),
 }));
 
 export const eventRelation = relations(event, ({ one, many }) => ({
@@ -482,14 +943,101 @@ export const eventRelation = relations(event, ({ one, many }) => ({
     references: [sourceAccount.id],
   }),
   subEvent: many(subEvent),
+  eventArtist: many(eventArtist),
+  revision: many(eventRevision),
+  eventSourcePost: many(eventSourcePost),
   savedBy: many(savedEvent),
 }));
 
-export const subEventRelation = relations(subEvent, ({ one }) => ({
+export const subEventRelation = relations(subEvent, ({ one, many }) => ({
   event: one(event, {
     fields: [subEvent.eventId],
     references: [event.id],
   }),
+  subEventArtist: many(subEventArtist),
+}));
+
+export const artistRelation = relations(artist, ({ many }) => ({
+  eventArtist: many(eventArtist),
+  subEventArtist: many(subEventArtist),
+}));
+
+export const eventArtistRelation = relations(eventArtist, ({ one }) => ({
+  event: one(event, {
+    fields: [eventArtist.eventId],
+    references: [event.id],
+  }),
+  artist: one(artist, {
+    fields: [eventArtist.artistId],
+    references: [artist.id],
+  }),
+}));
+
+export const eventSourcePostRelation = relations(eventSourcePost, ({ one }) => ({
+  event: one(event, {
+    fields: [eventSourcePost.eventId],
+    references: [event.id],
+  }),
+  sourcePost: one(sourcePost, {
+    fields: [eventSourcePost.sourcePostId],
+    references: [sourcePost.id],
+  }),
+}));
+
+export const subEventArtistRelation = relations(subEventArtist, ({ one }) => ({
+  subEvent: one(subEvent, {
+    fields: [subEventArtist.subEventId],
+    references: [subEvent.id],
+  }),
+  artist: one(artist, {
+    fields: [subEventArtist.artistId],
+    references: [artist.id],
+  }),
+}));
+
+export const eventRevisionRelation = relations(eventRevision, ({ one }) => ({
+  event: one(event, {
+    fields: [eventRevision.eventId],
+    references: [event.id],
+  }),
+  account: one(account, {
+    fields: [eventRevision.accountId],
+    references: [account.id],
+  }),
+}));
+
+export const eventMergeRelation = relations(eventMerge, ({ one }) => ({
+  winner: one(event, {
+    fields: [eventMerge.winnerId],
+    references: [event.id],
+    relationName: 'merge_winner',
+  }),
+  loser: one(event, {
+    fields: [eventMerge.loserId],
+    references: [event.id],
+    relationName: 'merge_loser',
+  }),
+}));
+
+export const dedupCandidateRelation = relations(dedupCandidate, ({ one }) => ({
+  winner: one(event, {
+    fields: [dedupCandidate.winnerId],
+    references: [event.id],
+    relationName: 'candidate_winner',
+  }),
+  loser: one(event, {
+    fields: [dedupCandidate.loserId],
+    references: [event.id],
+    relationName: 'candidate_loser',
+  }),
+  merge: one(eventMerge, {
+    fields: [dedupCandidate.mergeId],
+    references: [eventMerge.id],
+  }),
+  reviewer: one(account, {
+    fields: [dedupCandidate.reviewedBy],
+    references: [account.id],
+  }),
 }));
 
 export const accountRelation = relations(account, ({ many, one }) => ({
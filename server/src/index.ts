@@ -13,8 +13,12 @@
  * |--------------------|----------------|--------------------------|
  * | /api/events        | events.ts      | Event discovery & detail |
  * | /api/venues        | venues.ts      | Venue directory          |
+ * | /api/artists       | artists.ts     | Performer directory      |
+ * | /api/accounts      | accounts.ts    | Organizer directory      |
  * | /api/categories    | categories.ts  | Category metadata        |
+ * | /api/feeds         | feeds.ts       | iCalendar feeds          |
  * | /api/auth          | auth.ts        | Registration & login     |
+ * | /api/admin         | admin.ts       | Curation (admins only)   |
  * | /api/users/me      | auth.ts + users.ts | Profile & saved events |
  * | /api/images/proxy  | (inline)       | Image proxy / cache      |
  *
@@ -32,15 +36,19 @@
 import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
-import { existsSync, readdirSync, createReadStream } from 'fs';
-import { join } from 'path';
+import { createReadStream } from 'fs';
 
 import eventsRouter from './routes/events.js';
 import venuesRouter from './routes/venues.js';
+import artistsRouter from './routes/artists.js';
+import accountsRouter from './routes/accounts.js';
 import categoriesRouter from './routes/categories.js';
 import authRouter from './routes/auth.js';
 import usersRouter from './routes/users.js';
+import feedsRouter from './routes/feeds.js';
+import adminRouter from './routes/admin.js';
 import { snakeCaseResponse } from './middleware/snakeCase.js';
+import { cachedImagePath } from './lib/images.js';
 
 const app = express();
 const PORT = parseInt(process.env.PORT || '3001');
@@ -76,9 +84,13 @@ app.use(snakeCaseResponse);
 
 app.use('/api/events', eventsRouter);
 app.use('/api/venues', venuesRouter);
+app.use('/api/artists', artistsRouter);
+app.use('/api/accounts', accountsRouter);
 app.use('/api/categories', categoriesRouter);
 app.use('/api/auth', authRouter);
 app.use('/api/users', usersRouter);
+app.use('/api/feeds', feedsRouter);
+app.use('/api/admin', adminRouter);
 
 // ============================================================================
 // IMAGE PROXY
@@ -111,20 +123,12 @@ app.get('/api/images/proxy', async (req, res) => {
 
     // Try local cache FIRST — instant, no network.
     // Most CDN URLs are expired so checking them first just adds latency.
-    if (shortcode && BLEAD_IMAGES_PATH) {
-      const cacheDir = join(BLEAD_IMAGES_PATH, shortcode);
-      if (existsSync(cacheDir)) {
-        const files = readdirSync(cacheDir).filter(f =>
-          /\.(jpg|jpeg|png|webp)$/i.test(f)
-        );
-        if (files.length > 0) {
-          const filePath = join(cacheDir, files[0]);
-          res.setHeader('Content-Type', 'image/jpeg');
-          res.setHeader('Cache-Control', 'public, max-age=604800'); // 7 days
-          createReadStream(filePath).pipe(res);
-          return;
-        }
-      }
+    const filePath = shortcode && BLEAD_IMAGES_PATH ? cachedImagePath(BLEAD_IMAGES_PATH, shortcode) : null;
+    if (filePath) {
+      res.setHeader('Content-Type', 'image/jpeg');
+      res.setHeader('Cache-Control', 'public, max-age=604800'); // 7 days
+      createReadStream(filePath).pipe(res);
+      return;
     }
 
     // Fallback: try CDN (may still work for recent posts)
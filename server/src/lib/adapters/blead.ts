@@ -0,0 +1,252 @@
+/**
+ * blead Adapter — blead's SQLite database
+ *
+ * Reads blead's tables (opened read-only) as records (`lib/records.ts`):
+ * known_venue → venues, ig_account → accounts, ig_post → posts, ig_event
+ * → events and sub_event → sub-events. Columns are mostly named alike: a
+ * post keeps its first image as `image_url`, an event's `event_title` is
+ * its `title`, and each row's blead ID becomes its `source_id`
+ * (`ig_event_id:42`). Nothing else depends on blead's IDs — records are
+ * matched by natural key, so a rebuilt blead DB is harmless.
+ *
+ * ## Incremental reads
+ *
+ * `ingest_cursor` keeps, per blead table, the highest rowid synced and —
+ * for `ig_account`, which blead re-stamps on every scrape — the newest
+ * `last_scraped_at`. A run reads only rows past those marks, so what it
+ * validates and writes follows what changed, not the size of the history.
+ * Sub-events are re-read for every event pulled or given new sub-events.
+ *
+ * The other tables blead edits in place (a post's like count, an event
+ * re-extracted by a newer model) without a stamp to notice it by. Their
+ * rows are digested a block of rowids at a time (`<table>:<block>`,
+ * holding a SHA-256 of the block's rows): a block whose digest moved had
+ * a row rewritten or deleted, and is read again whole. `--full` ignores
+ * every cursor and re-reads everything; a table whose rowids went
+ * backwards (blead DB rebuilt) is re-read in full automatically.
+ */
+
+import { createHash } from 'crypto';
+import Database from 'better-sqlite3';
+import { RECORD_KINDS, type RawRecord, type RecordKind } from '../records.js';
+import type { Cursor, Cursors, SourceAdapter } from './index.js';
+
+type Row = Record<string, unknown>;
+
+// ============================================================================
+// CURSORS
+// ============================================================================
+
+/**
+ * blead tables read incrementally, each with the column blead stamps
+ * when it rewrites a row (null: no stamp — rewrites are found by block
+ * digests instead).
+ */
+const CURSOR_TABLES = {
+  known_venue: null,
+  ig_account: 'last_scraped_at',
+  ig_post: null,
+  ig_event: null,
+  sub_event: null,
+} as const satisfies Record<string, string | null>;
+
+type BleadTable = keyof typeof CURSOR_TABLES;
+
+/** Rowids per digest block of a table without a change column */
+const BLOCK_ROWS = 500;
+
+/**
+ * What this run reads from each table: rows past `since` (everything
+ * when null) up to `until`, blead's position when the run started, plus
+ * the rows of the `changed` blocks. Rows blead writes during the run
+ * are left for the next one. `blocks` are the table's block digests.
+ */
+type PullPlan = Record<BleadTable, { since: Cursor | null; until: Cursor; blocks: Cursors; changed: number[] }>;
+
+/**
+ * Plan the run from the stored cursors. A table whose rowids went
+ * backwards was rebuilt by blead, so it's read in full.
+ */
+function planPull(sqlite: Database.Database, cursors: Cursors): PullPlan {
+  const plan = {} as PullPlan;
+  for (const [table, changeColumn] of Object.entries(CURSOR_TABLES) as [BleadTable, string | null][]) {
+    const until = sqlite.prepare(`
+      SELECT coalesce(max(rowid), 0) AS rowId, ${changeColumn ? `max(${changeColumn})` : 'NULL'} AS changedAt
+      FROM ${table}
+    `).get() as Cursor;
+
+    let since = cursors.get(table) ?? null;
+    if (since && since.rowId > until.rowId) {
+      console.log(`   ⚠️  ${table} was rebuilt in blead — reading it in full`);
+      since = null;
+    }
+
+    const blocks = changeColumn ? new Map() : digestBlocks(sqlite, table, until.rowId);
+    const changed = [...blocks]
+      .filter(([key, block]) => cursors.get(key)?.changedAt !== block.changedAt)
+      .map(([key]) => Number(key.slice(table.length + 1)));
+    plan[table] = { since, until, blocks, changed };
+  }
+  return plan;
+}
+
+/**
+ * A SHA-256 of each block of `table`'s rows up to `untilRowId`, as
+ * `<table>:<block>` cursors holding the block's last rowid and digest.
+ * Blocks with no rows left get none.
+ */
+function digestBlocks(sqlite: Database.Database, table: BleadTable, untilRowId: number): Cursors {
+  const blocks: Cursors = new Map();
+  const rows = sqlite.prepare(`SELECT rowid, * FROM ${table} WHERE rowid <= ? ORDER BY rowid`).raw().iterate(untilRowId);
+
+  let block = -1;
+  let rowId = 0;
+  let hash = createHash('sha256');
+  const close = () => {
+    if (block >= 0) blocks.set(`${table}:${block}`, { rowId, changedAt: hash.digest('hex') });
+  };
+  for (const row of rows as Iterable<unknown[]>) {
+    const rowBlock = Math.floor(Number(row[0]) / BLOCK_ROWS);
+    if (rowBlock !== block) {
+      close();
+      block = rowBlock;
+      hash = createHash('sha256');
+    }
+    rowId = Number(row[0]);
+    hash.update(`${JSON.stringify(row)}\n`);
+  }
+  close();
+  return blocks;
+}
+
+/** SQLite condition selecting a table's rows to pull, for alias `alias` */
+function pulledRows(plan: PullPlan, table: BleadTable, alias: string): { where: string; params: (string | number)[] } {
+  const { since, until, changed } = plan[table];
+  const changeColumn = CURSOR_TABLES[table];
+  const where = `${alias}.rowid <= ?`;
+
+  if (!since) return { where, params: [until.rowId] };
+  if (changeColumn && since.changedAt) {
+    return {
+      where: `${where} AND (${alias}.rowid > ? OR ${alias}.${changeColumn} > ?)`,
+      params: [until.rowId, since.rowId, since.changedAt],
+    };
+  }
+  if (!changeColumn) {
+    return {
+      where: `${where} AND (${alias}.rowid > ? OR ${alias}.rowid / ${BLOCK_ROWS} IN (SELECT value FROM json_each(?)))`,
+      params: [until.rowId, since.rowId, JSON.stringify(changed)],
+    };
+  }
+  return { where: `${where} AND ${alias}.rowid > ?`, params: [until.rowId, since.rowId] };
+}
+
+// ============================================================================
+// RECORDS
+// ============================================================================
+
+/** A blead row as a record of `kind`: its same-named columns, and its ID as `source_id` */
+function toRecord(kind: RecordKind, row: Row, idColumn: string): RawRecord {
+  const record: RawRecord = { source_id: `${idColumn}:${row[idColumn]}` };
+  for (const column of Object.keys(RECORD_KINDS[kind].schema.shape)) {
+    if (column in row) record[column] = row[column];
+  }
+  return record;
+}
+
+/** The first of a post's `image_urls` (JSON text), if any */
+function firstImage(imageUrls: unknown): string | null {
+  if (typeof imageUrls !== 'string') return null;
+  try {
+    const urls = JSON.parse(imageUrls);
+    return Array.isArray(urls) && typeof urls[0] === 'string' ? urls[0] : null;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// ADAPTER
+// ============================================================================
+
+export function bleadAdapter(path: string): SourceAdapter {
+  const sqlite = new Database(path, { readonly: true });
+  sqlite.pragma('journal_mode = WAL');
+  const all = (query: string, ...params: unknown[]) => sqlite.prepare(query).all(...params) as Row[];
+
+  return {
+    source: 'blead',
+    location: path,
+
+    async pull(cursors, full) {
+      const plan = planPull(sqlite, full ? new Map() : cursors);
+
+      return {
+        venues() {
+          const { where, params } = pulledRows(plan, 'known_venue', 'v');
+          return all(`SELECT v.* FROM known_venue v WHERE ${where}`, ...params)
+            .map(v => toRecord('venue', v, 'known_venue_id'));
+        },
+
+        accounts() {
+          const { where, params } = pulledRows(plan, 'ig_account', 'a');
+          return all(`SELECT a.* FROM ig_account a WHERE ${where}`, ...params)
+            .map(a => toRecord('account', a, 'ig_account_id'));
+        },
+
+        posts() {
+          const { where, params } = pulledRows(plan, 'ig_post', 'p');
+          return all(`
+            SELECT p.*, a.username
+            FROM ig_post p
+            JOIN ig_account a ON a.ig_account_id = p.ig_account_id
+            WHERE ${where}
+          `, ...params).map(p => ({ ...toRecord('post', p, 'ig_post_id'), image_url: firstImage(p.image_urls) }));
+        },
+
+        events() {
+          const { where, params } = pulledRows(plan, 'ig_event', 'e');
+          return all(`
+            SELECT e.*, p.shortcode, a.username
+            FROM ig_event e
+            LEFT JOIN ig_post p ON p.ig_post_id = e.source_post_id
+            LEFT JOIN ig_account a ON a.ig_account_id = e.ig_account_id
+            WHERE ${where}
+          `, ...params).map(e => ({ ...toRecord('event', e, 'ig_event_id'), title: e.event_title }));
+        },
+
+        subEvents(retry) {
+          const events = pulledRows(plan, 'ig_event', 'pe');
+          const subEvents = pulledRows(plan, 'sub_event', 'ps');
+          const retried = retry.flatMap(key => (key.startsWith('sub_event_id:') ? [Number(key.slice('sub_event_id:'.length))] : []));
+          return all(`
+            SELECT se.*, e.event_hash
+            FROM sub_event se
+            JOIN ig_event e ON e.ig_event_id = se.ig_event_id
+            WHERE se.ig_event_id IN (
+              SELECT pe.ig_event_id FROM ig_event pe WHERE ${events.where}
+              UNION
+              SELECT ps.ig_event_id FROM sub_event ps WHERE ${subEvents.where}
+              UNION
+              SELECT rs.ig_event_id FROM sub_event rs WHERE rs.sub_event_id IN (SELECT value FROM json_each(?))
+            )
+          `, ...events.params, ...subEvents.params, JSON.stringify(retried))
+            .map(se => toRecord('sub_event', se, 'sub_event_id'));
+        },
+
+        listedEventHashes() {
+          return new Set(all('SELECT event_hash FROM ig_event WHERE event_hash IS NOT NULL').map(e => e.event_hash as string));
+        },
+
+        cursors: new Map([
+          ...Object.entries(plan).map(([table, { until }]) => [table, until] as const),
+          ...Object.values(plan).flatMap(({ blocks }) => [...blocks]),
+        ]),
+      };
+    },
+
+    close() {
+      sqlite.close();
+    },
+  };
+}
@@ -0,0 +1,257 @@
+/**
+ * Drop Folder Adapter — CSV and JSON files in INGEST_DROP_DIR
+ *
+ * For partners without a scraper behind them: export a spreadsheet or a
+ * JSON dump into the folder, and the next run imports it.
+ *
+ * ## Files
+ *
+ * - `*.json`: an object with any of `venues`, `accounts`, `posts`,
+ *   `events` and `sub_events` lists, or just a list of events. An event
+ *   may list its own `sub_events`, which then need no `event_hash`.
+ * - `*.csv`: one kind of record per file, named by the file's prefix —
+ *   `events.csv`, `venues-makati.csv`, `sub_events_2026.csv`. The first
+ *   row names the columns; blank cells are empty. Sub-events name their
+ *   event by `event_hash`.
+ *
+ * Columns are the record columns (`lib/records.ts`). An event without an
+ * `event_hash` gets one from its `id` column when it has one — the
+ * partner's own ID for it, unique across the folder — so dropping a
+ * corrected file again updates its events, whatever changed. Without
+ * an `id` the hash comes from its title, date and venue name: edits to
+ * other columns update the event, but a corrected title, date or venue
+ * adds a new event and leaves the old one listed.
+ * Each record's `source_id` says where it came from: `events.csv:12`
+ * (its line) or `partners.json:events[3]`.
+ *
+ * ## Cursors
+ *
+ * A file is imported again only when it's modified (`drop_folder:<file>`,
+ * holding its modification time and record count). A file that can't be
+ * parsed is skipped with a warning, and retried next run. Files are
+ * never moved or deleted, and removing one doesn't remove its events.
+ */
+
+import { readdirSync, readFileSync, statSync } from 'fs';
+import { join } from 'path';
+import type { RawRecord, RecordKind } from '../records.js';
+import { sourceHash, type Cursor, type SourceAdapter } from './index.js';
+
+/** The lists a file can hold, and their kinds */
+const LISTS = {
+  venues: 'venue',
+  accounts: 'account',
+  posts: 'post',
+  events: 'event',
+  sub_events: 'sub_event',
+} as const satisfies Record<string, RecordKind>;
+
+type Records = Record<RecordKind, RawRecord[]>;
+
+/** A CSV file's kind, from its name: `events.csv`, `venues-makati.csv` */
+const CSV_PREFIX = /^(sub_events|venues|accounts|posts|events)(?=[^a-z]|$)/i;
+
+function noRecords(): Records {
+  return { venue: [], account: [], post: [], event: [], sub_event: [] };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Split CSV text (RFC 4180) into rows of cells, each with the line it
+ * starts on. Quoted cells may hold commas, quotes (`""`) and line breaks.
+ */
+function parseCsv(text: string): { line: number; cells: string[] }[] {
+  const rows: { line: number; cells: string[] }[] = [];
+  const input = text.replace(/^\uFEFF/, '');
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.some(c => c.trim() !== '')) rows.push({ line: rowLine, cells });
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+      rowLine = ++line;
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) throw new Error(`Unclosed quote in the row on line ${rowLine}`);
+  endRow();
+  return rows;
+}
+
+/** A CSV file's records, one per row after the header */
+function csvRecords(file: string, kind: RecordKind, text: string): Records {
+  const [header, ...rows] = parseCsv(text);
+  const records = noRecords();
+  if (!header) return records;
+
+  const columns = header.cells.map(c => c.trim());
+  for (const { line, cells } of rows) {
+    const record: RawRecord = { source_id: `${file}:${line}` };
+    columns.forEach((column, i) => {
+      if (column !== '') record[column] = cells[i]?.trim() ? cells[i] : null;
+    });
+    records[kind].push(record);
+  }
+  return records;
+}
+
+/** A JSON file's records, sub-events listed under their event included */
+function jsonRecords(file: string, data: unknown): Records {
+  const lists = Array.isArray(data) ? { events: data } : data;
+  if (!isObject(lists)) throw new Error('Expected an object of record lists, or a list of events');
+
+  const records = noRecords();
+  for (const [name, kind] of Object.entries(LISTS)) {
+    const list = lists[name];
+    if (list === undefined) continue;
+    if (!Array.isArray(list)) throw new Error(`"${name}" isn't a list`);
+
+    list.forEach((entry, i) => {
+      const { sub_events: subEvents, ...record }: RawRecord = { source_id: `${file}:${name}[${i}]`, ...(isObject(entry) ? entry : {}) };
+      records[kind].push(record);
+      if (kind !== 'event' || !Array.isArray(subEvents)) return;
+
+      withEventHash(record);
+      subEvents.forEach((se, j) => {
+        records.sub_event.push({
+          source_id: `${record.source_id}.sub_events[${j}]`,
+          ...(isObject(se) ? se : {}),
+          event_hash: record.event_hash,
+        });
+      });
+    });
+  }
+  return records;
+}
+
+/** Give an event without a hash one from its `id`, or else its title, date and venue */
+function withEventHash(event: RawRecord): RawRecord {
+  const given = (column: string) => {
+    const value = event[column];
+    if (typeof value === 'number') return String(value);
+    return typeof value === 'string' && value.trim() !== '' ? value.trim() : null;
+  };
+  if (given('event_hash')) return event;
+
+  if (given('id')) {
+    event.event_hash = sourceHash('drop_folder', 'id', given('id'));
+  } else if (given('title') && given('event_date')) {
+    event.event_hash = sourceHash('drop_folder', given('title'), given('event_date'), given('venue_name'));
+  }
+  return event;
+}
+
+/** A dropped file's records */
+function readDropped(dir: string, file: string): Records {
+  const text = readFileSync(join(dir, file), 'utf8');
+  if (/\.json$/i.test(file)) return jsonRecords(file, JSON.parse(text));
+
+  const prefix = file.match(CSV_PREFIX)?.[1].toLowerCase() as keyof typeof LISTS | undefined;
+  if (!prefix) throw new Error(`Name a CSV file after what it holds: ${Object.keys(LISTS).join(', ')}`);
+  return csvRecords(file, LISTS[prefix], text);
+}
+
+// ============================================================================
+// ADAPTER
+// ============================================================================
+
+export function dropFolderAdapter(dir: string): SourceAdapter {
+  return {
+    source: 'drop_folder',
+    location: dir,
+
+    async pull(cursors, full) {
+      const files = readdirSync(dir).filter(file => /\.(csv|json)$/i.test(file)).sort();
+      // Unchanged files are parsed too: their sub-events and hashes still count
+      const all: Records[] = [];
+      const changed: Records[] = [];
+      const moved = new Map<string, Cursor>();
+
+      for (const file of files) {
+        let records: Records;
+        try {
+          records = readDropped(dir, file);
+        } catch (err) {
+          console.log(`   ⚠️  Couldn't parse ${file} — skipping it: ${String(err).slice(0, 80)}`);
+          continue;
+        }
+        records.event.forEach(withEventHash);
+        all.push(records);
+
+        const key = `drop_folder:${file}`;
+        const modified = statSync(join(dir, file)).mtime.toISOString();
+        if (!full && cursors.get(key)?.changedAt === modified) continue;
+
+        changed.push(records);
+        moved.set(key, { rowId: Object.values(records).reduce((n, list) => n + list.length, 0), changedAt: modified });
+      }
+
+      const pulled = (kind: RecordKind) => changed.flatMap(records => records[kind]);
+
+      return {
+        venues: () => pulled('venue'),
+        accounts: () => pulled('account'),
+        posts: () => pulled('post'),
+        events: () => pulled('event'),
+
+        subEvents(retry) {
+          const subEvents = all.flatMap(records => records.sub_event);
+          const retried = new Set(retry);
+          const parents = new Set([
+            ...pulled('event').map(e => e.event_hash),
+            ...pulled('sub_event').map(se => se.event_hash),
+            ...subEvents.filter(se => retried.has(se.source_id as string)).map(se => se.event_hash),
+          ].filter((hash): hash is string => typeof hash === 'string'));
+          // Sub-events naming no event still go through, to be quarantined
+          return [
+            ...subEvents.filter(se => parents.has(se.event_hash as string)),
+            ...pulled('sub_event').filter(se => typeof se.event_hash !== 'string'),
+          ];
+        },
+
+        listedEventHashes() {
+          return new Set(all.flatMap(records => records.event.flatMap(e => (typeof e.event_hash === 'string' ? [e.event_hash] : []))));
+        },
+
+        cursors: moved,
+      };
+    },
+
+    close() {},
+  };
+}
@@ -0,0 +1,301 @@
+/**
+ * ICS Adapter — external `.ics` calendars
+ *
+ * Imports the events of the calendars listed in INGEST_ICS_FEEDS
+ * (comma-separated `https://`/`webcal://` URLs or local paths) — venue
+ * and promoter calendars published from Google Calendar and the like.
+ * Calendars only carry events: no venues, accounts, posts or sub-events.
+ *
+ * ## Mapping
+ *
+ * - SUMMARY → `title`, DESCRIPTION → `description`, URL → `signup_url`
+ * - LOCATION → `venue_name` (up to the first comma) and `venue_address`
+ *   (the rest); no LOCATION means `tba`. GEO → venue coordinates.
+ * - DTSTART/DTEND → Manila dates and times. UTC times and other TZIDs are
+ *   converted; floating times are taken as Manila's. An end the next
+ *   morning is just an `end_time` (overnight); a longer one sets
+ *   `event_end_date`. All-day events have no times.
+ * - STATUS: CANCELLED → `cancelled`, TENTATIVE → `tentative`
+ * - CATEGORIES → `category`, when one is ours (`music`, `nightlife`, ...)
+ * - IMAGE, or an image ATTACH → `image_url`
+ * - RRULE → `recurrence_pattern` (`lib/recurrence.ts`) for the rules it
+ *   can express: daily, weekly or every other week on given days, and
+ *   monthly by day or by nth weekday. UNTIL becomes `event_end_date`.
+ *   Other rules (COUNT, hourly, ...) import the first date only, and
+ *   single-occurrence overrides (RECURRENCE-ID) are skipped.
+ *
+ * `event_hash` is the feed and the event's UID, so an event keeps its
+ * hash when the calendar moves it — calendars need no moved-event
+ * matching. `source_id` is the UID.
+ *
+ * ## Cursors
+ *
+ * Every feed is fetched each run, but only read when its content changed
+ * (`ics:<feed>`, holding a SHA-256 of it and its VEVENT count). A feed
+ * that can't be fetched is skipped with a warning, and retried next run.
+ */
+
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { eventCategoryEnum } from '../../db/schema.js';
+import { parseCalendar, unescapeText, type IcsComponent, type IcsProperty } from '../ics.js';
+import { addDays } from '../recurrence.js';
+import { TIMEZONE, manilaDate, manilaMinutes } from '../time.js';
+import type { RawRecord } from '../records.js';
+import { sourceHash, type Cursor, type SourceAdapter } from './index.js';
+
+/** How long to wait for a feed before skipping it */
+const FETCH_TIMEOUT_MS = 30_000;
+
+// ============================================================================
+// FEEDS
+// ============================================================================
+
+/** A feed's text, from the web or from disk */
+async function readFeed(feed: string): Promise<string> {
+  if (!/^(https?|webcal):\/\//i.test(feed)) return readFileSync(feed, 'utf8');
+
+  const res = await fetch(feed.replace(/^webcal:/i, 'https:'), { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  return res.text();
+}
+
+/** Every VEVENT of a calendar, however deeply nested */
+function vevents(components: IcsComponent[]): IcsComponent[] {
+  return components.flatMap(c => (c.name === 'VEVENT' ? [c] : vevents(c.components)));
+}
+
+function property(component: IcsComponent, name: string): IcsProperty | undefined {
+  return component.properties.find(p => p.name === name);
+}
+
+// ============================================================================
+// TIMES
+// ============================================================================
+
+/** A DATE or DATE-TIME in Manila; `time` is null for all-day values */
+interface LocalTime {
+  date: string;
+  time: string | null;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/** Milliseconds `timeZone` is ahead of UTC at an instant */
+function zoneOffset(timeZone: string, at: number): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    }).formatToParts(new Date(at)).map(p => [p.type, Number(p.value)]),
+  );
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second) - at;
+}
+
+/** A time zone Intl knows, other than Manila's own */
+function foreignZone(tzid: string | undefined): string | null {
+  if (!tzid || tzid === TIMEZONE) return null;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: tzid });
+    return tzid;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A DTSTART/DTEND as Manila local time. UTC values and values in other
+ * zones are converted; floating values, and zones Intl doesn't know, are
+ * read as Manila time.
+ */
+function localTime(prop: IcsProperty | undefined): LocalTime | null {
+  const match = prop?.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!prop || !match) return null;
+  const [, y, m, d, hh, mm, ss, utc] = match;
+  const date = `${y}-${m}-${d}`;
+  if (hh === undefined) return { date, time: null };
+
+  const wall = Date.UTC(Number(y), Number(m) - 1, Number(d), Number(hh), Number(mm), Number(ss));
+  const zone = utc ? 'UTC' : foreignZone(prop.params.TZID);
+  if (!zone) return { date, time: `${hh}:${mm}` };
+
+  // The wall time's offset, corrected once in case it falls across a DST change
+  let instant = wall - zoneOffset(zone, wall);
+  instant = wall - zoneOffset(zone, instant);
+  const minutes = manilaMinutes(new Date(instant));
+  return { date: manilaDate(new Date(instant)), time: `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}` };
+}
+
+// ============================================================================
+// RECURRENCE
+// ============================================================================
+
+const WEEKDAY_NAMES: Record<string, string> = {
+  SU: 'sunday', MO: 'monday', TU: 'tuesday', WE: 'wednesday', TH: 'thursday', FR: 'friday', SA: 'saturday',
+};
+const ORDINAL_NAMES: Record<string, string> = { '1': 'first', '2': 'second', '3': 'third', '4': 'fourth', '-1': 'last' };
+
+/**
+ * An RRULE as a `recurrence_pattern` and the series' last date, or null
+ * when our patterns can't express it.
+ */
+function recurrence(rrule: IcsProperty | undefined): { pattern: string; until: string | null } | null {
+  if (!rrule) return null;
+  const rule = Object.fromEntries(rrule.value.split(';').map(part => {
+    const [key, value = ''] = part.split('=');
+    return [key.toUpperCase(), value.toUpperCase()];
+  }));
+  if (rule.COUNT) return null;
+
+  const interval = rule.INTERVAL ?? '1';
+  const until = rule.UNTIL ? localTime({ name: 'UNTIL', params: {}, value: rule.UNTIL })?.date ?? null : null;
+  const days = rule.BYDAY ? rule.BYDAY.split(',') : [];
+  const series = (pattern: string | null) => (pattern ? { pattern, until } : null);
+
+  switch (rule.FREQ) {
+    case 'DAILY':
+      return series(interval === '1' && days.length === 0 ? 'daily' : null);
+
+    case 'WEEKLY': {
+      if (interval !== '1' && interval !== '2') return null;
+      const names = days.map(day => WEEKDAY_NAMES[day]);
+      if (names.some(name => name === undefined)) return null;
+      const kind = interval === '1' ? 'weekly' : 'biweekly';
+      return series(names.length > 0 ? `${kind}:${names.join(',')}` : kind);
+    }
+
+    case 'MONTHLY': {
+      if (interval !== '1') return null;
+      if (rule.BYMONTHDAY) return series(/^\d{1,2}$/.test(rule.BYMONTHDAY) ? `monthly:${rule.BYMONTHDAY}` : null);
+      if (days.length !== 1) return series(days.length === 0 ? 'monthly' : null);
+      // BYDAY=1SA, or BYDAY=SA;BYSETPOS=1
+      const nth = days[0].match(/^([+-]?\d)?(\w{2})$/);
+      const ordinal = ORDINAL_NAMES[(nth?.[1] ?? rule.BYSETPOS ?? '').replace('+', '')];
+      const weekday = nth ? WEEKDAY_NAMES[nth[2]] : undefined;
+      return series(ordinal && weekday ? `monthly:${ordinal}-${weekday}` : null);
+    }
+
+    default:
+      return null;
+  }
+}
+
+// ============================================================================
+// EVENTS
+// ============================================================================
+
+const CATEGORIES = new Set<string>(eventCategoryEnum.enumValues);
+
+/** A VEVENT as an event record; null for the ones ingest leaves out */
+function eventRecord(feed: string, vevent: IcsComponent): RawRecord | null {
+  // An edit to one occurrence of a series; the series itself is imported
+  if (property(vevent, 'RECURRENCE-ID')) return null;
+
+  const text = (name: string) => {
+    const prop = property(vevent, name);
+    return prop && prop.value.trim() !== '' ? unescapeText(prop.value).trim() : null;
+  };
+  const uid = text('UID');
+  const start = localTime(property(vevent, 'DTSTART'));
+  const end = localTime(property(vevent, 'DTEND'));
+  const series = recurrence(property(vevent, 'RRULE'));
+
+  let endDate: string | null = null;
+  let endTime: string | null = null;
+  if (start && end) {
+    if (start.time === null) {
+      // All-day DTEND is the day after the last one
+      const last = addDays(end.date, -1);
+      if (last > start.date) endDate = last;
+    } else {
+      endTime = end.time;
+      const overnight = end.date === addDays(start.date, 1) && end.time !== null && end.time < start.time;
+      if (end.date > start.date && !overnight) endDate = end.date;
+    }
+  }
+
+  const location = text('LOCATION');
+  const comma = location?.indexOf(',') ?? -1;
+  const [lat, lng] = property(vevent, 'GEO')?.value.split(';') ?? [];
+  const status = property(vevent, 'STATUS')?.value.toUpperCase();
+  const category = (text('CATEGORIES') ?? '').split(',').map(c => c.trim().toLowerCase()).find(c => CATEGORIES.has(c));
+  const image = vevent.properties.find(p =>
+    p.name === 'IMAGE' || (p.name === 'ATTACH' && p.params.FMTTYPE?.toLowerCase().startsWith('image/')));
+
+  return {
+    source_id: uid,
+    event_hash: sourceHash('ics', feed, uid ?? `${text('SUMMARY')}|${property(vevent, 'DTSTART')?.value}`),
+    title: text('SUMMARY'),
+    // Unreadable dates are passed on as written, for quarantine to show
+    event_date: start?.date ?? property(vevent, 'DTSTART')?.value ?? null,
+    event_end_date: series ? series.until : endDate,
+    event_time: start?.time ?? null,
+    end_time: endTime,
+    description: text('DESCRIPTION'),
+    venue_name: comma === -1 ? location : location!.slice(0, comma).trim(),
+    venue_address: comma === -1 ? null : location!.slice(comma + 1).trim() || null,
+    venue_lat: lat ?? null,
+    venue_lng: lng ?? null,
+    location_status: location ? 'confirmed' : 'tba',
+    signup_url: text('URL'),
+    category: category ?? null,
+    event_status: status === 'CANCELLED' ? 'cancelled' : status === 'TENTATIVE' ? 'tentative' : 'confirmed',
+    is_recurring: series !== null,
+    recurrence_pattern: series?.pattern ?? null,
+    image_url: image && /^https?:\/\//i.test(image.value) ? image.value : null,
+  };
+}
+
+// ============================================================================
+// ADAPTER
+// ============================================================================
+
+export function icsAdapter(feeds: string[]): SourceAdapter {
+  return {
+    source: 'ics',
+    location: feeds.join(', '),
+
+    async pull(cursors, full) {
+      const events: RawRecord[] = [];
+      const moved = new Map<string, Cursor>();
+
+      for (const feed of feeds) {
+        let text: string;
+        try {
+          text = await readFeed(feed);
+        } catch (err) {
+          console.log(`   ⚠️  Couldn't read ${feed} — skipping it: ${String(err).slice(0, 80)}`);
+          continue;
+        }
+
+        const key = `ics:${feed}`;
+        const digest = createHash('sha256').update(text).digest('hex');
+        if (!full && cursors.get(key)?.changedAt === digest) continue;
+
+        const found = vevents(parseCalendar(text));
+        for (const vevent of found) {
+          const record = eventRecord(feed, vevent);
+          if (record) events.push(record);
+        }
+        moved.set(key, { rowId: found.length, changedAt: digest });
+      }
+
+      return {
+        venues: () => [],
+        accounts: () => [],
+        posts: () => [],
+        events: () => events,
+        subEvents: () => [],
+        cursors: moved,
+      };
+    },
+
+    close() {},
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * Source Adapters — where ingest reads events from
+ *
+ * Ingest isn't tied to one source. An adapter reads its own format and
+ * hands over canonical records (`lib/records.ts`); from there every
+ * record is validated, upserted, linked to venues and deduplicated the
+ * same way, whatever it came from. Each event records the adapter that
+ * wrote it (`event.ingest_source`).
+ *
+ * - `blead` (`adapters/blead.ts`): blead's SQLite database, BLEAD_DB_PATH
+ * - `drop_folder` (`adapters/dropFolder.ts`): CSV and JSON files
+ *   dropped in INGEST_DROP_DIR
+ * - `ics` (`adapters/ics.ts`): external `.ics` calendars listed in
+ *   INGEST_ICS_FEEDS
+ *
+ * ## Cursors
+ *
+ * A run reads only what changed since the last one. Each adapter keeps
+ * its positions in `ingest_cursor` under keys of its own (blead's tables
+ * and `<table>:<block>`, `drop_folder:<file>`, `ics:<feed>`): `pull()`
+ * gets the stored cursors and says where this run leaves them, and
+ * ingest saves them once the run completes.
+ */
+
+import { createHash } from 'crypto';
+import type { ingestSourceEnum } from '../../db/schema.js';
+import type { RawRecord } from '../records.js';
+
+export type IngestSource = (typeof ingestSourceEnum.enumValues)[number];
+
+/** A position in a source (see `ingest_cursor`) */
+export interface Cursor {
+  rowId: number;
+  changedAt: string | null;
+}
+
+/** Stored cursors, by key */
+export type Cursors = Map<string, Cursor>;
+
+/**
+ * What one run reads from a source, kind by kind, in the order ingest
+ * writes them. Records are unvalidated.
+ */
+export interface SourcePull {
+  venues(): RawRecord[];
+  accounts(): RawRecord[];
+  posts(): RawRecord[];
+  events(): RawRecord[];
+  /**
+   * The whole list of sub-events of every event that was pulled, gained
+   * sub-events, or is the parent of a sub-event in `retry` (keys of
+   * quarantined sub-events whose event was missing) — ingest replaces
+   * each parent's sub-events with it.
+   */
+  subEvents(retry: string[]): RawRecord[];
+  /**
+   * Hashes of every event the source still lists, so an event that
+   * comes back under a new hash can be told from a new one. Sources that
+   * can't say don't implement it; their moved events arrive as new ones
+   * and are left to dedup.
+   */
+  listedEventHashes?(): Set<string>;
+  /** Where this run leaves the source's cursors */
+  cursors: Cursors;
+}
+
+export interface SourceAdapter {
+  source: IngestSource;
+  /** Where it reads from, for the log */
+  location: string;
+  /** Plan a run from the stored cursors; `full` ignores them */
+  pull(cursors: Cursors, full: boolean): Promise<SourcePull>;
+  close(): void;
+}
+
+/**
+ * An event hash for sources that don't have their own: the source's
+ * name and a SHA-256 of `parts`, normalized so spacing and case don't
+ * count.
+ */
+export function sourceHash(source: IngestSource, ...parts: (string | null | undefined)[]): string {
+  const normalized = parts.map(part => (part ?? '').trim().toLowerCase().replace(/\s+/g, ' '));
+  return `${source}:${createHash('sha256').update(normalized.join('|')).digest('hex')}`;
+}
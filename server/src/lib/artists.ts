@@ -0,0 +1,343 @@
+/**
+ * Artists — performer entities built from event credits
+ *
+ * blead stores performers as free text: `event.artists` is a list of
+ * names as the poster wrote them, and lineups often arrive as sub-events
+ * ("DJ Kat" at 22:00, "Manila Grey" at 23:30). `syncArtists()` turns
+ * those into `artist` rows linked to their events (`event_artist`) and
+ * sets (`sub_event_artist`), so an artist has a page and "events
+ * featuring X" is a join instead of a text search.
+ *
+ * ## Name normalization
+ * `normalizeArtistName()` folds case, accents, "&"/"and" and punctuation:
+ * "Sandwich", "SANDWICH" and "Sandwích!" are one artist. Two credits
+ * that normalize differently but carry the same Instagram handle are
+ * also one artist; the other spelling is recorded in `aliases`.
+ *
+ * ## Credits
+ * One credit can name several acts ("A b2b B", "X vs. Y") and carry a
+ * handle ("DJ Kat (@djkat)", "@djkat"). Placeholders like "TBA" or
+ * "special guests" are skipped.
+ *
+ * ## Sub-events
+ * A sub-event counts as a performer slot when its title matches one of
+ * the parent's credited artists, or its description says so ("DJ set",
+ * "live", "headliner", …). Its artists are linked to the slot and added
+ * to the parent's lineup after the credited ones.
+ *
+ * ## Rebuilds
+ * Links are rebuilt from scratch on every ingest, like the search index.
+ * Artist rows are kept (IDs stay stable for shared links) even when no
+ * event credits them any more.
+ */
+
+import postgres from 'postgres';
+import { SQL, eq, inArray, sql } from 'drizzle-orm';
+import { artist, event, eventArtist } from '../db/schema.js';
+import type { db as appDb } from '../db/connection.js';
+import { inTransaction } from './transactions.js';
+
+type Connection = ReturnType<typeof postgres>;
+type Database = typeof appDb;
+
+/** Credits longer than this are sentences, not names */
+const MAX_CREDIT_LENGTH = 80;
+
+/** Normalized credits that stand for "someone, to be announced" */
+const PLACEHOLDERS = new Set([
+  'tba', 'tbc', 'tbd', 'and more', 'more', 'special guest', 'special guests',
+  'guests', 'various artists', 'surprise guest', 'surprise guests',
+]);
+
+/** Separators between acts sharing one credit */
+const ACT_SEPARATOR = /\s+(?:b2b|b3b|vs\.?|x)\s+/i;
+
+/** Sub-event descriptions that mark a performer slot */
+const PERFORMER_DESCRIPTION = /\b(?:performer|dj|b2b|live|set|headliner|opening act|band)\b/i;
+
+/** An artist as shown in an event lineup */
+export interface LineupArtist {
+  id: number;
+  name: string;
+  instagramHandle: string | null;
+}
+
+/** One act parsed from a credit */
+export interface ArtistCredit {
+  name: string;
+  instagramHandle: string | null;
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Comparison key for an artist name: lowercase, accents and punctuation
+ * removed, "&" spelled out, whitespace collapsed.
+ */
+export function normalizeArtistName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Split a credit into acts and pull out Instagram handles.
+ * Returns an empty array for placeholders and non-names.
+ */
+export function parseArtistCredits(credit: string): ArtistCredit[] {
+  const text = credit.trim();
+  if (!text || text.length > MAX_CREDIT_LENGTH) return [];
+
+  const credits: ArtistCredit[] = [];
+  for (const part of text.split(ACT_SEPARATOR)) {
+    const handle = part.match(/@([\w.]{1,30})/)?.[1]?.replace(/\.$/, '').toLowerCase() ?? null;
+    const name = part
+      .replace(/\(\s*@[\w.]{1,30}\s*\)/g, '')
+      .replace(/@[\w.]{1,30}/g, '')
+      .replace(/\s+/g, ' ')
+      .trim() || handle;
+
+    if (!name) continue;
+    const key = normalizeArtistName(name);
+    if (!key || PLACEHOLDERS.has(key)) continue;
+    credits.push({ name, instagramHandle: handle });
+  }
+  return credits;
+}
+
+/** Credits from a JSONB `artists` value, tolerating non-array data */
+function creditsOf(value: unknown): ArtistCredit[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap(v => (typeof v === 'string' ? parseArtistCredits(v) : []));
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Condition selecting events that feature an artist, either credited
+ * directly or through one of their sub-events.
+ */
+export function featuresArtist(artistId: number): SQL {
+  return sql`${event.id} IN (SELECT ${eventArtist.eventId} FROM ${eventArtist} WHERE ${eventArtist.artistId} = ${artistId})`;
+}
+
+/**
+ * Lineups for a set of events, in billing order.
+ */
+export async function lineupsFor(database: Database, eventIds: number[]): Promise<Map<number, LineupArtist[]>> {
+  const lineups = new Map<number, LineupArtist[]>();
+  const ids = [...new Set(eventIds)];
+  if (ids.length === 0) return lineups;
+
+  const rows = await database
+    .select({
+      eventId: eventArtist.eventId,
+      id: artist.id,
+      name: artist.name,
+      instagramHandle: artist.instagramHandle,
+    })
+    .from(eventArtist)
+    .innerJoin(artist, eq(artist.id, eventArtist.artistId))
+    .where(inArray(eventArtist.eventId, ids))
+    .orderBy(eventArtist.eventId, eventArtist.position);
+
+  for (const { eventId, ...lineupArtist } of rows) {
+    const lineup = lineups.get(eventId) ?? [];
+    lineup.push(lineupArtist);
+    lineups.set(eventId, lineup);
+  }
+  return lineups;
+}
+
+/**
+ * Attach each event's `lineup`. Rows are matched by `parentEventId` when
+ * present (recurring occurrences), else by `id`.
+ */
+export async function withLineups<T extends { id: number; parentEventId?: number }>(
+  database: Database,
+  rows: T[],
+): Promise<(T & { lineup: LineupArtist[] })[]> {
+  const lineups = await lineupsFor(database, rows.map(r => r.parentEventId ?? r.id));
+  return rows.map(r => ({ ...r, lineup: lineups.get(r.parentEventId ?? r.id) ?? [] }));
+}
+
+// ============================================================================
+// SYNC
+// ============================================================================
+
+/**
+ * Resolves credits to artist IDs, creating artists as needed and
+ * remembering new aliases and handles to write back at the end.
+ */
+class ArtistResolver {
+  private byKey = new Map<string, number>();
+  private byHandle = new Map<string, number>();
+  private aliases = new Map<number, string[]>();
+  private handles = new Map<number, string | null>();
+  private changed = new Set<number>();
+  created = 0;
+
+  constructor(private conn: Connection) {}
+
+  async load(): Promise<void> {
+    const rows = await this.conn<{ id: number; normalized_name: string; aliases: unknown; instagram_handle: string | null }[]>`
+      SELECT id, normalized_name, aliases, instagram_handle FROM artist
+    `;
+    for (const row of rows) {
+      const aliases = Array.isArray(row.aliases) ? row.aliases.filter((a): a is string => typeof a === 'string') : [];
+      this.byKey.set(row.normalized_name, row.id);
+      for (const alias of aliases) {
+        if (!this.byKey.has(normalizeArtistName(alias))) this.byKey.set(normalizeArtistName(alias), row.id);
+      }
+      if (row.instagram_handle) this.byHandle.set(row.instagram_handle, row.id);
+      this.aliases.set(row.id, aliases);
+      this.handles.set(row.id, row.instagram_handle);
+    }
+  }
+
+  async resolve(credit: ArtistCredit): Promise<number> {
+    const key = normalizeArtistName(credit.name);
+    const handle = credit.instagramHandle;
+    let id = (handle ? this.byHandle.get(handle) : undefined) ?? this.byKey.get(key);
+
+    if (id === undefined) {
+      const [row] = await this.conn<{ id: number }[]>`
+        INSERT INTO artist (name, normalized_name, instagram_handle)
+        VALUES (${credit.name}, ${key}, ${handle})
+        ON CONFLICT (normalized_name) DO UPDATE SET updated_at = now()
+        RETURNING id
+      `;
+      id = row.id;
+      this.aliases.set(id, []);
+      this.handles.set(id, handle);
+      this.created++;
+    } else {
+      // Matched by handle under another spelling → remember the spelling
+      if (!this.byKey.has(key)) {
+        this.aliases.get(id)?.push(credit.name);
+        this.changed.add(id);
+      }
+      if (handle && !this.handles.get(id)) {
+        this.handles.set(id, handle);
+        this.changed.add(id);
+      }
+    }
+
+    this.byKey.set(key, id);
+    if (handle && !this.byHandle.has(handle)) this.byHandle.set(handle, id);
+    return id;
+  }
+
+  /** Write back aliases and handles learned while resolving */
+  async save(): Promise<void> {
+    const ids = [...this.changed];
+    if (ids.length === 0) return;
+    await this.conn`
+      UPDATE artist SET
+        aliases = v.aliases::jsonb,
+        instagram_handle = coalesce(artist.instagram_handle, v.handle),
+        updated_at = now()
+      FROM (
+        SELECT unnest(${ids}::int[]) AS id,
+               unnest(${ids.map(id => JSON.stringify(this.aliases.get(id) ?? []))}::text[]) AS aliases,
+               unnest(${ids.map(id => this.handles.get(id) ?? null)}::text[]) AS handle
+      ) v
+      WHERE artist.id = v.id
+    `;
+  }
+}
+
+/**
+ * Rebuild artists and their event/sub-event links from `event.artists`
+ * and performer sub-events.
+ *
+ * @returns Artists created and event links written
+ */
+export async function syncArtists(conn: Connection): Promise<{ created: number; links: number }> {
+  const events = await conn<{ id: number; artists: unknown }[]>`
+    SELECT id, artists FROM event
+  `;
+  const subEvents = await conn<{ id: number; event_id: number; title: string; description: string | null }[]>`
+    SELECT id, event_id, title, description FROM sub_event ORDER BY event_id, event_date, event_time, id
+  `;
+
+  const resolver = new ArtistResolver(conn);
+  await resolver.load();
+
+  // event id → artist ids in billing order
+  const lineups = new Map<number, number[]>();
+  const creditedKeys = new Map<number, Set<string>>();
+  for (const row of events) {
+    const lineup: number[] = [];
+    const keys = new Set<string>();
+    for (const credit of creditsOf(row.artists)) {
+      const id = await resolver.resolve(credit);
+      keys.add(normalizeArtistName(credit.name));
+      if (!lineup.includes(id)) lineup.push(id);
+    }
+    lineups.set(row.id, lineup);
+    creditedKeys.set(row.id, keys);
+  }
+
+  const slotIds: number[] = [];
+  const slotArtistIds: number[] = [];
+  const slotLinks = new Set<string>();
+  for (const se of subEvents) {
+    const lineup = lineups.get(se.event_id);
+    if (!lineup) continue;
+
+    const credited = creditedKeys.get(se.event_id)?.has(normalizeArtistName(se.title)) ?? false;
+    if (!credited && !PERFORMER_DESCRIPTION.test(se.description ?? '')) continue;
+
+    for (const credit of parseArtistCredits(se.title)) {
+      const id = await resolver.resolve(credit);
+      if (!slotLinks.has(`${se.id}:${id}`)) {
+        slotLinks.add(`${se.id}:${id}`);
+        slotIds.push(se.id);
+        slotArtistIds.push(id);
+      }
+      if (!lineup.includes(id)) lineup.push(id);
+    }
+  }
+
+  await resolver.save();
+
+  const eventIds: number[] = [];
+  const artistIds: number[] = [];
+  const positions: number[] = [];
+  for (const [eventId, lineup] of lineups) {
+    lineup.forEach((artistId, position) => {
+      eventIds.push(eventId);
+      artistIds.push(artistId);
+      positions.push(position);
+    });
+  }
+
+  // One transaction so readers never see an event without its lineup.
+  await inTransaction(conn, async tx => {
+    await tx`DELETE FROM sub_event_artist`;
+    await tx`DELETE FROM event_artist`;
+    if (eventIds.length > 0) {
+      await tx`
+        INSERT INTO event_artist (event_id, artist_id, position)
+        SELECT * FROM unnest(${eventIds}::int[], ${artistIds}::int[], ${positions}::int[])
+      `;
+    }
+    if (slotIds.length > 0) {
+      await tx`
+        INSERT INTO sub_event_artist (sub_event_id, artist_id)
+        SELECT * FROM unnest(${slotIds}::int[], ${slotArtistIds}::int[])
+      `;
+    }
+  });
+
+  return { created: resolver.created, links: eventIds.length };
+}
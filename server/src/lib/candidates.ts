@@ -0,0 +1,150 @@
+/**
+ * Candidates — possible duplicates waiting for an admin
+ *
+ * Dedup's fuzzy pass pairs events at the same venue whose titles share
+ * enough words. That catches "Techno Tuesdays w/ DJ X" vs "TECHNO
+ * TUESDAYS", but also two different nights of a themed series. So dedup
+ * scores every match (0–1, see `scripts/dedup-events.ts`) and:
+ *
+ * - merges it straight away at AUTO_MERGE_SCORE or above;
+ * - otherwise queues it in `dedup_candidate` with the reasons it
+ *   matched (`queueCandidates()`), for an admin to confirm — which
+ *   merges it like dedup would (`confirmCandidate()`) — or reject
+ *   (`rejectCandidate()`).
+ *
+ * Rejected pairs are returned by `keptApartPairs()`, so the next ingest
+ * doesn't propose them again. A pending candidate dedup no longer finds
+ * (one of the events was merged elsewhere, or changed so it no longer
+ * matches) leaves the queue.
+ */
+
+import postgres from 'postgres';
+import { mergeWithin, pairKey, type Merge, type MergeRule } from './merges.js';
+import { inTransaction } from './transactions.js';
+
+type Connection = ReturnType<typeof postgres>;
+
+/** Matches scoring at least this are merged without review */
+export const AUTO_MERGE_SCORE = 0.6;
+
+/** A match dedup wasn't sure enough of */
+export interface Candidate extends Merge {
+  /** 0–1; exact matches score 1 */
+  score: number;
+  /** Why the two events matched, for the reviewer */
+  reasons: string[];
+}
+
+/**
+ * Replace the pending queue with this run's candidates. A pair that was
+ * already confirmed or rejected keeps its verdict. Returns how many
+ * candidates are pending.
+ */
+export async function queueCandidates(conn: Connection, candidates: Candidate[]): Promise<number> {
+  return inTransaction(conn, async tx => {
+    for (const { winnerId, loserId, rule, similarity, score, reasons } of candidates) {
+      await tx`
+        INSERT INTO dedup_candidate (pair_key, winner_id, loser_id, rule, similarity, score, reasons)
+        VALUES (
+          ${pairKey(winnerId, loserId)}, ${winnerId}, ${loserId}, ${rule}, ${similarity},
+          ${score}, ${JSON.stringify(reasons)}::jsonb
+        )
+        ON CONFLICT (pair_key) DO UPDATE SET
+          winner_id = EXCLUDED.winner_id,
+          loser_id = EXCLUDED.loser_id,
+          rule = EXCLUDED.rule,
+          similarity = EXCLUDED.similarity,
+          score = EXCLUDED.score,
+          reasons = EXCLUDED.reasons,
+          updated_at = now()
+        WHERE dedup_candidate.status = 'pending'
+      `;
+    }
+
+    const keys = candidates.map(c => pairKey(c.winnerId, c.loserId));
+    await tx`
+      DELETE FROM dedup_candidate
+      WHERE status = 'pending' AND pair_key <> ALL(${keys}::text[])
+    `;
+
+    const [{ count }] = await tx<{ count: number }[]>`
+      SELECT count(*)::int AS count FROM dedup_candidate WHERE status = 'pending'
+    `;
+    return count;
+  });
+}
+
+export type ConfirmResult =
+  | { outcome: 'confirmed'; mergeId: number; winnerId: number; loserId: number }
+  | { outcome: 'not_found' | 'already_reviewed' | 'already_merged' | 'not_in_pair' };
+
+/**
+ * Confirm a candidate: merge it and record the verdict. `keepId` picks
+ * which of the two events survives (default: the one dedup ranked
+ * first). Fails with `already_merged` if either event was merged into
+ * something else in the meantime.
+ */
+export async function confirmCandidate(
+  conn: Connection,
+  candidateId: number,
+  accountId: number,
+  keepId?: number,
+): Promise<ConfirmResult> {
+  return inTransaction(conn, async (tx): Promise<ConfirmResult> => {
+    const [candidate] = await tx<{
+      winner_id: number;
+      loser_id: number;
+      rule: MergeRule;
+      similarity: number | null;
+      status: string;
+    }[]>`
+      SELECT winner_id, loser_id, rule, similarity, status
+      FROM dedup_candidate WHERE id = ${candidateId}
+      FOR UPDATE
+    `;
+    if (!candidate) return { outcome: 'not_found' };
+    if (candidate.status !== 'pending') return { outcome: 'already_reviewed' };
+
+    let winnerId = candidate.winner_id;
+    let loserId = candidate.loser_id;
+    if (keepId === loserId) [winnerId, loserId] = [loserId, winnerId];
+    else if (keepId !== undefined && keepId !== winnerId) return { outcome: 'not_in_pair' };
+
+    const merged = await tx`
+      SELECT id FROM event
+      WHERE id IN (${winnerId}, ${loserId}) AND merged_into_id IS NOT NULL
+      FOR UPDATE
+    `;
+    if (merged.length > 0) return { outcome: 'already_merged' };
+
+    const mergeId = await mergeWithin(tx, {
+      winnerId,
+      loserId,
+      rule: candidate.rule,
+      similarity: candidate.similarity,
+    });
+    await tx`
+      UPDATE dedup_candidate
+      SET status = 'confirmed', merge_id = ${mergeId}, reviewed_at = now(),
+          reviewed_by = ${accountId}, updated_at = now()
+      WHERE id = ${candidateId}
+    `;
+    return { outcome: 'confirmed', mergeId, winnerId, loserId };
+  });
+}
+
+export type RejectResult = 'rejected' | 'not_found' | 'already_reviewed';
+
+/** Reject a candidate: the two events stay apart for good */
+export async function rejectCandidate(conn: Connection, candidateId: number, accountId: number): Promise<RejectResult> {
+  const [row] = await conn<{ status: string }[]>`
+    UPDATE dedup_candidate
+    SET status = 'rejected', reviewed_at = now(), reviewed_by = ${accountId}, updated_at = now()
+    WHERE id = ${candidateId} AND status = 'pending'
+    RETURNING status
+  `;
+  if (row) return 'rejected';
+
+  const [existing] = await conn`SELECT id FROM dedup_candidate WHERE id = ${candidateId}`;
+  return existing ? 'already_reviewed' : 'not_found';
+}
@@ -0,0 +1,208 @@
+/**
+ * Map Clustering — zoom-aware grid clustering for map pins
+ *
+ * Groups events into screen-space grid cells so the client draws a few
+ * dozen markers instead of thousands. Positions are projected to Web
+ * Mercator pixels at the requested zoom (the same projection Leaflet
+ * uses), then bucketed into CELL_PX × CELL_PX cells. One pass, O(n).
+ *
+ * ## Output
+ * Each cell becomes one feature:
+ * - `location` — every event in the cell is at the same spot (one venue),
+ *   or the map is zoomed in past CLUSTER_MAX_ZOOM. Carries the events
+ *   themselves, like the client's old per-venue markers.
+ * - `cluster` — events spread over several spots. Carries the count,
+ *   dominant category, bounds, and a zoom by which it is sure to have
+ *   split apart (`expansion_zoom`), so clicking can zoom straight there.
+ *
+ * From CLUSTER_MAX_ZOOM up, no grid clustering happens: events are only
+ * grouped by identical location.
+ */
+
+import type { BBox } from './geo.js';
+
+/** Grid cell size in screen pixels (roughly a marker's footprint) */
+const CELL_PX = 64;
+
+/** Leaflet/OSM tile size */
+const TILE_PX = 256;
+
+/** At and above this zoom, events are returned per location, unclustered */
+export const CLUSTER_MAX_ZOOM = 16;
+
+/** Highest zoom the map allows */
+export const MAX_ZOOM = 19;
+
+/** Coordinate precision used to decide two events share a location (~11m) */
+const LOCATION_DECIMALS = 4;
+
+/** Minimum fields a row needs to be clustered */
+export interface ClusterablePoint {
+  venueLat: number | null;
+  venueLng: number | null;
+  category: string | null;
+}
+
+export interface ClusterFeature {
+  type: 'cluster';
+  id: string;
+  lat: number;
+  lng: number;
+  count: number;
+  dominantCategory: string;
+  categoryCounts: Record<string, number>;
+  bounds: BBox;
+  expansionZoom: number;
+}
+
+export interface LocationFeature<T> {
+  type: 'location';
+  id: string;
+  lat: number;
+  lng: number;
+  count: number;
+  dominantCategory: string;
+  events: T[];
+}
+
+export type MapFeature<T> = ClusterFeature | LocationFeature<T>;
+
+// ============================================================================
+// PROJECTION
+// ============================================================================
+
+/** Longitude → Web Mercator x in pixels at zoom 0 */
+function projectX(lng: number): number {
+  return ((lng + 180) / 360) * TILE_PX;
+}
+
+/** Latitude → Web Mercator y in pixels at zoom 0 */
+function projectY(lat: number): number {
+  const clamped = Math.max(-85.05112878, Math.min(85.05112878, lat));
+  const sin = Math.sin((clamped * Math.PI) / 180);
+  return (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * TILE_PX;
+}
+
+/**
+ * Zoom at which points spread over `bounds` can no longer fit in one
+ * cell. Grid boundaries may split the cluster sooner; never later.
+ */
+function expansionZoomFor(bounds: BBox, zoom: number): number {
+  const extent0 = Math.max(
+    projectX(bounds.maxLng) - projectX(bounds.minLng),
+    projectY(bounds.minLat) - projectY(bounds.maxLat),
+  );
+  if (extent0 <= 0) return CLUSTER_MAX_ZOOM;
+  const splitZoom = Math.ceil(Math.log2(CELL_PX / extent0));
+  return Math.max(zoom + 1, Math.min(CLUSTER_MAX_ZOOM, splitZoom));
+}
+
+// ============================================================================
+// CLUSTERING
+// ============================================================================
+
+function locationKey(lat: number, lng: number): string {
+  return `${lat.toFixed(LOCATION_DECIMALS)},${lng.toFixed(LOCATION_DECIMALS)}`;
+}
+
+function dominant(categoryCounts: Map<string, number>): string {
+  let best = 'other';
+  let bestCount = 0;
+  for (const [category, n] of categoryCounts) {
+    if (n > bestCount) {
+      best = category;
+      bestCount = n;
+    }
+  }
+  return best;
+}
+
+interface Bucket<T> {
+  points: T[];
+  locations: Set<string>;
+  latSum: number;
+  lngSum: number;
+  bounds: BBox;
+  categories: Map<string, number>;
+}
+
+function addToBucket<T extends ClusterablePoint>(buckets: Map<string, Bucket<T>>, key: string, point: T, lat: number, lng: number) {
+  let bucket = buckets.get(key);
+  if (!bucket) {
+    bucket = {
+      points: [],
+      locations: new Set(),
+      latSum: 0,
+      lngSum: 0,
+      bounds: { minLng: lng, minLat: lat, maxLng: lng, maxLat: lat },
+      categories: new Map(),
+    };
+    buckets.set(key, bucket);
+  }
+
+  const category = point.category ?? 'other';
+  bucket.points.push(point);
+  bucket.locations.add(locationKey(lat, lng));
+  bucket.latSum += lat;
+  bucket.lngSum += lng;
+  bucket.bounds.minLng = Math.min(bucket.bounds.minLng, lng);
+  bucket.bounds.minLat = Math.min(bucket.bounds.minLat, lat);
+  bucket.bounds.maxLng = Math.max(bucket.bounds.maxLng, lng);
+  bucket.bounds.maxLat = Math.max(bucket.bounds.maxLat, lat);
+  bucket.categories.set(category, (bucket.categories.get(category) ?? 0) + 1);
+}
+
+/**
+ * Cluster points for display at `zoom`. Points without coordinates are
+ * skipped. Input order is preserved within each location's `events`.
+ */
+export function clusterPoints<T extends ClusterablePoint>(points: T[], zoom: number): MapFeature<T>[] {
+  const clustering = zoom < CLUSTER_MAX_ZOOM;
+  const scale = 2 ** zoom / CELL_PX;
+  const buckets = new Map<string, Bucket<T>>();
+
+  for (const point of points) {
+    if (point.venueLat === null || point.venueLng === null) continue;
+    const lat = point.venueLat;
+    const lng = point.venueLng;
+
+    const key = clustering
+      ? `${zoom}:${Math.floor(projectX(lng) * scale)}:${Math.floor(projectY(lat) * scale)}`
+      : locationKey(lat, lng);
+    addToBucket(buckets, key, point, lat, lng);
+  }
+
+  const features: MapFeature<T>[] = [];
+  for (const [key, bucket] of buckets) {
+    const count = bucket.points.length;
+    const lat = bucket.latSum / count;
+    const lng = bucket.lngSum / count;
+    const dominantCategory = dominant(bucket.categories);
+
+    if (!clustering || bucket.locations.size === 1) {
+      features.push({
+        type: 'location',
+        id: `loc:${locationKey(lat, lng)}`,
+        lat,
+        lng,
+        count,
+        dominantCategory,
+        events: bucket.points,
+      });
+    } else {
+      features.push({
+        type: 'cluster',
+        id: `cluster:${key}`,
+        lat,
+        lng,
+        count,
+        dominantCategory,
+        categoryCounts: Object.fromEntries(bucket.categories),
+        bounds: bucket.bounds,
+        expansionZoom: expansionZoomFor(bucket.bounds, zoom),
+      });
+    }
+  }
+
+  return features;
+}
@@ -0,0 +1,330 @@
+/**
+ * Event Filters — shared, validated filter parsing for event queries
+ *
+ * Every endpoint that lists events (JSON API, map, venues, categories,
+ * iCalendar feeds) parses its query string with `parseEventFilters()` and
+ * turns the result into Drizzle conditions here, so filters mean the same
+ * thing everywhere and invalid values are rejected instead of silently
+ * ignored.
+ *
+ * ## Supported params
+ * | Param             | Format                         | Matches                                  |
+ * |-------------------|--------------------------------|------------------------------------------|
+ * | `category`        | enum list (`music,nightlife`)  | Any of the categories                    |
+ * | `date_from`       | YYYY-MM-DD                     | Events still running on/after this night |
+ * | `date_to`         | YYYY-MM-DD                     | Events starting on/before this night     |
+ * | `is_free`         | `true` / `false`               | Free or paid events                      |
+ * | `price_min`       | number ≥ 0 (₱)                 | Events whose top price is at least this  |
+ * | `price_max`       | number ≥ 0 (₱)                 | Events you can get into for at most this |
+ * | `venue_id`        | positive integer               | Events at this venue                     |
+ * | `artist_id`       | positive integer               | Events featuring this artist             |
+ * | `account`         | username list                  | Events posted by these accounts          |
+ * | `availability`    | enum list                      | Ticket availability status               |
+ * | `location_status` | enum list                      | How confirmed the venue is               |
+ * | `status`          | enum list                      | Event status (endpoints pick a default)  |
+ * | `search`          | text, max 200 chars            | Full-text search, see `lib/search.ts`    |
+ * | `happening_now`   | `true`                         | Events going on right now                |
+ * | `time_of_day`     | slot list (`evening,late_night`) | Start time in any of the slots         |
+ * | `day_of_week`     | weekday list (`fri,sat`)       | Events running on any of these days      |
+ *
+ * Lists accept comma-separated values or repeated params
+ * (`?category=music&category=arts`). Unknown params are ignored so
+ * endpoint-specific ones (page, bbox, zoom, …) pass through.
+ *
+ * ## Dates
+ * Date filters select events whose nights overlap [date_from, date_to],
+ * so a three-day fair that started yesterday is still "this weekend".
+ * A night runs until NIGHT_ROLLOVER the next morning: an 11pm–4am party
+ * belongs to the night it started, both when matching (an `end_time`
+ * before the rollover on the day after `event_date` doesn't extend the
+ * event into another night) and for "today" (`currentNightDate()` in
+ * `lib/time.ts` is still yesterday at 1am). Recurring series count as running until
+ * `event_end_date`, or indefinitely without one.
+ *
+ * ## Errors
+ * `parseEventFilters()` throws a `ZodError`; routes respond
+ * `400 { error: 'Invalid filters', fields: filterErrors(err) }` with one
+ * message per offending param.
+ */
+
+import { z } from 'zod';
+import { SQL, eq, gt, inArray, isNull, lte, or, sql } from 'drizzle-orm';
+import {
+  CLOCK_TIME_PATTERN,
+  event,
+  eventCategoryEnum,
+  eventStatusEnum,
+  availabilityStatusEnum,
+  locationStatusEnum,
+} from '../db/schema.js';
+import { searchCondition } from './search.js';
+import { featuresArtist } from './artists.js';
+import { postedByUsernames } from './sources.js';
+import { WEEKDAYS } from './recurrence.js';
+import {
+  NIGHT_ROLLOVER,
+  TIMEZONE,
+  TIME_SLOTS,
+  type TimeSlot,
+  hourOf,
+  inTimeSlot,
+  isHappeningAt,
+  weekdayOf,
+} from './time.js';
+
+// ============================================================================
+// SCHEMA
+// ============================================================================
+
+/** `?a=x,y&a=z` → ['x', 'y', 'z']; empty → undefined */
+function toList(value: unknown): unknown {
+  if (value === undefined || value === '') return undefined;
+  const parts = (Array.isArray(value) ? value : [value])
+    .flatMap(v => (typeof v === 'string' ? v.split(',') : [v]))
+    .map(v => (typeof v === 'string' ? v.trim() : v))
+    .filter(v => v !== '');
+  return parts.length > 0 ? parts : undefined;
+}
+
+/** Treat `?param=` the same as an absent param */
+function emptyToUndefined(value: unknown): unknown {
+  return value === '' ? undefined : value;
+}
+
+export function enumList<T extends [string, ...string[]]>(values: T) {
+  return z.preprocess(toList, z.array(z.enum(values, {
+    errorMap: () => ({ message: `Expected one of: ${values.join(', ')}` }),
+  })).optional());
+}
+
+function optional<T extends z.ZodTypeAny>(schema: T) {
+  return z.preprocess(emptyToUndefined, schema.optional());
+}
+
+export const isoDate = z
+  .string({ invalid_type_error: 'Expected a single date' })
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date as YYYY-MM-DD')
+  .refine(value => {
+    const date = new Date(`${value}T00:00:00Z`);
+    return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+  }, 'Not a valid calendar date');
+
+export const booleanParam = z.enum(['true', 'false'], {
+  errorMap: () => ({ message: 'Expected true or false' }),
+}).transform(value => value === 'true');
+
+const weekday = z
+  .string()
+  .transform(day => day.toLowerCase())
+  .refine(day => Object.hasOwn(WEEKDAYS, day), 'Expected weekdays (mon, tue, … or full names)')
+  .transform(day => WEEKDAYS[day]);
+
+const price = z.coerce
+  .number({ invalid_type_error: 'Expected a number' })
+  .nonnegative('Must be 0 or more');
+
+export const eventFilterSchema = z.object({
+  category: enumList(eventCategoryEnum.enumValues),
+  date_from: optional(isoDate),
+  date_to: optional(isoDate),
+  is_free: optional(booleanParam),
+  price_min: optional(price),
+  price_max: optional(price),
+  venue_id: optional(z.coerce.number({ invalid_type_error: 'Expected a venue ID' }).int('Expected a venue ID').positive('Expected a venue ID')),
+  artist_id: optional(z.coerce.number({ invalid_type_error: 'Expected an artist ID' }).int('Expected an artist ID').positive('Expected an artist ID')),
+  account: z.preprocess(toList, z.array(
+    z.string().regex(/^@?[\w.]{1,30}$/, 'Expected Instagram usernames').transform(u => u.replace(/^@/, '').toLowerCase())
+  ).optional()),
+  availability: enumList(availabilityStatusEnum.enumValues),
+  location_status: enumList(locationStatusEnum.enumValues),
+  status: enumList(eventStatusEnum.enumValues),
+  search: optional(z.string({ invalid_type_error: 'Expected a single search term' }).trim().max(200, 'Search is limited to 200 characters')),
+  happening_now: optional(booleanParam),
+  time_of_day: enumList(Object.keys(TIME_SLOTS) as [TimeSlot, ...TimeSlot[]]),
+  day_of_week: z.preprocess(toList, z.array(weekday).optional()),
+}).superRefine((filters, ctx) => {
+  if (filters.date_from && filters.date_to && filters.date_from > filters.date_to) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['date_to'], message: 'Must be on or after date_from' });
+  }
+  if (filters.price_min !== undefined && filters.price_max !== undefined && filters.price_min > filters.price_max) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['price_max'], message: 'Must be at least price_min' });
+  }
+});
+
+/** Parsed, validated event filters */
+export type EventFilters = z.infer<typeof eventFilterSchema>;
+
+/**
+ * Validate query-string filters. Throws `ZodError` on invalid input.
+ */
+export function parseEventFilters(query: unknown): EventFilters {
+  return eventFilterSchema.parse(query ?? {});
+}
+
+/**
+ * Field-level messages from a filter `ZodError`, e.g.
+ * `{ date_from: 'Expected a date as YYYY-MM-DD' }`.
+ */
+export function filterErrors(err: z.ZodError): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const issue of err.issues) {
+    const field = String(issue.path[0] ?? 'query');
+    fields[field] ??= issue.message;
+  }
+  return fields;
+}
+
+// ============================================================================
+// CONDITIONS
+// ============================================================================
+
+/** Lowest price to get in: 0 for free events, else price_min/price */
+const entryPrice = sql`CASE WHEN ${event.isFree} THEN 0 ELSE coalesce(${event.priceMin}, ${event.price}) END`;
+
+/** Highest listed price: 0 for free events, else price_max/price/price_min */
+const topPrice = sql`CASE WHEN ${event.isFree} THEN 0 ELSE coalesce(${event.priceMax}, ${event.price}, ${event.priceMin}) END`;
+
+/** Filters handled by `buildDateConditions()` */
+export type DateFilters = Pick<EventFilters, 'date_from' | 'date_to' | 'happening_now' | 'time_of_day' | 'day_of_week'>;
+
+/**
+ * Excludes duplicates dedup merged into another event (see
+ * `lib/merges.ts`). Already part of `buildEventConditions()`; add it
+ * to queries that join events without going through the filters.
+ */
+export function notMerged(): SQL {
+  return isNull(event.mergedIntoId);
+}
+
+/**
+ * Conditions for every filter except the date/time ones, plus
+ * `notMerged()`. Combine with `and(...)`.
+ */
+export function buildEventConditions(filters: Omit<EventFilters, keyof DateFilters>): SQL[] {
+  const conditions: SQL[] = [notMerged()];
+
+  if (filters.status) {
+    conditions.push(inArray(event.eventStatus, filters.status));
+  }
+  if (filters.category) {
+    conditions.push(inArray(event.category, filters.category));
+  }
+  if (filters.is_free !== undefined) {
+    conditions.push(eq(event.isFree, filters.is_free));
+  }
+  if (filters.price_min !== undefined) {
+    conditions.push(sql`${topPrice} >= ${filters.price_min}`);
+  }
+  if (filters.price_max !== undefined) {
+    conditions.push(sql`${entryPrice} <= ${filters.price_max}`);
+  }
+  if (filters.venue_id !== undefined) {
+    conditions.push(eq(event.venueId, filters.venue_id));
+  }
+  if (filters.artist_id !== undefined) {
+    conditions.push(featuresArtist(filters.artist_id));
+  }
+  if (filters.account) {
+    conditions.push(postedByUsernames(filters.account));
+  }
+  if (filters.availability) {
+    conditions.push(inArray(event.availabilityStatus, filters.availability));
+  }
+  if (filters.location_status) {
+    conditions.push(inArray(event.locationStatus, filters.location_status));
+  }
+  if (filters.search) {
+    conditions.push(searchCondition(filters.search));
+  }
+
+  return conditions;
+}
+
+// ============================================================================
+// DATES
+// ============================================================================
+
+/**
+ * `end_time` as an interval, NULL when missing or malformed. Compared as
+ * text, `5:00` would sort after `06:00`.
+ */
+const endClock = sql`CASE WHEN ${event.endTime} ~ ${CLOCK_TIME_PATTERN} THEN make_interval(hours => split_part(${event.endTime}, ':', 1)::int, mins => split_part(${event.endTime}, ':', 2)::int) END`;
+
+/**
+ * Last night an event runs on. An `end_time` before the rollover on a
+ * later `event_end_date` means the final night began the day before.
+ */
+const lastNight = sql`CASE
+  WHEN ${event.isRecurring} THEN coalesce(${event.eventEndDate}, 'infinity'::date)
+  WHEN ${event.eventEndDate} > ${event.eventDate} AND ${endClock} < ${NIGHT_ROLLOVER}::interval THEN ${event.eventEndDate} - 1
+  ELSE coalesce(${event.eventEndDate}, ${event.eventDate})
+END`;
+
+/** Manila hour of the start time; NULL without a valid `event_time` */
+const startHour = sql`CASE WHEN ${event.eventTime} ~ ${CLOCK_TIME_PATTERN} THEN extract(hour FROM ${event.startAt} AT TIME ZONE ${TIMEZONE}) END`;
+
+function timeSlotCondition(slot: TimeSlot): SQL {
+  const [from, to] = TIME_SLOTS[slot];
+  return from < to
+    ? sql`(${startHour} >= ${from} AND ${startHour} < ${to})`
+    : sql`(${startHour} >= ${from} OR ${startHour} < ${to})`;
+}
+
+/**
+ * Conditions for the date/time filters. The `date_from`/`date_to` range
+ * selects events whose nights overlap it, not just those starting inside
+ * it; `day_of_week` likewise matches any night the event runs on.
+ */
+export function buildDateConditions(filters: DateFilters, now = new Date()): SQL[] {
+  const conditions: SQL[] = [];
+
+  if (filters.date_from) {
+    conditions.push(sql`${lastNight} >= ${filters.date_from}::date`);
+  }
+  if (filters.date_to) {
+    conditions.push(lte(event.eventDate, filters.date_to));
+  }
+  if (filters.happening_now) {
+    conditions.push(lte(event.startAt, now), gt(event.endAt, now));
+  }
+  if (filters.time_of_day) {
+    conditions.push(or(...filters.time_of_day.map(timeSlotCondition))!);
+  }
+  if (filters.day_of_week) {
+    // A week of nights covers every weekday, so longer runs needn't be walked
+    conditions.push(sql`EXISTS (
+      SELECT 1
+      FROM generate_series(${event.eventDate}::timestamp, least(${lastNight}, ${event.eventDate} + 6)::timestamp, interval '1 day') AS night
+      WHERE extract(dow FROM night) IN ${filters.day_of_week}
+    )`);
+  }
+
+  return conditions;
+}
+
+/**
+ * The time filters, checked in memory for expanded recurring
+ * occurrences (one night each, with `startAt`/`endAt` already shifted).
+ */
+export function matchesTimeFilters(
+  row: { eventDate: string; eventTime: string | null; startAt?: Date | null; endAt?: Date | null },
+  filters: DateFilters,
+  now = new Date(),
+): boolean {
+  if (filters.happening_now && !isHappeningAt(row, now)) return false;
+  if (filters.time_of_day) {
+    const hour = hourOf(row.eventTime);
+    if (hour === null || !filters.time_of_day.some(slot => inTimeSlot(hour, slot))) return false;
+  }
+  if (filters.day_of_week && !filters.day_of_week.includes(weekdayOf(row.eventDate))) return false;
+  return true;
+}
+
+/**
+ * Condition selecting events that haven't ended by `now` (via the
+ * generated `end_at` column), so "upcoming" drops this morning's market
+ * once it's over but keeps a party that is still going.
+ */
+export function notEndedBy(now: Date): SQL {
+  return gt(event.endAt, now);
+}
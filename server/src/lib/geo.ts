@@ -0,0 +1,264 @@
+/**
+ * Geo Helpers — geohash indexing and spatial conditions for events
+ *
+ * Events store a geohash of their venue coordinates (`event.geohash`,
+ * btree-indexed). A geohash is a base-32 string where every extra
+ * character narrows the cell, so "all events inside this cell" is a
+ * prefix range scan on the index:
+ *
+ *   geohash >= 'wdw4f'  AND  geohash <= 'wdw4fzzzz'
+ *
+ * Spatial queries cover the search area with a handful of cells at the
+ * finest precision that keeps the cell count small, use those ranges to
+ * hit the index, then apply the exact lat/lng (or distance) check to the
+ * candidates. This avoids a PostGIS dependency and works anywhere, not
+ * just around Metro Manila.
+ *
+ * ## Precision
+ * Stored hashes use 9 characters (~5m cells). Cover cells range from
+ * precision 9 down to 1 (~5000km) depending on the area size.
+ *
+ * Geohashes are computed in TypeScript, so `refreshEventGeohashes()` runs
+ * after every ingest and geocoding pass to keep them in sync with
+ * `venue_lat`/`venue_lng`.
+ */
+
+import postgres from 'postgres';
+import { SQL, and, between, or, sql } from 'drizzle-orm';
+import { event } from '../db/schema.js';
+
+const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+/** Characters stored per event geohash (~4.8m × 4.8m cells) */
+export const GEOHASH_PRECISION = 9;
+
+/** Maximum cells used to cover a query area */
+const MAX_COVER_CELLS = 32;
+
+/** Mean Earth radius, as used by the client's haversine helpers */
+const EARTH_RADIUS_KM = 6371;
+
+/** Bounding box in degrees (west, south, east, north) */
+export interface BBox {
+  minLng: number;
+  minLat: number;
+  maxLng: number;
+  maxLat: number;
+}
+
+type Connection = ReturnType<typeof postgres>;
+
+// ============================================================================
+// GEOHASH ENCODING
+// ============================================================================
+
+/**
+ * Encode a coordinate as a geohash string.
+ */
+export function encodeGeohash(lat: number, lng: number, precision = GEOHASH_PRECISION): string {
+  let latMin = -90, latMax = 90;
+  let lngMin = -180, lngMax = 180;
+  let hash = '';
+  let bit = 0;
+  let ch = 0;
+  let evenBit = true; // geohash interleaves bits starting with longitude
+
+  while (hash.length < precision) {
+    if (evenBit) {
+      const mid = (lngMin + lngMax) / 2;
+      if (lng >= mid) {
+        ch = (ch << 1) | 1;
+        lngMin = mid;
+      } else {
+        ch = ch << 1;
+        lngMax = mid;
+      }
+    } else {
+      const mid = (latMin + latMax) / 2;
+      if (lat >= mid) {
+        ch = (ch << 1) | 1;
+        latMin = mid;
+      } else {
+        ch = ch << 1;
+        latMax = mid;
+      }
+    }
+    evenBit = !evenBit;
+
+    if (++bit === 5) {
+      hash += BASE32[ch];
+      bit = 0;
+      ch = 0;
+    }
+  }
+
+  return hash;
+}
+
+/** Cell height/width in degrees at a given precision */
+function cellSize(precision: number): { latDeg: number; lngDeg: number } {
+  const bits = precision * 5;
+  const lngBits = Math.ceil(bits / 2);
+  const latBits = Math.floor(bits / 2);
+  return { latDeg: 180 / 2 ** latBits, lngDeg: 360 / 2 ** lngBits };
+}
+
+/**
+ * Geohash cells covering a bounding box, at the finest precision that
+ * needs at most `maxCells` cells.
+ */
+export function coveringGeohashes(bbox: BBox, maxCells = MAX_COVER_CELLS): string[] {
+  for (let precision = GEOHASH_PRECISION; precision >= 1; precision--) {
+    const { latDeg, lngDeg } = cellSize(precision);
+    const latStart = Math.floor((bbox.minLat + 90) / latDeg);
+    const latEnd = Math.floor((Math.min(bbox.maxLat, 90 - 1e-9) + 90) / latDeg);
+    const lngStart = Math.floor((bbox.minLng + 180) / lngDeg);
+    const lngEnd = Math.floor((Math.min(bbox.maxLng, 180 - 1e-9) + 180) / lngDeg);
+
+    const count = (latEnd - latStart + 1) * (lngEnd - lngStart + 1);
+    if (count > maxCells && precision > 1) continue;
+
+    const cells = new Set<string>();
+    for (let i = latStart; i <= latEnd; i++) {
+      for (let j = lngStart; j <= lngEnd; j++) {
+        // Encode the cell centre to get that cell's hash
+        const lat = -90 + (i + 0.5) * latDeg;
+        const lng = -180 + (j + 0.5) * lngDeg;
+        cells.add(encodeGeohash(lat, lng, precision));
+      }
+    }
+    return [...cells].sort();
+  }
+  return [];
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Parse a `minLng,minLat,maxLng,maxLat` query value.
+ * Returns null when malformed, out of range, or inverted
+ * (boxes crossing the antimeridian are not supported).
+ */
+export function parseBbox(value: string): BBox | null {
+  const parts = value.split(',').map(p => Number(p.trim()));
+  if (parts.length !== 4 || parts.some(p => !Number.isFinite(p))) return null;
+
+  const [minLng, minLat, maxLng, maxLat] = parts;
+  if (minLng < -180 || maxLng > 180 || minLat < -90 || maxLat > 90) return null;
+  if (minLng > maxLng || minLat > maxLat) return null;
+
+  return { minLng, minLat, maxLng, maxLat };
+}
+
+/**
+ * Bounding box enclosing a circle of `radiusKm` around a point.
+ */
+export function bboxAround(lat: number, lng: number, radiusKm: number): BBox {
+  const latDelta = (radiusKm / EARTH_RADIUS_KM) * (180 / Math.PI);
+  const cosLat = Math.cos((lat * Math.PI) / 180);
+  const lngDelta = cosLat > 1e-6 ? Math.min(180, latDelta / cosLat) : 180;
+
+  return {
+    minLng: Math.max(-180, lng - lngDelta),
+    minLat: Math.max(-90, lat - latDelta),
+    maxLng: Math.min(180, lng + lngDelta),
+    maxLat: Math.min(90, lat + latDelta),
+  };
+}
+
+/**
+ * Great-circle (haversine) distance in km between two points; the
+ * in-memory twin of `distanceKm()`.
+ */
+export function haversineKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const h = Math.sin(toRad(lat2 - lat1) / 2) ** 2
+    + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(toRad(lng2 - lng1) / 2) ** 2;
+  return EARTH_RADIUS_KM * 2 * Math.asin(Math.sqrt(h));
+}
+
+// ============================================================================
+// QUERY CONDITIONS
+// ============================================================================
+
+/**
+ * Condition selecting events whose venue lies inside `bbox`.
+ * The geohash ranges use the index; the lat/lng check makes it exact.
+ */
+export function withinBbox(bbox: BBox): SQL {
+  const ranges = coveringGeohashes(bbox).map(prefix =>
+    between(event.geohash, prefix, prefix.padEnd(GEOHASH_PRECISION, 'z'))
+  );
+
+  return and(
+    or(...ranges),
+    between(event.venueLat, bbox.minLat, bbox.maxLat),
+    between(event.venueLng, bbox.minLng, bbox.maxLng),
+  )!;
+}
+
+/**
+ * Great-circle (haversine) distance in km from a point to the event venue.
+ */
+export function distanceKm(lat: number, lng: number): SQL<number> {
+  return sql<number>`${EARTH_RADIUS_KM} * 2 * asin(sqrt(
+    power(sin(radians(${event.venueLat} - ${lat}::float8) / 2), 2) +
+    cos(radians(${lat}::float8)) * cos(radians(${event.venueLat})) *
+    power(sin(radians(${event.venueLng} - ${lng}::float8) / 2), 2)
+  ))`.mapWith(Number);
+}
+
+/**
+ * Condition selecting events within `radiusKm` of a point.
+ */
+export function withinRadius(lat: number, lng: number, radiusKm: number): SQL {
+  return and(
+    withinBbox(bboxAround(lat, lng, radiusKm)),
+    sql`${distanceKm(lat, lng)} <= ${radiusKm}`,
+  )!;
+}
+
+// ============================================================================
+// INDEX MAINTENANCE
+// ============================================================================
+
+/**
+ * Bring `event.geohash` in line with `venue_lat`/`venue_lng`: compute it
+ * where missing or stale, and clear it where coordinates were removed.
+ *
+ * @returns Number of events whose geohash changed
+ */
+export async function refreshEventGeohashes(conn: Connection): Promise<number> {
+  const rows = await conn<{ id: number; venue_lat: number; venue_lng: number; geohash: string | null }[]>`
+    SELECT id, venue_lat, venue_lng, geohash
+    FROM event
+    WHERE venue_lat IS NOT NULL AND venue_lng IS NOT NULL
+  `;
+
+  const ids: number[] = [];
+  const hashes: string[] = [];
+  for (const row of rows) {
+    const hash = encodeGeohash(row.venue_lat, row.venue_lng);
+    if (hash !== row.geohash) {
+      ids.push(row.id);
+      hashes.push(hash);
+    }
+  }
+
+  if (ids.length > 0) {
+    await conn`
+      UPDATE event SET geohash = v.geohash
+      FROM (SELECT unnest(${ids}::int[]) AS id, unnest(${hashes}::text[]) AS geohash) v
+      WHERE event.id = v.id
+    `;
+  }
+
+  const cleared = await conn`
+    UPDATE event SET geohash = NULL
+    WHERE (venue_lat IS NULL OR venue_lng IS NULL) AND geohash IS NOT NULL
+  `;
+
+  return ids.length + cleared.count;
+}
@@ -0,0 +1,96 @@
+/**
+ * Operating Hours — venue opening times and "open now"
+ *
+ * Stored as `venue.operating_hours` (JSONB) in the shape the admin
+ * `VenueHoursEditor` produces:
+ *
+ * ```json
+ * { "friday": { "open": "18:00", "close": "03:00" },
+ *   "monday": { "closed": true },
+ *   "notes": "Kitchen closes at 11pm" }
+ * ```
+ *
+ * Days left out are unknown, not closed. Times are Manila local "HH:MM".
+ *
+ * ## After midnight
+ * A `close` at or before `open` runs into the next day: Friday
+ * 18:00–03:00 means the bar is still open at 1am Saturday, whatever
+ * Saturday's own hours say. `open` equal to `close` means open all day.
+ */
+
+import { z } from 'zod';
+import { manilaDate, manilaMinutes, weekdayOf } from './time.js';
+
+/** Day keys indexed by weekday number (0 = Sunday) */
+export const DAY_KEYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+export type DayKey = (typeof DAY_KEYS)[number];
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// ============================================================================
+// SCHEMA
+// ============================================================================
+
+export const clockTime = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected a time as HH:MM');
+
+const dayHoursSchema = z.object({
+  open: clockTime.optional(),
+  close: clockTime.optional(),
+  closed: z.boolean().optional(),
+}).strict().refine(
+  day => day.closed === true || (day.open !== undefined) === (day.close !== undefined),
+  'Expected both open and close, or closed: true',
+);
+
+export const operatingHoursSchema = z.object({
+  ...Object.fromEntries(DAY_KEYS.map(day => [day, dayHoursSchema.optional()])) as Record<DayKey, z.ZodOptional<typeof dayHoursSchema>>,
+  notes: z.string().trim().max(500, 'Notes are limited to 500 characters').optional(),
+}).strict();
+
+export type DayHours = z.infer<typeof dayHoursSchema>;
+export type OperatingHours = z.infer<typeof operatingHoursSchema>;
+
+// ============================================================================
+// OPEN NOW
+// ============================================================================
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Minutes after that day's midnight during which the venue is open,
+ * as [from, to) with `to` possibly past 1440 for after-midnight closing.
+ */
+function openSpan(day: DayHours | undefined): [number, number] | null {
+  if (!day || day.closed || !day.open || !day.close) return null;
+  const open = toMinutes(day.open);
+  const close = toMinutes(day.close);
+  return [open, close > open ? close : close + MINUTES_PER_DAY];
+}
+
+/**
+ * Whether a venue is open at an instant, in Manila time. Returns null
+ * when its hours for the relevant days aren't known.
+ */
+export function isOpenAt(hours: OperatingHours | null | undefined, now = new Date()): boolean | null {
+  if (!hours) return null;
+
+  const weekday = weekdayOf(manilaDate(now));
+  const minutes = manilaMinutes(now);
+  const today = hours[DAY_KEYS[weekday]];
+  const yesterday = hours[DAY_KEYS[(weekday + 6) % 7]];
+
+  const todaySpan = openSpan(today);
+  if (todaySpan && minutes >= todaySpan[0] && minutes < todaySpan[1]) return true;
+
+  // Last night's hours running past midnight
+  const yesterdaySpan = openSpan(yesterday);
+  if (yesterdaySpan && minutes + MINUTES_PER_DAY < yesterdaySpan[1]) return true;
+
+  return today === undefined ? null : false;
+}
@@ -0,0 +1,446 @@
+/**
+ * iCalendar (RFC 5545) Builder and Parser
+ *
+ * Serializes events into `.ics` calendars for the single-event download
+ * (`GET /api/events/:id.ics`) and the subscribable feeds
+ * (`GET /api/feeds/events.ics`), and parses external calendars for the
+ * `.ics` ingest source (`lib/adapters/ics.ts`).
+ *
+ * ## Key behaviours
+ *
+ * - **Stable UIDs:** Derived from `event_hash`, so when a calendar client
+ *   re-fetches a feed after an ingest run, updated events replace the old
+ *   entries instead of duplicating them. `SEQUENCE` follows `updated_at`.
+ * - **Asia/Manila:** All local times are emitted with `TZID=Asia/Manila`
+ *   and the calendar carries a matching VTIMEZONE (UTC+8, no DST).
+ * - **Overnight events:** An `end_time` earlier than `event_time`
+ *   (e.g. 22:00–04:00) ends on the following day.
+ * - **Undisclosed venues:** `secret`, `dm_for_details` and `tba` locations
+ *   never leak coordinates; the LOCATION text explains the status instead.
+ * - **Sub-events:** Dated or timed sub-events become their own VEVENTs
+ *   (linked with RELATED-TO); undated ones are listed in the description.
+ * - **Parsing:** `parseCalendar()` only unfolds lines and splits them into
+ *   components and properties; what the properties mean is left to the
+ *   caller.
+ */
+
+import { createHash } from 'crypto';
+import { event, subEvent } from '../db/schema.js';
+import { TIMEZONE } from './time.js';
+
+type EventRow = typeof event.$inferSelect;
+type SubEventRow = typeof subEvent.$inferSelect;
+
+/** Event shape accepted by the builder (relations are optional) */
+export interface IcsEvent extends EventRow {
+  subEvent?: SubEventRow[];
+  sourcePost?: { postUrl: string } | null;
+}
+
+export interface CalendarOptions {
+  /** Calendar display name (X-WR-CALNAME) */
+  name: string;
+  /** Optional calendar description (X-WR-CALDESC) */
+  description?: string;
+}
+
+const TZID = TIMEZONE;
+const UID_DOMAIN = 'wheresthefx.com';
+const PRODID = '-//WheresTheFX//Events//EN';
+
+/** Assumed duration when an event has a start time but no end time */
+const DEFAULT_DURATION_MINUTES = 3 * 60;
+
+/** Manila has been UTC+8 without daylight saving since 1978 */
+const VTIMEZONE = [
+  'BEGIN:VTIMEZONE',
+  `TZID:${TZID}`,
+  `X-LIC-LOCATION:${TZID}`,
+  'BEGIN:STANDARD',
+  'TZOFFSETFROM:+0800',
+  'TZOFFSETTO:+0800',
+  'TZNAME:PHT',
+  'DTSTART:19700101T000000',
+  'END:STANDARD',
+  'END:VTIMEZONE',
+];
+
+// ============================================================================
+// FORMATTING HELPERS
+// ============================================================================
+
+/** Escape a TEXT property value (RFC 5545 §3.3.11) */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line at 75 octets (RFC 5545 §3.1).
+ * Splits on character boundaries so multi-byte UTF-8 (₱, emoji) survives.
+ */
+function foldLine(line: string): string {
+  if (Buffer.byteLength(line) <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts toward the limit
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/** Parse "HH:MM" / "HH:MM:SS" into minutes after midnight */
+function parseClock(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const match = value.match(/^(\d{1,2}):(\d{2})/);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+/** Add days to a YYYY-MM-DD date string */
+function addDays(date: string, days: number): string {
+  const [y, m, d] = date.split('-').map(Number);
+  const result = new Date(Date.UTC(y, m - 1, d + days));
+  return result.toISOString().slice(0, 10);
+}
+
+/** Format a local date + minutes-after-midnight as an iCal DATE-TIME */
+function formatLocal(date: string, minutes: number): string {
+  const dayOffset = Math.floor(minutes / 1440);
+  const inDay = minutes % 1440;
+  const day = addDays(date, dayOffset).replace(/-/g, '');
+  const hh = String(Math.floor(inDay / 60)).padStart(2, '0');
+  const mm = String(inDay % 60).padStart(2, '0');
+  return `${day}T${hh}${mm}00`;
+}
+
+/** Format a JS Date as a UTC iCal DATE-TIME */
+function formatUtc(value: Date): string {
+  return value.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// ============================================================================
+// EVENT → VEVENT
+// ============================================================================
+
+/** Calendar-level UID for an event; stable across re-ingests */
+function eventUid(e: EventRow): string {
+  return e.eventHash ? `${e.eventHash}@${UID_DOMAIN}` : `event-${e.id}@${UID_DOMAIN}`;
+}
+
+/**
+ * Sub-event UID. Sub-event rows are re-created on every ingest, so the
+ * UID is derived from the parent hash plus the sub-event's content.
+ */
+function subEventUid(parent: EventRow, se: SubEventRow): string {
+  const base = parent.eventHash || `event-${parent.id}`;
+  const digest = createHash('sha1')
+    .update(`${se.title}|${se.eventDate ?? ''}|${se.eventTime ?? ''}`)
+    .digest('hex')
+    .slice(0, 12);
+  return `${base}-${digest}@${UID_DOMAIN}`;
+}
+
+/**
+ * DTSTART/DTEND lines for a date range with optional clock times.
+ * Untimed events become all-day entries (DTEND is exclusive).
+ */
+function timingLines(
+  startDate: string,
+  endDate: string | null,
+  startTime: string | null,
+  endTime: string | null,
+): string[] {
+  const start = parseClock(startTime);
+  const lastDate = endDate && endDate > startDate ? endDate : startDate;
+
+  if (start === null) {
+    return [
+      `DTSTART;VALUE=DATE:${startDate.replace(/-/g, '')}`,
+      `DTEND;VALUE=DATE:${addDays(lastDate, 1).replace(/-/g, '')}`,
+    ];
+  }
+
+  let end = parseClock(endTime);
+  if (end === null || end === start) {
+    end = start + DEFAULT_DURATION_MINUTES;
+  } else if (end < start) {
+    // Crosses midnight: 23:00–04:00 ends the next morning
+    end += 1440;
+  }
+
+  return [
+    `DTSTART;TZID=${TZID}:${formatLocal(startDate, start)}`,
+    `DTEND;TZID=${TZID}:${formatLocal(lastDate, end)}`,
+  ];
+}
+
+/** Human-readable LOCATION and optional GEO for the event's location status */
+function locationLines(e: EventRow): string[] {
+  switch (e.locationStatus) {
+    case 'secret':
+      return [`LOCATION:${escapeText('Secret location — revealed to attendees')}`];
+    case 'dm_for_details': {
+      const who = e.sourceUsername ? ` @${e.sourceUsername}` : ' the organizer';
+      return [`LOCATION:${escapeText(`DM${who} for location details`)}`];
+    }
+    case 'tba':
+      return [`LOCATION:${escapeText('Location TBA')}`];
+  }
+
+  const lines: string[] = [];
+  const parts = [e.venueName, e.venueAddress].filter((p): p is string => !!p);
+  if (parts.length > 0) {
+    lines.push(`LOCATION:${escapeText(parts.join(', '))}`);
+  }
+  if (e.venueLat !== null && e.venueLng !== null) {
+    lines.push(`GEO:${e.venueLat};${e.venueLng}`);
+  }
+  return lines;
+}
+
+/** Price summary line, e.g. "Free", "₱350", "₱500–₱1,000" */
+function priceText(e: EventRow): string | null {
+  if (e.isFree) return 'Free';
+  const peso = (n: number) => `₱${n.toLocaleString('en-PH')}`;
+  let text: string | null = null;
+  if (e.priceMin !== null && e.priceMax !== null && e.priceMin !== e.priceMax) {
+    text = `${peso(e.priceMin)}–${peso(e.priceMax)}`;
+  } else if (e.price !== null) {
+    text = peso(e.price);
+  }
+  if (e.priceNotes) {
+    text = text ? `${text} (${e.priceNotes})` : e.priceNotes;
+  }
+  return text;
+}
+
+function statusValue(e: EventRow): string {
+  switch (e.eventStatus) {
+    case 'cancelled':
+      return 'CANCELLED';
+    case 'tentative':
+    case 'postponed':
+      return 'TENTATIVE';
+    default:
+      return 'CONFIRMED';
+  }
+}
+
+/** Sub-events that carry their own date or time get a VEVENT of their own */
+function isScheduled(se: SubEventRow): boolean {
+  return !!(se.eventDate || parseClock(se.eventTime) !== null);
+}
+
+/**
+ * Date a sub-event falls on. Undated sets that start earlier in the day
+ * than the parent (a 01:00 slot at a 22:00 party) belong to the next morning.
+ */
+function subEventDate(parent: EventRow, se: SubEventRow): string {
+  if (se.eventDate) return se.eventDate;
+  const parentStart = parseClock(parent.eventTime);
+  const start = parseClock(se.eventTime);
+  if (parentStart !== null && start !== null && start < parentStart) {
+    return addDays(parent.eventDate, 1);
+  }
+  return parent.eventDate;
+}
+
+function buildDescription(e: IcsEvent): string {
+  const sections: string[] = [];
+
+  if (e.description) sections.push(e.description);
+
+  const price = priceText(e);
+  if (price) sections.push(`Price: ${price}`);
+  if (e.availabilityStatus === 'sold_out') sections.push('SOLD OUT');
+
+  const artists = e.artists ?? [];
+  if (artists.length > 0) sections.push(`Featuring: ${artists.join(', ')}`);
+
+  const lineup = (e.subEvent ?? []).filter(se => !isScheduled(se));
+  if (lineup.length > 0) {
+    sections.push(['Lineup:', ...lineup.map(se => `- ${se.title}`)].join('\n'));
+  }
+
+  if (e.signupUrl) sections.push(`Tickets / RSVP: ${e.signupUrl}`);
+  if (e.sourceUsername) sections.push(`Posted by @${e.sourceUsername}`);
+
+  return sections.join('\n\n');
+}
+
+function buildVEvents(e: IcsEvent): string[][] {
+  const uid = eventUid(e);
+  const stamp = formatUtc(e.updatedAt);
+  const sequence = Math.floor(e.updatedAt.getTime() / 1000);
+  const url = e.signupUrl || e.sourcePost?.postUrl || null;
+
+  const main = [
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `DTSTAMP:${stamp}`,
+    `LAST-MODIFIED:${stamp}`,
+    `SEQUENCE:${sequence}`,
+    ...timingLines(e.eventDate, e.eventEndDate, e.eventTime, e.endTime),
+    `SUMMARY:${escapeText(e.title)}`,
+    `DESCRIPTION:${escapeText(buildDescription(e))}`,
+    ...locationLines(e),
+    `STATUS:${statusValue(e)}`,
+    ...(e.category ? [`CATEGORIES:${escapeText(e.category)}`] : []),
+    ...(url ? [`URL:${url}`] : []),
+    'END:VEVENT',
+  ];
+
+  const children = (e.subEvent ?? []).filter(isScheduled).map(se => [
+    'BEGIN:VEVENT',
+    `UID:${subEventUid(e, se)}`,
+    `DTSTAMP:${stamp}`,
+    `SEQUENCE:${sequence}`,
+    `RELATED-TO:${uid}`,
+    ...timingLines(subEventDate(e, se), null, se.eventTime, se.endTime),
+    `SUMMARY:${escapeText(`${se.title} — ${e.title}`)}`,
+    ...(se.description ? [`DESCRIPTION:${escapeText(se.description)}`] : []),
+    ...locationLines(e),
+    `STATUS:${statusValue(e)}`,
+    'END:VEVENT',
+  ]);
+
+  return [main, ...children];
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Build a complete VCALENDAR document for the given events.
+ * Returns CRLF-delimited, line-folded text ready to send as text/calendar.
+ */
+export function buildCalendar(events: IcsEvent[], options: CalendarOptions): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    ...(options.description ? [`X-WR-CALDESC:${escapeText(options.description)}`] : []),
+    `X-WR-TIMEZONE:${TZID}`,
+    // Ingest runs every 6 hours; hint subscribers to refresh at that cadence
+    'REFRESH-INTERVAL;VALUE=DURATION:PT6H',
+    'X-PUBLISHED-TTL:PT6H',
+    ...VTIMEZONE,
+    ...events.flatMap(e => buildVEvents(e).flat()),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/** Safe download filename for an event, e.g. "salcedo-market.ics" */
+export function icsFilename(title: string): string {
+  const slug = title
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  return `${slug || 'event'}.ics`;
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/** A content line: `NAME;PARAM=value:VALUE`, with the value as written */
+export interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/** A component (VCALENDAR, VEVENT, ...) with its properties and subcomponents */
+export interface IcsComponent {
+  name: string;
+  properties: IcsProperty[];
+  components: IcsComponent[];
+}
+
+/** Unescape a TEXT property value (RFC 5545 §3.3.11) */
+export function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+}
+
+/** Split a content line into name, parameters and value; null if it has no value */
+function parseLine(line: string): IcsProperty | null {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (!quoted && (char === ';' || char === ':')) {
+      parts.push(current);
+      current = '';
+      if (char === ':') {
+        const [name, ...params] = parts;
+        return {
+          name: name.toUpperCase(),
+          params: Object.fromEntries(params.map(param => {
+            const eq = param.indexOf('=');
+            return eq === -1 ? [param.toUpperCase(), ''] : [param.slice(0, eq).toUpperCase(), param.slice(eq + 1)];
+          })),
+          value: line.slice(i + 1),
+        };
+      }
+    } else {
+      current += char;
+    }
+  }
+  return null;
+}
+
+/**
+ * Parse an iCalendar document into its top-level components (normally a
+ * single VCALENDAR). Malformed lines are skipped; unclosed components
+ * are dropped.
+ */
+export function parseCalendar(text: string): IcsComponent[] {
+  const roots: IcsComponent[] = [];
+  const open: IcsComponent[] = [];
+
+  for (const line of text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/)) {
+    const property = parseLine(line);
+    if (!property) continue;
+
+    if (property.name === 'BEGIN') {
+      open.push({ name: property.value.toUpperCase(), properties: [], components: [] });
+    } else if (property.name === 'END') {
+      const component = open.pop();
+      if (!component) continue;
+      (open.length > 0 ? open[open.length - 1].components : roots).push(component);
+    } else {
+      open[open.length - 1]?.properties.push(property);
+    }
+  }
+  return roots;
+}
@@ -0,0 +1,111 @@
+/**
+ * Images — blead's local image cache and perceptual flyer hashes
+ *
+ * blead downloads every post's images to `BLEAD_IMAGES_PATH/{shortcode}/`.
+ * The image proxy serves them from there (`cachedImagePath()`), and
+ * ingest hashes each post's first image so dedup can spot the same
+ * flyer reposted with a different caption (`refreshImageHashes()`).
+ *
+ * ## dHash
+ * The image is shrunk to 9×8 greyscale pixels and each bit records
+ * whether a pixel is brighter than its right-hand neighbour: 64 bits,
+ * stored as 16 hex characters in `source_post.image_hash`. Re-encoding,
+ * resizing and small overlays flip only a few bits, so two flyers are
+ * the same picture when their hashes differ in at most
+ * IMAGE_MATCH_DISTANCE bits (`hashDistance()`).
+ *
+ * Hashing reads cached files only — no network. Posts whose image
+ * isn't cached yet are retried on the next ingest.
+ */
+
+import { existsSync, readdirSync } from 'fs';
+import { join } from 'path';
+import postgres from 'postgres';
+import sharp from 'sharp';
+
+type Connection = ReturnType<typeof postgres>;
+
+/** Hashes differing in at most this many of 64 bits are the same image */
+export const IMAGE_MATCH_DISTANCE = 6;
+
+const HASH_BITS = 64;
+
+/** First cached image for a post, or null if blead hasn't cached one */
+export function cachedImagePath(imagesPath: string, shortcode: string): string | null {
+  const cacheDir = join(imagesPath, shortcode);
+  if (!existsSync(cacheDir)) return null;
+  const files = readdirSync(cacheDir).filter(f => /\.(jpg|jpeg|png|webp)$/i.test(f)).sort();
+  return files.length > 0 ? join(cacheDir, files[0]) : null;
+}
+
+/** dHash of an image file, as 16 hex characters */
+export async function imageHash(file: string): Promise<string> {
+  const pixels = await sharp(file)
+    .greyscale()
+    .resize(9, 8, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  let hash = '';
+  for (let row = 0; row < 8; row++) {
+    let nibble = 0;
+    for (let col = 0; col < 8; col++) {
+      const bit = pixels[row * 9 + col] > pixels[row * 9 + col + 1] ? 1 : 0;
+      nibble = (nibble << 1) | bit;
+      if (col % 4 === 3) {
+        hash += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+  return hash;
+}
+
+/** Number of differing bits between two hashes */
+export function hashDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    for (; diff; diff &= diff - 1) distance++;
+  }
+  return distance;
+}
+
+/** 1 for identical hashes, down to 0 for opposite ones */
+export function imageSimilarity(a: string, b: string): number {
+  return 1 - hashDistance(a, b) / HASH_BITS;
+}
+
+/**
+ * Hash the cached image of every post that has none yet. Unreadable
+ * files are logged and skipped.
+ *
+ * @returns Number of posts hashed
+ */
+export async function refreshImageHashes(conn: Connection, imagesPath: string): Promise<number> {
+  const posts = await conn<{ id: number; shortcode: string }[]>`
+    SELECT id, shortcode FROM source_post WHERE image_hash IS NULL
+  `;
+
+  const ids: number[] = [];
+  const hashes: string[] = [];
+  for (const post of posts) {
+    const file = cachedImagePath(imagesPath, post.shortcode);
+    if (!file) continue;
+    try {
+      hashes.push(await imageHash(file));
+      ids.push(post.id);
+    } catch (err) {
+      console.log(`   ⚠️  Image ${post.shortcode} unreadable: ${String(err).slice(0, 60)}`);
+    }
+  }
+
+  if (ids.length > 0) {
+    await conn`
+      UPDATE source_post SET image_hash = v.image_hash
+      FROM (SELECT unnest(${ids}::int[]) AS id, unnest(${hashes}::text[]) AS image_hash) v
+      WHERE source_post.id = v.id
+    `;
+  }
+  return ids.length;
+}
@@ -0,0 +1,471 @@
+/**
+ * Merges — folding duplicate events into one survivor
+ *
+ * Dedup (`scripts/dedup-events.ts`) used to delete the losing copy of a
+ * duplicate, taking its bookmarks with it. Now the loser is kept and
+ * marked `merged_into_id = winner`:
+ *
+ * - listings, counts and search skip merged events (`notMerged()` in
+ *   `lib/eventFilters.ts`), and `GET /api/events/:id` redirects to the
+ *   survivor, so old links keep working;
+ * - bookmarks move to the survivor. An account that had saved both
+ *   keeps one bookmark;
+ * - ingest keeps upserting the loser by its hash, so the next run
+ *   doesn't bring the duplicate back.
+ *
+ * Each merge writes an `event_merge` row with the rule that matched and
+ * which bookmarks moved or were dropped, which is what `undoMerge()`
+ * needs to put everything back. An undone pair is never merged again.
+ * Only confident matches are merged straight away; the rest wait for
+ * an admin in the review queue (`lib/candidates.ts`).
+ *
+ * ## Field-level merge
+ * The survivor is the best-scored copy, not necessarily a complete one:
+ * the promoter's post may have the ticket link the venue's lacks.
+ * `consolidateEvent()` fills each MERGE_GROUPS group the survivor is
+ * missing from the best-ranked duplicate that has it (groups travel
+ * together, so a price range never mixes two posts), unions `artists`,
+ * copies over sub-events the survivor doesn't list and credits the
+ * duplicates' posts (`lib/sources.ts`). Each borrowed
+ * group is recorded in `event.field_sources` with the event, post and
+ * account it came from.
+ *
+ * The survivor's own values always win. Ingest keeps a borrowed group
+ * until the survivor's own post supplies one (`keepBorrowed()`), an
+ * admin edit to a group makes it the survivor's own (`ownEdited()`), and
+ * dedup re-consolidates every survivor after each run, so duplicates
+ * that gain or lose a value — or get un-merged — are picked up.
+ */
+
+import postgres from 'postgres';
+import { and, eq, inArray, isNotNull, isNull, ne, or, sql } from 'drizzle-orm';
+import type { db as appDb } from '../db/connection.js';
+import { event, subEvent } from '../db/schema.js';
+import { normalizeArtistName } from './artists.js';
+import { diffEvent, recordRevision, type RevisionSource } from './revisions.js';
+import { linkMergedPosts } from './sources.js';
+import { inTransaction } from './transactions.js';
+
+type Connection = ReturnType<typeof postgres>;
+type Database = typeof appDb;
+
+/** Dedup pass that matched a pair (`merge_rule` enum) */
+export type MergeRule = 'exact_title_date' | 'fuzzy_title_venue' | 'same_image';
+
+export interface Merge {
+  winnerId: number;
+  loserId: number;
+  rule: MergeRule;
+  /** Title similarity for fuzzy matches, flyer similarity for image ones, null for exact ones */
+  similarity: number | null;
+}
+
+/** Redirect chains longer than this are treated as broken */
+const MAX_MERGE_HOPS = 5;
+
+/**
+ * Event columns filled from duplicates, by group. A group counts as
+ * present when any of its `keys` has a value; its `columns` are then
+ * copied together.
+ */
+export const MERGE_GROUPS = {
+  venue: {
+    keys: ['venueId', 'venueName'],
+    columns: ['venueId', 'venueName', 'venueMatchConfidence', 'venueAddress', 'venueLat', 'venueLng'],
+  },
+  eventTime: { keys: ['eventTime'], columns: ['eventTime'] },
+  endTime: { keys: ['endTime'], columns: ['endTime'] },
+  price: {
+    keys: ['price', 'priceMin', 'priceMax', 'priceNotes'],
+    columns: ['isFree', 'price', 'priceMin', 'priceMax', 'priceNotes'],
+  },
+  signupUrl: { keys: ['signupUrl'], columns: ['signupUrl'] },
+  description: { keys: ['description'], columns: ['description'] },
+  imageUrl: { keys: ['imageUrl'], columns: ['imageUrl'] },
+} as const;
+
+export type MergeGroup = keyof typeof MERGE_GROUPS;
+type MergeColumn = (typeof MERGE_GROUPS)[MergeGroup]['columns'][number];
+
+/** The duplicate a value was taken from */
+export interface FieldSource {
+  eventId: number;
+  sourcePostId: number | null;
+  sourceUsername: string | null;
+}
+
+/** `event.field_sources`: borrowed groups, and artist names added per duplicate */
+export type FieldSources = { [G in MergeGroup]?: FieldSource } & {
+  artists?: (FieldSource & { names: string[] })[];
+};
+
+/** Values a group is reset to when nothing supplies it */
+const EMPTY_VALUES: Partial<Record<MergeColumn, boolean>> = { isFree: true };
+
+// ============================================================================
+// MERGE / UNDO
+// ============================================================================
+
+/**
+ * Merge `loserId` into `winnerId` and record it. Returns the
+ * `event_merge` id.
+ */
+export async function mergeEvent(conn: Connection, merge: Merge): Promise<number> {
+  return inTransaction(conn, tx => mergeWithin(tx, merge));
+}
+
+/** `mergeEvent()` inside a transaction the caller already holds */
+export async function mergeWithin(tx: Connection, merge: Merge): Promise<number> {
+  const { winnerId, loserId, rule, similarity } = merge;
+
+  const moved = await tx<{ account_id: number }[]>`
+    UPDATE saved_event SET event_id = ${winnerId}
+    WHERE event_id = ${loserId}
+      AND account_id NOT IN (SELECT account_id FROM saved_event WHERE event_id = ${winnerId})
+    RETURNING account_id
+  `;
+  // Whatever is left was already saved on the winner
+  const dropped = await tx<{ account_id: number }[]>`
+    DELETE FROM saved_event WHERE event_id = ${loserId}
+    RETURNING account_id
+  `;
+
+  await tx`
+    UPDATE event SET merged_into_id = ${winnerId}, updated_at = now()
+    WHERE id = ${loserId}
+  `;
+
+  // JSON goes in as text: drizzle turns off postgres.js's JSON serializer
+  // on every connection it wraps, so `tx.json()` would send raw arrays
+  const [row] = await tx<{ id: number }[]>`
+    INSERT INTO event_merge (winner_id, loser_id, rule, similarity, moved_saves, dropped_saves)
+    VALUES (
+      ${winnerId}, ${loserId}, ${rule}, ${similarity},
+      ${JSON.stringify(moved.map(r => r.account_id))}::jsonb,
+      ${JSON.stringify(dropped.map(r => r.account_id))}::jsonb
+    )
+    RETURNING id
+  `;
+  return row.id;
+}
+
+export type UndoResult = 'undone' | 'not_found' | 'already_undone';
+
+/**
+ * Undo a merge: un-hide the loser and give it back its bookmarks.
+ * Bookmarks removed from the winner since the merge stay removed.
+ */
+export async function undoMerge(conn: Connection, mergeId: number, accountId: number): Promise<UndoResult> {
+  return inTransaction(conn, async (tx): Promise<UndoResult> => {
+    const [merge] = await tx<{
+      winner_id: number;
+      loser_id: number;
+      moved_saves: number[];
+      dropped_saves: number[];
+      undone_at: Date | null;
+    }[]>`
+      SELECT winner_id, loser_id, moved_saves, dropped_saves, undone_at
+      FROM event_merge WHERE id = ${mergeId}
+      FOR UPDATE
+    `;
+    if (!merge) return 'not_found';
+    if (merge.undone_at) return 'already_undone';
+
+    if (merge.moved_saves.length > 0) {
+      await tx`
+        UPDATE saved_event SET event_id = ${merge.loser_id}
+        WHERE event_id = ${merge.winner_id} AND account_id = ANY(${merge.moved_saves})
+      `;
+    }
+    if (merge.dropped_saves.length > 0) {
+      await tx`
+        INSERT INTO saved_event (account_id, event_id)
+        SELECT unnest(${merge.dropped_saves}::int[]), ${merge.loser_id}
+        ON CONFLICT DO NOTHING
+      `;
+    }
+
+    // Only if nothing re-merged it elsewhere since
+    await tx`
+      UPDATE event SET merged_into_id = NULL, updated_at = now()
+      WHERE id = ${merge.loser_id} AND merged_into_id = ${merge.winner_id}
+    `;
+    await tx`
+      UPDATE event_merge SET undone_at = now(), undone_by = ${accountId}
+      WHERE id = ${mergeId}
+    `;
+    return 'undone';
+  });
+}
+
+// ============================================================================
+// FIELD-LEVEL MERGE
+// ============================================================================
+
+type EventRow = typeof event.$inferSelect;
+type SubEventRow = typeof subEvent.$inferSelect;
+type GroupValues = Partial<Pick<EventRow, MergeColumn>>;
+
+const isEmpty = (value: unknown) => value === null || value === undefined || value === '';
+
+function hasGroup(row: Partial<Record<MergeColumn, unknown>>, group: MergeGroup): boolean {
+  return MERGE_GROUPS[group].keys.some(key => !isEmpty(row[key]));
+}
+
+function pickGroup(row: EventRow, group: MergeGroup): GroupValues {
+  return Object.fromEntries(MERGE_GROUPS[group].columns.map(column => [column, row[column]]));
+}
+
+function sourceOf(row: EventRow): FieldSource {
+  return { eventId: row.id, sourcePostId: row.sourcePostId, sourceUsername: row.sourceUsername };
+}
+
+/** Same ranking dedup uses to pick the survivor */
+function byRank(a: EventRow, b: EventRow): number {
+  return ((b.completenessScore ?? 0) - (a.completenessScore ?? 0))
+    || ((b.confidence ?? 0) - (a.confidence ?? 0))
+    || (b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+/**
+ * Ingest values for an event that may hold borrowed groups: a group
+ * stays borrowed (its columns are left out of the update) unless the
+ * event's own post now has it, in which case its provenance is dropped.
+ */
+export function keepBorrowed<T extends Partial<Record<MergeColumn, unknown>>>(
+  values: T,
+  fieldSources: FieldSources,
+): Partial<T> & { fieldSources: FieldSources } {
+  const kept: Partial<T> = { ...values };
+  const sources: FieldSources = { ...fieldSources };
+  for (const group of Object.keys(MERGE_GROUPS) as MergeGroup[]) {
+    if (!sources[group]) continue;
+    if (hasGroup(values, group)) {
+      delete sources[group];
+    } else {
+      for (const column of MERGE_GROUPS[group].columns) delete kept[column];
+    }
+  }
+  return { ...kept, fieldSources: sources };
+}
+
+/**
+ * Provenance for an event an admin edited: every group `edit` sets a
+ * column of is the event's own from now on, so consolidating doesn't
+ * copy the duplicate's values back over the admin's. Null when no
+ * borrowed group was touched.
+ */
+export function ownEdited(edit: Partial<Record<MergeColumn, unknown>>, fieldSources: FieldSources): FieldSources | null {
+  const sources: FieldSources = { ...fieldSources };
+  const edited = (Object.keys(MERGE_GROUPS) as MergeGroup[]).filter(group =>
+    sources[group] && MERGE_GROUPS[group].columns.some(column => edit[column] !== undefined));
+  if (edited.length === 0) return null;
+  for (const group of edited) delete sources[group];
+  return sources;
+}
+
+/** An event plus every event merged into it, directly or through a chain */
+async function loadMembers(database: Pick<Database, 'query'>, eventId: number): Promise<EventRow[]> {
+  const members = await database.query.event.findMany({ where: eq(event.id, eventId) });
+  let frontier = members.map(m => m.id);
+  for (let hop = 0; frontier.length > 0 && hop < MAX_MERGE_HOPS; hop++) {
+    const next = await database.query.event.findMany({ where: inArray(event.mergedIntoId, frontier) });
+    members.push(...next);
+    frontier = next.map(m => m.id);
+  }
+  return members;
+}
+
+/**
+ * Rebuild a survivor from its duplicates (see header): fill missing
+ * groups, union artists, copy sub-events, link posts, and record any change to a
+ * tracked field as a revision from `source`. Returns whether anything
+ * changed.
+ */
+export async function consolidateEvent(
+  database: Database,
+  eventId: number,
+  source: RevisionSource,
+  accountId: number | null = null,
+): Promise<boolean> {
+  return database.transaction(async (tx) => {
+    const [survivor, ...duplicates] = await loadMembers(tx, eventId);
+    if (!survivor || survivor.mergedIntoId !== null) return false;
+    duplicates.sort(byRank);
+
+    const borrowed = survivor.fieldSources ?? {};
+    const values: GroupValues = {};
+    const sources: FieldSources = {};
+
+    for (const group of Object.keys(MERGE_GROUPS) as MergeGroup[]) {
+      if (!borrowed[group] && hasGroup(survivor, group)) continue;
+      // Duplicates only lend their own values, never ones they borrowed
+      const donor = duplicates.find(d => !d.fieldSources?.[group] && hasGroup(d, group));
+      if (donor) {
+        Object.assign(values, pickGroup(donor, group));
+        sources[group] = sourceOf(donor);
+      } else if (borrowed[group]) {
+        for (const column of MERGE_GROUPS[group].columns) {
+          Object.assign(values, { [column]: EMPTY_VALUES[column] ?? null });
+        }
+      }
+    }
+
+    // Artists: the survivor's own credits first, then new names by rank
+    const lent = new Set((borrowed.artists ?? []).flatMap(a => a.names));
+    const artists = (survivor.artists ?? []).filter(name => !lent.has(name));
+    const seen = new Set(artists.map(normalizeArtistName));
+    for (const duplicate of duplicates) {
+      const names = (duplicate.artists ?? []).filter(name => {
+        const key = normalizeArtistName(name);
+        if (!key || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+      if (names.length > 0) {
+        artists.push(...names);
+        (sources.artists ??= []).push({ ...sourceOf(duplicate), names });
+      }
+    }
+
+    const update = { ...values, artists, fieldSources: sources };
+    const changed = !sameJson(pickCurrent(survivor, update), update);
+    if (changed) {
+      await tx.update(event).set({ ...update, updatedAt: new Date() }).where(eq(event.id, survivor.id));
+      const changes = diffEvent(survivor, values);
+      if (changes) await recordRevision(tx, survivor.id, changes, source, accountId);
+    }
+
+    const copied = await copySubEvents(tx, survivor.id, duplicates.map(d => d.id));
+    const linked = await linkMergedPosts(tx, survivor.id, duplicates);
+    return changed || copied || linked;
+  });
+}
+
+/** The survivor's current values for the keys of `update` */
+function pickCurrent(row: EventRow, update: Record<string, unknown>) {
+  return Object.fromEntries(Object.keys(update).map(key => [key, row[key as keyof EventRow] ?? null]));
+}
+
+/** Deep equality for JSON values; jsonb doesn't keep key order */
+function sameJson(a: unknown, b: unknown): boolean {
+  const canonical = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(canonical);
+    if (value !== null && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).sort(([x], [y]) => x.localeCompare(y)).map(([k, v]) => [k, canonical(v)]));
+    }
+    return value;
+  };
+  return JSON.stringify(canonical(a)) === JSON.stringify(canonical(b));
+}
+
+/** Key for spotting the same slot on two posts */
+function slotKey(slot: SubEventRow): string {
+  return [slot.title.trim().toLowerCase(), slot.eventDate ?? '', slot.eventTime ?? ''].join('|');
+}
+
+/**
+ * Replace the sub-events copied onto a survivor with the duplicates'
+ * current ones, skipping slots the survivor (or a better-ranked
+ * duplicate) already lists. Returns whether the copies changed.
+ */
+async function copySubEvents(database: Pick<Database, 'query' | 'delete' | 'insert'>, survivorId: number, duplicateIds: number[]): Promise<boolean> {
+  const slots = await database.query.subEvent.findMany({
+    where: or(
+      eq(subEvent.eventId, survivorId),
+      duplicateIds.length > 0
+        ? and(inArray(subEvent.eventId, duplicateIds), isNull(subEvent.mergedFromId))
+        : undefined,
+    ),
+  });
+
+  const current = slots.filter(s => s.eventId === survivorId && s.mergedFromId !== null);
+  const seen = new Set(slots.filter(s => s.eventId === survivorId && s.mergedFromId === null).map(slotKey));
+  const copies: (typeof subEvent.$inferInsert)[] = [];
+  for (const duplicateId of duplicateIds) {
+    for (const slot of slots.filter(s => s.eventId === duplicateId)) {
+      const key = slotKey(slot);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      copies.push({
+        eventId: survivorId,
+        title: slot.title,
+        eventDate: slot.eventDate,
+        eventTime: slot.eventTime,
+        endTime: slot.endTime,
+        description: slot.description,
+        mergedFromId: slot.eventId,
+      });
+    }
+  }
+
+  const before = current.map(s => `${s.mergedFromId}:${slotKey(s)}`).sort();
+  const after = copies.map(s => `${s.mergedFromId}:${slotKey(s as SubEventRow)}`).sort();
+  if (sameJson(before, after)) return false;
+
+  await database.delete(subEvent).where(and(eq(subEvent.eventId, survivorId), isNotNull(subEvent.mergedFromId)));
+  if (copies.length > 0) await database.insert(subEvent).values(copies);
+  return true;
+}
+
+/**
+ * Consolidate every survivor: events with duplicates merged into them,
+ * plus ones still holding borrowed values (their duplicates may have
+ * been un-merged). Returns how many changed.
+ */
+export async function consolidateSurvivors(database: Database, source: RevisionSource = 'ingest'): Promise<number> {
+  const duplicate = sql`(SELECT 1 FROM ${event} d WHERE d.merged_into_id = ${event.id})`;
+  const survivors = await database
+    .select({ id: event.id })
+    .from(event)
+    .where(and(
+      isNull(event.mergedIntoId),
+      or(sql`EXISTS ${duplicate}`, ne(event.fieldSources, {})),
+    ));
+
+  let changed = 0;
+  for (const { id } of survivors) {
+    if (await consolidateEvent(database, id, source)) changed++;
+  }
+  return changed;
+}
+
+// ============================================================================
+// LOOKUPS
+// ============================================================================
+
+/** Order-independent key for an event pair */
+export function pairKey(a: number, b: number): string {
+  return a < b ? `${a}:${b}` : `${b}:${a}`;
+}
+
+/**
+ * Pairs an admin split apart again or rejected as duplicates (see
+ * `lib/candidates.ts`), as `pairKey`s; dedup skips them.
+ */
+export async function keptApartPairs(conn: Connection): Promise<Set<string>> {
+  const rows = await conn<{ winner_id: number; loser_id: number }[]>`
+    SELECT winner_id, loser_id FROM event_merge WHERE undone_at IS NOT NULL
+    UNION
+    SELECT winner_id, loser_id FROM dedup_candidate WHERE status = 'rejected'
+  `;
+  return new Set(rows.map(r => pairKey(r.winner_id, r.loser_id)));
+}
+
+/**
+ * The event a merged event ended up in, following chains (A → B → C),
+ * or null when `mergedIntoId` is null or the chain doesn't resolve.
+ */
+export async function survivorOf(database: Database, mergedIntoId: number | null): Promise<number | null> {
+  let id = mergedIntoId;
+  for (let hop = 0; id !== null && hop < MAX_MERGE_HOPS; hop++) {
+    const row = await database.query.event.findFirst({
+      where: eq(event.id, id),
+      columns: { mergedIntoId: true },
+    });
+    if (!row) return null;
+    if (row.mergedIntoId === null) return id;
+    id = row.mergedIntoId;
+  }
+  return null;
+}
@@ -0,0 +1,181 @@
+/**
+ * Quarantine — records ingest wouldn't write, and why
+ *
+ * Ingest validates every record a source hands over (`lib/records.ts`).
+ * A record that fails, or that the database rejects anyway, goes to
+ * `ingest_quarantine` with its raw payload and the reasons
+ * (`quarantineRow()`), linked to the run that rejected it and keyed by
+ * its source, kind and key — so a party that never showed up can be
+ * traced back to the record it came from.
+ *
+ * An admin can then:
+ * - fix the payload and resubmit it (`resubmitQuarantined()`): it is
+ *   validated straight away, and the next ingest run feeds it through
+ *   the same pipeline as its source's records (`resubmittedRows()`);
+ * - dismiss it (`dismissQuarantined()`).
+ *
+ * An entry is resolved once its record is written — a resubmitted fix,
+ * the same record after its source corrected it, or a record retried
+ * once what it was missing arrived (`retryableRowKeys()`,
+ * `resolveQuarantined()`). A resubmitted record that fails again goes
+ * back to pending with the new reason, and so does a resolved entry
+ * whose record comes back broken. Only dismissed entries stay closed.
+ */
+
+import postgres from 'postgres';
+import { validateRecord, type RawRecord, type RecordKind } from './records.js';
+import type { IngestSource } from './adapters/index.js';
+
+type Connection = ReturnType<typeof postgres>;
+
+/** A rejected record, as ingest reports it */
+export interface Rejection {
+  source: IngestSource;
+  kind: RecordKind;
+  rowKey: string;
+  payload: RawRecord;
+  reason: string;
+  issues?: Record<string, string>;
+  /** The quarantine entry it was resubmitted from, if any */
+  quarantineId?: number;
+}
+
+/**
+ * Quarantine a record rejected by run `syncLogId`. A resubmitted record
+ * goes back to pending under its own entry; otherwise the record's entry
+ * is created, or refreshed — reopened if it was resolved, since this is
+ * a new bad version of the record — unless an admin dismissed it or has
+ * a fix waiting for ingest.
+ */
+export async function quarantineRow(conn: Connection, syncLogId: number, rejection: Rejection): Promise<void> {
+  const { source, kind, rowKey, payload, reason, issues = {}, quarantineId } = rejection;
+
+  if (quarantineId !== undefined) {
+    await conn`
+      UPDATE ingest_quarantine
+      SET status = 'pending', reason = ${reason}, issues = ${JSON.stringify(issues)}::jsonb,
+          sync_log_id = ${syncLogId}, updated_at = now()
+      WHERE id = ${quarantineId}
+    `;
+    return;
+  }
+
+  await conn`
+    INSERT INTO ingest_quarantine (sync_log_id, ingest_source, kind, row_key, payload, reason, issues)
+    VALUES (
+      ${syncLogId}, ${source}, ${kind}, ${rowKey}, ${JSON.stringify(payload)}::jsonb,
+      ${reason}, ${JSON.stringify(issues)}::jsonb
+    )
+    ON CONFLICT (ingest_source, kind, row_key) DO UPDATE SET
+      sync_log_id = EXCLUDED.sync_log_id,
+      payload = EXCLUDED.payload,
+      reason = EXCLUDED.reason,
+      issues = EXCLUDED.issues,
+      status = 'pending',
+      resolved_at = NULL,
+      reviewed_at = NULL,
+      reviewed_by = NULL,
+      updated_at = now()
+    WHERE ingest_quarantine.status IN ('pending', 'resolved')
+  `;
+}
+
+/** Records of `source`'s `kind` that admins fixed and resubmitted, waiting for ingest */
+export async function resubmittedRows(
+  conn: Connection,
+  source: IngestSource,
+  kind: RecordKind,
+): Promise<{ id: number; payload: RawRecord }[]> {
+  return conn<{ id: number; payload: RawRecord }[]>`
+    SELECT id, payload FROM ingest_quarantine
+    WHERE ingest_source = ${source} AND kind = ${kind} AND status = 'resubmitted'
+    ORDER BY id
+  `;
+}
+
+/**
+ * Keys of pending records of `source`'s `kind` that passed validation
+ * but couldn't be written — a sub-event whose event was missing, a
+ * database error — so ingest can retry them from their source.
+ */
+export async function retryableRowKeys(conn: Connection, source: IngestSource, kind: RecordKind): Promise<string[]> {
+  const rows = await conn<{ row_key: string }[]>`
+    SELECT row_key FROM ingest_quarantine
+    WHERE ingest_source = ${source} AND kind = ${kind} AND status = 'pending' AND issues = '{}'::jsonb
+  `;
+  return rows.map(r => r.row_key);
+}
+
+/**
+ * Resolve the open entries of records that were written: by key for
+ * the source's records, by entry for resubmitted ones.
+ */
+export async function resolveQuarantined(
+  conn: Connection,
+  source: IngestSource,
+  kind: RecordKind,
+  rowKeys: string[],
+  quarantineIds: number[],
+): Promise<void> {
+  if (rowKeys.length === 0 && quarantineIds.length === 0) return;
+  await conn`
+    UPDATE ingest_quarantine
+    SET status = 'resolved', resolved_at = now(), updated_at = now()
+    WHERE status IN ('pending', 'resubmitted')
+      AND (
+        (ingest_source = ${source} AND kind = ${kind} AND row_key = ANY(${rowKeys}::text[]))
+        OR id = ANY(${quarantineIds}::int[])
+      )
+  `;
+}
+
+export type ResubmitResult =
+  | { outcome: 'resubmitted' }
+  | { outcome: 'invalid'; issues: Record<string, string> }
+  | { outcome: 'not_found' | 'closed' };
+
+/**
+ * Replace an entry's payload with an admin's fix and queue it for the
+ * next ingest run. The fix must pass its kind's validation; entries
+ * already resolved or dismissed are `closed`.
+ */
+export async function resubmitQuarantined(
+  conn: Connection,
+  id: number,
+  payload: Record<string, unknown>,
+  accountId: number,
+): Promise<ResubmitResult> {
+  const [entry] = await conn<{ kind: RecordKind; status: string }[]>`
+    SELECT kind, status FROM ingest_quarantine WHERE id = ${id}
+  `;
+  if (!entry) return { outcome: 'not_found' };
+  if (entry.status !== 'pending' && entry.status !== 'resubmitted') return { outcome: 'closed' };
+
+  const validation = validateRecord(entry.kind, payload);
+  if (!validation.ok) return { outcome: 'invalid', issues: validation.issues };
+
+  const [row] = await conn`
+    UPDATE ingest_quarantine
+    SET payload = ${JSON.stringify(payload)}::jsonb, status = 'resubmitted',
+        reviewed_at = now(), reviewed_by = ${accountId}, updated_at = now()
+    WHERE id = ${id} AND status IN ('pending', 'resubmitted')
+    RETURNING id
+  `;
+  return row ? { outcome: 'resubmitted' } : { outcome: 'closed' };
+}
+
+export type DismissResult = 'dismissed' | 'not_found' | 'closed';
+
+/** Dismiss an entry: its record stays out of WheresTheFX */
+export async function dismissQuarantined(conn: Connection, id: number, accountId: number): Promise<DismissResult> {
+  const [row] = await conn`
+    UPDATE ingest_quarantine
+    SET status = 'dismissed', reviewed_at = now(), reviewed_by = ${accountId}, updated_at = now()
+    WHERE id = ${id} AND status IN ('pending', 'resubmitted')
+    RETURNING id
+  `;
+  if (row) return 'dismissed';
+
+  const [existing] = await conn`SELECT id FROM ingest_quarantine WHERE id = ${id}`;
+  return existing ? 'closed' : 'not_found';
+}
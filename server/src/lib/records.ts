@@ -0,0 +1,255 @@
+/**
+ * Records — the canonical shape of everything ingest writes
+ *
+ * Every source adapter (`lib/adapters/`) turns what it reads — blead's
+ * SQLite rows, a dropped CSV or JSON file, an `.ics` feed — into records
+ * of five kinds: venue, account, post, event and sub-event. Validation,
+ * quarantine, the upserts, venue resolution and dedup only ever see
+ * records, whatever the source.
+ *
+ * Adapters hand records over unchecked. Each is parsed with its kind's
+ * schema (`validateRecord()`) before anything is written; a record that
+ * fails — an impossible date, an unknown category, an event with no
+ * hash — is quarantined with the reasons instead (`lib/quarantine.ts`),
+ * where an admin can fix and resubmit it.
+ *
+ * Columns are snake_case, as in the payloads admins edit. Sources are
+ * loosely typed, so numbers and flags also take their text forms
+ * (`"12.5"`, `"true"`, `"1"`) and lists take JSON text. Enum columns left
+ * empty get the defaults ingest always used (`other`, `confirmed`,
+ * `available`, `pending`).
+ */
+
+import { z } from 'zod';
+import {
+  accountCategoryEnum,
+  availabilityStatusEnum,
+  eventCategoryEnum,
+  eventStatusEnum,
+  locationStatusEnum,
+  reviewTierEnum,
+} from '../db/schema.js';
+import { filterErrors, isoDate } from './eventFilters.js';
+import { clockTime } from './hours.js';
+
+/** A record as an adapter hands it over, before validation */
+export type RawRecord = Record<string, unknown>;
+
+// ============================================================================
+// COLUMNS
+// ============================================================================
+
+const required = z.preprocess(
+  v => v ?? undefined,
+  z.string({ required_error: 'Required', invalid_type_error: 'Expected text' }).refine(v => v.trim() !== '', 'Required'),
+);
+const text = z.string({ invalid_type_error: 'Expected text' }).nullish().transform(v => v ?? null);
+
+/** Numbers, or their text: `"12.5"` */
+function numeric(schema: z.ZodNumber) {
+  return z.preprocess(
+    v => {
+      if (typeof v !== 'string') return v;
+      if (v.trim() === '') return null;
+      return isNaN(Number(v)) ? v : Number(v);
+    },
+    schema.nullish(),
+  ).transform(v => v ?? null);
+}
+
+const number = numeric(z.number({ invalid_type_error: 'Expected a number' }));
+const amount = numeric(z.number({ invalid_type_error: 'Expected a number' }).nonnegative('Must be 0 or more'));
+
+const FLAG_TEXT: Record<string, boolean> = { true: true, yes: true, '1': true, false: false, no: false, '0': false };
+
+/** Booleans, 0/1 (SQLite has no booleans) or their text; false when unknown */
+const flag = z.preprocess(
+  v => {
+    if (v === 0 || v === 1) return v === 1;
+    if (typeof v !== 'string') return v;
+    const value = v.trim().toLowerCase();
+    return value === '' ? null : FLAG_TEXT[value] ?? v;
+  },
+  z.boolean({ invalid_type_error: 'Expected true or false' }).nullish(),
+).transform(v => v ?? false);
+
+const timestamp = text.refine(v => v === null || !isNaN(Date.parse(v)), 'Not a valid timestamp');
+const date = isoDate.nullish().transform(v => v ?? null);
+const time = clockTime.nullish().transform(v => v ?? null);
+
+/**
+ * Names: an array, or JSON text of one (as blead and CSV cells store
+ * them). Unparseable text and non-text entries are dropped, as ingest
+ * always did.
+ */
+const list = z.preprocess(
+  v => {
+    if (typeof v !== 'string') return v ?? [];
+    try {
+      const parsed = JSON.parse(v);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  },
+  z.array(z.unknown(), { invalid_type_error: 'Expected a list' }),
+).transform(items => items.filter((item): item is string => typeof item === 'string' && item.trim() !== ''));
+
+/** One of `values`, or `fallback` when the source left it empty */
+function enumOr<T extends [string, ...string[]]>(values: T, fallback: T[number]) {
+  return z.enum(values, { errorMap: () => ({ message: `Expected one of: ${values.join(', ')}` }) })
+    .or(z.literal(''))
+    .nullish()
+    .transform(v => (v || fallback) as T[number]);
+}
+
+// ============================================================================
+// KINDS
+// ============================================================================
+
+/**
+ * Every record may carry `source_id`, the source's own name for it
+ * (blead's `ig_event_id:42`, a CSV's `events.csv:7`, an iCal UID) — its
+ * key when it has no natural one.
+ */
+const sourceId = text;
+
+export const venueRecordSchema = z.object({
+  source_id: sourceId,
+  name: required,
+  aliases: list,
+  address: text,
+  city: text,
+  lat: number,
+  lng: number,
+  instagram_handle: text,
+});
+
+export const accountRecordSchema = z.object({
+  source_id: sourceId,
+  username: required,
+  display_name: text,
+  bio: text,
+  follower_count: number,
+  following_count: number,
+  post_count: number,
+  profile_pic_url: text,
+  is_verified: flag,
+  is_business: flag,
+  category: enumOr(accountCategoryEnum.enumValues, 'other'),
+  is_active: flag,
+  last_scraped_at: timestamp,
+});
+
+/** A post, by the username of the account that posted it */
+export const postRecordSchema = z.object({
+  source_id: sourceId,
+  shortcode: required,
+  username: required,
+  post_url: required,
+  caption: text,
+  posted_at: timestamp,
+  likes_count: number,
+  comments_count: number,
+  image_url: text,
+});
+
+/** An event, by its post's shortcode and its account's username, if any */
+export const eventRecordSchema = z.object({
+  source_id: sourceId,
+  // Without a hash an event can't be matched or deduplicated
+  event_hash: required,
+  shortcode: text,
+  username: text,
+  title: required,
+  event_date: z.preprocess(v => v ?? undefined, isoDate),
+  event_end_date: date,
+  event_time: time,
+  end_time: time,
+  description: text,
+  venue_name: text,
+  venue_address: text,
+  venue_lat: number,
+  venue_lng: number,
+  location_status: enumOr(locationStatusEnum.enumValues, 'confirmed'),
+  is_free: flag,
+  price: amount,
+  price_min: amount,
+  price_max: amount,
+  price_notes: text,
+  signup_url: text,
+  category: enumOr(eventCategoryEnum.enumValues, 'other'),
+  artists: list,
+  event_status: enumOr(eventStatusEnum.enumValues, 'confirmed'),
+  availability_status: enumOr(availabilityStatusEnum.enumValues, 'available'),
+  is_recurring: flag,
+  recurrence_pattern: text,
+  completeness_score: number,
+  confidence: number,
+  review_tier: enumOr(reviewTierEnum.enumValues, 'pending'),
+  image_url: text,
+  source_username: text,
+});
+
+/** A sub-event, by its parent event's hash; sub-events have no natural key */
+export const subEventRecordSchema = z.object({
+  source_id: required,
+  event_hash: required,
+  title: required,
+  event_date: date,
+  event_time: time,
+  end_time: time,
+  description: text,
+});
+
+export type VenueRecord = z.infer<typeof venueRecordSchema>;
+export type AccountRecord = z.infer<typeof accountRecordSchema>;
+export type PostRecord = z.infer<typeof postRecordSchema>;
+export type EventRecord = z.infer<typeof eventRecordSchema>;
+export type SubEventRecord = z.infer<typeof subEventRecordSchema>;
+
+/** Each kind's schema, and the natural key ingest matches its records by */
+export const RECORD_KINDS = {
+  venue: { schema: venueRecordSchema, key: 'name' },
+  account: { schema: accountRecordSchema, key: 'username' },
+  post: { schema: postRecordSchema, key: 'shortcode' },
+  event: { schema: eventRecordSchema, key: 'event_hash' },
+  sub_event: { schema: subEventRecordSchema, key: 'source_id' },
+} as const;
+
+export type RecordKind = keyof typeof RECORD_KINDS;
+export type KindRecord<K extends RecordKind> = z.infer<(typeof RECORD_KINDS)[K]['schema']>;
+
+export function isRecordKind(kind: string): kind is RecordKind {
+  return Object.hasOwn(RECORD_KINDS, kind);
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+export type Validation<T> =
+  | { ok: true; record: T }
+  | { ok: false; reason: string; issues: Record<string, string> };
+
+/** Parse a raw record; on failure, say what's wrong with it column by column */
+export function validateRecord<K extends RecordKind>(kind: K, payload: unknown): Validation<KindRecord<K>> {
+  const result = RECORD_KINDS[kind].schema.safeParse(payload);
+  if (result.success) return { ok: true, record: result.data as KindRecord<K> };
+
+  const issues = filterErrors(result.error);
+  const reason = Object.entries(issues).map(([column, message]) => `${column}: ${message}`).join('; ');
+  return { ok: false, reason, issues };
+}
+
+/**
+ * The key a record is matched and quarantined by: its natural key, or
+ * its `source_id` for records without one.
+ */
+export function recordKey(kind: RecordKind, payload: RawRecord): string {
+  for (const column of [RECORD_KINDS[kind].key, 'source_id']) {
+    const value = payload[column];
+    if (typeof value === 'string' && value.trim() !== '') return value;
+  }
+  return '?';
+}
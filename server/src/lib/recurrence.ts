@@ -0,0 +1,336 @@
+/**
+ * Recurrence Engine — expands recurring events into concrete occurrences
+ *
+ * blead stores recurring events once, with `is_recurring` and a
+ * `recurrence_pattern` string, and `event_date` set to the first listed
+ * date. This module parses those patterns into rules and expands them
+ * into virtual occurrences inside a requested date window, so a weekly
+ * open mic keeps showing up after its first date.
+ *
+ * ## Supported patterns
+ *
+ * | Pattern                         | Meaning                              |
+ * |---------------------------------|--------------------------------------|
+ * | `daily`, `every day`            | Every day                            |
+ * | `weekly`                        | Same weekday as `event_date`         |
+ * | `weekly:friday`                 | Every Friday                         |
+ * | `weekly:friday,saturday`        | Every Friday and Saturday            |
+ * | `biweekly`, `biweekly:friday`   | Every 2 weeks, counted from the start|
+ * | `monthly`                       | Same day of month as `event_date`    |
+ * | `monthly:first-saturday`        | 1st Saturday of each month           |
+ * | `monthly:last-friday`           | Last Friday of each month            |
+ * | `monthly:15`                    | 15th of each month                   |
+ * | `every saturday`, `every other friday`, `first saturday of the month` | Free-text equivalents |
+ *
+ * These mirror the labels rendered by `RecurringEventBadge` on the client.
+ *
+ * ## Series bounds
+ *
+ * Occurrences never start before `event_date`. For recurring events,
+ * `event_end_date` (when present) is the last date of the series.
+ */
+
+import { SQL, and, eq, gte, isNull, lte, or } from 'drizzle-orm';
+import { event } from '../db/schema.js';
+
+/** How far ahead to expand when the caller gives no end date */
+export const RECURRENCE_HORIZON_DAYS = 60;
+
+/** Safety cap on occurrences generated for a single event */
+const MAX_OCCURRENCES = 366;
+
+/** Weekday names (full and short) → 0 = Sunday … 6 = Saturday */
+export const WEEKDAYS: Record<string, number> = {
+  sunday: 0, sun: 0,
+  monday: 1, mon: 1,
+  tuesday: 2, tue: 2, tues: 2,
+  wednesday: 3, wed: 3,
+  thursday: 4, thu: 4, thurs: 4,
+  friday: 5, fri: 5,
+  saturday: 6, sat: 6,
+};
+
+const ORDINALS: Record<string, number> = {
+  first: 1, '1st': 1,
+  second: 2, '2nd': 2,
+  third: 3, '3rd': 3,
+  fourth: 4, '4th': 4,
+  last: -1,
+};
+
+export type RecurrenceRule =
+  | { freq: 'daily' }
+  /** weekdays: 0 = Sunday … 6 = Saturday; empty = weekday of the anchor date */
+  | { freq: 'weekly'; interval: 1 | 2; weekdays: number[] }
+  /** nth: 1–4, or -1 for the last such weekday of the month */
+  | { freq: 'monthly'; nth: number; weekday: number }
+  /** dayOfMonth: null = day of month of the anchor date */
+  | { freq: 'monthly'; dayOfMonth: number | null };
+
+/** Fields a row needs for expansion */
+export interface RecurringFields {
+  id: number;
+  eventDate: string;
+  eventEndDate: string | null;
+  isRecurring: boolean | null;
+  recurrencePattern: string | null;
+}
+
+/** Start/end instants a row may carry (the `start_at`/`end_at` columns) */
+interface TimedFields {
+  startAt?: Date | null;
+  endAt?: Date | null;
+}
+
+/** A row placed on a concrete date, with a pointer back to its series */
+export type Occurrence<T> = T & {
+  parentEventId: number;
+  occurrenceId: string;
+};
+
+// ============================================================================
+// DATE HELPERS (YYYY-MM-DD strings, calendar arithmetic in UTC)
+// ============================================================================
+
+function toUtc(date: string): Date {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+}
+
+function fromUtc(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function addDays(date: string, days: number): string {
+  const d = toUtc(date);
+  d.setUTCDate(d.getUTCDate() + days);
+  return fromUtc(d);
+}
+
+function weekdayOf(date: string): number {
+  return toUtc(date).getUTCDay();
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.round((toUtc(b).getTime() - toUtc(a).getTime()) / 86_400_000);
+}
+
+/** Date of the nth (or last, when nth = -1) weekday in a month */
+function nthWeekdayOfMonth(year: number, month: number, weekday: number, nth: number): string | null {
+  if (nth === -1) {
+    const last = new Date(Date.UTC(year, month + 1, 0));
+    const offset = (last.getUTCDay() - weekday + 7) % 7;
+    last.setUTCDate(last.getUTCDate() - offset);
+    return fromUtc(last);
+  }
+  const first = new Date(Date.UTC(year, month, 1));
+  const offset = (weekday - first.getUTCDay() + 7) % 7;
+  const day = 1 + offset + (nth - 1) * 7;
+  const result = new Date(Date.UTC(year, month, day));
+  return result.getUTCMonth() === month ? fromUtc(result) : null;
+}
+
+// ============================================================================
+// PATTERN PARSING
+// ============================================================================
+
+function parseWeekdays(text: string): number[] | null {
+  const parts = text.split(/\s*(?:,|\/|&|\band\b)\s*/).filter(Boolean);
+  const days = parts.map(p => WEEKDAYS[p.replace(/s$/, '')] ?? WEEKDAYS[p]);
+  if (days.length === 0 || days.some(d => d === undefined)) return null;
+  return [...new Set(days)].sort();
+}
+
+/**
+ * Parse a stored recurrence pattern into a rule.
+ * Returns null for patterns we can't interpret; callers then fall back
+ * to treating the event as a single-date event.
+ */
+export function parseRecurrencePattern(pattern: string | null | undefined): RecurrenceRule | null {
+  if (!pattern) return null;
+  const p = pattern.trim().toLowerCase().replace(/\s+/g, ' ');
+
+  if (p === 'daily' || p === 'every day' || p === 'everyday') {
+    return { freq: 'daily' };
+  }
+
+  // Structured forms: weekly[:days], biweekly[:days], monthly[:spec]
+  const structured = p.match(/^(weekly|biweekly|monthly)(?::(.+))?$/);
+  if (structured) {
+    const [, kind, spec] = structured;
+    if (kind === 'monthly') {
+      if (!spec) return { freq: 'monthly', dayOfMonth: null };
+      if (/^\d{1,2}$/.test(spec)) {
+        const day = Number(spec);
+        return day >= 1 && day <= 31 ? { freq: 'monthly', dayOfMonth: day } : null;
+      }
+      const nthMatch = spec.match(/^(\w+)-(\w+)$/);
+      if (!nthMatch) return null;
+      const nth = ORDINALS[nthMatch[1]];
+      const weekday = WEEKDAYS[nthMatch[2]];
+      return nth !== undefined && weekday !== undefined ? { freq: 'monthly', nth, weekday } : null;
+    }
+    const interval = kind === 'biweekly' ? 2 : 1;
+    if (!spec) return { freq: 'weekly', interval, weekdays: [] };
+    const weekdays = parseWeekdays(spec);
+    return weekdays ? { freq: 'weekly', interval, weekdays } : null;
+  }
+
+  // Free text: "every other friday", "every friday and saturday"
+  const every = p.match(/^every (other )?(.+?)s?$/);
+  if (every && !/month/.test(p)) {
+    const weekdays = parseWeekdays(every[2]);
+    if (weekdays) return { freq: 'weekly', interval: every[1] ? 2 : 1, weekdays };
+  }
+
+  // Free text: "first saturday of the month", "last friday of every month"
+  const monthly = p.match(/^(?:every )?(\w+) (\w+?)s? (?:of )?(?:the |every |each )?month(?:ly)?$/);
+  if (monthly) {
+    const nth = ORDINALS[monthly[1]];
+    const weekday = WEEKDAYS[monthly[2]];
+    if (nth !== undefined && weekday !== undefined) return { freq: 'monthly', nth, weekday };
+  }
+
+  return null;
+}
+
+// ============================================================================
+// EXPANSION
+// ============================================================================
+
+/**
+ * All occurrence dates of a rule within [from, to], never before the
+ * anchor (first) date and never after `until`.
+ */
+export function occurrenceDates(
+  rule: RecurrenceRule,
+  anchor: string,
+  from: string,
+  to: string,
+  until?: string | null,
+): string[] {
+  const start = from > anchor ? from : anchor;
+  const end = until && until < to ? until : to;
+  if (start > end) return [];
+
+  const dates: string[] = [];
+
+  if (rule.freq === 'daily' || rule.freq === 'weekly') {
+    const weekdays = rule.freq === 'weekly' && rule.weekdays.length > 0
+      ? rule.weekdays
+      : rule.freq === 'weekly' ? [weekdayOf(anchor)] : null;
+    const interval = rule.freq === 'weekly' ? rule.interval : 1;
+    // Week index is counted from the Sunday on/before the anchor
+    const anchorWeekStart = addDays(anchor, -weekdayOf(anchor));
+
+    for (let d = start; d <= end && dates.length < MAX_OCCURRENCES; d = addDays(d, 1)) {
+      if (weekdays && !weekdays.includes(weekdayOf(d))) continue;
+      if (interval > 1 && Math.floor(daysBetween(anchorWeekStart, d) / 7) % interval !== 0) continue;
+      dates.push(d);
+    }
+    return dates;
+  }
+
+  // Monthly rules: walk month by month
+  const startDate = toUtc(start);
+  let year = startDate.getUTCFullYear();
+  let month = startDate.getUTCMonth();
+  const anchorDay = toUtc(anchor).getUTCDate();
+
+  while (dates.length < MAX_OCCURRENCES) {
+    let candidate: string | null;
+    if ('nth' in rule) {
+      candidate = nthWeekdayOfMonth(year, month, rule.weekday, rule.nth);
+    } else {
+      const day = rule.dayOfMonth ?? anchorDay;
+      const date = new Date(Date.UTC(year, month, day));
+      candidate = date.getUTCMonth() === month ? fromUtc(date) : null; // skip Feb 30 etc.
+    }
+
+    const monthStart = fromUtc(new Date(Date.UTC(year, month, 1)));
+    if (monthStart > end) break;
+    if (candidate && candidate >= start && candidate <= end) dates.push(candidate);
+
+    month++;
+    if (month > 11) {
+      month = 0;
+      year++;
+    }
+  }
+  return dates;
+}
+
+/**
+ * Expand recurring rows into one entry per occurrence in [from, to].
+ *
+ * Each occurrence keeps the parent's fields (including `id`, so detail
+ * links still resolve) with `eventDate` moved to the occurrence date and
+ * `parentEventId`/`occurrenceId` added. `startAt`/`endAt`, when present,
+ * move with it. Rows whose pattern can't be parsed
+ * are kept as a single occurrence if their own date is in the window.
+ */
+export function expandRecurring<T extends RecurringFields & TimedFields>(
+  rows: T[],
+  from: string,
+  to: string,
+): Occurrence<T>[] {
+  const result: Occurrence<T>[] = [];
+
+  for (const row of rows) {
+    const rule = parseRecurrencePattern(row.recurrencePattern);
+    const dates = rule
+      ? occurrenceDates(rule, row.eventDate, from, to, row.eventEndDate)
+      : row.eventDate >= from && row.eventDate <= to ? [row.eventDate] : [];
+
+    for (const date of dates) {
+      result.push({
+        ...row,
+        ...shiftTimes(row, daysBetween(row.eventDate, date)),
+        eventDate: date,
+        eventEndDate: rule ? null : row.eventEndDate,
+        parentEventId: row.id,
+        occurrenceId: `${row.id}:${date}`,
+      });
+    }
+  }
+
+  return result;
+}
+
+/** `startAt`/`endAt` moved by whole days (Manila has no DST, so days are 24h) */
+function shiftTimes(row: TimedFields, days: number): TimedFields {
+  const shift = (value: Date | null | undefined) =>
+    value ? new Date(value.getTime() + days * 86_400_000) : value;
+  return 'startAt' in row || 'endAt' in row
+    ? { startAt: shift(row.startAt), endAt: shift(row.endAt) }
+    : {};
+}
+
+/**
+ * Condition selecting recurring series that may have occurrences in
+ * [from, to]: started on/before `to` and not ended before `from`.
+ */
+export function recurringInWindow(from: string, to: string): SQL {
+  return and(
+    eq(event.isRecurring, true),
+    lte(event.eventDate, to),
+    or(isNull(event.eventEndDate), gte(event.eventEndDate, from)),
+  )!;
+}
+
+/** Condition selecting single-date (non-recurring) events */
+export function notRecurring(): SQL {
+  return or(eq(event.isRecurring, false), isNull(event.isRecurring))!;
+}
+
+/** Sort comparator matching the SQL `ORDER BY event_date, event_time` */
+export function byDateAndTime(
+  a: { eventDate: string; eventTime: string | null },
+  b: { eventDate: string; eventTime: string | null },
+): number {
+  if (a.eventDate !== b.eventDate) return a.eventDate < b.eventDate ? -1 : 1;
+  if (a.eventTime === b.eventTime) return 0;
+  if (a.eventTime === null) return 1; // NULLs last, as in Postgres ASC
+  if (b.eventTime === null) return -1;
+  return a.eventTime < b.eventTime ? -1 : 1;
+}
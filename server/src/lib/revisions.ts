@@ -0,0 +1,144 @@
+/**
+ * Revisions — field-level history of event changes
+ *
+ * Ingest overwrites events in place when blead re-extracts a post, and
+ * admins can correct them by hand. Either way the old values would be
+ * lost, so every change to a tracked field is first diffed and written
+ * to `event_revision`:
+ *
+ * ```json
+ * { "eventDate": { "from": "2026-03-06", "to": "2026-03-13" },
+ *   "price":     { "from": 500, "to": 800 } }
+ * ```
+ *
+ * Only TRACKED_FIELDS are diffed — the things a promoter moves and a
+ * guest cares about (date, time, venue, price, status, availability).
+ * Captions and quality scores churn on every re-extraction and aren't
+ * worth a row.
+ *
+ * ## Rescheduled from
+ * When a change moves the date or start time, the previous night is
+ * kept on the event itself as `rescheduled_from`, so cards can say
+ * "rescheduled from Fri, Mar 6" without reading the history. Moving an
+ * event back to that night clears it.
+ */
+
+import { desc, eq } from 'drizzle-orm';
+import type { db as appDb } from '../db/connection.js';
+import { eventRevision } from '../db/schema.js';
+
+type Database = typeof appDb;
+
+/** Event fields whose changes are recorded, in display order */
+export const TRACKED_FIELDS = [
+  'eventDate',
+  'eventEndDate',
+  'eventTime',
+  'endTime',
+  'venueId',
+  'venueName',
+  'isFree',
+  'price',
+  'priceMin',
+  'priceMax',
+  'eventStatus',
+  'availabilityStatus',
+] as const;
+
+export type TrackedField = (typeof TRACKED_FIELDS)[number];
+
+export type FieldValue = string | number | boolean | null;
+
+export interface FieldChange {
+  from: FieldValue;
+  to: FieldValue;
+}
+
+/** Changed fields only; never empty when stored */
+export type EventChanges = Partial<Record<TrackedField, FieldChange>>;
+
+/** Who made a change */
+export type RevisionSource = 'ingest' | 'admin';
+
+/** The night an event was moved from, stored on `event.rescheduled_from` */
+export interface RescheduledFrom {
+  eventDate: string;
+  eventTime: string | null;
+}
+
+type TrackedValues = { [K in TrackedField]?: FieldValue | undefined };
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+/**
+ * Tracked fields that differ between an event and an update to it, or
+ * null when nothing tracked changed. Fields absent from `after` are
+ * left alone (a partial admin edit); null and undefined compare equal.
+ */
+export function diffEvent(before: TrackedValues, after: TrackedValues): EventChanges | null {
+  const changes: EventChanges = {};
+  for (const field of TRACKED_FIELDS) {
+    if (after[field] === undefined) continue;
+    const from = before[field] ?? null;
+    const to = after[field] ?? null;
+    if (from !== to) changes[field] = { from, to };
+  }
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+/**
+ * `rescheduled_from` after applying `changes` to an event. Unchanged
+ * when neither date nor start time moved.
+ */
+export function rescheduledFrom(
+  before: { eventDate: string; eventTime?: string | null; rescheduledFrom?: RescheduledFrom | null },
+  changes: EventChanges,
+): RescheduledFrom | null {
+  const current = before.rescheduledFrom ?? null;
+  if (!changes.eventDate && !changes.eventTime) return current;
+
+  const newDate = (changes.eventDate?.to ?? before.eventDate) as string;
+  const newTime = (changes.eventTime ? changes.eventTime.to : before.eventTime ?? null) as string | null;
+
+  // Moved back to the night it was moved from
+  if (current && current.eventDate === newDate && current.eventTime === newTime) return null;
+
+  return { eventDate: before.eventDate, eventTime: before.eventTime ?? null };
+}
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+/**
+ * Append a revision. `database` may be a transaction, so the revision
+ * commits together with the change it describes.
+ */
+export async function recordRevision(
+  database: Pick<Database, 'insert'>,
+  eventId: number,
+  changes: EventChanges,
+  source: RevisionSource,
+  accountId: number | null = null,
+): Promise<void> {
+  await database.insert(eventRevision).values({ eventId, changes, source, accountId });
+}
+
+/**
+ * An event's revisions, newest first. Who made admin edits stays
+ * internal; the public history only says `admin` or `ingest`.
+ */
+export async function revisionsFor(database: Database, eventId: number) {
+  return database
+    .select({
+      id: eventRevision.id,
+      source: eventRevision.source,
+      changes: eventRevision.changes,
+      createdAt: eventRevision.createdAt,
+    })
+    .from(eventRevision)
+    .where(eq(eventRevision.eventId, eventId))
+    .orderBy(desc(eventRevision.createdAt), desc(eventRevision.id));
+}
@@ -0,0 +1,190 @@
+/**
+ * Event Search — PostgreSQL full-text search with typo fallback
+ *
+ * Search runs against the `event_search` table, which holds one weighted
+ * tsvector per event built from everything a user might type: title,
+ * artists, sub-event titles (lineups, screenings), venue name, source
+ * account username and description.
+ *
+ * ## Matching
+ * An event matches when either:
+ * 1. Full-text: every word of the query matches as a prefix
+ *    (`salcedo mark` → `salcedo:* & mark:*`), accent-insensitive via the
+ *    `wtf_search` configuration (`cafe` finds "Café", `paranaque` finds
+ *    "Parañaque"), or
+ * 2. Trigram: the query is close to some run of words in the event's
+ *    names (`salcedo markt` → "Salcedo Market"), via pg_trgm `%>`.
+ *
+ * ## Ranking
+ * `ts_rank_cd` over the weighted document plus the trigram word
+ * similarity, so exact title/artist hits outrank description mentions and
+ * typo matches still sort sensibly.
+ *
+ * ## Snippets
+ * `ts_headline` over the stored `content`, with matches wrapped in
+ * `<mark>…</mark>`. The snippet is plain text — clients must render it as
+ * text and only interpret the markers, never as raw HTML.
+ *
+ * ## Setup
+ * Requires the `unaccent` and `pg_trgm` extensions and the `wtf_search`
+ * text search configuration. `ensureSearchSetup()` creates them
+ * idempotently; run `npm run search:setup` once before `db:push` on a new
+ * database. The ingest script calls it on every run and rebuilds the
+ * index with `refreshSearchIndex()`.
+ */
+
+import postgres from 'postgres';
+import { SQL, sql } from 'drizzle-orm';
+import { event, eventSearch } from '../db/schema.js';
+
+/** Text search configuration: `simple` + unaccent (no stemming — names matter more than English grammar) */
+export const SEARCH_CONFIG = 'wtf_search';
+
+/** Markers wrapped around matched words in snippets */
+export const SNIPPET_START = '<mark>';
+export const SNIPPET_STOP = '</mark>';
+
+const HEADLINE_OPTIONS = [
+  `StartSel=${SNIPPET_START}`,
+  `StopSel=${SNIPPET_STOP}`,
+  'MaxWords=24',
+  'MinWords=8',
+  'ShortWord=2',
+  'MaxFragments=2',
+  'FragmentDelimiter=" … "',
+].join(', ');
+
+type Connection = ReturnType<typeof postgres>;
+
+// ============================================================================
+// QUERY HELPERS
+// ============================================================================
+
+/**
+ * Turn free user input into a prefix tsquery string, e.g.
+ * `"DJ Kat @ Salcedo"` → `dj:* & kat:* & salcedo:*`.
+ * Only letters and digits survive, so the result is always valid
+ * `to_tsquery` syntax. Returns null when nothing searchable remains.
+ */
+export function toPrefixQuery(term: string): string | null {
+  const words = term.normalize('NFKC').toLowerCase().match(/[\p{L}\p{N}]+/gu);
+  if (!words) return null;
+  return words.map(w => `${w}:*`).join(' & ');
+}
+
+function tsQuery(term: string): SQL {
+  const prefix = toPrefixQuery(term);
+  return prefix
+    ? sql`to_tsquery(${SEARCH_CONFIG}::regconfig, ${prefix})`
+    : sql`''::tsquery`;
+}
+
+function trigramQuery(term: string): SQL {
+  return sql`lower(unaccent(${term.trim()}))`;
+}
+
+/**
+ * Condition selecting events that match `term` by full-text or trigram.
+ */
+export function searchCondition(term: string): SQL {
+  return sql`${event.id} IN (
+    SELECT ${eventSearch.eventId} FROM ${eventSearch}
+    WHERE ${eventSearch.document} @@ ${tsQuery(term)}
+       OR ${eventSearch.searchText} %> ${trigramQuery(term)}
+  )`;
+}
+
+/**
+ * Relevance score for `term` (higher is better). Evaluates to 0 for
+ * events without a search document.
+ */
+export function searchRank(term: string): SQL<number> {
+  return sql<number>`coalesce((
+    SELECT ts_rank_cd(${eventSearch.document}, ${tsQuery(term)})
+         + word_similarity(${trigramQuery(term)}, ${eventSearch.searchText})
+    FROM ${eventSearch}
+    WHERE ${eventSearch.eventId} = ${event.id}
+  ), 0)`.mapWith(Number);
+}
+
+/**
+ * Highlighted excerpt of the event's searchable text for `term`.
+ */
+export function searchSnippet(term: string): SQL<string | null> {
+  return sql<string | null>`(
+    SELECT ts_headline(${SEARCH_CONFIG}::regconfig, ${eventSearch.content}, ${tsQuery(term)}, ${HEADLINE_OPTIONS})
+    FROM ${eventSearch}
+    WHERE ${eventSearch.eventId} = ${event.id}
+  )`;
+}
+
+// ============================================================================
+// INDEX MAINTENANCE
+// ============================================================================
+
+/**
+ * Create the extensions and text search configuration search depends on.
+ * Safe to run repeatedly. Needs a role allowed to CREATE EXTENSION.
+ */
+export async function ensureSearchSetup(conn: Connection): Promise<void> {
+  await conn`CREATE EXTENSION IF NOT EXISTS unaccent`;
+  await conn`CREATE EXTENSION IF NOT EXISTS pg_trgm`;
+  await conn.unsafe(`
+    DO $$
+    BEGIN
+      IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = '${SEARCH_CONFIG}') THEN
+        CREATE TEXT SEARCH CONFIGURATION ${SEARCH_CONFIG} (COPY = simple);
+        ALTER TEXT SEARCH CONFIGURATION ${SEARCH_CONFIG}
+          ALTER MAPPING FOR asciiword, asciihword, hword_asciipart, word, hword, hword_part
+          WITH unaccent, simple;
+      END IF;
+    END
+    $$;
+  `);
+}
+
+/**
+ * Rebuild search documents from the current event, sub-event and artist
+ * data. Pass event IDs to refresh only those events; omit to rebuild all.
+ *
+ * @returns Number of search documents written
+ */
+export async function refreshSearchIndex(conn: Connection, eventIds?: number[]): Promise<number> {
+  if (eventIds && eventIds.length === 0) return 0;
+  const filter = eventIds ? conn`e.id = ANY(${eventIds})` : conn`true`;
+
+  const rows = await conn`
+    INSERT INTO event_search (event_id, document, content, search_text, updated_at)
+    SELECT
+      e.id,
+      setweight(to_tsvector(${SEARCH_CONFIG}::regconfig, coalesce(e.title, '')), 'A') ||
+      setweight(to_tsvector(${SEARCH_CONFIG}::regconfig, coalesce(a.names, '')), 'A') ||
+      setweight(to_tsvector(${SEARCH_CONFIG}::regconfig, coalesce(s.titles, '')), 'B') ||
+      setweight(to_tsvector(${SEARCH_CONFIG}::regconfig, concat_ws(' ', e.venue_name, e.source_username)), 'B') ||
+      setweight(to_tsvector(${SEARCH_CONFIG}::regconfig, coalesce(e.description, '')), 'C'),
+      concat_ws(' · ', e.title, a.names, s.titles, e.venue_name, '@' || e.source_username, e.description),
+      lower(unaccent(concat_ws(' ', e.title, a.names, s.titles, e.venue_name, e.source_username))),
+      now()
+    FROM event e
+    LEFT JOIN LATERAL (
+      SELECT string_agg(name, ', ') AS names
+      FROM jsonb_array_elements_text(
+        CASE WHEN jsonb_typeof(e.artists) = 'array' THEN e.artists ELSE '[]'::jsonb END
+      ) AS name
+    ) a ON true
+    LEFT JOIN LATERAL (
+      SELECT string_agg(se.title, ', ' ORDER BY se.event_date, se.event_time) AS titles
+      FROM sub_event se
+      WHERE se.event_id = e.id
+    ) s ON true
+    WHERE ${filter}
+    ON CONFLICT (event_id) DO UPDATE SET
+      document = EXCLUDED.document,
+      content = EXCLUDED.content,
+      search_text = EXCLUDED.search_text,
+      updated_at = EXCLUDED.updated_at
+    RETURNING event_id
+  `;
+
+  return rows.length;
+}
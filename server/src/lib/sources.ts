@@ -0,0 +1,164 @@
+/**
+ * Sources — every Instagram post an event was found in
+ *
+ * The same party is posted by the venue, the promoter and every DJ on
+ * the lineup. blead extracts an event from each post and dedup merges
+ * them into one (`lib/merges.ts`), but `event.source_post_id` can only
+ * name one post. `event_source_post` keeps them all:
+ *
+ * - ingest links each event to its own post (`linkOwnPost()`, or
+ *   `linkNewEvents()` for a batch of new events);
+ * - consolidation gives a survivor its merged duplicates' posts
+ *   (`linkMergedPosts()`), and takes them back when a merge is undone.
+ *
+ * Each link records `via_event_id`, the event row extracted from the
+ * post, so the two never overwrite each other. `sourcesFor()` lists an
+ * event's posts with their accounts for the detail page, and
+ * `postedByAccount()` credits an event to every account that posted it.
+ */
+
+import { SQL, and, asc, desc, eq, ne, sql } from 'drizzle-orm';
+import type { db as appDb } from '../db/connection.js';
+import { event, eventSourcePost, sourceAccount, sourcePost } from '../db/schema.js';
+
+type Database = typeof appDb;
+
+// ============================================================================
+// LINKS
+// ============================================================================
+
+/**
+ * Link an event to the post it was extracted from, replacing a previous
+ * own post if the event was re-extracted from another one.
+ */
+export async function linkOwnPost(
+  database: Pick<Database, 'insert' | 'delete'>,
+  eventId: number,
+  sourcePostId: number | null,
+): Promise<void> {
+  await database.delete(eventSourcePost).where(and(
+    eq(eventSourcePost.eventId, eventId),
+    eq(eventSourcePost.viaEventId, eventId),
+    sourcePostId !== null ? ne(eventSourcePost.sourcePostId, sourcePostId) : undefined,
+  ));
+  if (sourcePostId === null) return;
+
+  // A duplicate may have credited the same post first; it's ours now
+  await database
+    .insert(eventSourcePost)
+    .values({ eventId, sourcePostId, viaEventId: eventId })
+    .onConflictDoUpdate({
+      target: [eventSourcePost.eventId, eventSourcePost.sourcePostId],
+      set: { viaEventId: eventId },
+    });
+}
+
+/** `linkOwnPost()` for events that were just created, in one insert */
+export async function linkNewEvents(
+  database: Pick<Database, 'insert'>,
+  links: { eventId: number; sourcePostId: number }[],
+): Promise<void> {
+  if (links.length === 0) return;
+  await database
+    .insert(eventSourcePost)
+    .values(links.map(({ eventId, sourcePostId }) => ({ eventId, sourcePostId, viaEventId: eventId })))
+    .onConflictDoUpdate({
+      target: [eventSourcePost.eventId, eventSourcePost.sourcePostId],
+      set: { viaEventId: sql`excluded.via_event_id` },
+    });
+}
+
+/**
+ * Make a survivor's borrowed links match its merged duplicates' posts.
+ * Returns whether any link was added or removed.
+ */
+export async function linkMergedPosts(
+  database: Pick<Database, 'select' | 'insert' | 'delete'>,
+  survivorId: number,
+  duplicates: { id: number; sourcePostId: number | null }[],
+): Promise<boolean> {
+  const current = await database
+    .select({ sourcePostId: eventSourcePost.sourcePostId, viaEventId: eventSourcePost.viaEventId })
+    .from(eventSourcePost)
+    .where(eq(eventSourcePost.eventId, survivorId));
+
+  const own = new Set(current.filter(l => l.viaEventId === survivorId).map(l => l.sourcePostId));
+  const wanted = new Map<number, number>();
+  for (const duplicate of duplicates) {
+    const postId = duplicate.sourcePostId;
+    if (postId !== null && !own.has(postId) && !wanted.has(postId)) wanted.set(postId, duplicate.id);
+  }
+
+  const borrowed = current.filter(l => l.viaEventId !== survivorId);
+  const unchanged = borrowed.length === wanted.size
+    && borrowed.every(l => wanted.get(l.sourcePostId) === l.viaEventId);
+  if (unchanged) return false;
+
+  await database.delete(eventSourcePost).where(and(
+    eq(eventSourcePost.eventId, survivorId),
+    ne(eventSourcePost.viaEventId, survivorId),
+  ));
+  if (wanted.size > 0) {
+    await database.insert(eventSourcePost).values(
+      [...wanted].map(([sourcePostId, viaEventId]) => ({ eventId: survivorId, sourcePostId, viaEventId })),
+    );
+  }
+  return true;
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Condition selecting events any of whose posts came from an account,
+ * not just the one whose post won dedup.
+ *
+ * The subquery names its tables itself: relational queries re-alias
+ * every column in a `where` to the outer table.
+ */
+export function postedByAccount(accountId: number): SQL {
+  return sql`${event.id} IN (
+    SELECT esp.event_id FROM event_source_post esp
+    JOIN source_post sp ON sp.id = esp.source_post_id
+    WHERE sp.account_id = ${accountId}
+  )`;
+}
+
+/** `postedByAccount()` by lowercase usernames, for the `account` filter */
+export function postedByUsernames(usernames: string[]): SQL {
+  return sql`${event.id} IN (
+    SELECT esp.event_id FROM event_source_post esp
+    JOIN source_post sp ON sp.id = esp.source_post_id
+    JOIN source_account sa ON sa.id = sp.account_id
+    WHERE lower(sa.username) IN ${usernames}
+  )`;
+}
+
+/**
+ * The posts an event was found in, with their accounts: the event's own
+ * post first, then by follower count so the biggest names lead.
+ */
+export async function sourcesFor(database: Database, eventId: number) {
+  return database
+    .select({
+      postId: sourcePost.id,
+      shortcode: sourcePost.shortcode,
+      postUrl: sourcePost.postUrl,
+      postedAt: sourcePost.postedAt,
+      username: sourceAccount.username,
+      displayName: sourceAccount.displayName,
+      profilePicUrl: sourceAccount.profilePicUrl,
+      isVerified: sourceAccount.isVerified,
+      isPrimary: sql<boolean>`${eventSourcePost.viaEventId} = ${eventSourcePost.eventId}`,
+    })
+    .from(eventSourcePost)
+    .innerJoin(sourcePost, eq(sourcePost.id, eventSourcePost.sourcePostId))
+    .leftJoin(sourceAccount, eq(sourceAccount.id, sourcePost.accountId))
+    .where(eq(eventSourcePost.eventId, eventId))
+    .orderBy(
+      desc(sql`${eventSourcePost.viaEventId} = ${eventSourcePost.eventId}`),
+      sql`${sourceAccount.followerCount} DESC NULLS LAST`,
+      asc(sourcePost.postedAt),
+    );
+}
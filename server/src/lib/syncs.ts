@@ -0,0 +1,454 @@
+/**
+ * Syncs — ingest runs, phase by phase, and how to take one back
+ *
+ * An ingest run (`scripts/ingest-from-blead.ts`) is a sequence of
+ * phases: venues, accounts, posts, flyer hashes, events, sub-events,
+ * dedup, then derived data. `runPhase()` gives each one its own
+ * transaction, so a failure leaves that phase unwritten rather than
+ * half-written, and appends its outcome to `sync_log.phases`. Run inside
+ * an outer transaction (`--atomic`), each phase is a savepoint instead
+ * and the run lands as a whole or not at all.
+ *
+ * ## Snapshots
+ * While a phase runs, triggers on the tables ingest changes
+ * (SNAPSHOT_TABLES) copy each row into `sync_snapshot` as it was before
+ * the run first touched it — or a null for rows the run created.
+ * `rollbackRun()` writes those rows back, deletes the created ones and
+ * rebuilds what is derived from them (artist links, search index). The
+ * triggers only record inside a transaction that called
+ * `recordSnapshots()`, so API traffic and admin edits aren't captured.
+ *
+ * Only the latest run that changed anything can be rolled back
+ * (`rollbackTarget()`), whether it completed or failed: a failed run's
+ * completed phases stay written, so they can be taken back too. A run
+ * that completes with changes of its own drops the previous completed
+ * run's snapshots and older ones, keeping those of runs that failed
+ * since, which can be rolled back in turn after it. Runs that found
+ * nothing new leave the snapshots alone. Rolling back also resets
+ * changes made to the same rows after the run, and restores the ingest
+ * cursors, so the next run reads the same source records again.
+ *
+ * A run still `running` after STALE_RUN_AGE is taken to have crashed:
+ * it no longer holds rollback up, and the next run marks it failed
+ * (`failStaleRuns()`).
+ *
+ * ## Reports
+ * The snapshots are also the run's diff: `runReport()` compares each
+ * snapshotted row with the row now, giving what the run inserted,
+ * updated (field by field), deleted or left as it was, what dedup
+ * merged and which rows it quarantined. Completed runs store it in `sync_log.report`; `--dry-run`
+ * builds it inside a transaction it then rolls back.
+ */
+
+import postgres from 'postgres';
+import { syncArtists } from './artists.js';
+import { refreshSearchIndex } from './search.js';
+import { inTransaction } from './transactions.js';
+
+type Connection = ReturnType<typeof postgres>;
+
+export type PhaseStatus = 'completed' | 'failed' | 'skipped' | 'rolled_back';
+
+/** One phase of a run, as recorded in `sync_log.phases` */
+export interface SyncPhase {
+  name: string;
+  status: PhaseStatus;
+  /** Rows the phase wrote */
+  rows: number;
+  durationMs: number;
+  error?: string;
+}
+
+/**
+ * Tables an ingest run changes, with their primary key columns, parents
+ * first. Artist links and search documents are rebuilt instead.
+ */
+const SNAPSHOT_TABLES: Record<string, string[]> = {
+  venue: ['id'],
+  source_account: ['id'],
+  source_post: ['id'],
+  artist: ['id'],
+  event: ['id'],
+  sub_event: ['id'],
+  event_source_post: ['event_id', 'source_post_id'],
+  event_revision: ['id'],
+  event_merge: ['id'],
+  dedup_candidate: ['id'],
+  saved_event: ['id'],
+  ingest_quarantine: ['id'],
+  ingest_cursor: ['source_table'],
+};
+
+/** Transaction-local setting naming the run the triggers record for */
+const RUN_SETTING = 'wheresthefx.sync_log_id';
+
+/** How long a run can stay `running` before it's taken to have crashed */
+const STALE_RUN_AGE = '6 hours';
+
+/**
+ * Run one phase of run `syncLogId` in its own transaction (a savepoint
+ * if `conn` is already one) with snapshots on, and record its outcome
+ * through `log` — a connection outside the run, so the record survives
+ * the phase failing. Rethrows the phase's error.
+ *
+ * @returns Rows the phase wrote
+ */
+export async function runPhase(
+  conn: Connection,
+  log: Connection,
+  syncLogId: number,
+  name: string,
+  phase: (tx: Connection) => Promise<number>,
+): Promise<number> {
+  const started = Date.now();
+  try {
+    const rows = await inTransaction(conn, async tx => {
+      await recordSnapshots(tx, syncLogId);
+      return phase(tx);
+    });
+    await recordPhase(log, syncLogId, { name, status: 'completed', rows, durationMs: Date.now() - started });
+    return rows;
+  } catch (err) {
+    await recordPhase(log, syncLogId, {
+      name,
+      status: 'failed',
+      rows: 0,
+      durationMs: Date.now() - started,
+      error: String(err).slice(0, 500),
+    });
+    throw err;
+  }
+}
+
+/** Append a phase outcome to `sync_log.phases` */
+export async function recordPhase(log: Connection, syncLogId: number, phase: SyncPhase): Promise<void> {
+  await log`
+    UPDATE sync_log SET phases = phases || ${JSON.stringify([phase])}::jsonb
+    WHERE id = ${syncLogId}
+  `;
+}
+
+/** Mark a run's completed phases rolled back, after its outer transaction failed */
+export async function abandonPhases(log: Connection, syncLogId: number): Promise<void> {
+  await log`
+    UPDATE sync_log SET phases = (
+      SELECT coalesce(jsonb_agg(
+        CASE WHEN p ->> 'status' = 'completed' THEN jsonb_set(p, '{status}', '"rolled_back"') ELSE p END
+        ORDER BY n
+      ), '[]'::jsonb)
+      FROM jsonb_array_elements(phases) WITH ORDINALITY AS t(p, n)
+    )
+    WHERE id = ${syncLogId}
+  `;
+}
+
+// ============================================================================
+// SNAPSHOTS
+// ============================================================================
+
+/**
+ * Create the snapshot trigger on every table in SNAPSHOT_TABLES. Safe to
+ * run repeatedly; existing triggers are left alone.
+ */
+export async function ensureSnapshotSetup(conn: Connection): Promise<void> {
+  await conn.unsafe(`
+    CREATE OR REPLACE FUNCTION sync_snapshot_capture() RETURNS trigger AS $$
+    DECLARE
+      run integer := nullif(current_setting('${RUN_SETTING}', true), '')::integer;
+      touched jsonb;
+      previous jsonb;
+      touched_key jsonb;
+    BEGIN
+      IF run IS NULL THEN RETURN NULL; END IF;
+      IF TG_OP = 'INSERT' THEN touched := to_jsonb(NEW); ELSE touched := to_jsonb(OLD); previous := touched; END IF;
+      SELECT jsonb_object_agg(k, touched -> k) INTO touched_key FROM unnest(TG_ARGV) AS k;
+
+      INSERT INTO sync_snapshot (sync_log_id, table_name, row_key, before)
+      VALUES (run, TG_TABLE_NAME, touched_key, previous)
+      ON CONFLICT (sync_log_id, table_name, row_key) DO NOTHING;
+      RETURN NULL;
+    END
+    $$ LANGUAGE plpgsql;
+  `);
+
+  for (const [table, keys] of Object.entries(SNAPSHOT_TABLES)) {
+    await conn.unsafe(`
+      DO $$
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM pg_trigger WHERE tgname = 'sync_snapshot' AND tgrelid = '${table}'::regclass
+        ) THEN
+          CREATE TRIGGER sync_snapshot AFTER INSERT OR UPDATE OR DELETE ON ${table}
+          FOR EACH ROW EXECUTE FUNCTION sync_snapshot_capture(${keys.map(k => `'${k}'`).join(', ')});
+        END IF;
+      END
+      $$;
+    `);
+  }
+}
+
+/** Record snapshots for run `syncLogId` for the rest of this transaction */
+export async function recordSnapshots(tx: Connection, syncLogId: number): Promise<void> {
+  await tx`SELECT set_config(${RUN_SETTING}, ${String(syncLogId)}, true)`;
+}
+
+/**
+ * Once run `syncLogId` completed, drop the previous completed run's
+ * snapshots and older ones — unless the run changed nothing, so the
+ * previous run can still be rolled back. Runs that failed since keep
+ * theirs, to be rolled back after this one.
+ */
+export async function dropOlderSnapshots(conn: Connection, syncLogId: number): Promise<void> {
+  await conn`
+    DELETE FROM sync_snapshot
+    WHERE sync_log_id <= (
+        SELECT max(s.sync_log_id) FROM sync_snapshot s
+        JOIN sync_log l ON l.id = s.sync_log_id
+        WHERE s.sync_log_id < ${syncLogId} AND l.status = 'completed'
+      )
+      AND EXISTS (SELECT 1 FROM sync_snapshot WHERE sync_log_id = ${syncLogId})
+  `;
+}
+
+/** Mark runs left `running` longer than STALE_RUN_AGE failed */
+export async function failStaleRuns(conn: Connection): Promise<void> {
+  await conn`
+    UPDATE sync_log
+    SET status = 'failed', completed_at = now(), error_message = 'Abandoned: still running after ' || ${STALE_RUN_AGE}
+    WHERE status = 'running' AND started_at < now() - ${STALE_RUN_AGE}::interval
+  `;
+}
+
+// ============================================================================
+// ROLLBACK
+// ============================================================================
+
+/**
+ * The run an admin can roll back: the latest one with snapshots, if it
+ * completed, failed or went stale, and no run is in progress since.
+ * Null if there is none.
+ */
+export async function rollbackTarget(conn: Connection): Promise<number | null> {
+  const [run] = await conn<{ id: number }[]>`
+    SELECT l.id FROM sync_log l
+    WHERE l.id = (SELECT max(sync_log_id) FROM sync_snapshot)
+      AND (l.status IN ('completed', 'failed') OR l.started_at < now() - ${STALE_RUN_AGE}::interval)
+      AND NOT EXISTS (
+        SELECT 1 FROM sync_log later
+        WHERE later.id > l.id AND later.status = 'running'
+          AND later.started_at >= now() - ${STALE_RUN_AGE}::interval
+      )
+  `;
+  return run?.id ?? null;
+}
+
+export type RollbackResult =
+  | { outcome: 'rolled_back'; restored: number; removed: number }
+  | { outcome: 'not_found' | 'not_latest' };
+
+/**
+ * Put every row run `syncLogId` changed back the way it was and delete
+ * the rows it created, then rebuild artist links and the search index.
+ * Fails with `not_latest` unless the run is `rollbackTarget()`.
+ */
+export async function rollbackRun(conn: Connection, syncLogId: number, accountId: number): Promise<RollbackResult> {
+  return inTransaction(conn, async tx => {
+    // No run may start, or record a phase, until this one is done
+    await tx`LOCK TABLE sync_log IN EXCLUSIVE MODE`;
+    const [run] = await tx`SELECT id FROM sync_log WHERE id = ${syncLogId}`;
+    if (!run) return { outcome: 'not_found' };
+    if (await rollbackTarget(tx) !== syncLogId) return { outcome: 'not_latest' };
+
+    // Restore parents first, so restored rows' references resolve...
+    let restored = 0;
+    for (const [table, keys] of Object.entries(SNAPSHOT_TABLES)) {
+      const columns = (await tx<{ column_name: string }[]>`
+        SELECT column_name FROM information_schema.columns
+        WHERE table_schema = current_schema() AND table_name = ${table} AND is_generated = 'NEVER'
+        ORDER BY ordinal_position
+      `).map(c => `"${c.column_name}"`);
+      const updates = columns
+        .filter(c => !keys.includes(c.slice(1, -1)))
+        .map(c => `${c} = EXCLUDED.${c}`);
+
+      const rows = await tx.unsafe(`
+        INSERT INTO ${table} (${columns.join(', ')})
+        SELECT ${columns.map(c => `r.${c}`).join(', ')}
+        FROM sync_snapshot s, jsonb_populate_record(NULL::${table}, s.before) r
+        WHERE s.sync_log_id = $1 AND s.table_name = $2 AND s.before IS NOT NULL
+        ORDER BY s.id
+        ON CONFLICT (${keys.join(', ')}) DO ${updates.length > 0 ? `UPDATE SET ${updates.join(', ')}` : 'NOTHING'}
+        RETURNING 1
+      `, [syncLogId, table]);
+      restored += rows.length;
+    }
+
+    // ...then delete what the run created, children first
+    let removed = 0;
+    for (const [table, keys] of Object.entries(SNAPSHOT_TABLES).reverse()) {
+      const rows = await tx.unsafe(`
+        DELETE FROM ${table} t USING sync_snapshot s
+        WHERE s.sync_log_id = $1 AND s.table_name = $2 AND s.before IS NULL
+          AND s.row_key = jsonb_build_object(${keys.map(k => `'${k}', t.${k}`).join(', ')})
+        RETURNING 1
+      `, [syncLogId, table]);
+      removed += rows.length;
+    }
+
+    await syncArtists(tx);
+    await refreshSearchIndex(tx);
+
+    await tx`DELETE FROM sync_snapshot WHERE sync_log_id = ${syncLogId}`;
+    await tx`
+      UPDATE sync_log
+      SET status = 'rolled_back', rolled_back_at = now(), rolled_back_by = ${accountId}
+      WHERE id = ${syncLogId}
+    `;
+    return { outcome: 'rolled_back', restored, removed };
+  });
+}
+
+// ============================================================================
+// REPORTS
+// ============================================================================
+
+/**
+ * Tables a report covers, with the column that names a row for people.
+ * All are keyed by `id`.
+ */
+const REPORT_TABLES: Record<string, string> = {
+  venue: 'name',
+  source_account: 'username',
+  source_post: 'shortcode',
+  event: 'title',
+  sub_event: 'title',
+};
+
+/** Bookkeeping columns every write touches; not worth reporting */
+const UNREPORTED_COLUMNS = new Set(['created_at', 'updated_at']);
+
+/** A row a run wrote */
+export interface ReportedRow {
+  id: number;
+  label: string;
+  /** Updated rows only: each changed column, before and after */
+  changes?: Record<string, { from: unknown; to: unknown }>;
+}
+
+export interface TableReport {
+  inserted: ReportedRow[];
+  updated: ReportedRow[];
+  deleted: ReportedRow[];
+  /** Rows the run rewrote without changing anything */
+  unchanged: number;
+}
+
+/** A duplicate dedup merged during the run */
+export interface ReportedMerge {
+  winnerId: number;
+  winnerTitle: string;
+  loserId: number;
+  loserTitle: string;
+  rule: string;
+  similarity: number | null;
+}
+
+/** A source record the run quarantined (`ingest_quarantine`) */
+export interface ReportedQuarantine {
+  id: number;
+  ingestSource: string;
+  kind: string;
+  rowKey: string;
+  reason: string;
+}
+
+/** What a run changed, from its snapshots (`sync_log.report`) */
+export interface SyncReport {
+  dryRun: boolean;
+  tables: Record<string, TableReport>;
+  merged: ReportedMerge[];
+  /** Possible duplicates newly queued for review */
+  queued: number;
+  quarantined: ReportedQuarantine[];
+}
+
+/**
+ * Diff run `syncLogId`'s snapshots against the rows as they are now.
+ * Call it before anything else writes to those rows — right after the
+ * run, or inside a dry run's transaction.
+ */
+export async function runReport(conn: Connection, syncLogId: number, dryRun = false): Promise<SyncReport> {
+  const tables: Record<string, TableReport> = {};
+  for (const [table, labelColumn] of Object.entries(REPORT_TABLES)) {
+    const rows = await conn.unsafe<{ id: number; before: Record<string, unknown> | null; after: Record<string, unknown> | null }[]>(`
+      SELECT (s.row_key ->> 'id')::int AS id, s.before, to_jsonb(t) AS after
+      FROM sync_snapshot s
+      LEFT JOIN ${table} t ON t.id = (s.row_key ->> 'id')::int
+      WHERE s.sync_log_id = $1 AND s.table_name = $2
+      ORDER BY s.id
+    `, [syncLogId, table]);
+
+    const report: TableReport = { inserted: [], updated: [], deleted: [], unchanged: 0 };
+    for (const { id, before, after } of rows) {
+      const label = String((after ?? before)?.[labelColumn] ?? `#${id}`);
+      if (!before && after) {
+        report.inserted.push({ id, label });
+      } else if (before && !after) {
+        report.deleted.push({ id, label });
+      } else if (before && after) {
+        const changes = diffRows(before, after);
+        if (changes) report.updated.push({ id, label, changes });
+        else report.unchanged++;
+      }
+      // Neither: created and deleted again within the run
+    }
+    tables[table] = report;
+  }
+
+  const merged = await conn<ReportedMerge[]>`
+    SELECT m.winner_id AS "winnerId", w.title AS "winnerTitle", m.loser_id AS "loserId",
+           l.title AS "loserTitle", m.rule, m.similarity
+    FROM sync_snapshot s
+    JOIN event_merge m ON m.id = (s.row_key ->> 'id')::int
+    JOIN event w ON w.id = m.winner_id
+    JOIN event l ON l.id = m.loser_id
+    WHERE s.sync_log_id = ${syncLogId} AND s.table_name = 'event_merge' AND s.before IS NULL
+    ORDER BY m.id
+  `;
+  const [{ queued }] = await conn<{ queued: number }[]>`
+    SELECT count(*)::int AS queued
+    FROM sync_snapshot s
+    JOIN dedup_candidate c ON c.id = (s.row_key ->> 'id')::int
+    WHERE s.sync_log_id = ${syncLogId} AND s.table_name = 'dedup_candidate'
+      AND s.before IS NULL AND c.status = 'pending'
+  `;
+
+  const quarantined = await conn<ReportedQuarantine[]>`
+    SELECT q.id, q.ingest_source AS "ingestSource", q.kind, q.row_key AS "rowKey", q.reason
+    FROM sync_snapshot s
+    JOIN ingest_quarantine q ON q.id = (s.row_key ->> 'id')::int
+    WHERE s.sync_log_id = ${syncLogId} AND s.table_name = 'ingest_quarantine'
+      AND q.status = 'pending' AND q.sync_log_id = ${syncLogId}
+    ORDER BY q.id
+  `;
+
+  return {
+    dryRun,
+    tables,
+    merged: [...merged],
+    queued,
+    quarantined: [...quarantined],
+  };
+}
+
+/** Columns that differ between two versions of a row, or null if none do */
+function diffRows(before: Record<string, unknown>, after: Record<string, unknown>): ReportedRow['changes'] | null {
+  const changes: NonNullable<ReportedRow['changes']> = {};
+  for (const column of Object.keys(after)) {
+    if (UNREPORTED_COLUMNS.has(column)) continue;
+    if (JSON.stringify(before[column] ?? null) !== JSON.stringify(after[column] ?? null)) {
+      changes[column] = { from: before[column] ?? null, to: after[column] ?? null };
+    }
+  }
+  return Object.keys(changes).length > 0 ? changes : null;
+}
@@ -0,0 +1,126 @@
+/**
+ * Time — Manila-local dates and event start/end instants
+ *
+ * Events are stored the way blead extracts them: a local calendar date
+ * plus optional "HH:MM" times, all in Manila time. The server itself may
+ * run in UTC, so nothing here relies on the process timezone —
+ * "today" is always resolved in Asia/Manila.
+ *
+ * ## Start / end instants
+ * `event.start_at` and `event.end_at` are generated timestamptz columns
+ * derived from the date/time fields (see `schema.ts`):
+ *
+ * | Case                                  | start_at              | end_at                                |
+ * |---------------------------------------|-----------------------|---------------------------------------|
+ * | `event_time` + `end_time`             | date + event_time     | end date + end_time                   |
+ * | …end_time not after start (overnight) |                       | + 1 day (11pm–4am ends the next day)  |
+ * | `event_time` only                     | date + event_time     | end date + event_time + 3 hours       |
+ * | no times                              | date 00:00            | midnight after the end date           |
+ *
+ * The end date is `event_end_date` (or `event_date`). For recurring
+ * series it is always `event_date`: the bounds describe the first
+ * occurrence (`event_end_date` is when the series stops), and
+ * `expandRecurring()` shifts them onto each later occurrence.
+ *
+ * ## Time slots
+ * The `time_of_day` filter buckets events by Manila start time into
+ * TIME_SLOTS; `late_night` wraps past midnight.
+ *
+ * ## Nights
+ * Nightlife doesn't stop at midnight: before NIGHT_ROLLOVER it is still
+ * the previous night (`currentNightDate()`), which is what "today" means
+ * for date filters.
+ */
+
+/** Every event time is Manila local time; the Philippines has no DST */
+export const TIMEZONE = 'Asia/Manila';
+
+/** Time of day (HH:MM) before which the previous night is still going */
+export const NIGHT_ROLLOVER = '06:00';
+
+/** Start-hour ranges [from, to) for the `time_of_day` filter */
+export const TIME_SLOTS = {
+  morning: [5, 12],
+  afternoon: [12, 17],
+  evening: [17, 21],
+  late_night: [21, 5],
+} as const satisfies Record<string, readonly [number, number]>;
+
+export type TimeSlot = keyof typeof TIME_SLOTS;
+
+const HOUR_MS = 3_600_000;
+
+const dateFormat = new Intl.DateTimeFormat('en-CA', { timeZone: TIMEZONE });
+const clockFormat = new Intl.DateTimeFormat('en-GB', { timeZone: TIMEZONE, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' });
+
+// ============================================================================
+// CALENDAR
+// ============================================================================
+
+/**
+ * Manila calendar date (YYYY-MM-DD) of an instant.
+ */
+export function manilaDate(now = new Date()): string {
+  return dateFormat.format(now);
+}
+
+/**
+ * Today's date in Manila as nightlife counts it: before NIGHT_ROLLOVER
+ * it is still the previous night, so at 1am "today" includes the party
+ * that started at 11pm.
+ */
+export function currentNightDate(now = new Date()): string {
+  const rolloverHours = Number(NIGHT_ROLLOVER.slice(0, 2));
+  return manilaDate(new Date(now.getTime() - rolloverHours * HOUR_MS));
+}
+
+/**
+ * Minutes since Manila midnight at an instant (0–1439).
+ */
+export function manilaMinutes(now = new Date()): number {
+  const [hours, minutes] = clockFormat.format(now).split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Weekday of a YYYY-MM-DD date, 0 = Sunday … 6 = Saturday.
+ */
+export function weekdayOf(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+/**
+ * Hour (0–23) of an "HH:MM" time, or null when missing or malformed —
+ * the times `CLOCK_TIME_PATTERN` (`db/schema.ts`) accepts.
+ */
+export function hourOf(time: string | null | undefined): number | null {
+  const match = time?.match(/^([01]?\d|2[0-3]):[0-5]\d$/);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Whether an hour falls in a time slot.
+ */
+export function inTimeSlot(hour: number, slot: TimeSlot): boolean {
+  const [from, to] = TIME_SLOTS[slot];
+  return from < to ? hour >= from && hour < to : hour >= from || hour < to;
+}
+
+// ============================================================================
+// EVENT BOUNDS
+// ============================================================================
+
+/**
+ * Whether an event (or occurrence) has ended by `now`. Rows without an
+ * end instant count as not ended.
+ */
+export function hasEnded(row: { endAt?: Date | null }, now: Date): boolean {
+  return !!row.endAt && row.endAt <= now;
+}
+
+/**
+ * Whether an event (or occurrence) is going on at `now`.
+ */
+export function isHappeningAt(row: { startAt?: Date | null; endAt?: Date | null }, now: Date): boolean {
+  return !!row.startAt && !!row.endAt && row.startAt <= now && row.endAt > now;
+}
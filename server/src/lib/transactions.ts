@@ -0,0 +1,31 @@
+/**
+ * Transactions — raw postgres.js transactions that plain-connection code can use
+ *
+ * The lib helpers that write with raw SQL take a `Connection` and often
+ * open a transaction of their own. postgres.js types a transaction
+ * (`TransactionSql`) without the tagged-template call signature, and
+ * without the `begin()` and `options` those helpers and drizzle expect,
+ * so it can't be handed on as it is. `nestable()` makes it one: its
+ * `begin()` opens a savepoint, so a helper that starts a transaction
+ * inside another simply nests.
+ */
+
+import postgres from 'postgres';
+
+type Connection = ReturnType<typeof postgres>;
+
+/**
+ * A transaction that code written for a plain connection can run in:
+ * its `begin()` opens a savepoint instead, and drizzle can wrap it.
+ */
+export function nestable(root: Connection, transaction: postgres.TransactionSql): Connection {
+  return Object.assign(transaction, {
+    options: root.options,
+    begin: (...args: unknown[]) => transaction.savepoint(args[args.length - 1] as (sql: postgres.TransactionSql) => unknown),
+  }) as unknown as Connection;
+}
+
+/** Run `fn` in a transaction on `conn` (a savepoint if `conn` is already one) */
+export async function inTransaction<T>(conn: Connection, fn: (tx: Connection) => Promise<T>): Promise<T> {
+  return conn.begin(transaction => fn(nestable(conn, transaction))) as Promise<T>;
+}
@@ -0,0 +1,176 @@
+/**
+ * Venues — matching free-text venue names to the venue directory
+ *
+ * blead extracts `venue_name` from captions as written, so one place
+ * shows up as "78 Salcedo", "78salcedo", "@78salcedo" or "78-33". The
+ * directory (`venue`, from blead's `known_venue`) lists a canonical name
+ * plus aliases and an Instagram handle; `VenueResolver` maps a caption
+ * name onto it so ingest can set `event.venue_id`.
+ *
+ * ## Matching, in order
+ * | Method    | Compares                                         | Confidence   |
+ * |-----------|--------------------------------------------------|--------------|
+ * | `exact`   | normalized name or alias                         | 1            |
+ * | `compact` | same, ignoring spaces ("78salcedo" = "78 Salcedo") | 0.95       |
+ * | `handle`  | an `@handle` in the name, or the name as a handle | 0.9         |
+ * | `fuzzy`   | bigram (Dice) similarity of compact keys         | the score    |
+ *
+ * Fuzzy matches below MIN_VENUE_CONFIDENCE are rejected, as are ties
+ * between two venues (a "Poblacion" event shouldn't pick one of several
+ * Poblacion bars at random).
+ *
+ * ## Normalization
+ * `normalizeVenueName()` follows the dedup script's venue grouping:
+ * lowercase, no leading "The", nothing after the first comma
+ * ("The Bench Tower, BGC" → "bench tower"), and common building
+ * suffixes dropped — plus accent and punctuation folding.
+ */
+
+/** Lowest fuzzy score accepted as a match */
+export const MIN_VENUE_CONFIDENCE = 0.8;
+
+/** A directory entry as the resolver needs it */
+export interface VenueEntry {
+  id: number;
+  name: string;
+  aliases?: string[] | null;
+  instagramHandle?: string | null;
+}
+
+export type VenueMatchMethod = 'exact' | 'compact' | 'handle' | 'fuzzy';
+
+export interface VenueMatch {
+  venueId: number;
+  confidence: number;
+  method: VenueMatchMethod;
+}
+
+// ============================================================================
+// NORMALIZATION
+// ============================================================================
+
+/**
+ * Comparison key for a venue name, e.g. "The Bench Tower, BGC" →
+ * "bench tower", "Café Fleur!" → "cafe fleur".
+ */
+export function normalizeVenueName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .trim()
+    .replace(/^the\s+/, '')
+    .replace(/,.*$/, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+    .replace(/\s+(activity center|mall|lifestyle center|building)$/, '')
+    .trim();
+}
+
+/** Normalized name without spaces: "78 salcedo" → "78salcedo" */
+function compactKey(name: string): string {
+  return normalizeVenueName(name).replace(/\s+/g, '');
+}
+
+/** Lowercase Instagram handle without "@", or null when malformed */
+function normalizeHandle(handle: string | null | undefined): string | null {
+  const match = handle?.trim().match(/^@?([\w.]{1,30})$/);
+  return match ? match[1].toLowerCase() : null;
+}
+
+/** Sørensen–Dice coefficient over character bigrams */
+function diceSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < a.length - 1; i++) {
+    const pair = a.slice(i, i + 2);
+    bigrams.set(pair, (bigrams.get(pair) ?? 0) + 1);
+  }
+
+  let shared = 0;
+  for (let i = 0; i < b.length - 1; i++) {
+    const pair = b.slice(i, i + 2);
+    const n = bigrams.get(pair) ?? 0;
+    if (n > 0) {
+      bigrams.set(pair, n - 1);
+      shared++;
+    }
+  }
+  return (2 * shared) / (a.length + b.length - 2);
+}
+
+// ============================================================================
+// RESOLVER
+// ============================================================================
+
+/**
+ * Resolves caption venue names against the venue directory. Build once
+ * per ingest run; lookups are in-memory.
+ */
+export class VenueResolver {
+  private byKey = new Map<string, number | null>();
+  private byCompact = new Map<string, number | null>();
+  private byHandle = new Map<string, number>();
+  private compactKeys: { venueId: number; key: string }[] = [];
+
+  constructor(venues: VenueEntry[]) {
+    for (const v of venues) {
+      for (const name of [v.name, ...(v.aliases ?? [])]) {
+        const key = normalizeVenueName(name);
+        if (!key) continue;
+        addUnique(this.byKey, key, v.id);
+        addUnique(this.byCompact, key.replace(/\s+/g, ''), v.id);
+        this.compactKeys.push({ venueId: v.id, key: key.replace(/\s+/g, '') });
+      }
+      const handle = normalizeHandle(v.instagramHandle);
+      if (handle) this.byHandle.set(handle, v.id);
+    }
+  }
+
+  /**
+   * Best directory match for a venue name, or null when nothing matches
+   * confidently (or the name is ambiguous between venues).
+   */
+  resolve(name: string | null | undefined): VenueMatch | null {
+    if (!name?.trim()) return null;
+
+    const key = normalizeVenueName(name);
+    const exact = this.byKey.get(key);
+    if (exact) return { venueId: exact, confidence: 1, method: 'exact' };
+
+    const compact = key.replace(/\s+/g, '');
+    const compactMatch = this.byCompact.get(compact);
+    if (compactMatch) return { venueId: compactMatch, confidence: 0.95, method: 'compact' };
+
+    const handle = normalizeHandle(name.match(/@([\w.]{1,30})/)?.[1] ?? name);
+    const handleMatch = handle ? this.byHandle.get(handle) : undefined;
+    if (handleMatch) return { venueId: handleMatch, confidence: 0.9, method: 'handle' };
+
+    // Ambiguous exact keys (null) stop here rather than guessing
+    if (exact === null || compactMatch === null || compact.length < 3) return null;
+
+    let best: VenueMatch | null = null;
+    let tied = false;
+    for (const entry of this.compactKeys) {
+      const score = diceSimilarity(compact, entry.key);
+      if (score < MIN_VENUE_CONFIDENCE) continue;
+      if (!best || score > best.confidence) {
+        best = { venueId: entry.venueId, confidence: score, method: 'fuzzy' };
+        tied = false;
+      } else if (score === best.confidence && entry.venueId !== best.venueId) {
+        tied = true;
+      }
+    }
+    return tied ? null : best;
+  }
+}
+
+/** Set key → id, or null when two different venues claim the key */
+function addUnique(map: Map<string, number | null>, key: string, id: number) {
+  const existing = map.get(key);
+  if (existing === undefined) map.set(key, id);
+  else if (existing !== id) map.set(key, null);
+}
@@ -1,9 +1,11 @@
 /**
  * Auth Middleware — JWT verification for Express
  *
- * Provides two middleware functions:
+ * Provides three middleware functions:
  * - `authenticate`: Required auth — returns 401 if no valid token
  * - `optionalAuth`: Optional auth — attaches user if token present, continues if not
+ * - `requireAdmin`: Required auth as an admin — 401 without a valid
+ *   token, 403 unless the account's email is listed in ADMIN_EMAILS
  *
  * ## How It Works
  *
@@ -47,6 +49,21 @@ declare global {
 
 const JWT_SECRET = process.env.JWT_SECRET || 'change-me';
 
+/** Admin account emails (comma-separated ADMIN_EMAILS, case-insensitive) */
+const ADMIN_EMAILS = new Set(
+  (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean)
+);
+
+/**
+ * Whether an authenticated user is an admin.
+ */
+export function isAdmin(user: AuthPayload | undefined): boolean {
+  return !!user && ADMIN_EMAILS.has(user.email.toLowerCase());
+}
+
 /**
  * Required authentication middleware.
  * Returns 401 if no valid Bearer token is present.
@@ -91,6 +108,21 @@ export function optionalAuth(req: Request, res: Response, next: NextFunction): v
   next();
 }
 
+/**
+ * Admin-only middleware.
+ * Authenticates like `authenticate`, then returns 403 unless the user
+ * is an admin.
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+  authenticate(req, res, () => {
+    if (!isAdmin(req.user)) {
+      res.status(403).json({ error: 'Admin access required' });
+      return;
+    }
+    next();
+  });
+}
+
 /**
  * Generate a JWT token for a user.
  * Used during login and registration.
@@ -0,0 +1,289 @@
+/**
+ * Accounts Routes — Organizer directory API
+ *
+ * Source accounts are the Instagram accounts blead scrapes: promoters,
+ * venues, collectives. Every event remembers each post it was found in
+ * (`event_source_post`, see `lib/sources.ts`), so an account page
+ * doubles as "what is this promoter throwing next" — including parties
+ * whose merged listing came from the venue's post.
+ *
+ * ## Endpoints
+ * - GET /api/accounts           — Accounts with upcoming event counts
+ * - GET /api/accounts/popular   — Accounts ranked by recent engagement
+ * - GET /api/accounts/:username — Profile plus upcoming and past events
+ *
+ * ## Engagement score
+ * Over a rolling window (default 90 days):
+ *
+ *   ln(1 + likes + 3 × comments) + 2 × ln(1 + events)
+ *
+ * where likes/comments are summed over the account's posts in the
+ * window and events counts the confirmed events dated in the window or
+ * later that it posted, merged duplicates included. Logs keep one viral post from burying accounts that post
+ * steadily; comments weigh more than likes as the costlier signal.
+ */
+
+import { Router, Request, Response } from 'express';
+import { db } from '../db/connection.js';
+import { accountCategoryEnum, event, eventSourcePost, sourceAccount, sourcePost } from '../db/schema.js';
+import { eq, asc, and, count, countDistinct, desc, gte, ilike, inArray, lte, or, sql } from 'drizzle-orm';
+import { z, ZodError } from 'zod';
+import { buildDateConditions, enumList, filterErrors, notMerged } from '../lib/eventFilters.js';
+import { addDays, notRecurring } from '../lib/recurrence.js';
+import { currentNightDate } from '../lib/time.js';
+import { withLineups } from '../lib/artists.js';
+import { postedByAccount } from '../lib/sources.js';
+
+const router = Router();
+
+/** Engagement score weights (see header) */
+const COMMENT_WEIGHT = 3;
+const EVENT_WEIGHT = 2;
+
+const DAY_MS = 86_400_000;
+
+/** Query params for GET /api/accounts */
+const accountListSchema = z.object({
+  category: enumList(accountCategoryEnum.enumValues),
+});
+
+/** Instagram username from the path: "@Foo.Bar" → "foo.bar", or null */
+function parseUsername(value: string): string | null {
+  const match = value.trim().match(/^@?([\w.]{1,30})$/);
+  return match ? match[1].toLowerCase() : null;
+}
+
+/**
+ * GET /api/accounts
+ *
+ * List active accounts with a count of upcoming confirmed events each,
+ * busiest first, then by username.
+ *
+ * Query params:
+ * - search: matches username, display name or full name
+ * - category: comma-separated account categories (promoter, venue, …)
+ * - limit: number (default: 50, max: 200)
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const { category } = accountListSchema.parse(req.query);
+    const { search, limit = '50' } = req.query as Record<string, string>;
+    const limitNum = Math.min(200, Math.max(1, parseInt(limit) || 50));
+    const today = currentNightDate();
+
+    const term = typeof search === 'string' ? search.trim().replace(/^@/, '') : '';
+    const pattern = `%${term}%`;
+
+    const upcomingCount = countDistinct(event.id);
+    const results = await db
+      .select({
+        id: sourceAccount.id,
+        username: sourceAccount.username,
+        displayName: sourceAccount.displayName,
+        category: sourceAccount.category,
+        profilePicUrl: sourceAccount.profilePicUrl,
+        followerCount: sourceAccount.followerCount,
+        isVerified: sourceAccount.isVerified,
+        eventCount: upcomingCount,
+      })
+      .from(sourceAccount)
+      .leftJoin(sourcePost, eq(sourcePost.accountId, sourceAccount.id))
+      .leftJoin(eventSourcePost, eq(eventSourcePost.sourcePostId, sourcePost.id))
+      .leftJoin(
+        event,
+        and(
+          eq(event.id, eventSourcePost.eventId),
+          ...buildDateConditions({ date_from: today }),
+          eq(event.eventStatus, 'confirmed'),
+          notMerged(),
+        )
+      )
+      .where(and(
+        eq(sourceAccount.isActive, true),
+        category ? inArray(sourceAccount.category, category) : undefined,
+        term
+          ? or(
+              ilike(sourceAccount.username, pattern),
+              ilike(sourceAccount.displayName, pattern),
+              ilike(sourceAccount.fullName, pattern),
+            )
+          : undefined,
+      ))
+      .groupBy(sourceAccount.id)
+      .orderBy(desc(upcomingCount), asc(sourceAccount.username))
+      .limit(limitNum);
+
+    res.json({ data: results });
+  } catch (err) {
+    if (err instanceof ZodError) {
+      res.status(400).json({ error: 'Invalid filters', fields: filterErrors(err) });
+      return;
+    }
+    console.error('Accounts list error:', err);
+    res.status(500).json({ error: 'Failed to fetch accounts' });
+  }
+});
+
+/**
+ * GET /api/accounts/popular
+ *
+ * Active accounts ranked by engagement score (see header), highest
+ * first. Accounts with no posts or events in the window are left out.
+ *
+ * Query params:
+ * - limit: number (default: 30, max: 100)
+ * - days: window length in days (default: 90, max: 365)
+ *
+ * Response rows include the inputs (`posts`, `likes`, `comments`,
+ * `events`) alongside `engagementScore`.
+ */
+router.get('/popular', async (req: Request, res: Response) => {
+  try {
+    const { limit = '30', days = '90' } = req.query as Record<string, string>;
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit) || 30));
+    const daysNum = Math.min(365, Math.max(1, parseInt(days) || 90));
+    const now = new Date();
+    const since = new Date(now.getTime() - daysNum * DAY_MS);
+    const sinceNight = addDays(currentNightDate(now), -daysNum);
+
+    const postStats = db
+      .select({
+        accountId: sourcePost.accountId,
+        posts: count().as('posts'),
+        likes: sql<number>`coalesce(sum(${sourcePost.likesCount}), 0)`.as('likes'),
+        comments: sql<number>`coalesce(sum(${sourcePost.commentsCount}), 0)`.as('comments'),
+      })
+      .from(sourcePost)
+      .where(gte(sourcePost.postedAt, since))
+      .groupBy(sourcePost.accountId)
+      .as('post_stats');
+
+    const eventStats = db
+      .select({
+        accountId: sourcePost.accountId,
+        events: countDistinct(event.id).as('events'),
+      })
+      .from(eventSourcePost)
+      .innerJoin(sourcePost, eq(sourcePost.id, eventSourcePost.sourcePostId))
+      .innerJoin(event, eq(event.id, eventSourcePost.eventId))
+      .where(and(
+        gte(event.eventDate, sinceNight),
+        eq(event.eventStatus, 'confirmed'),
+        notMerged(),
+      ))
+      .groupBy(sourcePost.accountId)
+      .as('event_stats');
+
+    const posts = sql<number>`coalesce(${postStats.posts}, 0)`.mapWith(Number);
+    const likes = sql<number>`coalesce(${postStats.likes}, 0)`.mapWith(Number);
+    const comments = sql<number>`coalesce(${postStats.comments}, 0)`.mapWith(Number);
+    const events = sql<number>`coalesce(${eventStats.events}, 0)`.mapWith(Number);
+    const engagementScore = sql<number>`round((
+      ln(1 + (${likes} + ${sql.raw(String(COMMENT_WEIGHT))} * ${comments})::float8)
+      + ${sql.raw(String(EVENT_WEIGHT))} * ln(1 + ${events}::float8)
+    )::numeric, 3)`.mapWith(Number);
+
+    const results = await db
+      .select({
+        id: sourceAccount.id,
+        username: sourceAccount.username,
+        displayName: sourceAccount.displayName,
+        category: sourceAccount.category,
+        profilePicUrl: sourceAccount.profilePicUrl,
+        followerCount: sourceAccount.followerCount,
+        isVerified: sourceAccount.isVerified,
+        posts,
+        likes,
+        comments,
+        events,
+        engagementScore,
+      })
+      .from(sourceAccount)
+      .leftJoin(postStats, eq(postStats.accountId, sourceAccount.id))
+      .leftJoin(eventStats, eq(eventStats.accountId, sourceAccount.id))
+      .where(and(
+        eq(sourceAccount.isActive, true),
+        sql`${posts} + ${events} > 0`,
+      ))
+      .orderBy(desc(engagementScore), asc(sourceAccount.username))
+      .limit(limitNum);
+
+    res.json({ data: results, days: daysNum });
+  } catch (err) {
+    console.error('Popular accounts error:', err);
+    res.status(500).json({ error: 'Failed to fetch popular accounts' });
+  }
+});
+
+/**
+ * GET /api/accounts/:username
+ *
+ * Get an account's profile by username (case-insensitive, "@" optional)
+ * with the events it posted:
+ * - upcomingEvents: confirmed, from tonight forward, soonest first
+ * - pastEvents: confirmed one-off events that have ended, most recent
+ *   first (default 20, `past_limit` up to 100)
+ */
+router.get('/:username', async (req: Request, res: Response) => {
+  try {
+    const username = parseUsername(req.params.username as string);
+    if (!username) {
+      res.status(400).json({ error: 'Invalid username' });
+      return;
+    }
+
+    const account = await db.query.sourceAccount.findFirst({
+      where: sql`lower(${sourceAccount.username}) = ${username}`,
+    });
+
+    if (!account) {
+      res.status(404).json({ error: 'Account not found' });
+      return;
+    }
+
+    const now = new Date();
+    const pastLimit = Math.min(100, Math.max(1, parseInt(req.query.past_limit as string) || 20));
+    const withRelations = {
+      venue: true,
+      sourcePost: {
+        columns: { shortcode: true, postUrl: true },
+      },
+    } as const;
+
+    const [upcoming, past] = await Promise.all([
+      db.query.event.findMany({
+        where: and(
+          postedByAccount(account.id),
+          eq(event.eventStatus, 'confirmed'),
+          notMerged(),
+          ...buildDateConditions({ date_from: currentNightDate(now) }, now),
+        ),
+        with: withRelations,
+        orderBy: [asc(event.eventDate), asc(event.eventTime)],
+      }),
+      db.query.event.findMany({
+        where: and(
+          postedByAccount(account.id),
+          eq(event.eventStatus, 'confirmed'),
+          notMerged(),
+          notRecurring(),
+          lte(event.endAt, now),
+        ),
+        with: withRelations,
+        orderBy: [desc(event.eventDate), desc(event.eventTime)],
+        limit: pastLimit,
+      }),
+    ]);
+
+    res.json({
+      ...account,
+      upcomingEvents: await withLineups(db, upcoming),
+      pastEvents: await withLineups(db, past),
+    });
+  } catch (err) {
+    console.error('Account detail error:', err);
+    res.status(500).json({ error: 'Failed to fetch account' });
+  }
+});
+
+export default router;
@@ -0,0 +1,776 @@
+/**
+ * Admin Routes — curation endpoints for the admin dashboard
+ *
+ * Every route here requires an admin account (`requireAdmin`: a valid
+ * Bearer token whose email is listed in ADMIN_EMAILS).
+ *
+ * ## Endpoints
+ * - PATCH  /api/admin/events/:id       — Correct an event (recorded as a revision)
+ * - GET    /api/admin/revisions        — Recent event changes, newest first
+ * - GET    /api/admin/merges           — Duplicates dedup merged, newest first
+ * - POST   /api/admin/merges/:id/undo  — Split a merged duplicate back out
+ * - GET    /api/admin/dedup-candidates — Possible duplicates for review
+ * - POST   /api/admin/dedup-candidates/:id/confirm — Merge a candidate
+ * - POST   /api/admin/dedup-candidates/:id/reject  — Keep its events apart
+ * - GET    /api/admin/sync-runs        — Recent ingest runs, phase by phase
+ * - POST   /api/admin/sync-runs/:id/rollback — Undo the latest ingest run
+ * - GET    /api/admin/quarantine    — Source records ingest refused, and why
+ * - POST   /api/admin/quarantine/:id/resubmit — Fix a record for the next run
+ * - POST   /api/admin/quarantine/:id/dismiss  — Leave a record out
+ * - PUT    /api/admin/venues/:id/hours — Set a venue's operating hours
+ * - DELETE /api/admin/venues/:id/hours — Clear them (back to unknown)
+ */
+
+import { Router, Request, Response } from 'express';
+import { db, sql } from '../db/connection.js';
+import {
+  account,
+  availabilityStatusEnum,
+  candidateStatusEnum,
+  dedupCandidate,
+  event,
+  eventMerge,
+  eventRevision,
+  eventStatusEnum,
+  ingestQuarantine,
+  ingestSourceEnum,
+  mergeRuleEnum,
+  quarantineStatusEnum,
+  revisionSourceEnum,
+  syncLog,
+  venue,
+} from '../db/schema.js';
+import { and, asc, desc, eq, isNotNull, isNull } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { z, ZodError } from 'zod';
+import { requireAdmin } from '../middleware/auth.js';
+import { booleanParam, filterErrors, isoDate } from '../lib/eventFilters.js';
+import { type OperatingHours, clockTime, isOpenAt, operatingHoursSchema } from '../lib/hours.js';
+import { diffEvent, recordRevision, rescheduledFrom } from '../lib/revisions.js';
+import { encodeGeohash } from '../lib/geo.js';
+import { refreshSearchIndex } from '../lib/search.js';
+import { consolidateEvent, ownEdited, undoMerge } from '../lib/merges.js';
+import { confirmCandidate, rejectCandidate } from '../lib/candidates.js';
+import { rollbackRun, rollbackTarget } from '../lib/syncs.js';
+import { RECORD_KINDS, type RecordKind } from '../lib/records.js';
+import { dismissQuarantined, resubmitQuarantined } from '../lib/quarantine.js';
+
+const router = Router();
+
+router.use(requireAdmin);
+
+const amount = z.number({ invalid_type_error: 'Expected a number' }).nonnegative('Must be 0 or more');
+
+/** Body for PATCH /api/admin/events/:id — the revision-tracked fields */
+const eventEditSchema = z.object({
+  eventDate: isoDate,
+  eventEndDate: isoDate.nullable(),
+  eventTime: clockTime.nullable(),
+  endTime: clockTime.nullable(),
+  venueId: z.number({ invalid_type_error: 'Expected a venue ID' }).int('Expected a venue ID').positive('Expected a venue ID').nullable(),
+  venueName: z.string().trim().min(1, 'Required').max(200, 'Venue names are limited to 200 characters').nullable(),
+  isFree: z.boolean({ invalid_type_error: 'Expected true or false' }),
+  price: amount.nullable(),
+  priceMin: amount.nullable(),
+  priceMax: amount.nullable(),
+  eventStatus: z.enum(eventStatusEnum.enumValues),
+  availabilityStatus: z.enum(availabilityStatusEnum.enumValues),
+}).partial().strict().refine(edit => Object.keys(edit).length > 0, 'Nothing to change');
+
+/**
+ * PATCH /api/admin/events/:id
+ *
+ * Correct an event's date, times, venue, price, status or availability.
+ * Send only the fields to change (camelCase, as in responses before
+ * snake_casing); null clears a field. Setting `venueId` links the venue
+ * and takes its name and coordinates unless `venueName` is also sent.
+ *
+ * The change is recorded in the event's history as an `admin` revision,
+ * and a new date or start time sets `rescheduledFrom`.
+ *
+ * Response: the updated event.
+ */
+router.patch('/events/:id', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id as string);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid event ID' });
+      return;
+    }
+
+    const edit = eventEditSchema.parse(req.body ?? {});
+
+    const current = await db.query.event.findFirst({ where: eq(event.id, id) });
+    if (!current) {
+      res.status(404).json({ error: 'Event not found' });
+      return;
+    }
+
+    const update: Partial<typeof event.$inferInsert> = { ...edit };
+    if (edit.venueId) {
+      const linked = await db.query.venue.findFirst({ where: eq(venue.id, edit.venueId) });
+      if (!linked) {
+        res.status(400).json({ error: 'Invalid event', fields: { venueId: 'Unknown venue' } });
+        return;
+      }
+      update.venueName = edit.venueName ?? linked.name;
+      update.venueMatchConfidence = 1;
+      if (linked.lat != null && linked.lng != null) {
+        update.venueLat = linked.lat;
+        update.venueLng = linked.lng;
+        update.geohash = encodeGeohash(linked.lat, linked.lng);
+      }
+    }
+
+    const changes = diffEvent(current, update);
+    if (!changes) {
+      res.json(current);
+      return;
+    }
+
+    // Values the edit replaces no longer come from a merged duplicate
+    const fieldSources = ownEdited(update, current.fieldSources ?? {});
+    if (fieldSources) update.fieldSources = fieldSources;
+
+    const updated = await db.transaction(async (tx) => {
+      await recordRevision(tx, id, changes, 'admin', req.user!.userId);
+      const [row] = await tx
+        .update(event)
+        .set({ ...update, rescheduledFrom: rescheduledFrom(current, changes), updatedAt: new Date() })
+        .where(eq(event.id, id))
+        .returning();
+      return row;
+    });
+
+    // The venue name is part of the search document
+    if (changes.venueName) await refreshSearchIndex(sql, [id]);
+
+    res.json(updated);
+  } catch (err) {
+    if (err instanceof ZodError) {
+      res.status(400).json({ error: 'Invalid event', fields: filterErrors(err) });
+      return;
+    }
+    console.error('Event edit error:', err);
+    res.status(500).json({ error: 'Failed to update event' });
+  }
+});
+
+/** Query params for GET /api/admin/revisions */
+const revisionListSchema = z.object({
+  source: z.preprocess(v => (v === '' ? undefined : v), z.enum(revisionSourceEnum.enumValues).optional()),
+});
+
+/**
+ * GET /api/admin/revisions
+ *
+ * Recent event revisions across all events, newest first, with the
+ * event's title and date and, for admin edits, who made them.
+ *
+ * Query params:
+ * - source: `ingest` or `admin`
+ * - limit: number (default: 50, max: 200)
+ */
+router.get('/revisions', async (req: Request, res: Response) => {
+  try {
+    const { source } = revisionListSchema.parse(req.query);
+    const limit = Math.min(200, Math.max(1, parseInt(req.query.limit as string) || 50));
+
+    const results = await db
+      .select({
+        id: eventRevision.id,
+        eventId: eventRevision.eventId,
+        eventTitle: event.title,
+        eventDate: event.eventDate,
+        source: eventRevision.source,
+        changedBy: account.username,
+        changes: eventRevision.changes,
+        createdAt: eventRevision.createdAt,
+      })
+      .from(eventRevision)
+      .innerJoin(event, eq(event.id, eventRevision.eventId))
+      .leftJoin(account, eq(account.id, eventRevision.accountId))
+      .where(source ? eq(eventRevision.source, source) : undefined)
+      .orderBy(desc(eventRevision.createdAt), desc(eventRevision.id))
+      .limit(limit);
+
+    res.json({ data: results });
+  } catch (err) {
+    if (err instanceof ZodError) {
+      res.status(400).json({ error: 'Invalid filters', fields: filterErrors(err) });
+      return;
+    }
+    console.error('Revisions list error:', err);
+    res.status(500).json({ error: 'Failed to fetch revisions' });
+  }
+});
+
+/** Query params for GET /api/admin/merges */
+const mergeListSchema = z.object({
+  rule: z.preprocess(v => (v === '' ? undefined : v), z.enum(mergeRuleEnum.enumValues).optional()),
+  undone: booleanParam.optional(),
+});
+
+const winner = alias(event, 'winner');
+const loser = alias(event, 'loser');
+
+/**
+ * GET /api/admin/merges
+ *
+ * Duplicates dedup folded into another event, newest first, with both
+ * events' titles and dates, the rule that matched them and how many
+ * bookmarks moved.
+ *
+ * Query params:
+ * - rule: `exact_title_date`, `fuzzy_title_venue` or `same_image`
+ * - undone: `true` for merges an admin undid, `false` for active ones
+ * - limit: number (default: 50, max: 200)
+ */
+router.get('/merges', async (req: Request, res: Response) => {
+  try {
+    const { rule, undone } = mergeListSchema.parse(req.query);
+    const limit = Math.min(200, Math.max(1, parseInt(req.query.limit as string) || 50));
+
+    const results = await db
+      .select({
+        id: eventMerge.id,
+        rule: eventMerge.rule,
+        similarity: eventMerge.similarity,
+        winnerId: eventMerge.winnerId,
+        winnerTitle: winner.title,
+        winnerDate: winner.eventDate,
+        loserId: eventMerge.loserId,
+        loserTitle: loser.title,
+        loserDate: loser.eventDate,
+        movedSaves: eventMerge.movedSaves,
+        droppedSaves: eventMerge.droppedSaves,
+        createdAt: eventMerge.createdAt,
+        undoneAt: eventMerge.undoneAt,
+        undoneBy: account.username,
+      })
+      .from(eventMerge)
+      .innerJoin(winner, eq(winner.id, eventMerge.winnerId))
+      .innerJoin(loser, eq(loser.id, eventMerge.loserId))
+      .leftJoin(account, eq(account.id, eventMerge.undoneBy))
+      .where(and(
+        rule ? eq(eventMerge.rule, rule) : undefined,
+        undone === undefined ? undefined : undone ? isNotNull(eventMerge.undoneAt) : isNull(eventMerge.undoneAt),
+      ))
+      .orderBy(desc(eventMerge.createdAt), desc(eventMerge.id))
+      .limit(limit);
+
+    // Bookmark counts only; which accounts saved what stays internal
+    res.json({
+      data: results.map(({ movedSaves, droppedSaves, ...merge }) => ({
+        ...merge,
+        movedSaves: movedSaves.length,
+        droppedSaves: droppedSaves.length,
+      })),
+    });
+  } catch (err) {
+    if (err instanceof ZodError) {
+      res.status(400).json({ error: 'Invalid filters', fields: filterErrors(err) });
+      return;
+    }
+    console.error('Merges list error:', err);
+    res.status(500).json({ error: 'Failed to fetch merges' });
+  }
+});
+
+/**
+ * POST /api/admin/merges/:id/undo
+ *
+ * Split a merged duplicate back out: it reappears in listings, gets its
+ * bookmarks back, and dedup won't merge the pair again. Fields, artists
+ * and sub-events the survivor took from it are given up (recorded as an
+ * admin revision).
+ *
+ * Response: `{ id, loserId, undoneAt }`; 409 if already undone.
+ */
+router.post('/merges/:id/undo', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id as string);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid merge ID' });
+      return;
+    }
+
+    const result = await undoMerge(sql, id, req.user!.userId);
+    if (result === 'not_found') {
+      res.status(404).json({ error: 'Merge not found' });
+      return;
+    }
+    if (result === 'already_undone') {
+      res.status(409).json({ error: 'Merge already undone' });
+      return;
+    }
+
+    const merge = await db.query.eventMerge.findFirst({
+      where: eq(eventMerge.id, id),
+      columns: { id: true, winnerId: true, loserId: true, undoneAt: true },
+    });
+    if (merge) await consolidateEvent(db, merge.winnerId, 'admin', req.user!.userId);
+    res.json(merge);
+  } catch (err) {
+    console.error('Merge undo error:', err);
+    res.status(500).json({ error: 'Failed to undo merge' });
+  }
+});
+
+/** Query params for GET /api/admin/dedup-candidates */
+const candidateListSchema = z.object({
+  status: z.preprocess(v => (v === '' ? undefined : v), z.enum(candidateStatusEnum.enumValues).default('pending')),
+});
+
+/** What a reviewer needs to tell two events apart */
+const candidateEventColumns = {
+  id: true,
+  title: true,
+  eventDate: true,
+  eventEndDate: true,
+  eventTime: true,
+  endTime: true,
+  venueName: true,
+  isFree: true,
+  price: true,
+  priceMin: true,
+  priceMax: true,
+  description: true,
+  imageUrl: true,
+  sourceUsername: true,
+  completenessScore: true,
+  mergedIntoId: true,
+} as const;
+
+/** Each side of a candidate, with its post so the image proxy can fall back to blead's cache */
+const candidateEventRelation = {
+  columns: candidateEventColumns,
+  with: { sourcePost: { columns: { shortcode: true, postUrl: true } } },
+} as const;
+
+/**
+ * GET /api/admin/dedup-candidates
+ *
+ * Possible duplicates dedup wasn't confident enough to merge, with both
+ * events side by side, the match score and the reasons they matched.
+ * Pending candidates come highest score first; reviewed ones most
+ * recently reviewed first.
+ *
+ * Query params:
+ * - status: `pending` (default), `confirmed` or `rejected`
+ * - limit: number (default: 50, max: 200)
+ */
+router.get('/dedup-candidates', async (req: Request, res: Response) => {
+  try {
+    const { status } = candidateListSchema.parse(req.query);
+    const limit = Math.min(200, Math.max(1, parseInt(req.query.limit as string) || 50));
+
+    const results = await db.query.dedupCandidate.findMany({
+      where: eq(dedupCandidate.status, status),
+      columns: { pairKey: false, reviewedBy: false },
+      with: {
+        winner: candidateEventRelation,
+        loser: candidateEventRelation,
+        reviewer: { columns: { username: true } },
+      },
+      orderBy: status === 'pending'
+        ? [desc(dedupCandidate.score), asc(dedupCandidate.createdAt)]
+        : [desc(dedupCandidate.reviewedAt)],
+      limit,
+    });
+
+    res.json({
+      data: results.map(({ reviewer, ...candidate }) => ({
+        ...candidate,
+        reviewedBy: reviewer?.username ?? null,
+      })),
+    });
+  } catch (err) {
+    if (err instanceof ZodError) {
+      res.status(400).json({ error: 'Invalid filters', fields: filterErrors(err) });
+      return;
+    }
+    console.error('Dedup candidates list error:', err);
+    res.status(500).json({ error: 'Failed to fetch duplicate candidates' });
+  }
+});
+
+/** Body for POST /api/admin/dedup-candidates/:id/confirm */
+const confirmCandidateSchema = z.object({
+  keepId: z.number({ invalid_type_error: 'Expected an event ID' }).int('Expected an event ID').positive('Expected an event ID').optional(),
+}).strict();
+
+/**
+ * POST /api/admin/dedup-candidates/:id/confirm
+ *
+ * Merge a candidate like dedup would have, then fill the survivor in
+ * from its new duplicate. Body (optional): `{ keepId }` — which of the
+ * two events survives, if not the one dedup ranked first.
+ *
+ * Response: `{ id, mergeId, winnerId, loserId }`; 409 if the candidate
+ * was already reviewed or either event has since been merged elsewhere.
+ */
+router.post('/dedup-candidates/:id/confirm', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id as string);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid candidate ID' });
+      return;
+    }
+
+    const { keepId } = confirmCandidateSchema.parse(req.body ?? {});
+    const result = await confirmCandidate(sql, id, req.user!.userId, keepId);
+    switch (result.outcome) {
+      case 'not_found':
+        res.status(404).json({ error: 'Candidate not found' });
+        return;
+      case 'not_in_pair':
+        res.status(400).json({ error: 'Invalid confirmation', fields: { keepId: 'Not one of the two events' } });
+        return;
+      case 'already_reviewed':
+        res.status(409).json({ error: 'Candidate already reviewed' });
+        return;
+      case 'already_merged':
+        res.status(409).json({ error: 'One of these events has already been merged' });
+        return;
+    }
+
+    await consolidateEvent(db, result.winnerId, 'admin', req.user!.userId);
+    const { mergeId, winnerId, loserId } = result;
+    res.json({ id, mergeId, winnerId, loserId });
+  } catch (err) {
+    if (err instanceof ZodError) {
+      res.status(400).json({ error: 'Invalid confirmation', fields: filterErrors(err) });
+      return;
+    }
+    console.error('Dedup candidate confirm error:', err);
+    res.status(500).json({ error: 'Failed to confirm duplicate' });
+  }
+});
+
+/**
+ * POST /api/admin/dedup-candidates/:id/reject
+ *
+ * Mark a candidate as two different events. Dedup won't propose the
+ * pair again.
+ *
+ * Response: `{ id, status }`; 409 if already reviewed.
+ */
+router.post('/dedup-candidates/:id/reject', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id as string);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid candidate ID' });
+      return;
+    }
+
+    const result = await rejectCandidate(sql, id, req.user!.userId);
+    if (result === 'not_found') {
+      res.status(404).json({ error: 'Candidate not found' });
+      return;
+    }
+    if (result === 'already_reviewed') {
+      res.status(409).json({ error: 'Candidate already reviewed' });
+      return;
+    }
+    res.json({ id, status: result });
+  } catch (err) {
+    console.error('Dedup candidate reject error:', err);
+    res.status(500).json({ error: 'Failed to reject duplicate' });
+  }
+});
+
+/**
+ * GET /api/admin/sync-runs
+ *
+ * Recent ingest runs, newest first, with what each phase wrote and how
+ * long it took. `rollbackable` marks the one run that can be rolled back
+ * (see `lib/syncs.ts`).
+ *
+ * Query params:
+ * - limit: number (default: 20, max: 100)
+ */
+router.get('/sync-runs', async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 20));
+
+    const results = await db
+      .select({
+        id: syncLog.id,
+        status: syncLog.status,
+        isFullSync: syncLog.isFullSync,
+        startedAt: syncLog.startedAt,
+        completedAt: syncLog.completedAt,
+        venuesSynced: syncLog.venuesSynced,
+        accountsSynced: syncLog.accountsSynced,
+        postsSynced: syncLog.postsSynced,
+        eventsSynced: syncLog.eventsSynced,
+        subEventsSynced: syncLog.subEventsSynced,
+        phases: syncLog.phases,
+        errorMessage: syncLog.errorMessage,
+        rolledBackAt: syncLog.rolledBackAt,
+        rolledBackBy: account.username,
+      })
+      .from(syncLog)
+      .leftJoin(account, eq(account.id, syncLog.rolledBackBy))
+      .orderBy(desc(syncLog.id))
+      .limit(limit);
+
+    const target = await rollbackTarget(sql);
+    res.json({
+      data: results.map(run => ({ ...run, rollbackable: run.id === target })),
+    });
+  } catch (err) {
+    console.error('Sync runs list error:', err);
+    res.status(500).json({ error: 'Failed to fetch sync runs' });
+  }
+});
+
+/**
+ * POST /api/admin/sync-runs/:id/rollback
+ *
+ * Undo an ingest run, completed or failed: rows it changed go back to
+ * how they were, rows it created are deleted, and its cursors are
+ * restored so the next run reads the same source records again. Admin
+ * edits made to those rows since the run are lost too.
+ *
+ * Response: `{ id, status, restored, removed }`; 409 unless it's the
+ * latest run that changed anything.
+ */
+router.post('/sync-runs/:id/rollback', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id as string);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid sync run ID' });
+      return;
+    }
+
+    const result = await rollbackRun(sql, id, req.user!.userId);
+    switch (result.outcome) {
+      case 'not_found':
+        res.status(404).json({ error: 'Sync run not found' });
+        return;
+      case 'not_latest':
+        res.status(409).json({ error: 'Only the latest run that changed anything can be rolled back' });
+        return;
+    }
+    res.json({ id, status: result.outcome, restored: result.restored, removed: result.removed });
+  } catch (err) {
+    console.error('Sync run rollback error:', err);
+    res.status(500).json({ error: 'Failed to roll back sync run' });
+  }
+});
+
+/** Query params for GET /api/admin/quarantine */
+const quarantineListSchema = z.object({
+  status: z.preprocess(v => (v === '' ? undefined : v), z.enum(quarantineStatusEnum.enumValues).default('pending')),
+  source: z.preprocess(v => (v === '' ? undefined : v), z.enum(ingestSourceEnum.enumValues).optional()),
+  kind: z.preprocess(
+    v => (v === '' ? undefined : v),
+    z.enum(Object.keys(RECORD_KINDS) as [RecordKind, ...RecordKind[]]).optional(),
+  ),
+});
+
+/**
+ * GET /api/admin/quarantine
+ *
+ * Source records ingest refused to write (see `lib/quarantine.ts`), with
+ * the raw payload, the reason and the run that rejected them. Pending
+ * entries come oldest first; the rest most recently updated first.
+ *
+ * Query params:
+ * - status: `pending` (default), `resubmitted`, `resolved` or `dismissed`
+ * - source: `blead`, `drop_folder` or `ics`
+ * - kind: `venue`, `account`, `post`, `event` or `sub_event`
+ * - limit: number (default: 50, max: 200)
+ */
+router.get('/quarantine', async (req: Request, res: Response) => {
+  try {
+    const { status, source, kind } = quarantineListSchema.parse(req.query);
+    const limit = Math.min(200, Math.max(1, parseInt(req.query.limit as string) || 50));
+
+    const results = await db
+      .select({
+        id: ingestQuarantine.id,
+        syncLogId: ingestQuarantine.syncLogId,
+        ingestSource: ingestQuarantine.ingestSource,
+        kind: ingestQuarantine.kind,
+        rowKey: ingestQuarantine.rowKey,
+        payload: ingestQuarantine.payload,
+        reason: ingestQuarantine.reason,
+        issues: ingestQuarantine.issues,
+        status: ingestQuarantine.status,
+        createdAt: ingestQuarantine.createdAt,
+        updatedAt: ingestQuarantine.updatedAt,
+        reviewedAt: ingestQuarantine.reviewedAt,
+        reviewedBy: account.username,
+        resolvedAt: ingestQuarantine.resolvedAt,
+      })
+      .from(ingestQuarantine)
+      .leftJoin(account, eq(account.id, ingestQuarantine.reviewedBy))
+      .where(and(
+        eq(ingestQuarantine.status, status),
+        source ? eq(ingestQuarantine.ingestSource, source) : undefined,
+        kind ? eq(ingestQuarantine.kind, kind) : undefined,
+      ))
+      .orderBy(status === 'pending' ? asc(ingestQuarantine.id) : desc(ingestQuarantine.updatedAt))
+      .limit(limit);
+
+    res.json({ data: results });
+  } catch (err) {
+    if (err instanceof ZodError) {
+      res.status(400).json({ error: 'Invalid filters', fields: filterErrors(err) });
+      return;
+    }
+    console.error('Quarantine list error:', err);
+    res.status(500).json({ error: 'Failed to fetch quarantined rows' });
+  }
+});
+
+/** Body for POST /api/admin/quarantine/:id/resubmit */
+const resubmitSchema = z.object({
+  payload: z.record(z.unknown(), { required_error: 'Required', invalid_type_error: 'Expected an object' }),
+}).strict();
+
+/**
+ * POST /api/admin/quarantine/:id/resubmit
+ *
+ * Replace a quarantined record's payload with a fix. Body: `{ payload }`
+ * — the whole record, in its kind's columns (`lib/records.ts`). It must
+ * pass the same validation ingest applies; the next ingest run then
+ * writes it like any record from its source.
+ *
+ * Response: `{ id, status }`; 400 with `fields` keyed by the failing
+ * columns; 409 if the entry is resolved or dismissed.
+ */
+router.post('/quarantine/:id/resubmit', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id as string);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid quarantine ID' });
+      return;
+    }
+
+    const { payload } = resubmitSchema.parse(req.body ?? {});
+    const result = await resubmitQuarantined(sql, id, payload, req.user!.userId);
+    switch (result.outcome) {
+      case 'not_found':
+        res.status(404).json({ error: 'Quarantined row not found' });
+        return;
+      case 'closed':
+        res.status(409).json({ error: 'Quarantined row already resolved or dismissed' });
+        return;
+      case 'invalid':
+        res.status(400).json({ error: 'Invalid resubmission', fields: result.issues });
+        return;
+    }
+    res.json({ id, status: result.outcome });
+  } catch (err) {
+    if (err instanceof ZodError) {
+      res.status(400).json({ error: 'Invalid resubmission', fields: filterErrors(err) });
+      return;
+    }
+    console.error('Quarantine resubmit error:', err);
+    res.status(500).json({ error: 'Failed to resubmit row' });
+  }
+});
+
+/**
+ * POST /api/admin/quarantine/:id/dismiss
+ *
+ * Leave a quarantined row out of WheresTheFX. Later runs that reject the
+ * same row again don't reopen it.
+ *
+ * Response: `{ id, status }`; 409 if already resolved or dismissed.
+ */
+router.post('/quarantine/:id/dismiss', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id as string);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid quarantine ID' });
+      return;
+    }
+
+    const result = await dismissQuarantined(sql, id, req.user!.userId);
+    if (result === 'not_found') {
+      res.status(404).json({ error: 'Quarantined row not found' });
+      return;
+    }
+    if (result === 'closed') {
+      res.status(409).json({ error: 'Quarantined row already resolved or dismissed' });
+      return;
+    }
+    res.json({ id, status: result });
+  } catch (err) {
+    console.error('Quarantine dismiss error:', err);
+    res.status(500).json({ error: 'Failed to dismiss row' });
+  }
+});
+
+/**
+ * PUT /api/admin/venues/:id/hours
+ *
+ * Replace a venue's operating hours.
+ * Body: `{ monday: { open, close } | { closed: true }, …, notes }`.
+ * Times are Manila "HH:MM"; a close at or before open runs past
+ * midnight. Days left out are unknown.
+ *
+ * Response: the updated venue, with `openNow`.
+ */
+router.put('/venues/:id/hours', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id as string);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid venue ID' });
+      return;
+    }
+
+    const hours = operatingHoursSchema.parse(req.body ?? {});
+    await updateVenueHours(res, id, hours);
+  } catch (err) {
+    if (err instanceof ZodError) {
+      res.status(400).json({ error: 'Invalid operating hours', fields: filterErrors(err) });
+      return;
+    }
+    console.error('Venue hours update error:', err);
+    res.status(500).json({ error: 'Failed to update operating hours' });
+  }
+});
+
+/**
+ * DELETE /api/admin/venues/:id/hours
+ *
+ * Clear a venue's operating hours. Response: the updated venue.
+ */
+router.delete('/venues/:id/hours', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id as string);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid venue ID' });
+      return;
+    }
+
+    await updateVenueHours(res, id, null);
+  } catch (err) {
+    console.error('Venue hours clear error:', err);
+    res.status(500).json({ error: 'Failed to clear operating hours' });
+  }
+});
+
+/** Save hours and respond with the venue, or 404 */
+async function updateVenueHours(res: Response, id: number, hours: OperatingHours | null) {
+  const [updated] = await db
+    .update(venue)
+    .set({ operatingHours: hours, updatedAt: new Date() })
+    .where(eq(venue.id, id))
+    .returning();
+
+  if (!updated) {
+    res.status(404).json({ error: 'Venue not found' });
+    return;
+  }
+
+  res.json({ ...updated, openNow: isOpenAt(updated.operatingHours) });
+}
+
+export default router;
@@ -0,0 +1,160 @@
+/**
+ * Artists Routes — Performer directory API
+ *
+ * Artists are built from event credits and lineups at ingest time (see
+ * `lib/artists.ts`); these endpoints only read them.
+ *
+ * ## Endpoints
+ * - GET /api/artists            — Artists with upcoming event counts
+ * - GET /api/artists/:id        — Artist detail
+ * - GET /api/artists/:id/events — Upcoming events featuring this artist
+ */
+
+import { Router, Request, Response } from 'express';
+import { db } from '../db/connection.js';
+import { artist, event, eventArtist } from '../db/schema.js';
+import { eq, asc, and, count, desc, sql } from 'drizzle-orm';
+import { ZodError } from 'zod';
+import {
+  buildDateConditions,
+  buildEventConditions,
+  filterErrors,
+  notMerged,
+  parseEventFilters,
+} from '../lib/eventFilters.js';
+import { currentNightDate } from '../lib/time.js';
+import { normalizeArtistName, withLineups } from '../lib/artists.js';
+
+const router = Router();
+
+/**
+ * GET /api/artists
+ *
+ * List artists with a count of upcoming confirmed events each, busiest
+ * first, then by name.
+ *
+ * Query params:
+ * - search: matches names and aliases, ignoring case and accents
+ * - limit: number (default: 50, max: 200)
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const today = currentNightDate();
+    const { search, limit = '50' } = req.query as Record<string, string>;
+    const limitNum = Math.min(200, Math.max(1, parseInt(limit) || 50));
+
+    const term = typeof search === 'string' ? normalizeArtistName(search) : '';
+    const matchesSearch = term
+      ? sql`(${artist.normalizedName} LIKE ${`%${term}%`} OR EXISTS (
+          SELECT 1 FROM jsonb_array_elements_text(${artist.aliases}) AS alias
+          WHERE alias ILIKE ${`%${search.trim()}%`}
+        ))`
+      : undefined;
+
+    const upcomingCount = count(event.id);
+    const results = await db
+      .select({
+        id: artist.id,
+        name: artist.name,
+        instagramHandle: artist.instagramHandle,
+        eventCount: upcomingCount,
+      })
+      .from(artist)
+      .leftJoin(eventArtist, eq(eventArtist.artistId, artist.id))
+      .leftJoin(
+        event,
+        and(
+          eq(event.id, eventArtist.eventId),
+          ...buildDateConditions({ date_from: today }),
+          eq(event.eventStatus, 'confirmed'),
+          notMerged(),
+        )
+      )
+      .where(matchesSearch)
+      .groupBy(artist.id)
+      .orderBy(desc(upcomingCount), asc(artist.name))
+      .limit(limitNum);
+
+    res.json({ data: results });
+  } catch (err) {
+    console.error('Artists list error:', err);
+    res.status(500).json({ error: 'Failed to fetch artists' });
+  }
+});
+
+/**
+ * GET /api/artists/:id
+ *
+ * Get a single artist by ID, including aliases.
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id as string);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid artist ID' });
+      return;
+    }
+
+    const result = await db.query.artist.findFirst({
+      where: eq(artist.id, id),
+    });
+
+    if (!result) {
+      res.status(404).json({ error: 'Artist not found' });
+      return;
+    }
+
+    res.json(result);
+  } catch (err) {
+    console.error('Artist detail error:', err);
+    res.status(500).json({ error: 'Failed to fetch artist' });
+  }
+});
+
+/**
+ * GET /api/artists/:id/events
+ *
+ * Get upcoming events featuring an artist, credited directly or in a
+ * sub-event lineup. Accepts the shared event filters (see
+ * `lib/eventFilters.ts`); defaults to confirmed events from today
+ * forward. The artist always comes from the path.
+ */
+router.get('/:id/events', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id as string);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid artist ID' });
+      return;
+    }
+
+    const filters = parseEventFilters(req.query);
+    filters.status ??= ['confirmed'];
+    filters.date_from ??= currentNightDate();
+    filters.artist_id = id;
+
+    const results = await db.query.event.findMany({
+      where: and(
+        ...buildEventConditions(filters),
+        ...buildDateConditions(filters),
+      ),
+      with: {
+        venue: true,
+        sourcePost: {
+          columns: { shortcode: true, postUrl: true },
+        },
+      },
+      orderBy: [asc(event.eventDate), asc(event.eventTime)],
+    });
+
+    res.json({ data: await withLineups(db, results) });
+  } catch (err) {
+    if (err instanceof ZodError) {
+      res.status(400).json({ error: 'Invalid filters', fields: filterErrors(err) });
+      return;
+    }
+    console.error('Artist events error:', err);
+    res.status(500).json({ error: 'Failed to fetch artist events' });
+  }
+});
+
+export default router;
@@ -16,7 +16,7 @@ import bcrypt from 'bcryptjs';
 import { db } from '../db/connection.js';
 import { account, accountPreference } from '../db/schema.js';
 import { eq } from 'drizzle-orm';
-import { authenticate, generateToken } from '../middleware/auth.js';
+import { authenticate, generateToken, isAdmin } from '../middleware/auth.js';
 import { z } from 'zod';
 
 const router = Router();
@@ -166,7 +166,8 @@ router.post('/login', async (req: Request, res: Response) => {
  * Get the current authenticated account's profile.
  * Requires a valid Bearer token.
  *
- * Response: { id, email, username, displayName, preferences }
+ * Response: { id, email, username, displayName, isAdmin, preferences }
+ * (`isAdmin` when the email is listed in ADMIN_EMAILS)
  */
 router.get('/me', authenticate, async (req: Request, res: Response) => {
   try {
@@ -187,6 +188,7 @@ router.get('/me', authenticate, async (req: Request, res: Response) => {
       email: user.email,
       username: user.username,
       displayName: user.displayName,
+      isAdmin: isAdmin(req.user),
       preferences: user.preference?.preferredCategories || [],
     });
   } catch (err) {
@@ -21,7 +21,15 @@
 import { Router, Request, Response } from 'express';
 import { db } from '../db/connection.js';
 import { event } from '../db/schema.js';
-import { eq, gte, and, count, sql } from 'drizzle-orm';
+import { and, count } from 'drizzle-orm';
+import { ZodError } from 'zod';
+import {
+  buildDateConditions,
+  buildEventConditions,
+  filterErrors,
+  parseEventFilters,
+} from '../lib/eventFilters.js';
+import { currentNightDate } from '../lib/time.js';
 
 const router = Router();
 
@@ -47,13 +55,20 @@ const CATEGORY_META: Record<string, { label: string; emoji: string }> = {
  * Returns all categories with their upcoming event counts
  * and display metadata (label, emoji).
  *
+ * Accepts the shared event filters (see `lib/eventFilters.ts`) so chip
+ * counts match what the current filters would show. `category` itself is
+ * ignored — every chip counts as if it were selected. Defaults to
+ * confirmed events from today forward.
+ *
  * Response: { data: [{ value, label, emoji, count }] }
  */
-router.get('/', async (_req: Request, res: Response) => {
+router.get('/', async (req: Request, res: Response) => {
   try {
-    const today = new Date().toISOString().split('T')[0];
+    const { category: _category, ...filters } = parseEventFilters(req.query);
+    filters.status ??= ['confirmed'];
+    filters.date_from ??= currentNightDate();
 
-    // Count upcoming confirmed events per category
+    // Count matching events per category
     const counts = await db
       .select({
         category: event.category,
@@ -61,13 +76,13 @@ router.get('/', async (_req: Request, res: Response) => {
       })
       .from(event)
       .where(and(
-        gte(event.eventDate, today),
-        eq(event.eventStatus, 'confirmed'),
+        ...buildEventConditions(filters),
+        ...buildDateConditions(filters),
       ))
       .groupBy(event.category);
 
     // Build response with all categories (even those with 0 events)
-    const countMap = new Map(counts.map(c => [c.category, Number(c.count)]));
+    const countMap = new Map<string | null, number>(counts.map(c => [c.category, Number(c.count)]));
 
     const data = Object.entries(CATEGORY_META).map(([value, meta]) => ({
       value,
@@ -81,6 +96,10 @@ router.get('/', async (_req: Request, res: Response) => {
 
     res.json({ data });
   } catch (err) {
+    if (err instanceof ZodError) {
+      res.status(400).json({ error: 'Invalid filters', fields: filterErrors(err) });
+      return;
+    }
     console.error('Categories error:', err);
     res.status(500).json({ error: 'Failed to fetch categories' });
   }
@@ -5,17 +5,50 @@
  * listing, filtering, searching, and viewing events.
  *
  * ## Filtering
- * Events can be filtered by:
- * - category (nightlife, music, art_culture, etc.)
- * - date range (date_from, date_to)
- * - free events (is_free=true)
- * - venue (venue_id)
- * - search text (searches title, description, venue)
+ * Every list endpoint here accepts the shared filters parsed by
+ * `lib/eventFilters.ts`: category, date range, free/paid, price range,
+ * venue, artist, account, availability, location status, status, time
+ * (happening now, time of day, day of week) and search (full-text over title,
+ * artists, lineup, venue, account and description; typo-tolerant — see
+ * `lib/search.ts`). Invalid values get
+ * `400 { error, fields }` with a message per offending param.
+ *
+ * Date ranges match by overlap: multi-day events still running in the
+ * range are included, and overnight parties belong to the night they
+ * started. "Today" rolls over at 6am Manila time, not midnight, and
+ * "upcoming" means not yet over by the generated `end_at` column (see
+ * `lib/time.ts`).
+ *
+ * ## Location
+ * - `/nearby` returns events within a radius of a point, nearest first
+ * - `/map` accepts a `bbox` so the map only loads the visible area
+ * Both use the geohash index on `event` (see `lib/geo.ts`).
  *
  * ## Pagination
  * All list endpoints support page/limit pagination.
  * Default: page=1, limit=20, max limit=100.
  *
+ * ## Recurring Events
+ * Recurring series (`is_recurring` + `recurrence_pattern`) are expanded
+ * into one entry per occurrence inside the requested date window. Each
+ * occurrence carries its own `event_date` plus `parent_event_id` and a
+ * unique `occurrence_id`. See `lib/recurrence.ts`.
+ *
+ * ## Lineups
+ * Events carry `lineup`: the linked artists in billing order
+ * (see `lib/artists.ts`), so clients can link performers to their pages.
+ *
+ * ## History
+ * Changes to an event's date, time, venue, price, status or availability
+ * are recorded as revisions (see `lib/revisions.ts`); events that moved
+ * carry `rescheduled_from` with the night they were moved from.
+ *
+ * ## Merged Events
+ * Duplicates folded into another event by dedup (`merged_into_id`, see
+ * `lib/merges.ts`) never appear in lists. Fetching one by ID — JSON or
+ * `.ics` — answers `302` with the surviving event's URL. Not `301`: an
+ * admin can undo the merge, and clients would keep the cached redirect.
+ *
  * ## Saved Events
  * When authenticated, events include an `isSaved` boolean
  * indicating whether the current user has saved the event.
@@ -24,103 +57,158 @@
 import { Router, Request, Response } from 'express';
 import { db } from '../db/connection.js';
 import { event, subEvent, venue, sourcePost, sourceAccount, savedEvent } from '../db/schema.js';
-import { eq, gte, lte, and, or, ilike, desc, asc, sql, count } from 'drizzle-orm';
+import { SQL, eq, and, desc, asc, sql, count } from 'drizzle-orm';
 import { optionalAuth, authenticate } from '../middleware/auth.js';
+import { z, ZodError } from 'zod';
+import {
+  buildDateConditions,
+  buildEventConditions,
+  filterErrors,
+  matchesTimeFilters,
+  notEndedBy,
+  parseEventFilters,
+} from '../lib/eventFilters.js';
+import { currentNightDate, hasEnded } from '../lib/time.js';
+import { buildCalendar, icsFilename } from '../lib/ics.js';
+import { searchRank, searchSnippet } from '../lib/search.js';
+import { distanceKm, parseBbox, withinBbox, withinRadius } from '../lib/geo.js';
+import { MAX_ZOOM, clusterPoints } from '../lib/clustering.js';
+import { lineupsFor, withLineups } from '../lib/artists.js';
+import { revisionsFor } from '../lib/revisions.js';
+import { survivorOf } from '../lib/merges.js';
+import { sourcesFor } from '../lib/sources.js';
+import {
+  RECURRENCE_HORIZON_DAYS,
+  addDays,
+  byDateAndTime,
+  expandRecurring,
+  notRecurring,
+  recurringInWindow,
+  type Occurrence,
+} from '../lib/recurrence.js';
 
 const router = Router();
 
+/** Default and maximum search radius for /nearby */
+const DEFAULT_NEARBY_RADIUS_KM = 5;
+const MAX_NEARBY_RADIUS_KM = 50;
+
+/** Required centre point for /nearby */
+const nearbyPointSchema = z.object({
+  lat: z.coerce.number({ invalid_type_error: 'Required: latitude in degrees' }).min(-90, 'Out of range').max(90, 'Out of range'),
+  lng: z.coerce.number({ invalid_type_error: 'Required: longitude in degrees' }).min(-180, 'Out of range').max(180, 'Out of range'),
+});
+
 /**
  * GET /api/events
  *
  * List events with filtering, search, and pagination.
  *
  * Query params:
- * - category: string (event category)
- * - date_from: string (YYYY-MM-DD)
- * - date_to: string (YYYY-MM-DD)
- * - is_free: "true" | "false"
- * - search: string (searches title, description, venue_name)
- * - venue_id: number
- * - status: string (default: "confirmed")
+ * - shared event filters (see `lib/eventFilters.ts`); status defaults
+ *   to "confirmed"
+ * - search: results are ordered by relevance and carry `search_rank`
+ *   and a highlighted `search_snippet`
+ * - happening_now / time_of_day / day_of_week: by start/end time;
+ *   happening_now also expands recurring series, like a date range
  * - page: number (default: 1)
  * - limit: number (default: 20, max: 100)
  */
 router.get('/', optionalAuth, async (req: Request, res: Response) => {
   try {
-    const {
-      category,
-      date_from,
-      date_to,
-      is_free,
-      search,
-      venue_id,
-      status = 'confirmed',
-      page = '1',
-      limit = '20',
-    } = req.query as Record<string, string>;
+    const filters = parseEventFilters(req.query);
+    filters.status ??= ['confirmed'];
+    const { date_from, date_to, happening_now, search } = filters;
+    const now = new Date();
+    const { page = '1', limit = '20' } = req.query as Record<string, string>;
 
     const pageNum = Math.max(1, parseInt(page) || 1);
     const limitNum = Math.min(100, Math.max(1, parseInt(limit) || 20));
     const offset = (pageNum - 1) * limitNum;
 
-    const conditions: any[] = [];
+    const filterConditions = buildEventConditions(filters);
+    const dateConditions = buildDateConditions(filters, now);
 
-    if (status) {
-      conditions.push(eq(event.eventStatus, status as any));
-    }
-    if (category) {
-      conditions.push(eq(event.category, category as any));
-    }
-    if (date_from) {
-      conditions.push(gte(event.eventDate, date_from));
-    }
-    if (date_to) {
-      conditions.push(lte(event.eventDate, date_to));
-    }
-    if (is_free === 'true') {
-      conditions.push(eq(event.isFree, true));
-    } else if (is_free === 'false') {
-      conditions.push(eq(event.isFree, false));
-    }
-    if (venue_id) {
-      conditions.push(eq(event.venueId, parseInt(venue_id)));
-    }
-    if (search) {
-      const term = `%${search}%`;
-      conditions.push(
-        or(
-          ilike(event.title, term),
-          ilike(event.description, term),
-          ilike(event.venueName, term),
-        )
-      );
-    }
+    const withRelations = {
+      venue: true,
+      sourceAccount: {
+        columns: { username: true, fullName: true },
+      },
+      sourcePost: {
+        columns: { shortcode: true, postUrl: true },
+      },
+      subEvent: true,
+    } as const;
 
-    const where = conditions.length > 0 ? and(...conditions) : undefined;
+    // With a search term, rank by relevance (then date) and attach snippets
+    const term = search;
+    const extras = term
+      ? {
+          searchRank: searchRank(term).as('search_rank'),
+          searchSnippet: searchSnippet(term).as('search_snippet'),
+        }
+      : undefined;
+    const orderBy = term
+      ? [desc(searchRank(term)), asc(event.eventDate), asc(event.eventTime)]
+      : [asc(event.eventDate), asc(event.eventTime)];
 
-    // Get total count
-    const [{ total }] = await db
-      .select({ total: count() })
-      .from(event)
-      .where(where);
+    let results;
+    let total: number;
 
-    // Get events
-    const results = await db.query.event.findMany({
-      where,
-      with: {
-        venue: true,
-        sourceAccount: {
-          columns: { username: true, fullName: true },
-        },
-        sourcePost: {
-          columns: { shortcode: true, postUrl: true },
-        },
-        subEvent: true,
-      },
-      orderBy: [asc(event.eventDate), asc(event.eventTime)],
-      limit: limitNum,
-      offset,
-    });
+    if (date_from || date_to || happening_now) {
+      // Date window requested: recurring series are expanded into their
+      // occurrences in the window and merged with single-date events.
+      // Single-date events are still ordered/limited in SQL; we only need
+      // the first offset+limit of them to build the requested page.
+      const from = date_from || currentNightDate(now);
+      const to = date_to || addDays(from, RECURRENCE_HORIZON_DAYS);
+
+      const singleWhere = and(...filterConditions, ...dateConditions, notRecurring());
+      const [{ total: singleTotal }] = await db
+        .select({ total: count() })
+        .from(event)
+        .where(singleWhere);
+
+      const singles = await db.query.event.findMany({
+        where: singleWhere,
+        with: withRelations,
+        extras,
+        orderBy,
+        limit: offset + limitNum,
+      });
+
+      const series = await db.query.event.findMany({
+        where: and(...filterConditions, recurringInWindow(from, to)),
+        with: withRelations,
+        extras,
+      });
+      const occurrences = expandRecurring(series, from, to)
+        .filter(o => matchesTimeFilters(o, filters, now));
+
+      const rankOf = (e: object) => ('searchRank' in e ? Number(e.searchRank) : 0);
+      results = [...singles, ...occurrences]
+        .sort((a, b) => (rankOf(b) - rankOf(a)) || byDateAndTime(a, b))
+        .slice(offset, offset + limitNum);
+      total = Number(singleTotal) + occurrences.length;
+    } else {
+      const conditions = [...filterConditions, ...dateConditions];
+      const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+      const [{ total: allTotal }] = await db
+        .select({ total: count() })
+        .from(event)
+        .where(where);
+
+      results = await db.query.event.findMany({
+        where,
+        with: withRelations,
+        extras,
+        orderBy,
+        limit: limitNum,
+        offset,
+      });
+      total = Number(allTotal);
+    }
 
     // Check saved status if authenticated
     let savedEventIds = new Set<number>();
@@ -132,7 +220,7 @@ router.get('/', optionalAuth, async (req: Request, res: Response) => {
       savedEventIds = new Set(saved.map(s => s.eventId));
     }
 
-    const data = results.map(e => ({
+    const data = (await withLineups(db, results)).map(e => ({
       ...e,
       isSaved: savedEventIds.has(e.id),
     }));
@@ -142,11 +230,15 @@ router.get('/', optionalAuth, async (req: Request, res: Response) => {
       pagination: {
         page: pageNum,
         limit: limitNum,
-        total: Number(total),
-        totalPages: Math.ceil(Number(total) / limitNum),
+        total,
+        totalPages: Math.ceil(total / limitNum),
       },
     });
   } catch (err) {
+    if (err instanceof ZodError) {
+      res.status(400).json({ error: 'Invalid filters', fields: filterErrors(err) });
+      return;
+    }
     console.error('Events list error:', err);
     res.status(500).json({ error: 'Failed to fetch events' });
   }
@@ -155,27 +247,56 @@ router.get('/', optionalAuth, async (req: Request, res: Response) => {
 /**
  * GET /api/events/upcoming
  *
- * Events from today forward, ordered by date.
+ * Events that haven't ended yet (by `end_at`, so a party that started
+ * at 11pm is still listed at 1am), ordered by date, including the next
+ * occurrences of recurring series within the next 60 days (or up to
+ * `date_to`). Accepts the shared event filters; status defaults to
+ * "confirmed" and `date_from` can't be earlier than today.
  * Shortcut for GET /api/events?date_from=today&status=confirmed
  */
 router.get('/upcoming', optionalAuth, async (req: Request, res: Response) => {
   try {
-    const today = new Date().toISOString().split('T')[0];
+    const filters = parseEventFilters(req.query);
+    filters.status ??= ['confirmed'];
+    const now = new Date();
+    const today = currentNightDate(now);
     const limit = Math.min(100, parseInt(req.query.limit as string) || 20);
 
-    const results = await db.query.event.findMany({
+    const from = filters.date_from && filters.date_from > today ? filters.date_from : today;
+    const horizon = filters.date_to ?? addDays(from, RECURRENCE_HORIZON_DAYS);
+    const filterConditions = buildEventConditions(filters);
+    const withRelations = {
+      venue: true,
+      subEvent: true,
+    } as const;
+
+    const singles = await db.query.event.findMany({
       where: and(
-        gte(event.eventDate, today),
-        eq(event.eventStatus, 'confirmed'),
+        ...filterConditions,
+        ...buildDateConditions({ ...filters, date_from: from }, now),
+        notEndedBy(now),
+        notRecurring(),
       ),
-      with: {
-        venue: true,
-        subEvent: true,
-      },
+      with: withRelations,
       orderBy: [asc(event.eventDate), asc(event.eventTime)],
       limit,
     });
 
+    // Weekly/monthly series contribute their next occurrences
+    const series = await db.query.event.findMany({
+      where: and(
+        ...filterConditions,
+        recurringInWindow(from, horizon),
+      ),
+      with: withRelations,
+    });
+
+    const occurrences = expandRecurring(series, from, horizon)
+      .filter(o => !hasEnded(o, now) && matchesTimeFilters(o, filters, now));
+    const results = [...singles, ...occurrences]
+      .sort(byDateAndTime)
+      .slice(0, limit);
+
     // Check saved status
     let savedEventIds = new Set<number>();
     if (req.user) {
@@ -187,12 +308,16 @@ router.get('/upcoming', optionalAuth, async (req: Request, res: Response) => {
     }
 
     res.json({
-      data: results.map(e => ({
+      data: (await withLineups(db, results)).map(e => ({
         ...e,
         isSaved: savedEventIds.has(e.id),
       })),
     });
   } catch (err) {
+    if (err instanceof ZodError) {
+      res.status(400).json({ error: 'Invalid filters', fields: filterErrors(err) });
+      return;
+    }
     console.error('Upcoming events error:', err);
     res.status(500).json({ error: 'Failed to fetch upcoming events' });
   }
@@ -203,70 +328,312 @@ router.get('/upcoming', optionalAuth, async (req: Request, res: Response) => {
  *
  * Events with lat/lng for map markers. Returns a lightweight payload
  * optimized for rendering map pins (no descriptions, no sub-events).
- * Only includes events that have geocoding data.
+ * Only includes events that have geocoding data. Recurring series are
+ * expanded up to `date_to` (or 60 days ahead).
+ *
+ * Query params:
+ * - shared event filters (status defaults to "confirmed"); pins stay
+ *   date-ordered even when searching. Without date_from, only events
+ *   that haven't ended yet are returned
+ * - bbox: string "minLng,minLat,maxLng,maxLat" — only events inside the
+ *   visible map area (recommended; omit to load every pin)
+ * - zoom: integer 0–19 — return pre-aggregated clusters for this zoom
+ *   level instead of individual events (see `lib/clustering.ts`). At
+ *   high zoom, clusters expand to per-location groups of events.
  */
 router.get('/map', async (req: Request, res: Response) => {
   try {
-    const today = new Date().toISOString().split('T')[0];
-    const { category, date_from, date_to } = req.query as Record<string, string>;
+    const filters = parseEventFilters(req.query);
+    filters.status ??= ['confirmed'];
+    const now = new Date();
+    const from = filters.date_from ?? currentNightDate(now);
+    const { bbox, zoom } = req.query as Record<string, string>;
+
+    const zoomLevel = zoom !== undefined ? Number(zoom) : null;
+    if (zoomLevel !== null && (!Number.isInteger(zoomLevel) || zoomLevel < 0 || zoomLevel > MAX_ZOOM)) {
+      res.status(400).json({ error: 'Invalid filters', fields: { zoom: `Expected an integer from 0 to ${MAX_ZOOM}` } });
+      return;
+    }
 
-    const conditions: any[] = [
+    const conditions: SQL[] = [
       sql`${event.venueLat} IS NOT NULL`,
-      gte(event.eventDate, today),
-      eq(event.eventStatus, 'confirmed'),
+      ...buildEventConditions(filters),
     ];
 
-    if (category) {
-      conditions.push(eq(event.category, category as any));
-    }
-    if (date_to) {
-      conditions.push(lte(event.eventDate, date_to));
+    if (bbox) {
+      const box = parseBbox(bbox);
+      if (!box) {
+        res.status(400).json({ error: 'Invalid filters', fields: { bbox: 'Expected minLng,minLat,maxLng,maxLat' } });
+        return;
+      }
+      conditions.push(withinBbox(box));
     }
 
-    const results = await db
-      .select({
-        id: event.id,
-        title: event.title,
-        eventDate: event.eventDate,
-        eventEndDate: event.eventEndDate,
-        eventTime: event.eventTime,
-        endTime: event.endTime,
-        venueName: event.venueName,
-        venueAddress: event.venueAddress,
-        venueLat: event.venueLat,
-        venueLng: event.venueLng,
-        category: event.category,
-        isFree: event.isFree,
-        price: event.price,
-        imageUrl: event.imageUrl,
-        sourceUsername: event.sourceUsername,
-        priceNotes: event.priceNotes,
-        signupUrl: event.signupUrl,
-        eventStatus: event.eventStatus,
-        availabilityStatus: event.availabilityStatus,
-        isRecurring: event.isRecurring,
-        recurrencePattern: event.recurrencePattern,
-        priceMin: event.priceMin,
-        priceMax: event.priceMax,
-        sourcePostShortcode: sourcePost.shortcode,
-        sourcePostUrl: sourcePost.postUrl,
-      })
+    const singleConditions = [
+      ...conditions,
+      ...buildDateConditions({ ...filters, date_from: from }, now),
+      notRecurring(),
+    ];
+    // Without an explicit range, pins for events that are already over go
+    const upcomingOnly = !filters.date_from;
+    if (upcomingOnly) singleConditions.push(notEndedBy(now));
+
+    const columns = {
+      id: event.id,
+      title: event.title,
+      eventDate: event.eventDate,
+      eventEndDate: event.eventEndDate,
+      eventTime: event.eventTime,
+      endTime: event.endTime,
+      startAt: event.startAt,
+      endAt: event.endAt,
+      venueName: event.venueName,
+      venueAddress: event.venueAddress,
+      venueLat: event.venueLat,
+      venueLng: event.venueLng,
+      category: event.category,
+      isFree: event.isFree,
+      price: event.price,
+      imageUrl: event.imageUrl,
+      sourceUsername: event.sourceUsername,
+      priceNotes: event.priceNotes,
+      signupUrl: event.signupUrl,
+      eventStatus: event.eventStatus,
+      availabilityStatus: event.availabilityStatus,
+      rescheduledFrom: event.rescheduledFrom,
+      isRecurring: event.isRecurring,
+      recurrencePattern: event.recurrencePattern,
+      priceMin: event.priceMin,
+      priceMax: event.priceMax,
+      sourcePostShortcode: sourcePost.shortcode,
+      sourcePostUrl: sourcePost.postUrl,
+    };
+
+    const singles = await db
+      .select(columns)
       .from(event)
       .leftJoin(sourcePost, eq(event.sourcePostId, sourcePost.id))
-      .where(and(...conditions))
+      .where(and(...singleConditions))
       .orderBy(asc(event.eventDate));
 
+    // Recurring series get a pin for every occurrence in the window
+    const horizon = filters.date_to ?? addDays(from, RECURRENCE_HORIZON_DAYS);
+    const series = await db
+      .select(columns)
+      .from(event)
+      .leftJoin(sourcePost, eq(event.sourcePostId, sourcePost.id))
+      .where(and(...conditions, recurringInWindow(from, horizon)));
+
+    const occurrences = expandRecurring(series, from, horizon)
+      .filter(o => (!upcomingOnly || !hasEnded(o, now)) && matchesTimeFilters(o, filters, now));
+    const results = await withLineups(db, [...singles, ...occurrences].sort(byDateAndTime));
+
+    if (zoomLevel !== null) {
+      res.json({ data: clusterPoints(results, zoomLevel), zoom: zoomLevel });
+      return;
+    }
+
     res.json({ data: results });
   } catch (err) {
+    if (err instanceof ZodError) {
+      res.status(400).json({ error: 'Invalid filters', fields: filterErrors(err) });
+      return;
+    }
     console.error('Map events error:', err);
     res.status(500).json({ error: 'Failed to fetch map events' });
   }
 });
 
+/**
+ * GET /api/events/nearby
+ *
+ * Upcoming events within a radius of a point, nearest first. Each
+ * result carries `distance_km`. Recurring series appear once, at their
+ * next occurrence.
+ *
+ * Query params:
+ * - lat, lng: number (required)
+ * - radius_km: number (default: 5, max: 50)
+ * - shared event filters (status defaults to "confirmed", date_to to
+ *   date_from + 60 days). Without date_from, only events that haven't
+ *   ended yet are returned
+ * - limit: number (default: 50, max: 100)
+ */
+router.get('/nearby', optionalAuth, async (req: Request, res: Response) => {
+  try {
+    const filters = parseEventFilters(req.query);
+    filters.status ??= ['confirmed'];
+    const { lat: latNum, lng: lngNum } = nearbyPointSchema.parse(req.query);
+    const { radius_km, limit = '50' } = req.query as Record<string, string>;
+
+    const radiusKm = Math.min(MAX_NEARBY_RADIUS_KM, Math.max(0.1, parseFloat(radius_km) || DEFAULT_NEARBY_RADIUS_KM));
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit) || 50));
+    const now = new Date();
+    const from = filters.date_from ?? currentNightDate(now);
+    const to = filters.date_to ?? addDays(from, RECURRENCE_HORIZON_DAYS);
+    const upcomingOnly = !filters.date_from;
+
+    const filterConditions = [
+      ...buildEventConditions(filters),
+      withinRadius(latNum, lngNum, radiusKm),
+    ];
+    const distance = distanceKm(latNum, lngNum);
+    const withRelations = {
+      venue: true,
+      sourcePost: {
+        columns: { shortcode: true, postUrl: true },
+      },
+      subEvent: true,
+    } as const;
+    const extras = { distanceKm: distance.as('distance_km') };
+
+    const singles = await db.query.event.findMany({
+      where: and(
+        ...filterConditions,
+        ...buildDateConditions({ ...filters, date_from: from, date_to: to }, now),
+        ...(upcomingOnly ? [notEndedBy(now)] : []),
+        notRecurring(),
+      ),
+      with: withRelations,
+      extras,
+      orderBy: [asc(distance), asc(event.eventDate), asc(event.eventTime)],
+      limit: limitNum,
+    });
+
+    // Each series contributes only its next occurrence — a weekly night
+    // shouldn't fill a "near me" list with the same place eight times
+    const series = await db.query.event.findMany({
+      where: and(...filterConditions, recurringInWindow(from, to)),
+      with: withRelations,
+      extras,
+    });
+    const nextOccurrences = new Map<number, Occurrence<(typeof series)[number]>>();
+    for (const occurrence of expandRecurring(series, from, to)) {
+      if (upcomingOnly && hasEnded(occurrence, now)) continue;
+      if (!matchesTimeFilters(occurrence, filters, now)) continue;
+      if (!nextOccurrences.has(occurrence.parentEventId)) {
+        nextOccurrences.set(occurrence.parentEventId, occurrence);
+      }
+    }
+
+    const results = [...singles, ...nextOccurrences.values()]
+      .sort((a, b) => (a.distanceKm - b.distanceKm) || byDateAndTime(a, b))
+      .slice(0, limitNum);
+
+    let savedEventIds = new Set<number>();
+    if (req.user) {
+      const saved = await db
+        .select({ eventId: savedEvent.eventId })
+        .from(savedEvent)
+        .where(eq(savedEvent.accountId, req.user.userId));
+      savedEventIds = new Set(saved.map(s => s.eventId));
+    }
+
+    res.json({
+      data: (await withLineups(db, results)).map(e => ({
+        ...e,
+        isSaved: savedEventIds.has(e.id),
+      })),
+      center: { lat: latNum, lng: lngNum },
+      radiusKm,
+    });
+  } catch (err) {
+    if (err instanceof ZodError) {
+      res.status(400).json({ error: 'Invalid filters', fields: filterErrors(err) });
+      return;
+    }
+    console.error('Nearby events error:', err);
+    res.status(500).json({ error: 'Failed to fetch nearby events' });
+  }
+});
+
+/**
+ * GET /api/events/:id.ics
+ *
+ * Single event as an iCalendar file for "Add to calendar". Sub-events
+ * with their own date/time are included as separate VEVENTs.
+ *
+ * Merged duplicates redirect to the survivor's `.ics`.
+ *
+ * Registered before `/:id` so the `.ics` suffix isn't parsed as an ID.
+ */
+router.get('/:id.ics', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id as string);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid event ID' });
+      return;
+    }
+
+    const result = await db.query.event.findFirst({
+      where: eq(event.id, id),
+      with: {
+        sourcePost: {
+          columns: { postUrl: true },
+        },
+        subEvent: true,
+      },
+    });
+
+    if (!result) {
+      res.status(404).json({ error: 'Event not found' });
+      return;
+    }
+
+    const survivorId = await survivorOf(db, result.mergedIntoId);
+    if (survivorId !== null) {
+      res.redirect(302, `${req.baseUrl}/${survivorId}.ics`);
+      return;
+    }
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${icsFilename(result.title)}"`);
+    res.send(buildCalendar([result], { name: result.title }));
+  } catch (err) {
+    console.error('Event ICS error:', err);
+    res.status(500).json({ error: 'Failed to build calendar file' });
+  }
+});
+
+/**
+ * GET /api/events/:id/history
+ *
+ * Revisions of an event, newest first. Each has a `source` (`ingest`
+ * or `admin`) and `changes`: `{ field: { from, to } }` for the date,
+ * time, venue, price, status and availability fields that changed.
+ */
+router.get('/:id/history', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id as string);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid event ID' });
+      return;
+    }
+
+    const exists = await db.query.event.findFirst({
+      where: eq(event.id, id),
+      columns: { id: true },
+    });
+
+    if (!exists) {
+      res.status(404).json({ error: 'Event not found' });
+      return;
+    }
+
+    res.json({ data: await revisionsFor(db, id) });
+  } catch (err) {
+    console.error('Event history error:', err);
+    res.status(500).json({ error: 'Failed to fetch event history' });
+  }
+});
+
 /**
  * GET /api/events/:id
  *
  * Single event with full details including sub-events, venue, and source info.
+ * `sources` lists every post the event was found in (see `lib/sources.ts`),
+ * its own post first.
+ * A merged duplicate redirects (302) to the event it was merged into.
  */
 router.get('/:id', optionalAuth, async (req: Request, res: Response) => {
   try {
@@ -293,6 +660,12 @@ router.get('/:id', optionalAuth, async (req: Request, res: Response) => {
       return;
     }
 
+    const survivorId = await survivorOf(db, result.mergedIntoId);
+    if (survivorId !== null) {
+      res.redirect(302, `${req.baseUrl}/${survivorId}`);
+      return;
+    }
+
     // Check if saved by current user
     let isSaved = false;
     if (req.user) {
@@ -305,7 +678,9 @@ router.get('/:id', optionalAuth, async (req: Request, res: Response) => {
       isSaved = !!saved;
     }
 
-    res.json({ ...result, isSaved });
+    const [lineups, sources] = await Promise.all([lineupsFor(db, [id]), sourcesFor(db, id)]);
+
+    res.json({ ...result, lineup: lineups.get(id) ?? [], sources, isSaved });
   } catch (err) {
     console.error('Event detail error:', err);
     res.status(500).json({ error: 'Failed to fetch event' });
@@ -0,0 +1,88 @@
+/**
+ * Feeds Routes — Subscribable iCalendar feeds
+ *
+ * Calendar apps (Google, Apple, Outlook) can subscribe to these URLs and
+ * re-poll them, so new and updated events show up without copying
+ * details by hand.
+ *
+ * ## Endpoints
+ * - GET /api/feeds/events.ics — Filtered event feed
+ *
+ * ## Filtering
+ * Accepts the shared event filters (see `lib/eventFilters.ts`), e.g.
+ * `/api/feeds/events.ics?category=music,nightlife&is_free=true`.
+ *
+ * Unlike the JSON list, the feed includes cancelled events by default so
+ * subscribers see the cancellation instead of the entry silently vanishing.
+ */
+
+import { Router, Request, Response } from 'express';
+import { db } from '../db/connection.js';
+import { event } from '../db/schema.js';
+import { and, asc } from 'drizzle-orm';
+import { ZodError } from 'zod';
+import {
+  buildDateConditions,
+  buildEventConditions,
+  filterErrors,
+  parseEventFilters,
+} from '../lib/eventFilters.js';
+import { buildCalendar } from '../lib/ics.js';
+import { addDays } from '../lib/recurrence.js';
+import { manilaDate } from '../lib/time.js';
+
+const router = Router();
+
+/** Maximum events in a single feed response */
+const FEED_LIMIT = 1000;
+
+/** Default look-back so recently finished events stay in subscribers' calendars */
+const FEED_LOOKBACK_DAYS = 30;
+
+/**
+ * GET /api/feeds/events.ics
+ *
+ * iCalendar feed of events matching the given filters.
+ * Defaults to events from 30 days ago onward when no date_from is given.
+ */
+router.get('/events.ics', async (req: Request, res: Response) => {
+  try {
+    const filters = parseEventFilters(req.query);
+
+    filters.date_from ??= addDays(manilaDate(), -FEED_LOOKBACK_DAYS);
+
+    const conditions = [...buildEventConditions(filters), ...buildDateConditions(filters)];
+
+    const results = await db.query.event.findMany({
+      where: conditions.length > 0 ? and(...conditions) : undefined,
+      with: {
+        sourcePost: {
+          columns: { postUrl: true },
+        },
+        subEvent: true,
+      },
+      orderBy: [asc(event.eventDate), asc(event.eventTime)],
+      limit: FEED_LIMIT,
+    });
+
+    const nameParts = ['WheresTheFX'];
+    if (filters.category) nameParts.push(filters.category.join(', '));
+    if (filters.is_free) nameParts.push('free');
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename="wheresthefx-events.ics"');
+    res.send(buildCalendar(results, {
+      name: nameParts.join(' · '),
+      description: 'Events around Metro Manila from WheresTheFX',
+    }));
+  } catch (err) {
+    if (err instanceof ZodError) {
+      res.status(400).json({ error: 'Invalid filters', fields: filterErrors(err) });
+      return;
+    }
+    console.error('Events feed error:', err);
+    res.status(500).json({ error: 'Failed to build events feed' });
+  }
+});
+
+export default router;
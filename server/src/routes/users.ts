@@ -16,6 +16,7 @@ import { savedEvent, accountPreference, event } from '../db/schema.js';
 import { eq, and, asc } from 'drizzle-orm';
 import { authenticate } from '../middleware/auth.js';
 import { z } from 'zod';
+import { survivorOf } from '../lib/merges.js';
 
 const router = Router();
 
@@ -27,15 +28,22 @@ router.use(authenticate);
  *
  * Toggle save/unsave for an event. If the event is already saved,
  * it will be unsaved (deleted). If not saved, it will be saved.
+ * A merged duplicate's ID acts on the event it was merged into.
  *
  * Request body: { eventId: number }
  * Response: { saved: boolean } — true if newly saved, false if unsaved
  */
 router.post('/saved', async (req: Request, res: Response) => {
   try {
-    const { eventId } = z.object({ eventId: z.number() }).parse(req.body);
+    const body = z.object({ eventId: z.number() }).parse(req.body);
     const accountId = req.user!.userId;
 
+    const target = await db.query.event.findFirst({
+      where: eq(event.id, body.eventId),
+      columns: { mergedIntoId: true },
+    });
+    const eventId = (await survivorOf(db, target?.mergedIntoId ?? null)) ?? body.eventId;
+
     // Check if already saved
     const existing = await db.query.savedEvent.findFirst({
       where: and(
@@ -8,34 +8,65 @@
  * - GET /api/venues          — All venues with event counts
  * - GET /api/venues/:id      — Venue detail
  * - GET /api/venues/:id/events — Upcoming events at this venue
+ *
+ * ## Opening hours
+ * Venues carry `operatingHours` (set by admins, see `routes/admin.ts`)
+ * and a derived `openNow`: true/false in Manila time, or null when the
+ * hours for today aren't known. See `lib/hours.ts`.
  */
 
 import { Router, Request, Response } from 'express';
 import { db } from '../db/connection.js';
 import { venue, event } from '../db/schema.js';
-import { eq, gte, asc, and, count, sql } from 'drizzle-orm';
+import { eq, asc, and, count, sql } from 'drizzle-orm';
+import { z, ZodError } from 'zod';
+import {
+  booleanParam,
+  buildDateConditions,
+  buildEventConditions,
+  filterErrors,
+  notMerged,
+  parseEventFilters,
+} from '../lib/eventFilters.js';
+import { currentNightDate } from '../lib/time.js';
+import { isOpenAt } from '../lib/hours.js';
 
 const router = Router();
 
+/** Query params for GET /api/venues */
+const venueListSchema = z.object({
+  open_now: z.preprocess(v => (v === '' ? undefined : v), booleanParam.optional()),
+});
+
 /**
  * GET /api/venues
  *
  * List all venues with a count of upcoming events at each.
  * Venues are sorted alphabetically by name.
- * Optionally filter with ?search= to search venue names.
+ *
+ * Query params:
+ * - open_now: `true` — only venues open right now by their operating
+ *   hours (a bar open until 3am still counts at 1am); `false` — only
+ *   venues known to be closed. Venues without hours are left out of both.
  */
 router.get('/', async (req: Request, res: Response) => {
   try {
-    const today = new Date().toISOString().split('T')[0];
+    const { open_now } = venueListSchema.parse(req.query);
+    const now = new Date();
+    const today = currentNightDate(now);
 
     const results = await db
       .select({
         id: venue.id,
         name: venue.name,
+        aliases: venue.aliases,
         address: venue.address,
+        city: venue.city,
+        instagramHandle: venue.instagramHandle,
         category: venue.category,
         lat: venue.lat,
         lng: venue.lng,
+        operatingHours: venue.operatingHours,
         eventCount: count(event.id),
       })
       .from(venue)
@@ -43,15 +74,24 @@ router.get('/', async (req: Request, res: Response) => {
         event,
         and(
           eq(event.venueId, venue.id),
-          gte(event.eventDate, today),
+          ...buildDateConditions({ date_from: today }),
           eq(event.eventStatus, 'confirmed'),
+          notMerged(),
         )
       )
       .groupBy(venue.id)
       .orderBy(asc(venue.name));
 
-    res.json({ data: results });
+    const data = results
+      .map(v => ({ ...v, openNow: isOpenAt(v.operatingHours, now) }))
+      .filter(v => open_now === undefined || v.openNow === open_now);
+
+    res.json({ data });
   } catch (err) {
+    if (err instanceof ZodError) {
+      res.status(400).json({ error: 'Invalid filters', fields: filterErrors(err) });
+      return;
+    }
     console.error('Venues list error:', err);
     res.status(500).json({ error: 'Failed to fetch venues' });
   }
@@ -60,7 +100,8 @@ router.get('/', async (req: Request, res: Response) => {
 /**
  * GET /api/venues/:id
  *
- * Get a single venue by ID with full details.
+ * Get a single venue by ID with full details, including operating
+ * hours and whether it's open now.
  */
 router.get('/:id', async (req: Request, res: Response) => {
   try {
@@ -79,7 +120,7 @@ router.get('/:id', async (req: Request, res: Response) => {
       return;
     }
 
-    res.json(result);
+    res.json({ ...result, openNow: isOpenAt(result.operatingHours) });
   } catch (err) {
     console.error('Venue detail error:', err);
     res.status(500).json({ error: 'Failed to fetch venue' });
@@ -89,8 +130,9 @@ router.get('/:id', async (req: Request, res: Response) => {
 /**
  * GET /api/venues/:id/events
  *
- * Get upcoming events at a specific venue.
- * Only returns confirmed events from today forward.
+ * Get upcoming events at a specific venue. Accepts the shared event
+ * filters (see `lib/eventFilters.ts`); defaults to confirmed events from
+ * today forward. The venue always comes from the path.
  */
 router.get('/:id/events', async (req: Request, res: Response) => {
   try {
@@ -100,19 +142,25 @@ router.get('/:id/events', async (req: Request, res: Response) => {
       return;
     }
 
-    const today = new Date().toISOString().split('T')[0];
+    const filters = parseEventFilters(req.query);
+    filters.status ??= ['confirmed'];
+    filters.date_from ??= currentNightDate();
+    filters.venue_id = id;
 
     const results = await db.query.event.findMany({
       where: and(
-        eq(event.venueId, id),
-        gte(event.eventDate, today),
-        eq(event.eventStatus, 'confirmed'),
+        ...buildEventConditions(filters),
+        ...buildDateConditions(filters),
       ),
       orderBy: [asc(event.eventDate), asc(event.eventTime)],
     });
 
     res.json({ data: results });
   } catch (err) {
+    if (err instanceof ZodError) {
+      res.status(400).json({ error: 'Invalid filters', fields: filterErrors(err) });
+      return;
+    }
     console.error('Venue events error:', err);
     res.status(500).json({ error: 'Failed to fetch venue events' });
   }
@@ -1,27 +1,64 @@
 /**
- * Event Deduplication Script (v2 — Fuzzy)
+ * Event Deduplication Script (v6 — Place & Lineup Aware)
  *
- * Two-pass deduplication:
+ * Three-pass deduplication:
  *
  * Pass 1 — Exact title match:
  *   Normalize titles, group by (normalized_title, event_date),
  *   keep highest completeness_score.
  *
- * Pass 2 — Fuzzy venue+date match:
- *   Group remaining events by normalized_venue.
- *   Within each group, cluster events whose titles share ≥35% of words
- *   (Jaccard similarity) AND have overlapping date ranges.
- *   Keep the best-scored event per cluster.
+ * Pass 2 — Fuzzy place+date match:
+ *   Among the remaining events with overlapping date ranges, pair those
+ *   at the same place: the same linked venue (`venue_id`), the same
+ *   normalized venue name, venues within SAME_PLACE_KM, or no venue on
+ *   one side. Score each pair by title word overlap, lineup overlap and
+ *   sub-event title overlap (Jaccard, weighted; features one side lacks
+ *   drop out), discounted when the place isn't certain. Cluster pairs
+ *   scoring ≥ FUZZY_THRESHOLD and keep the best-scored event per cluster.
+ *
+ * Pass 3 — Same flyer image:
+ *   Among the remaining events, cluster those with overlapping date
+ *   ranges whose posts' images are near-identical (perceptual hash
+ *   within IMAGE_MATCH_DISTANCE bits, see `lib/images.ts`). Catches
+ *   reposts whose captions — and so extracted titles — differ.
+ *
+ * Duplicates are merged into the kept event, not deleted: they get
+ * `merged_into_id`, their bookmarks move over and an `event_merge` row
+ * records the pass that matched them (see `lib/merges.ts`). Only
+ * unmerged events are compared, and pairs an admin un-merged or
+ * rejected are skipped. Survivors are then consolidated: fields they
+ * lack (ticket link, price, venue, times, …) are filled from their
+ * duplicates, artists are unioned and sub-events copied over.
+ *
+ * Every match gets a score (1 for exact matches, the combined fuzzy
+ * score for fuzzy ones, raised to the flyer similarity when the images
+ * match too; the flyer similarity for image matches, halved when the
+ * venues differ) and the reasons it matched. Only matches scoring at
+ * least AUTO_MERGE_SCORE are merged; the rest are queued for an admin
+ * to confirm or reject (`dedup_candidate`, see `lib/candidates.ts`).
+ * "Remaining" events above are those not merged by an earlier pass: a
+ * loser only queued for review stays in, and if a later pass merges it
+ * with confidence, its queued match is dropped.
  *
  * Usage:
- *   npx tsx src/scripts/dedup-events.ts          # Dry run (default)
- *   npx tsx src/scripts/dedup-events.ts --apply   # Actually delete duplicates
+ *   npx tsx src/scripts/dedup-events.ts          # Dry run (default), explaining each cluster
+ *   npx tsx src/scripts/dedup-events.ts --apply   # Merge confident matches, queue the rest
  *
  * Also exported as `runDedup(sql)` for use in the ingest pipeline.
  */
 
 import 'dotenv/config';
 import postgres from 'postgres';
+import { drizzle } from 'drizzle-orm/postgres-js';
+import * as schema from '../db/schema.js';
+import { normalizeVenueName } from '../lib/venues.js';
+import { normalizeArtistName, parseArtistCredits } from '../lib/artists.js';
+import { haversineKm } from '../lib/geo.js';
+import { consolidateSurvivors, keptApartPairs, mergeEvent, pairKey, type MergeRule } from '../lib/merges.js';
+import { AUTO_MERGE_SCORE, queueCandidates } from '../lib/candidates.js';
+import { IMAGE_MATCH_DISTANCE, hashDistance, imageSimilarity } from '../lib/images.js';
+
+type Connection = ReturnType<typeof postgres>;
 
 // ────────────────────────────────────────────────────────────────────────────
 // Normalization helpers
@@ -44,14 +81,7 @@ function normalizeTitle(title: string): string {
 /** Normalize venue name for grouping */
 function normalizeVenue(venue: string | null): string {
   if (!venue) return '__no_venue__';
-  return venue
-    .toLowerCase()
-    .trim()
-    .replace(/^the\s+/i, '')
-    .replace(/\s+/g, ' ')
-    .replace(/,\s*.*$/, '')            // Strip everything after comma ("The Bench Tower, BGC" → "the bench tower")
-    .replace(/\s+(activity center|mall|lifestyle center|building)$/i, '') // Strip common suffixes
-    .trim();
+  return normalizeVenueName(venue) || '__no_venue__';
 }
 
 /** Extract meaningful words for fuzzy comparison */
@@ -87,22 +117,73 @@ interface EventRow {
   title: string;
   event_date: string;
   event_end_date: string | null;
+  event_time: string | null;
+  venue_id: number | null;
   venue_name: string | null;
+  venue_lat: number | null;
+  venue_lng: number | null;
+  artists: string[] | null;
+  /** The event's own sub-events (not ones copied from duplicates) */
+  sub_event_titles: string[];
   source_username: string | null;
   completeness_score: number | null;
   confidence: number | null;
   event_hash: string | null;
   source_post_id: number | null;
+  /** Perceptual hash of the source post's image */
+  image_hash: string | null;
   created_at: string;
 }
 
-/** Check if two events have overlapping date ranges */
-function datesOverlap(a: EventRow, b: EventRow): boolean {
-  const aStart = a.event_date;
-  const aEnd = a.event_end_date || a.event_date;
-  const bStart = b.event_date;
-  const bEnd = b.event_end_date || b.event_date;
-  return aStart <= bEnd && bStart <= aEnd;
+/** Word and name sets compared by the fuzzy pass, computed once per event */
+interface TextFeatures {
+  words: Set<string>;
+  artists: Set<string>;
+  subEvents: Set<string>;
+}
+
+const featureCache = new WeakMap<EventRow, TextFeatures>();
+
+function featuresOf(row: EventRow): TextFeatures {
+  let features = featureCache.get(row);
+  if (!features) {
+    features = {
+      words: titleWords(row.title),
+      artists: new Set((row.artists ?? []).flatMap(credit =>
+        parseArtistCredits(credit).map(c => normalizeArtistName(c.name))
+      )),
+      subEvents: new Set(row.sub_event_titles.map(normalizeTitle).filter(Boolean)),
+    };
+    featureCache.set(row, features);
+  }
+  return features;
+}
+
+/** How two events were found to be at the same place */
+type PlaceMatch = 'venue_id' | 'venue_name' | 'nearby' | 'unknown';
+
+/**
+ * Same linked venue, same venue name, or coordinates within
+ * SAME_PLACE_KM; `unknown` when either names no venue at all, null when
+ * they are somewhere different.
+ */
+function samePlace(a: EventRow, b: EventRow): PlaceMatch | null {
+  if (a.venue_id !== null && a.venue_id === b.venue_id) return 'venue_id';
+  const venueA = normalizeVenue(a.venue_name);
+  const venueB = normalizeVenue(b.venue_name);
+  if (venueA === venueB && venueA !== '__no_venue__') return 'venue_name';
+  if (a.venue_lat !== null && a.venue_lng !== null && b.venue_lat !== null && b.venue_lng !== null
+    && haversineKm(a.venue_lat, a.venue_lng, b.venue_lat, b.venue_lng) <= SAME_PLACE_KM) {
+    return 'nearby';
+  }
+  if (venueA === '__no_venue__' || venueB === '__no_venue__') return 'unknown';
+  return null;
+}
+
+/** Check if two events' posts carry (nearly) the same image */
+function sameFlyer(a: EventRow, b: EventRow): boolean {
+  return a.image_hash !== null && b.image_hash !== null
+    && hashDistance(a.image_hash, b.image_hash) <= IMAGE_MATCH_DISTANCE;
 }
 
 function scoreSorter(a: EventRow, b: EventRow): number {
@@ -116,32 +197,220 @@ function scoreSorter(a: EventRow, b: EventRow): number {
 }
 
 // ────────────────────────────────────────────────────────────────────────────
-// Core dedup function (importable)
+// Fuzzy similarity
 // ────────────────────────────────────────────────────────────────────────────
 
-export interface DedupResult {
-  totalEvents: number;
-  exactDuplicates: number;
-  fuzzyDuplicates: number;
-  deleted: number;
-  remaining: number;
+/** Combined fuzzy score two events at the same place need to cluster */
+const FUZZY_THRESHOLD = 0.35;
+
+/** Venues at most this far apart count as the same place (~a city block) */
+const SAME_PLACE_KM = 0.15;
+
+/** Weights of the fuzzy features; missing ones drop out of the average */
+const TITLE_WEIGHT = 0.5;
+const ARTIST_WEIGHT = 0.3;
+const SUB_EVENT_WEIGHT = 0.2;
+
+/** Fuzzy scores are scaled by this when a venue is missing or only matched via another event */
+const UNSURE_PLACE_FACTOR = 0.8;
+
+interface FuzzyFeatures {
+  title: number;
+  /** Lineup overlap, null unless both credit artists */
+  artists: number | null;
+  /** Sub-event title overlap, null unless both have sub-events */
+  subEvents: number | null;
+  /** Weighted average of the features present */
+  combined: number;
+}
+
+function fuzzyFeatures(a: EventRow, b: EventRow): FuzzyFeatures {
+  const featuresA = featuresOf(a);
+  const featuresB = featuresOf(b);
+  const title = jaccardSimilarity(featuresA.words, featuresB.words);
+  const artists = featuresA.artists.size > 0 && featuresB.artists.size > 0
+    ? jaccardSimilarity(featuresA.artists, featuresB.artists)
+    : null;
+  const subEvents = featuresA.subEvents.size > 0 && featuresB.subEvents.size > 0
+    ? jaccardSimilarity(featuresA.subEvents, featuresB.subEvents)
+    : null;
+
+  let total = TITLE_WEIGHT * title;
+  let weight = TITLE_WEIGHT;
+  if (artists !== null) {
+    total += ARTIST_WEIGHT * artists;
+    weight += ARTIST_WEIGHT;
+  }
+  if (subEvents !== null) {
+    total += SUB_EVENT_WEIGHT * subEvents;
+    weight += SUB_EVENT_WEIGHT;
+  }
+  return { title, artists, subEvents, combined: total / weight };
+}
+
+/** Combined fuzzy score, discounted when the place isn't certain */
+function fuzzyScore(a: EventRow, b: EventRow, place: PlaceMatch | null): number {
+  const { combined } = fuzzyFeatures(a, b);
+  return place === 'unknown' || place === null ? combined * UNSURE_PLACE_FACTOR : combined;
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Duplicate finder (shared by runDedup and the CLI)
+// ────────────────────────────────────────────────────────────────────────────
+
+/** One duplicate and the event it folds into */
+interface DuplicateMatch {
+  winner: EventRow;
+  loser: EventRow;
+  rule: MergeRule;
+  similarity: number | null;
+  /** 0–1; merged without review at AUTO_MERGE_SCORE or above */
+  score: number;
+  reasons: string[];
+  /** How the cluster this match came from was formed */
+  grouping: string;
+}
+
+/** Match confidence, 0–1 (see the header) */
+function matchScore(winner: EventRow, loser: EventRow, rule: MergeRule, similarity: number | null): number {
+  if (similarity === null) return 1;
+  const place = samePlace(winner, loser);
+  if (rule === 'same_image') return place !== null ? similarity : similarity / 2;
+  const score = fuzzyScore(winner, loser, place);
+  return sameFlyer(winner, loser) ? Math.max(score, imageSimilarity(winner.image_hash!, loser.image_hash!)) : score;
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+/** Where the two events are, relative to each other */
+function placeReason(winner: EventRow, loser: EventRow): string {
+  switch (samePlace(winner, loser)) {
+    case 'venue_id':
+      return `Same venue (${winner.venue_name})`;
+    case 'venue_name':
+      return `Same venue name (${winner.venue_name})`;
+    case 'nearby': {
+      const meters = haversineKm(winner.venue_lat!, winner.venue_lng!, loser.venue_lat!, loser.venue_lng!) * 1000;
+      return `Venues ${Math.round(meters)} m apart (${winner.venue_name} / ${loser.venue_name})`;
+    }
+    case 'unknown':
+      return winner.venue_name || loser.venue_name ? 'Only one names a venue' : 'Neither has a venue';
+    case null:
+      return `Different venues (${winner.venue_name} vs ${loser.venue_name})`;
+  }
+}
+
+/** Why two events matched, in words an admin reviewing them can check */
+function matchReasons(winner: EventRow, loser: EventRow, rule: MergeRule, similarity: number | null): string[] {
+  const reasons: string[] = [];
+  if (rule === 'exact_title_date') {
+    reasons.push('Same title');
+  } else if (rule === 'fuzzy_title_venue') {
+    const features = fuzzyFeatures(winner, loser);
+    reasons.push(`Titles share ${percent(features.title)} of their words`);
+    if (features.artists !== null) reasons.push(`Lineups ${percent(features.artists)} alike`);
+    if (features.subEvents !== null) reasons.push(`Sub-events ${percent(features.subEvents)} alike`);
+    reasons.push(placeReason(winner, loser));
+  } else {
+    reasons.push(`Flyer images ${percent(similarity ?? 0)} alike`);
+    reasons.push(placeReason(winner, loser));
+  }
+  if (rule !== 'same_image' && sameFlyer(winner, loser)) reasons.push('Same flyer image');
+  reasons.push(winner.event_date === loser.event_date ? 'Same date' : 'Dates overlap');
+  if (winner.event_time && loser.event_time) {
+    reasons.push(winner.event_time === loser.event_time
+      ? `Both start at ${winner.event_time}`
+      : `Different start times (${winner.event_time} vs ${loser.event_time})`);
+  }
+  if (winner.source_username && winner.source_username === loser.source_username) {
+    reasons.push(`Both posted by @${winner.source_username}`);
+  }
+  return reasons;
+}
+
+/** Confirmed events that haven't been merged into another */
+async function loadEvents(conn: Connection): Promise<EventRow[]> {
+  return conn<EventRow[]>`
+    SELECT e.id, e.title, e.event_date::text, e.event_end_date::text, e.event_time,
+           e.venue_id, e.venue_name, e.venue_lat, e.venue_lng, e.artists,
+           ARRAY(
+             SELECT se.title FROM sub_event se
+             WHERE se.event_id = e.id AND se.merged_from_id IS NULL
+           ) AS sub_event_titles,
+           e.source_username, e.completeness_score, e.confidence, e.event_hash, e.source_post_id,
+           sp.image_hash, e.created_at::text
+    FROM event e
+    LEFT JOIN source_post sp ON sp.id = e.source_post_id
+    WHERE e.event_status = 'confirmed' AND e.merged_into_id IS NULL
+    ORDER BY e.event_date, e.title
+  `;
 }
 
 /**
- * Run two-pass deduplication on the event table.
- * Always applies deletions (no dry-run mode when called programmatically).
+ * Greedy clusters of events with overlapping dates: each unassigned
+ * event seeds a cluster of the later ones `belongs` accepts. `rows` must
+ * be sorted by start date, so the scan stops at the first event starting
+ * after the seed ends.
  */
-export async function runDedup(conn: ReturnType<typeof postgres>): Promise<DedupResult> {
-  const events: EventRow[] = await conn`
-    SELECT id, title, event_date::text, event_end_date::text, venue_name, source_username,
-           completeness_score, confidence, event_hash, source_post_id,
-           created_at::text
-    FROM event
-    WHERE event_status = 'confirmed'
-    ORDER BY event_date, title
-  `;
+function clusterOverlapping(rows: EventRow[], belongs: (seed: EventRow, other: EventRow) => boolean): EventRow[][] {
+  const clusters: EventRow[][] = [];
+  const assigned = new Set<number>();
+  for (let i = 0; i < rows.length; i++) {
+    if (assigned.has(rows[i].id)) continue;
+    const seed = rows[i];
+    const cluster = [seed];
+    const lastDay = seed.event_end_date || seed.event_date;
+
+    for (let j = i + 1; j < rows.length && rows[j].event_date <= lastDay; j++) {
+      if (assigned.has(rows[j].id)) continue;
+      if (belongs(seed, rows[j])) {
+        cluster.push(rows[j]);
+        assigned.add(rows[j].id);
+      }
+    }
 
-  const idsToDelete = new Set<number>();
+    if (cluster.length > 1) clusters.push(cluster);
+  }
+  return clusters;
+}
+
+/**
+ * Run all three passes over `events` (sorted by date). Pairs in
+ * `keptApart` (merges an admin undid or rejected) are never matched;
+ * the would-be loser simply stays. Only confident matches take their
+ * loser out of later passes: one merely queued for review may still
+ * match another event with confidence.
+ */
+function findDuplicates(events: EventRow[], keptApart: Set<string>): DuplicateMatch[] {
+  const matches: DuplicateMatch[] = [];
+  const merged = new Set<number>();
+  const matched = new Set<string>();
+
+  const addCluster = (cluster: EventRow[], rule: MergeRule, grouping: string) => {
+    cluster.sort(scoreSorter);
+    const winner = cluster[0];
+    for (const loser of cluster.slice(1)) {
+      const key = pairKey(winner.id, loser.id);
+      if (keptApart.has(key) || matched.has(key)) continue;
+      const similarity = rule === 'fuzzy_title_venue'
+        ? jaccardSimilarity(featuresOf(winner).words, featuresOf(loser).words)
+        : rule === 'same_image'
+          ? imageSimilarity(winner.image_hash!, loser.image_hash!)
+          : null;
+      const match: DuplicateMatch = {
+        winner,
+        loser,
+        rule,
+        similarity,
+        score: matchScore(winner, loser, rule, similarity),
+        reasons: matchReasons(winner, loser, rule, similarity),
+        grouping,
+      };
+      matches.push(match);
+      matched.add(key);
+      if (isConfident(match)) merged.add(loser.id);
+    }
+  };
 
   // Pass 1: Exact normalized title + date
   const exactGroups = new Map<string, EventRow[]>();
@@ -150,73 +419,95 @@ export async function runDedup(conn: ReturnType<typeof postgres>): Promise<Dedup
     if (!exactGroups.has(key)) exactGroups.set(key, []);
     exactGroups.get(key)!.push(row);
   }
-
-  let pass1Count = 0;
   for (const [_, group] of exactGroups) {
-    if (group.length <= 1) continue;
-    group.sort(scoreSorter);
-    for (const dupe of group.slice(1)) {
-      idsToDelete.add(dupe.id);
-      pass1Count++;
+    if (group.length > 1) {
+      addCluster(group, 'exact_title_date', `Same title "${normalizeTitle(group[0].title)}" on ${group[0].event_date}`);
     }
   }
 
-  // Pass 2: Fuzzy venue + overlapping date
-  const remaining = events.filter(e => !idsToDelete.has(e.id));
-  const venueGroups = new Map<string, EventRow[]>();
-  for (const row of remaining) {
-    const key = normalizeVenue(row.venue_name);
-    if (!venueGroups.has(key)) venueGroups.set(key, []);
-    venueGroups.get(key)!.push(row);
+  // Pass 2: Fuzzy title/lineup/sub-events at the same place + overlapping date
+  const fuzzyClusters = clusterOverlapping(events.filter(e => !merged.has(e.id)), (seed, other) => {
+    const place = samePlace(seed, other);
+    return place !== null && fuzzyScore(seed, other, place) >= FUZZY_THRESHOLD;
+  });
+  for (const cluster of fuzzyClusters) {
+    const [seed] = cluster;
+    addCluster(cluster, 'fuzzy_title_venue',
+      `Same place as #${seed.id} "${seed.title}" on overlapping dates, combined score ≥ ${FUZZY_THRESHOLD}`);
   }
 
-  const JACCARD_THRESHOLD = 0.35;
-  let pass2Count = 0;
-
-  for (const [_, group] of venueGroups) {
-    if (group.length <= 1) continue;
-
-    const assigned = new Set<number>();
-    for (let i = 0; i < group.length; i++) {
-      if (assigned.has(group[i].id)) continue;
-      const cluster: EventRow[] = [group[i]];
-      assigned.add(group[i].id);
-      const wordsI = titleWords(group[i].title);
-
-      for (let j = i + 1; j < group.length; j++) {
-        if (assigned.has(group[j].id)) continue;
-        if (!datesOverlap(group[i], group[j])) continue;
-        const wordsJ = titleWords(group[j].title);
-        if (jaccardSimilarity(wordsI, wordsJ) >= JACCARD_THRESHOLD) {
-          cluster.push(group[j]);
-          assigned.add(group[j].id);
-        }
-      }
-
-      if (cluster.length > 1) {
-        cluster.sort(scoreSorter);
-        for (const dupe of cluster.slice(1)) {
-          idsToDelete.add(dupe.id);
-          pass2Count++;
-        }
-      }
-    }
+  // Pass 3: Same flyer image + overlapping date
+  const imageClusters = clusterOverlapping(events.filter(e => !merged.has(e.id) && e.image_hash !== null), sameFlyer);
+  for (const cluster of imageClusters) {
+    const [seed] = cluster;
+    addCluster(cluster, 'same_image', `Same flyer as #${seed.id} "${seed.title}" on overlapping dates`);
   }
 
-  // Apply deletions
-  if (idsToDelete.size > 0) {
-    const idArr = [...idsToDelete];
-    await conn`DELETE FROM sub_event WHERE event_id = ANY(${idArr})`;
-    await conn`DELETE FROM saved_event WHERE event_id = ANY(${idArr})`;
-    await conn`DELETE FROM event WHERE id = ANY(${idArr})`;
+  // A queued loser a later pass merged with confidence needs no review
+  return matches.filter(match => isConfident(match) || !merged.has(match.loser.id));
+}
+
+const isConfident = (match: DuplicateMatch) => match.score >= AUTO_MERGE_SCORE;
+
+/**
+ * Merge the confident matches, in order, and queue the rest for review.
+ * Returns how many were merged and how many candidates are pending.
+ */
+async function applyMerges(conn: Connection, matches: DuplicateMatch[]): Promise<{ merged: number; queued: number }> {
+  const confident = matches.filter(isConfident);
+  for (const { winner, loser, rule, similarity } of confident) {
+    await mergeEvent(conn, { winnerId: winner.id, loserId: loser.id, rule, similarity });
   }
+  const queued = await queueCandidates(conn, matches
+    .filter(match => !isConfident(match))
+    .map(({ winner, loser, rule, similarity, score, reasons }) => ({
+      winnerId: winner.id,
+      loserId: loser.id,
+      rule,
+      similarity,
+      score,
+      reasons,
+    })));
+  return { merged: confident.length, queued };
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Core dedup function (importable)
+// ────────────────────────────────────────────────────────────────────────────
+
+export interface DedupResult {
+  totalEvents: number;
+  exactDuplicates: number;
+  fuzzyDuplicates: number;
+  imageDuplicates: number;
+  merged: number;
+  /** Candidates waiting for admin review */
+  queued: number;
+  /** Survivors whose fields, artists or sub-events changed */
+  consolidated: number;
+  remaining: number;
+}
+
+/**
+ * Run three-pass deduplication on the event table, queue uncertain
+ * matches for review, then consolidate survivors. Always applies merges
+ * (no dry-run mode when called programmatically).
+ */
+export async function runDedup(conn: Connection): Promise<DedupResult> {
+  const events = await loadEvents(conn);
+  const matches = findDuplicates(events, await keptApartPairs(conn));
+  const { merged, queued } = await applyMerges(conn, matches);
+  const consolidated = await consolidateSurvivors(drizzle(conn, { schema }));
 
   return {
     totalEvents: events.length,
-    exactDuplicates: pass1Count,
-    fuzzyDuplicates: pass2Count,
-    deleted: idsToDelete.size,
-    remaining: events.length - idsToDelete.size,
+    exactDuplicates: matches.filter(m => m.rule === 'exact_title_date').length,
+    fuzzyDuplicates: matches.filter(m => m.rule === 'fuzzy_title_venue').length,
+    imageDuplicates: matches.filter(m => m.rule === 'same_image').length,
+    merged,
+    queued,
+    consolidated,
+    remaining: events.length - merged,
   };
 }
 
@@ -233,121 +524,70 @@ async function main() {
   const sql = postgres(DATABASE_URL);
   const APPLY = process.argv.includes('--apply');
 
-  console.log(`\n🔍 Event Deduplication v2 (${APPLY ? '⚠️  APPLY MODE' : '🔒 DRY RUN'})\n`);
-
-  const events: EventRow[] = await sql`
-    SELECT id, title, event_date::text, event_end_date::text, venue_name, source_username,
-           completeness_score, confidence, event_hash, source_post_id,
-           created_at::text
-    FROM event
-    WHERE event_status = 'confirmed'
-    ORDER BY event_date, title
-  `;
-
-  console.log(`📊 Total events: ${events.length}`);
-
-  const idsToDelete = new Set<number>();
-
-  // Pass 1: Exact
-  console.log('\n═══ Pass 1: Exact Title Match ═══\n');
-  const exactGroups = new Map<string, EventRow[]>();
-  for (const row of events) {
-    const key = `${normalizeTitle(row.title)}||${row.event_date}`;
-    if (!exactGroups.has(key)) exactGroups.set(key, []);
-    exactGroups.get(key)!.push(row);
-  }
-
-  let pass1Count = 0;
-  for (const [_, group] of exactGroups) {
-    if (group.length <= 1) continue;
-    group.sort(scoreSorter);
-    const keeper = group[0];
-    console.log(`  📌 "${keeper.title}" (${keeper.event_date})`);
-    console.log(`     KEEP: id=${keeper.id} score=${keeper.completeness_score} @${keeper.source_username}`);
-    for (const dupe of group.slice(1)) {
-      console.log(`     DEL:  id=${dupe.id} score=${dupe.completeness_score} @${dupe.source_username}`);
-      idsToDelete.add(dupe.id);
-      pass1Count++;
+  console.log(`\n🔍 Event Deduplication v6 (${APPLY ? '⚠️  APPLY MODE' : '🔒 DRY RUN'})\n`);
+
+  const events = await loadEvents(sql);
+  console.log(`📊 Unmerged events: ${events.length}`);
+
+  const matches = findDuplicates(events, await keptApartPairs(sql));
+
+  const passes: [MergeRule, string][] = [
+    ['exact_title_date', 'Pass 1: Exact Title Match'],
+    ['fuzzy_title_venue', 'Pass 2: Fuzzy Place+Date Match'],
+    ['same_image', 'Pass 3: Same Flyer Image'],
+  ];
+  const counts: number[] = [];
+  for (const [rule, heading] of passes) {
+    console.log(`\n═══ ${heading} ═══\n`);
+    const byWinner = new Map<number, DuplicateMatch[]>();
+    for (const match of matches.filter(m => m.rule === rule)) {
+      if (!byWinner.has(match.winner.id)) byWinner.set(match.winner.id, []);
+      byWinner.get(match.winner.id)!.push(match);
     }
-    console.log('');
-  }
-  console.log(`Pass 1 found: ${pass1Count} duplicates\n`);
-
-  // Pass 2: Fuzzy
-  console.log('═══ Pass 2: Fuzzy Venue+Date Match ═══\n');
-  const remaining = events.filter(e => !idsToDelete.has(e.id));
-  const venueGroups = new Map<string, EventRow[]>();
-  for (const row of remaining) {
-    const key = normalizeVenue(row.venue_name);
-    if (!venueGroups.has(key)) venueGroups.set(key, []);
-    venueGroups.get(key)!.push(row);
-  }
-
-  const JACCARD_THRESHOLD = 0.35;
-  let pass2Count = 0;
-
-  for (const [_, group] of venueGroups) {
-    if (group.length <= 1) continue;
-    const assigned = new Set<number>();
-
-    for (let i = 0; i < group.length; i++) {
-      if (assigned.has(group[i].id)) continue;
-      const cluster: EventRow[] = [group[i]];
-      assigned.add(group[i].id);
-      const wordsI = titleWords(group[i].title);
-
-      for (let j = i + 1; j < group.length; j++) {
-        if (assigned.has(group[j].id)) continue;
-        if (!datesOverlap(group[i], group[j])) continue;
-        const wordsJ = titleWords(group[j].title);
-        if (jaccardSimilarity(wordsI, wordsJ) >= JACCARD_THRESHOLD) {
-          cluster.push(group[j]);
-          assigned.add(group[j].id);
-        }
-      }
-
-      if (cluster.length > 1) {
-        cluster.sort(scoreSorter);
-        const keeper = cluster[0];
-        console.log(`  🔗 Venue "${keeper.venue_name}" (${keeper.event_date})`);
-        console.log(`     KEEP: id=${keeper.id} "${keeper.title}" score=${keeper.completeness_score}`);
-        for (const dupe of cluster.slice(1)) {
-          const sim = jaccardSimilarity(titleWords(keeper.title), titleWords(dupe.title));
-          console.log(`     DEL:  id=${dupe.id} "${dupe.title}" score=${dupe.completeness_score} (sim=${sim.toFixed(2)})`);
-          idsToDelete.add(dupe.id);
-          pass2Count++;
-        }
-        console.log('');
+    for (const [_, group] of byWinner) {
+      const keeper = group[0].winner;
+      console.log(`  📌 "${keeper.title}" (${keeper.event_date}) @ ${keeper.venue_name ?? '—'}`);
+      console.log(`     WHY:    ${group[0].grouping}`);
+      console.log(`     KEEP:   id=${keeper.id} score=${keeper.completeness_score} @${keeper.source_username}`);
+      for (const match of group) {
+        const { loser, similarity } = match;
+        const sim = similarity !== null ? ` sim=${similarity.toFixed(2)}` : '';
+        const action = isConfident(match) ? 'MERGE: ' : 'REVIEW:';
+        console.log(`     ${action} id=${loser.id} "${loser.title}" score=${loser.completeness_score} @${loser.source_username} (match=${match.score.toFixed(2)}${sim})`);
+        console.log(`             ${match.reasons.join(' · ')}`);
       }
+      console.log('');
     }
+    const found = [...byWinner.values()].reduce((n, group) => n + group.length, 0);
+    counts.push(found);
+    console.log(`${heading.split(':')[0]} found: ${found} duplicates\n`);
   }
-  console.log(`Pass 2 found: ${pass2Count} fuzzy duplicates\n`);
 
   // Summary
-  const totalToDelete = idsToDelete.size;
-  console.log(`\n📊 Summary: ${totalToDelete} total duplicates (${pass1Count} exact + ${pass2Count} fuzzy)`);
-  console.log(`   ${events.length} → ${events.length - totalToDelete} events\n`);
+  const confident = matches.filter(isConfident).length;
+  console.log(`\n📊 Summary: ${matches.length} total duplicates (${counts[0]} exact + ${counts[1]} fuzzy + ${counts[2]} image)`);
+  console.log(`   ${confident} to merge, ${matches.length - confident} for admin review (score < ${AUTO_MERGE_SCORE})`);
+  console.log(`   ${events.length} → ${events.length - confident} events\n`);
 
   if (!APPLY) {
-    console.log('🔒 DRY RUN — no changes made. Run with --apply to delete duplicates.\n');
+    console.log('🔒 DRY RUN — no changes made. Run with --apply to merge duplicates and queue the rest.\n');
     await sql.end();
     return;
   }
 
-  console.log('⚠️  Applying deletions...');
-  const idArr = [...idsToDelete];
+  console.log('⚠️  Applying merges...');
+  const { merged, queued } = await applyMerges(sql, matches);
+  console.log(`   🔗 Merged ${merged} duplicate events`);
+  console.log(`   🕵️  ${queued} possible duplicates waiting for review`);
 
-  const subResult = await sql`DELETE FROM sub_event WHERE event_id = ANY(${idArr})`;
-  console.log(`   🗑️  Deleted ${subResult.count} sub_event`);
+  const consolidated = await consolidateSurvivors(drizzle(sql, { schema }));
+  console.log(`   🧩 Filled in ${consolidated} surviving events from their duplicates`);
 
-  const savedResult = await sql`DELETE FROM saved_event WHERE event_id = ANY(${idArr})`;
-  console.log(`   🗑️  Deleted ${savedResult.count} saved_event`);
-
-  const eventResult = await sql`DELETE FROM event WHERE id = ANY(${idArr})`;
-  console.log(`   🗑️  Deleted ${eventResult.count} duplicate events`);
-
-  const [remaining2] = await sql`SELECT count(*) as cnt FROM event WHERE event_status = 'confirmed'`;
-  console.log(`\n✅ Done! ${remaining2.cnt} confirmed events remaining.\n`);
+  const [remaining] = await sql`
+    SELECT count(*) as cnt FROM event
+    WHERE event_status = 'confirmed' AND merged_into_id IS NULL
+  `;
+  console.log(`\n✅ Done! ${remaining.cnt} confirmed events remaining.\n`);
 
   await sql.end();
 }
@@ -1,20 +1,43 @@
 /**
- * Ingest Script — blead SQLite → WheresTheFX PostgreSQL
+ * Ingest Script — event sources → WheresTheFX PostgreSQL
  *
- * This script reads event data from blead's SQLite database and upserts
- * it into the WheresTheFX PostgreSQL database. It's designed to run as
- * a cron job (every 6 hours) or manually.
+ * This script reads event data from its sources — blead's SQLite
+ * database, a drop folder of CSV and JSON files, external `.ics` feeds —
+ * and upserts it into the WheresTheFX PostgreSQL database. It's designed
+ * to run as a cron job (every 6 hours) or manually.
  *
  * ## How It Works
  *
- * 1. Opens blead's SQLite DB from BLEAD_DB_PATH environment variable
- * 2. Reads all tables: ig_account, ig_post, ig_event, sub_event, known_venue
- * 3. Upserts into PostgreSQL using ON CONFLICT DO UPDATE:
+ * 1. Opens a source adapter (`lib/adapters/`) for each source configured:
+ *    BLEAD_DB_PATH, INGEST_DROP_DIR, INGEST_ICS_FEEDS
+ * 2. Reads the venues, accounts, posts, events and sub-events that
+ *    changed since the last run (see Incremental Runs), as records
+ *    (`lib/records.ts`), and validates them
+ * 3. Upserts them into PostgreSQL in batches, using ON CONFLICT DO UPDATE:
  *    - Venues matched by `name`
  *    - Accounts matched by `username`
  *    - Posts matched by `shortcode`
  *    - Events matched by `event_hash`
- * 4. Logs sync run to `blead_sync_log` table
+ * 4. Hashes each new post's cached flyer image (`lib/images.ts`), if
+ *    BLEAD_IMAGES_PATH points at blead's image cache
+ * 5. Runs fuzzy dedup, then refreshes derived data: artists and lineups
+ *    (`lib/artists.ts`), event geohashes (`lib/geo.ts`) and the full-text
+ *    search index (`lib/search.ts`) — skipped when nothing changed
+ * 6. Logs sync run and its phases to `sync_log`, and advances the cursors
+ *
+ * ## Incremental Runs
+ *
+ * `ingest_cursor` keeps each source's position: per blead table, the
+ * highest rowid synced; per dropped file, its modification time; per
+ * feed, a hash of its content. A run reads only what moved past them, so
+ * its cost follows what changed, not the size of the history. Sub-events
+ * are re-synced for every event pulled or given new sub-events.
+ *
+ * blead edits some rows in place (a post's like count, an event
+ * re-extracted by a newer model) without a stamp to notice it by, so
+ * those tables are hashed a block of rows at a time and changed blocks
+ * read again (see `lib/adapters/blead.ts`). `--full` ignores the
+ * cursors and re-reads everything.
  *
  * ## Running
  *
@@ -22,6 +45,15 @@
  * # Manual run
  * cd server && npm run ingest
  *
+ * # Complete rebuild, ignoring the cursors
+ * cd server && npm run ingest -- --full
+ *
+ * # All or nothing: the whole run in one transaction
+ * cd server && npm run ingest -- --atomic
+ *
+ * # Preview: what would change, written to ingest-report.json
+ * cd server && npm run ingest -- --dry-run [--full] [--report=preview.json]
+ *
  * # Cron (every 6 hours on VPS)
  * 0 *​/6 * * * cd /path/to/wheresthefx/server && npx tsx src/scripts/ingest-from-blead.ts >> /var/log/wheresthefx-ingest.log 2>&1
  * ```
@@ -29,8 +61,10 @@
  * ## Deduplication Strategy
  *
  * Events use `event_hash` (SHA256 of normalized title + date + venue) as
- * the dedup key. When two blead events have the same hash, the one with
- * the higher `completeness_score` wins.
+ * the dedup key. When two pulled events have the same hash, the one with
+ * the higher `completeness_score` wins. Sources without hashes of their
+ * own get one from the adapter (`sourceHash()`). Each event records the
+ * source that wrote it (`event.ingest_source`).
  *
  * Posts use `shortcode` (Instagram's unique post identifier).
  * Accounts use `username`.
@@ -39,40 +73,95 @@
  * ## Data Flow
  *
  * ```
- * blead SQLite → known_venue   → PG venues
- *              → ig_account    → PG source_accounts
- *              → ig_post       → PG source_posts
- *              → ig_event      → PG events
- *              → sub_event     → PG sub_events
+ * blead SQLite ─┐               → venue records     → PG venues
+ * drop folder  ─┼→ adapters ─→  → account records   → PG source_accounts
+ * .ics feeds   ─┘               → post records      → PG source_posts
+ *                               → event records     → PG events (+ event_source_post)
+ *                               → sub-event records → PG sub_events
  * ```
  *
  * ## Important Notes
  *
- * - We do NOT depend on blead's internal auto-increment IDs.
- *   Instead, we match by natural keys and maintain our own ID space.
- * - The script uses transactional batches for each table to ensure
- *   consistency. If one table's sync fails, previous tables are preserved.
+ * - We do NOT depend on blead's internal auto-increment IDs, or any
+ *   source's. Instead, we match by natural keys and maintain our own ID
+ *   space. Rowids only tell ingest where it stopped reading.
+ * - Records that fail validation, or that the database rejects, are
+ *   quarantined for an admin to fix or dismiss (`lib/quarantine.ts`).
+ * - Each phase (one per record kind, then image hashes, dedup and each
+ *   refresh) runs in its own transaction, so a failure leaves it
+ *   unwritten and earlier phases intact; rows within a phase are written
+ *   in savepointed batches. With `--atomic` the whole run is one
+ *   transaction. Phase outcomes are recorded in `sync_log.phases`.
+ * - Rows are snapshotted before the run changes them, so an admin can
+ *   roll back the latest run, completed or failed (`lib/syncs.ts`). The same snapshots give
+ *   the run's report — inserts, updates with field diffs, deletes,
+ *   unchanged rows and merges — stored in `sync_log.report`.
+ * - `--dry-run` is a whole run, dedup included, in one transaction that
+ *   is rolled back once its report is printed and written out. Use it
+ *   to preview a new blead extraction model, or a new source, before it
+ *   reaches production.
  * - Image URLs are kept as-is (Instagram CDN). The image proxy
  *   endpoint in the API handles fallback to local cache.
  */
 
 import 'dotenv/config';
-import Database from 'better-sqlite3';
+import { writeFileSync } from 'fs';
 import { drizzle } from 'drizzle-orm/postgres-js';
 import postgres from 'postgres';
-import { eq } from 'drizzle-orm';
+import { eq, getTableColumns, inArray, or, sql as drizzleSql, type Column, type SQL } from 'drizzle-orm';
+import type { PgTable } from 'drizzle-orm/pg-core';
 import * as schema from '../db/schema.js';
-import { runDedup } from './dedup-events.js';
+import { runDedup, type DedupResult } from './dedup-events.js';
+import { ensureSearchSetup, refreshSearchIndex } from '../lib/search.js';
+import { refreshEventGeohashes } from '../lib/geo.js';
+import { syncArtists } from '../lib/artists.js';
+import { VenueResolver, type VenueMatchMethod } from '../lib/venues.js';
+import { diffEvent, recordRevision, rescheduledFrom, type EventChanges } from '../lib/revisions.js';
+import { keepBorrowed } from '../lib/merges.js';
+import { linkNewEvents, linkOwnPost } from '../lib/sources.js';
+import { refreshImageHashes } from '../lib/images.js';
+import { recordKey, validateRecord, type KindRecord, type RawRecord, type RecordKind } from '../lib/records.js';
+import type { Cursors, IngestSource, SourceAdapter, SourcePull } from '../lib/adapters/index.js';
+import { bleadAdapter } from '../lib/adapters/blead.js';
+import { dropFolderAdapter } from '../lib/adapters/dropFolder.js';
+import { icsAdapter } from '../lib/adapters/ics.js';
+import { quarantineRow, resolveQuarantined, resubmittedRows, retryableRowKeys } from '../lib/quarantine.js';
+import {
+  abandonPhases,
+  dropOlderSnapshots,
+  ensureSnapshotSetup,
+  failStaleRuns,
+  recordPhase,
+  runPhase,
+  runReport,
+  type SyncReport,
+} from '../lib/syncs.js';
+import { inTransaction } from '../lib/transactions.js';
 
 // ============================================================================
 // CONFIGURATION
 // ============================================================================
 
 const BLEAD_DB_PATH = process.env.BLEAD_DB_PATH;
+/** Folder of dropped CSV and JSON files (`lib/adapters/dropFolder.ts`) */
+const INGEST_DROP_DIR = process.env.INGEST_DROP_DIR;
+/** Comma-separated `.ics` feed URLs or paths (`lib/adapters/ics.ts`) */
+const INGEST_ICS_FEEDS = (process.env.INGEST_ICS_FEEDS ?? '').split(',').map(feed => feed.trim()).filter(Boolean);
 const DATABASE_URL = process.env.DATABASE_URL;
-
-if (!BLEAD_DB_PATH) {
-  console.error('❌ BLEAD_DB_PATH environment variable is required');
+/** blead's image cache; without it, flyer images aren't hashed */
+const BLEAD_IMAGES_PATH = process.env.BLEAD_IMAGES_PATH;
+/** `--full` ignores the cursors and re-reads every source in full */
+const FULL = process.argv.includes('--full');
+/** `--atomic` runs every phase in one transaction: all of the run lands, or none */
+const ATOMIC = process.argv.includes('--atomic');
+/** `--dry-run` runs every phase in one transaction it rolls back, and reports what would have changed */
+const DRY_RUN = process.argv.includes('--dry-run');
+/** `--report=<file>` also writes the run's report there as JSON; dry runs always write one */
+const REPORT_PATH = process.argv.find(arg => arg.startsWith('--report='))?.slice('--report='.length)
+  ?? (DRY_RUN ? 'ingest-report.json' : undefined);
+
+if (!BLEAD_DB_PATH && !INGEST_DROP_DIR && INGEST_ICS_FEEDS.length === 0) {
+  console.error('❌ No sources: set BLEAD_DB_PATH, INGEST_DROP_DIR or INGEST_ICS_FEEDS');
   process.exit(1);
 }
 if (!DATABASE_URL) {
@@ -84,461 +173,651 @@ if (!DATABASE_URL) {
 // DATABASE CONNECTIONS
 // ============================================================================
 
-/** Connect to blead's SQLite database (read-only) */
-const sqlite = new Database(BLEAD_DB_PATH, { readonly: true });
-sqlite.pragma('journal_mode = WAL');
+/** The sources this run reads, blead first */
+const adapters: SourceAdapter[] = [
+  ...(BLEAD_DB_PATH ? [bleadAdapter(BLEAD_DB_PATH)] : []),
+  ...(INGEST_DROP_DIR ? [dropFolderAdapter(INGEST_DROP_DIR)] : []),
+  ...(INGEST_ICS_FEEDS.length > 0 ? [icsAdapter(INGEST_ICS_FEEDS)] : []),
+];
 
 /** Connect to PostgreSQL */
 const sql = postgres(DATABASE_URL, { max: 5 });
 const db = drizzle(sql, { schema });
 
+type Connection = typeof sql;
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/** A phase's transaction (see `runPhase()`), through drizzle and postgres.js, and its run */
+interface PhaseConn {
+  db: typeof db;
+  sql: Connection;
+  syncLogId: number;
+}
+
 // ============================================================================
-// TYPE DEFINITIONS (matching blead's SQLite schema)
+// HELPER FUNCTIONS
 // ============================================================================
 
-interface BleadVenue {
-  known_venue_id: number;
-  name: string;
-  aliases: string | null;
-  address: string | null;
-  city: string | null;
-  lat: number | null;
-  lng: number | null;
-  instagram_handle: string | null;
+/**
+ * Keep one row per natural key — the last, unless `better` prefers an
+ * earlier one. A multi-row upsert can't touch the same row twice.
+ */
+function onePerKey<T>(rows: T[], key: (row: T) => string, better?: (a: T, b: T) => boolean): T[] {
+  const byKey = new Map<string, T>();
+  for (const row of rows) {
+    const current = byKey.get(key(row));
+    if (current === undefined || !better?.(current, row)) byKey.set(key(row), row);
+  }
+  return [...byKey.values()];
+}
+
+/** `SET column = EXCLUDED.column` for each key, for multi-row upserts */
+function excluded<T extends PgTable, K extends keyof T['_']['columns'] & string>(
+  table: T,
+  keys: K[],
+): Record<K, SQL> {
+  const columns: Record<string, Column> = getTableColumns(table);
+  return Object.fromEntries(
+    keys.map(key => [key, drizzleSql.raw(`excluded."${columns[key].name}"`)]),
+  ) as Record<K, SQL>;
 }
 
-interface BleadAccount {
-  ig_account_id: number;
-  username: string;
-  display_name: string | null;
-  bio: string | null;
-  follower_count: number | null;
-  following_count: number | null;
-  post_count: number | null;
-  profile_pic_url: string | null;
-  is_verified: number;
-  is_business: number;
-  category: string | null;
-  is_active: number;
-  last_scraped_at: string | null;
+/** PG ids by natural key (username, shortcode), looked up in one query */
+async function idsByKey(
+  conn: PhaseConn,
+  table: 'source_account' | 'source_post',
+  column: 'username' | 'shortcode',
+  keys: string[],
+): Promise<Map<string, number>> {
+  if (keys.length === 0) return new Map();
+  const rows = await conn.sql<{ id: number; key: string }[]>`
+    SELECT id, ${conn.sql(column)} AS key FROM ${conn.sql(table)}
+    WHERE ${conn.sql(column)} = ANY(${[...new Set(keys)]}::text[])
+  `;
+  return new Map(rows.map(r => [r.key, r.id]));
+}
+
+// ============================================================================
+// BATCHED WRITES
+// ============================================================================
+
+/** Rows per multi-row upsert */
+const BATCH_SIZE = 200;
+
+/** Past this many pulled events, reading every PG event beats listing their hashes */
+const EVENT_FILTER_LIMIT = 5_000;
+
+/**
+ * Write rows BATCH_SIZE at a time, each batch in a savepoint of the
+ * phase's transaction. A batch that fails is rolled back and retried row
+ * by row, so one bad row is logged and handed to `rejected` (to be
+ * quarantined) instead of taking its neighbours down with it.
+ *
+ * @returns Number of rows written
+ */
+async function writeInBatches<T>(
+  conn: PhaseConn,
+  rows: T[],
+  write: (batch: T[], tx: Tx) => Promise<unknown>,
+  describe: (row: T) => string,
+  rejected: (row: T, err: unknown) => Promise<void>,
+): Promise<number> {
+  let written = 0;
+  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+    const batch = rows.slice(i, i + BATCH_SIZE);
+    try {
+      await conn.db.transaction(tx => write(batch, tx));
+      written += batch.length;
+    } catch {
+      for (const row of batch) {
+        try {
+          await conn.db.transaction(tx => write([row], tx));
+          written++;
+        } catch (err) {
+          console.log(`   ⚠️  ${describe(row)} failed: ${String(err).slice(0, 80)}`);
+          await rejected(row, err);
+        }
+      }
+    }
+    if (rows.length > BATCH_SIZE) {
+      console.log(`   ... ${Math.min(i + BATCH_SIZE, rows.length)}/${rows.length}`);
+    }
+  }
+  return written;
 }
 
-interface BleadPost {
-  ig_post_id: number;
-  ig_account_id: number;
-  shortcode: string;
-  post_url: string;
-  post_type: string;
-  caption: string | null;
-  posted_at: string | null;
-  likes_count: number;
-  comments_count: number;
-  image_urls: string | null;
-  is_event: number;
-  ai_extraction: string | null;
-  extraction_method: string | null;
-  ai_confidence: number | null;
+// ============================================================================
+// SOURCES — what changed in each source since the last run
+// ============================================================================
+
+/** What this run reads from one source */
+type Pull = SourcePull & { source: IngestSource };
+
+/** The run's pulls, and the stored cursors they started from */
+interface RunPlan {
+  pulls: Pull[];
+  stored: Cursors;
 }
 
-interface BleadEvent {
-  ig_event_id: number;
-  source_post_id: number;
-  ig_account_id: number;
-  event_title: string;
-  event_date: string;
-  event_end_date: string | null;
-  event_time: string | null;
-  end_time: string | null;
-  description: string | null;
-  venue_name: string | null;
-  venue_address: string | null;
-  venue_lat: number | null;
-  venue_lng: number | null;
-  location_status: string;
-  is_free: number;
-  price: number | null;
-  price_min: number | null;
-  price_max: number | null;
-  price_notes: string | null;
-  signup_url: string | null;
-  category: string;
-  artists: string | null;
-  event_status: string;
-  availability_status: string;
-  is_recurring: number;
-  recurrence_pattern: string | null;
-  completeness_score: number | null;
-  confidence: number | null;
-  review_tier: string;
-  image_url: string | null;
-  source_username: string | null;
-  event_hash: string | null;
+/** Plan each source's pull from the stored cursors (`--full` ignores them) */
+async function planRun(): Promise<RunPlan> {
+  const cursors = await db.select().from(schema.ingestCursor);
+  const stored: Cursors = new Map(cursors.map(c => [c.sourceTable, { rowId: c.rowId, changedAt: c.changedAt }]));
+
+  const pulls: Pull[] = [];
+  for (const adapter of adapters) {
+    pulls.push({ ...(await adapter.pull(stored, FULL)), source: adapter.source });
+  }
+  return { pulls, stored };
 }
 
-interface BleadSubEvent {
-  sub_event_id: number;
-  ig_event_id: number;
-  title: string;
-  event_date: string | null;
-  event_time: string | null;
-  end_time: string | null;
-  description: string | null;
+/** Advance the cursors that moved to where this run stopped reading */
+async function saveCursors(conn: PhaseConn, plan: RunPlan, syncLogId: number): Promise<number> {
+  const moved = plan.pulls.flatMap(pull => [...pull.cursors].filter(([key, until]) => {
+    const since = plan.stored.get(key);
+    return !since || since.rowId !== until.rowId || since.changedAt !== until.changedAt;
+  }));
+  if (moved.length === 0) return 0;
+
+  const rows = moved.map(([key, until]) => ({
+    sourceTable: key,
+    rowId: until.rowId,
+    changedAt: until.changedAt,
+    syncLogId,
+    updatedAt: new Date(),
+  }));
+  await conn.db.insert(schema.ingestCursor).values(rows).onConflictDoUpdate({
+    target: schema.ingestCursor.sourceTable,
+    set: excluded(schema.ingestCursor, ['rowId', 'changedAt', 'syncLogId', 'updatedAt']),
+  });
+  return rows.length;
 }
 
 // ============================================================================
-// HELPER FUNCTIONS
+// VALIDATION — every record passes lib/records.ts or is quarantined
 // ============================================================================
 
+/** A record that passed validation, and the source it came from */
+type Sourced<T> = T & { source: IngestSource };
+
+/** A kind's records that passed validation, and their quarantine entries to settle */
+interface Intake<T> {
+  rows: Sourced<T>[];
+  /** Whether a record is an admin's resubmitted fix rather than its source's own */
+  isResubmitted: (row: Sourced<T>) => boolean;
+  /** Quarantine a valid record that still couldn't be written, by its key */
+  reject: (rowKey: string, reason: string) => Promise<void>;
+  /** Resolve the quarantine entries of every record not rejected */
+  settle: () => Promise<void>;
+}
+
+/** Where an admitted record came from */
+interface Origin {
+  source: IngestSource;
+  payload: RawRecord;
+  quarantineId?: number;
+}
+
 /**
- * Parse a JSON string safely, returning the default value on failure.
- * Handles null, undefined, and malformed JSON from SQLite TEXT fields.
+ * Validate every source's pulled records of a kind, plus the ones admins
+ * fixed and resubmitted from quarantine, and quarantine the ones that
+ * fail. A resubmitted fix replaces its source's record with the same key.
  */
-function safeJsonParse<T>(jsonStr: string | null | undefined, defaultValue: T): T {
-  if (!jsonStr) return defaultValue;
-  try {
-    return JSON.parse(jsonStr);
-  } catch {
-    return defaultValue;
+async function admit<K extends RecordKind>(
+  conn: PhaseConn,
+  plan: RunPlan,
+  kind: K,
+  read: (pull: Pull) => RawRecord[],
+): Promise<Intake<KindRecord<K>>> {
+  const rows: Sourced<KindRecord<K>>[] = [];
+  // A key's origins, one per source that supplied it
+  const origins = new Map<string, Origin[]>();
+  const resubmitted = new Set<Sourced<KindRecord<K>>>();
+  const rejected = new Set<string>();
+
+  for (const pull of plan.pulls) {
+    const { source } = pull;
+    const candidates = [
+      ...(await resubmittedRows(conn.sql, source, kind)).map(({ id, payload }) => ({ payload, quarantineId: id as number | undefined })),
+      ...read(pull).map(payload => ({ payload, quarantineId: undefined })),
+    ];
+    let quarantined = 0;
+
+    for (const { payload, quarantineId } of candidates) {
+      const rowKey = recordKey(kind, payload);
+      const others = (origins.get(rowKey) ?? []).filter(o => o.source !== source);
+      const fixed = origins.get(rowKey)?.find(o => o.source === source)?.quarantineId !== undefined;
+      if (quarantineId === undefined && fixed) continue;
+
+      const validation = validateRecord(kind, payload);
+      if (!validation.ok) {
+        const { reason, issues } = validation;
+        await quarantineRow(conn.sql, conn.syncLogId, { source, kind, rowKey, payload, reason, issues, quarantineId });
+        quarantined++;
+        continue;
+      }
+      const row = { ...validation.record, source };
+      rows.push(row);
+      origins.set(rowKey, [...others, { source, payload, quarantineId }]);
+      if (quarantineId !== undefined) resubmitted.add(row);
+    }
+    if (quarantined > 0) console.log(`   🚧 ${quarantined} ${kind} records from ${source} quarantined`);
   }
+
+  return {
+    rows,
+    isResubmitted: row => resubmitted.has(row),
+    async reject(rowKey, reason) {
+      if (rejected.has(rowKey)) return;
+      rejected.add(rowKey);
+      for (const origin of origins.get(rowKey) ?? []) {
+        await quarantineRow(conn.sql, conn.syncLogId, { kind, rowKey, reason, ...origin });
+      }
+    },
+    async settle() {
+      for (const { source } of plan.pulls) {
+        const landed = [...origins].flatMap(([rowKey, from]) =>
+          rejected.has(rowKey) ? [] : from.filter(o => o.source === source).map(o => ({ rowKey, ...o })));
+        await resolveQuarantined(
+          conn.sql,
+          source,
+          kind,
+          landed.flatMap(({ rowKey, quarantineId }) => (quarantineId === undefined ? [rowKey] : [])),
+          landed.flatMap(({ quarantineId }) => quarantineId ?? []),
+        );
+      }
+    },
+  };
 }
 
-/**
- * Convert SQLite boolean (0/1) to JavaScript boolean.
- */
-function toBool(val: number | null | undefined): boolean {
-  return val === 1;
+/** Quarantine reason for a record the database refused */
+function databaseError(err: unknown): string {
+  return `Database rejected it: ${String(err).slice(0, 300)}`;
 }
 
 // ============================================================================
-// SYNC FUNCTIONS — one per table
+// SYNC FUNCTIONS — one per record kind
 // ============================================================================
 
 /**
- * Sync venues: known_venue → venues
+ * Sync venues: venue records → venues
  *
  * Matches by venue `name` (UNIQUE constraint).
- * On conflict, updates address, geocoding, and aliases.
+ * On conflict, updates address, city, geocoding, aliases and handle.
  */
-async function syncVenues(): Promise<number> {
-  const bleadVenues = sqlite.prepare('SELECT * FROM known_venue').all() as BleadVenue[];
-  let synced = 0;
-
-  for (const v of bleadVenues) {
-    const aliases = safeJsonParse<string[]>(v.aliases, []);
-
-    await db.insert(schema.venue).values({
-      name: v.name,
-      aliases,
-      address: v.address,
-      city: v.city,
-      lat: v.lat,
-      lng: v.lng,
-      instagramHandle: v.instagram_handle,
-    }).onConflictDoUpdate({
+async function syncVenues(conn: PhaseConn, plan: RunPlan): Promise<number> {
+  const intake = await admit(conn, plan, 'venue', pull => pull.venues());
+
+  const rows = onePerKey(intake.rows.map(v => ({
+    name: v.name,
+    aliases: v.aliases,
+    address: v.address,
+    city: v.city,
+    lat: v.lat,
+    lng: v.lng,
+    instagramHandle: v.instagram_handle?.trim().replace(/^@/, '').toLowerCase() || null,
+    updatedAt: new Date(),
+  })), v => v.name);
+
+  const written = await writeInBatches(
+    conn,
+    rows,
+    (batch, tx) => tx.insert(schema.venue).values(batch).onConflictDoUpdate({
       target: schema.venue.name,
-      set: {
-        aliases,
-        address: v.address,
-        city: v.city,
-        lat: v.lat,
-        lng: v.lng,
-        instagramHandle: v.instagram_handle,
-      },
-    });
-    synced++;
-  }
-
-  return synced;
+      set: excluded(schema.venue, ['aliases', 'address', 'city', 'lat', 'lng', 'instagramHandle', 'updatedAt']),
+    }),
+    v => `Venue "${v.name}"`,
+    (v, err) => intake.reject(v.name, databaseError(err)),
+  );
+  await intake.settle();
+  return written;
 }
 
 /**
- * Sync accounts: ig_account → source_accounts
+ * Sync accounts: account records → source_accounts
  *
  * Matches by `username` (UNIQUE constraint).
- * On conflict, updates metadata (follower count, bio, etc.).
+ * On conflict, updates metadata (follower count, bio, etc.). Accounts
+ * blead re-scraped since the last run are pulled again.
  */
-async function syncAccounts(): Promise<number> {
-  const bleadAccounts = sqlite.prepare('SELECT * FROM ig_account').all() as BleadAccount[];
-  let synced = 0;
-
-  for (const a of bleadAccounts) {
-    await db.insert(schema.sourceAccount).values({
-      username: a.username,
-      displayName: a.display_name,
-      bio: a.bio,
-      followerCount: a.follower_count,
-      followingCount: a.following_count,
-      postCount: a.post_count,
-      profilePicUrl: a.profile_pic_url,
-      isVerified: toBool(a.is_verified),
-      isBusiness: toBool(a.is_business),
-      category: (a.category as any) || 'other',
-      isActive: toBool(a.is_active),
-      lastScrapedAt: a.last_scraped_at ? new Date(a.last_scraped_at) : null,
-    }).onConflictDoUpdate({
+async function syncAccounts(conn: PhaseConn, plan: RunPlan): Promise<number> {
+  const intake = await admit(conn, plan, 'account', pull => pull.accounts());
+
+  const rows = onePerKey(intake.rows.map(a => ({
+    username: a.username,
+    displayName: a.display_name,
+    bio: a.bio,
+    followerCount: a.follower_count,
+    followingCount: a.following_count,
+    postCount: a.post_count,
+    profilePicUrl: a.profile_pic_url,
+    isVerified: a.is_verified,
+    isBusiness: a.is_business,
+    category: a.category,
+    isActive: a.is_active,
+    lastScrapedAt: a.last_scraped_at ? new Date(a.last_scraped_at) : null,
+  })), a => a.username);
+
+  const written = await writeInBatches(
+    conn,
+    rows,
+    (batch, tx) => tx.insert(schema.sourceAccount).values(batch).onConflictDoUpdate({
       target: schema.sourceAccount.username,
-      set: {
-        displayName: a.display_name,
-        bio: a.bio,
-        followerCount: a.follower_count,
-        followingCount: a.following_count,
-        postCount: a.post_count,
-        profilePicUrl: a.profile_pic_url,
-        isVerified: toBool(a.is_verified),
-        isBusiness: toBool(a.is_business),
-        category: (a.category as any) || 'other',
-        isActive: toBool(a.is_active),
-        lastScrapedAt: a.last_scraped_at ? new Date(a.last_scraped_at) : null,
-      },
-    });
-    synced++;
-  }
-
-  return synced;
+      set: excluded(schema.sourceAccount, [
+        'displayName', 'bio', 'followerCount', 'followingCount', 'postCount', 'profilePicUrl',
+        'isVerified', 'isBusiness', 'category', 'isActive', 'lastScrapedAt',
+      ]),
+    }),
+    a => `Account @${a.username}`,
+    (a, err) => intake.reject(a.username, databaseError(err)),
+  );
+  await intake.settle();
+  return written;
 }
 
 /**
- * Sync posts: ig_post → source_posts
+ * Sync posts: post records → source_posts
  *
  * Matches by `shortcode` (UNIQUE constraint).
  *
- * Requires account lookup: We need to map blead's ig_account_id
- * to our source_accounts.id. We do this by looking up the username
- * from blead's ig_account table, then finding it in our PG table.
+ * Requires account lookup: posts name their account by username, which
+ * we find in our source_accounts table.
  */
-async function syncPosts(): Promise<number> {
-  // Build username → PG account ID lookup
-  const pgAccounts = await db.select({
-    id: schema.sourceAccount.id,
-    username: schema.sourceAccount.username,
-  }).from(schema.sourceAccount);
-  const accountIdMap = new Map(pgAccounts.map(a => [a.username, a.id]));
-
-  const totalCount = (sqlite.prepare('SELECT count(*) as c FROM ig_post').get() as any).c;
-  const BATCH_SIZE = 50;
-  let synced = 0;
-
-  for (let offset = 0; offset < totalCount; offset += BATCH_SIZE) {
-    const bleadPosts = sqlite.prepare(`
-      SELECT p.*, a.username
-      FROM ig_post p
-      JOIN ig_account a ON a.ig_account_id = p.ig_account_id
-      LIMIT ? OFFSET ?
-    `).all(BATCH_SIZE, offset) as (BleadPost & { username: string })[];
-
-    for (const p of bleadPosts) {
-      const sourceAccountId = accountIdMap.get(p.username) || null;
-      const imageUrls = safeJsonParse<string[]>(p.image_urls, []);
-
-      try {
-        await db.insert(schema.sourcePost).values({
-          sourceAccountId,
-          shortcode: p.shortcode,
-          postUrl: p.post_url,
-          postType: (p.post_type as any) || 'image',
-          caption: p.caption,
-          postedAt: p.posted_at ? new Date(p.posted_at) : null,
-          likesCount: p.likes_count,
-          commentsCount: p.comments_count,
-          imageUrls,
-          isEvent: toBool(p.is_event),
-          aiExtraction: null, // Skip large JSON to avoid memory issues
-          extractionMethod: p.extraction_method,
-          aiConfidence: p.ai_confidence,
-        }).onConflictDoUpdate({
-          target: schema.sourcePost.shortcode,
-          set: {
-            caption: p.caption,
-            likesCount: p.likes_count,
-            commentsCount: p.comments_count,
-            imageUrls,
-            isEvent: toBool(p.is_event),
-            extractionMethod: p.extraction_method,
-            aiConfidence: p.ai_confidence,
-          },
-        });
-        synced++;
-      } catch (err) {
-        console.log(`   ⚠️  Post ${p.shortcode} failed: ${String(err).slice(0, 60)}`);
-      }
-    }
+async function syncPosts(conn: PhaseConn, plan: RunPlan): Promise<number> {
+  const intake = await admit(conn, plan, 'post', pull => pull.posts());
+  const posts = intake.rows;
+
+  const accountIdMap = await idsByKey(conn, 'source_account', 'username', posts.map(p => p.username));
+
+  const rows = onePerKey(posts.map(p => ({
+    accountId: accountIdMap.get(p.username) || null,
+    shortcode: p.shortcode,
+    postUrl: p.post_url,
+    caption: p.caption,
+    postedAt: p.posted_at ? new Date(p.posted_at) : null,
+    imageUrl: p.image_url,
+    likesCount: p.likes_count,
+    commentsCount: p.comments_count,
+  })), p => p.shortcode);
+
+  const written = await writeInBatches(
+    conn,
+    rows,
+    (batch, tx) => tx.insert(schema.sourcePost).values(batch).onConflictDoUpdate({
+      target: schema.sourcePost.shortcode,
+      set: excluded(schema.sourcePost, ['accountId', 'caption', 'imageUrl', 'likesCount', 'commentsCount']),
+    }),
+    p => `Post ${p.shortcode}`,
+    (p, err) => intake.reject(p.shortcode, databaseError(err)),
+  );
+  await intake.settle();
+  return written;
+}
 
-    if ((offset + BATCH_SIZE) % 500 === 0 || offset + BATCH_SIZE >= totalCount) {
-      console.log(`   ... ${Math.min(synced, totalCount)}/${totalCount} posts`);
-    }
-  }
+/** Current state of PG events, to diff re-extracted ones against (event_revision) */
+function currentEvents(conn: PhaseConn, where?: SQL) {
+  return conn.db.select({
+    id: schema.event.id,
+    eventHash: schema.event.eventHash,
+    ingestSource: schema.event.ingestSource,
+    sourcePostId: schema.event.sourcePostId,
+    title: schema.event.title,
+    eventDate: schema.event.eventDate,
+    eventEndDate: schema.event.eventEndDate,
+    eventTime: schema.event.eventTime,
+    endTime: schema.event.endTime,
+    venueId: schema.event.venueId,
+    venueName: schema.event.venueName,
+    isFree: schema.event.isFree,
+    price: schema.event.price,
+    priceMin: schema.event.priceMin,
+    priceMax: schema.event.priceMax,
+    eventStatus: schema.event.eventStatus,
+    availabilityStatus: schema.event.availabilityStatus,
+    rescheduledFrom: schema.event.rescheduledFrom,
+    fieldSources: schema.event.fieldSources,
+  }).from(schema.event).where(where);
+}
 
-  return synced;
+type CurrentEvent = Awaited<ReturnType<typeof currentEvents>>[number];
+type EventValues = typeof schema.event.$inferInsert & { eventHash: string };
+
+/** One pulled event, ready to write */
+interface EventWrite {
+  values: EventValues;
+  /** The PG event it updates; absent for a new event */
+  previous?: CurrentEvent;
+  update: Partial<EventValues>;
+  changes: EventChanges | null;
 }
 
 /**
- * Sync events: ig_event → events
+ * Sync events: event records → events
  *
- * Matches by `event_hash` (UNIQUE constraint).
- * On conflict, updates if the incoming record has a higher
- * completeness_score (better data wins).
+ * Matches by `event_hash` (UNIQUE constraint). When the sources list the
+ * same hash twice, the more complete extraction wins.
  *
  * Requires lookups:
- * - blead ig_account_id → username → PG source_accounts.id
- * - blead source_post_id → shortcode → PG source_posts.id
- * - venue_name → PG venues.id (optional)
+ * - username → PG source_accounts.id
+ * - shortcode → PG source_posts.id
+ * - venue_name → PG venues.id (optional), via `VenueResolver`: names,
+ *   aliases and handles, with a fuzzy fallback (see `lib/venues.ts`)
+ *
+ * New events are inserted BATCH_SIZE at a time; existing ones are
+ * diffed and updated one by one, in the same transaction as their batch.
  */
-async function syncEvents(): Promise<number> {
-  const bleadEvents = sqlite.prepare(`
-    SELECT e.*, p.shortcode, a.username
-    FROM ig_event e
-    LEFT JOIN ig_post p ON p.ig_post_id = e.source_post_id
-    LEFT JOIN ig_account a ON a.ig_account_id = e.ig_account_id
-  `).all() as (BleadEvent & { shortcode: string | null; username: string | null })[];
+async function syncEvents(conn: PhaseConn, plan: RunPlan): Promise<number> {
+  const intake = await admit(conn, plan, 'event', pull => pull.events());
+  const pulledEvents = onePerKey(
+    intake.rows,
+    e => e.event_hash,
+    (kept, next) => (kept.completeness_score ?? 0) > (next.completeness_score ?? 0),
+  );
 
   // Build lookup maps
-  const pgAccounts = await db.select({
-    id: schema.sourceAccount.id,
-    username: schema.sourceAccount.username,
-  }).from(schema.sourceAccount);
-  const accountIdMap = new Map(pgAccounts.map(a => [a.username, a.id]));
-
-  const pgPosts = await db.select({
-    id: schema.sourcePost.id,
-    shortcode: schema.sourcePost.shortcode,
-  }).from(schema.sourcePost);
-  const postIdMap = new Map(pgPosts.map(p => [p.shortcode, p.id]));
-
-  const pgVenues = await db.select({
+  const accountIdMap = await idsByKey(conn, 'source_account', 'username', pulledEvents.flatMap(e => e.username ?? []));
+  const postIdMap = await idsByKey(conn, 'source_post', 'shortcode', pulledEvents.flatMap(e => e.shortcode ?? []));
+
+  const pgVenues = await conn.db.select({
     id: schema.venue.id,
     name: schema.venue.name,
+    aliases: schema.venue.aliases,
+    instagramHandle: schema.venue.instagramHandle,
+    lat: schema.venue.lat,
+    lng: schema.venue.lng,
   }).from(schema.venue);
-  const venueIdMap = new Map(pgVenues.map(v => [v.name.toLowerCase(), v.id]));
+  const venueResolver = new VenueResolver(pgVenues);
+  const venueById = new Map(pgVenues.map(v => [v.id, v]));
+
+  // Only the events this pull can touch: same hash, or same post (moved)
+  const hashes = pulledEvents.map(e => e.event_hash);
+  const postIds = [...new Set(postIdMap.values())];
+  const pgEvents = await currentEvents(conn, FULL || hashes.length > EVENT_FILTER_LIMIT
+    ? undefined
+    : or(inArray(schema.event.eventHash, hashes), inArray(schema.event.sourcePostId, postIds)));
+  const eventByHash = new Map(pgEvents.map(ev => [ev.eventHash, ev]));
+
+  // The hash covers date and venue, so a moved event comes back under a
+  // new hash. Events their source no longer lists are matched to it by
+  // post and title instead — but only when exactly one fits. Sources
+  // that can't list their hashes are left to dedup.
+  const listedHashes = new Map(plan.pulls.flatMap(pull =>
+    pull.listedEventHashes ? [[pull.source, pull.listedEventHashes()] as const] : []));
+  const orphansByPostTitle = new Map<string, CurrentEvent[]>();
+  for (const ev of pgEvents) {
+    const listed = listedHashes.get(ev.ingestSource);
+    if (!listed || !ev.sourcePostId || listed.has(ev.eventHash!)) continue;
+    const key = postTitleKey(ev.ingestSource, ev.sourcePostId, ev.title);
+    orphansByPostTitle.set(key, [...(orphansByPostTitle.get(key) ?? []), ev]);
+  }
 
-  let synced = 0;
-  let skipped = 0;
+  let revised = 0;
+  let moved = 0;
+  const venueMatches: Record<VenueMatchMethod | 'none', number> = { exact: 0, compact: 0, handle: 0, fuzzy: 0, none: 0 };
+  const writes: EventWrite[] = [];
 
-  for (const e of bleadEvents) {
+  for (const e of pulledEvents) {
     const sourceAccountId = e.username ? accountIdMap.get(e.username) || null : null;
     const sourcePostId = e.shortcode ? postIdMap.get(e.shortcode) || null : null;
-    const venueId = e.venue_name ? venueIdMap.get(e.venue_name.toLowerCase()) || null : null;
-    const artists = safeJsonParse<string[]>(e.artists, []);
+    const venueMatch = venueResolver.resolve(e.venue_name);
+    const matchedVenue = venueMatch ? venueById.get(venueMatch.venueId) : undefined;
 
-    if (!e.event_hash) continue; // Skip events without hash (can't dedup)
+    // Captions without coordinates take the linked venue's
+    const coords = e.venue_lat != null && e.venue_lng != null
+      ? { lat: e.venue_lat, lng: e.venue_lng }
+      : { lat: matchedVenue?.lat ?? null, lng: matchedVenue?.lng ?? null };
 
-    // Validate date (skip impossible dates like 2026-02-29)
-    const dateParts = e.event_date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
-    if (!dateParts) {
-      console.log(`   ⚠️  Skipping "${e.event_title}" — invalid date format: ${e.event_date}`);
-      skipped++;
-      continue;
-    }
-    const [, year, month, day] = dateParts.map(Number);
-    // Validate by creating date and checking if components match
-    const testDate = new Date(year, month - 1, day);
-    if (testDate.getFullYear() !== year || testDate.getMonth() !== month - 1 || testDate.getDate() !== day) {
-      console.log(`   ⚠️  Skipping "${e.event_title}" — invalid date: ${e.event_date}`);
-      skipped++;
-      continue;
+    if (e.venue_name) venueMatches[venueMatch?.method ?? 'none']++;
+    if (venueMatch?.method === 'fuzzy') {
+      console.log(`   ↪  "${e.venue_name}" → "${matchedVenue?.name}" (${venueMatch.confidence.toFixed(2)})`);
     }
 
-    const values = {
+    const values: EventValues = {
       sourcePostId,
       sourceAccountId,
-      title: e.event_title,
+      title: e.title,
       eventDate: e.event_date,
       eventEndDate: e.event_end_date,
       eventTime: e.event_time,
       endTime: e.end_time,
       description: e.description,
-      venueId,
+      venueId: venueMatch?.venueId ?? null,
+      venueMatchConfidence: venueMatch?.confidence ?? null,
       venueName: e.venue_name,
       venueAddress: e.venue_address,
-      venueLat: e.venue_lat,
-      venueLng: e.venue_lng,
-      locationStatus: (e.location_status as any) || 'confirmed',
-      isFree: toBool(e.is_free),
+      venueLat: coords.lat,
+      venueLng: coords.lng,
+      locationStatus: e.location_status,
+      isFree: e.is_free,
       price: e.price,
       priceMin: e.price_min,
       priceMax: e.price_max,
       priceNotes: e.price_notes,
       signupUrl: e.signup_url,
-      category: (e.category as any) || 'other',
-      artists,
-      eventStatus: (e.event_status as any) || 'confirmed',
-      availabilityStatus: (e.availability_status as any) || 'available',
-      isRecurring: toBool(e.is_recurring),
+      category: e.category,
+      artists: e.artists,
+      eventStatus: e.event_status,
+      availabilityStatus: e.availability_status,
+      isRecurring: e.is_recurring,
       recurrencePattern: e.recurrence_pattern,
       completenessScore: e.completeness_score,
       confidence: e.confidence,
-      reviewTier: (e.review_tier as any) || 'pending',
+      reviewTier: e.review_tier,
       imageUrl: e.image_url,
       sourceUsername: e.source_username || e.username,
       eventHash: e.event_hash,
+      ingestSource: e.source,
       updatedAt: new Date(),
     };
 
-    try {
-      await db.insert(schema.event).values(values).onConflictDoUpdate({
-        target: schema.event.eventHash,
-        set: values,
-      });
-      synced++;
-    } catch (err) {
-      console.log(`   ⚠️  Failed "${e.event_title}" (${e.event_date}): ${String(err).slice(0, 80)}`);
-      skipped++;
+    let previous = eventByHash.get(e.event_hash);
+    if (!previous && sourcePostId) {
+      const key = postTitleKey(e.source, sourcePostId, e.title);
+      const orphans = orphansByPostTitle.get(key);
+      if (orphans?.length === 1) {
+        previous = orphans[0];
+        orphansByPostTitle.delete(key);
+      }
     }
+    // Values borrowed from merged duplicates stay until this post has its own
+    const update = previous ? keepBorrowed(values, previous.fieldSources) : values;
+    const changes = previous ? diffEvent(previous, update) : null;
+    writes.push({ values, previous, update, changes });
   }
 
-  if (skipped > 0) {
-    console.log(`   ⚠️  ${skipped} events skipped (invalid dates or errors)`);
+  const synced = await writeInBatches(
+    conn,
+    writes,
+    async (batch, tx) => {
+      const fresh = batch.filter(w => !w.previous);
+      if (fresh.length > 0) {
+        const inserted = await tx.insert(schema.event)
+          .values(fresh.map(w => w.values))
+          .onConflictDoUpdate({
+            target: schema.event.eventHash,
+            set: excluded(schema.event, Object.keys(fresh[0].values) as (keyof EventValues & string)[]),
+          })
+          .returning({ id: schema.event.id, sourcePostId: schema.event.sourcePostId });
+        await linkNewEvents(tx, inserted.flatMap(({ id, sourcePostId }) =>
+          sourcePostId !== null ? [{ eventId: id, sourcePostId }] : []));
+      }
+
+      for (const { values, previous, update, changes } of batch) {
+        if (!previous) continue;
+        await tx.update(schema.event).set(update).where(eq(schema.event.id, previous.id));
+        await linkOwnPost(tx, previous.id, values.sourcePostId ?? null);
+
+        if (changes) {
+          await tx.update(schema.event)
+            .set({ rescheduledFrom: rescheduledFrom(previous, changes) })
+            .where(eq(schema.event.id, previous.id));
+          await recordRevision(tx, previous.id, changes, 'ingest');
+        }
+      }
+      revised += batch.filter(w => w.changes).length;
+      moved += batch.filter(w => w.previous && w.previous.eventHash !== w.values.eventHash).length;
+    },
+    w => `Event "${w.values.title}" (${w.values.eventDate})`,
+    (w, err) => intake.reject(w.values.eventHash, databaseError(err)),
+  );
+  await intake.settle();
+
+  if (synced < writes.length) {
+    console.log(`   🚧 ${writes.length - synced} events quarantined (database errors)`);
   }
+  console.log(`   📍 Venues linked: ${venueMatches.exact} exact, ${venueMatches.compact} compact, ${venueMatches.handle} by handle, ${venueMatches.fuzzy} fuzzy, ${venueMatches.none} unmatched`);
+  console.log(`   📝 Revisions: ${revised} events changed (${moved} moved to a new date or venue)`);
 
   return synced;
 }
 
+/** Lookup key for finding an event again after its hash changed */
+function postTitleKey(source: IngestSource, sourcePostId: number, title: string): string {
+  return `${source}:${sourcePostId}:${title.trim().toLowerCase().replace(/\s+/g, ' ')}`;
+}
+
 /**
- * Sync sub-events: sub_event → sub_events
+ * Sync sub-events: sub-event records → sub_events
  *
- * Sub-events reference their parent event by ig_event_id in blead.
- * We need to map:  blead ig_event_id → event_hash → PG events.id
+ * Sub-events reference their parent event by its hash.
+ * We need to map:  event_hash → PG events.id
  *
- * Strategy: Delete all existing sub-events and re-insert fresh from blead.
+ * Strategy: Delete the sub-events of every parent that was pulled,
+ * gained sub-events or has one waiting in quarantine for it, and
+ * re-insert its full list fresh from its source. Resubmitted sub-events
+ * are added to their parent's list.
  * This is simpler than per-row upserting since sub-events don't have
  * stable natural keys (no hash).
  */
-async function syncSubEvents(): Promise<number> {
-  // Build blead ig_event_id → event_hash lookup
-  const bleadEventHashes = sqlite.prepare(
-    'SELECT ig_event_id, event_hash FROM ig_event WHERE event_hash IS NOT NULL'
-  ).all() as { ig_event_id: number; event_hash: string }[];
-  const bleadIdToHash = new Map(bleadEventHashes.map(e => [e.ig_event_id, e.event_hash]));
+async function syncSubEvents(conn: PhaseConn, plan: RunPlan): Promise<number> {
+  // Sub-events quarantined because their event was missing get another go
+  const retried = new Map<IngestSource, string[]>();
+  for (const { source } of plan.pulls) {
+    retried.set(source, await retryableRowKeys(conn.sql, source, 'sub_event'));
+  }
+  const intake = await admit(conn, plan, 'sub_event', pull => pull.subEvents(retried.get(pull.source) ?? []));
+  const subEvents = intake.rows;
 
   // Build event_hash → PG events.id lookup
-  const pgEvents = await db.select({
+  const hashes = [...new Set(subEvents.map(se => se.event_hash))];
+  const pgEvents = hashes.length === 0 ? [] : await conn.db.select({
     id: schema.event.id,
     eventHash: schema.event.eventHash,
-  }).from(schema.event);
+  }).from(schema.event).where(inArray(schema.event.eventHash, hashes));
   const hashToId = new Map(pgEvents.map(e => [e.eventHash, e.id]));
 
-  // Get all blead sub-events
-  const bleadSubEvents = sqlite.prepare('SELECT * FROM sub_event').all() as BleadSubEvent[];
-
-  // Collect PG event IDs that will have sub-events re-synced
-  const affectedEventIds = new Set<number>();
-  const toInsert: Array<{
-    eventId: number;
-    title: string;
-    eventDate: string | null;
-    eventTime: string | null;
-    endTime: string | null;
-    description: string | null;
-  }> = [];
-
-  for (const se of bleadSubEvents) {
-    const eventHash = bleadIdToHash.get(se.ig_event_id);
-    if (!eventHash) continue;
-    const pgEventId = hashToId.get(eventHash);
-    if (!pgEventId) continue;
-
-    affectedEventIds.add(pgEventId);
+  const toInsert: (typeof schema.subEvent.$inferInsert)[] = [];
+  const replaced = new Set<number>();
+  for (const se of subEvents) {
+    const eventId = hashToId.get(se.event_hash);
+    if (!eventId) {
+      await intake.reject(recordKey('sub_event', se), `Its event (${se.event_hash}) isn't in WheresTheFX — see the event's own quarantine entry`);
+      continue;
+    }
+    // A resubmitted fix joins its event's sub-events instead of replacing them
+    if (!intake.isResubmitted(se)) replaced.add(eventId);
     toInsert.push({
-      eventId: pgEventId,
+      eventId,
       title: se.title,
       eventDate: se.event_date,
       eventTime: se.event_time,
@@ -547,19 +826,14 @@ async function syncSubEvents(): Promise<number> {
     });
   }
 
-  // Delete existing sub-events for affected parent events
-  for (const eventId of affectedEventIds) {
-    await db.delete(schema.subEvent).where(eq(schema.subEvent.eventId, eventId));
+  // Delete existing sub-events for affected parent events, then insert fresh
+  if (replaced.size > 0) {
+    await conn.db.delete(schema.subEvent).where(inArray(schema.subEvent.eventId, [...replaced]));
   }
-
-  // Insert fresh
-  if (toInsert.length > 0) {
-    // Insert in batches of 100 to avoid query size limits
-    for (let i = 0; i < toInsert.length; i += 100) {
-      const batch = toInsert.slice(i, i + 100);
-      await db.insert(schema.subEvent).values(batch);
-    }
+  for (let i = 0; i < toInsert.length; i += BATCH_SIZE) {
+    await conn.db.insert(schema.subEvent).values(toInsert.slice(i, i + BATCH_SIZE));
   }
+  await intake.settle();
 
   return toInsert.length;
 }
@@ -568,47 +842,211 @@ async function syncSubEvents(): Promise<number> {
 // MAIN EXECUTION
 // ============================================================================
 
-async function main() {
-  const startTime = Date.now();
-  console.log('🔄 Starting blead → WheresTheFX sync...');
-  console.log(`   Source: ${BLEAD_DB_PATH}`);
-  console.log(`   Target: ${DATABASE_URL?.replace(/\/\/.*@/, '//***@')}\n`);
-
-  // Log sync start
-  const [syncLog] = await db.insert(schema.syncLog).values({
-    status: 'running',
-  }).returning();
+/** Run a phase (see `runPhase()`) with drizzle over its transaction */
+function phase(
+  conn: Connection,
+  log: Connection,
+  syncLogId: number,
+  name: string,
+  fn: (tx: PhaseConn) => Promise<number>,
+): Promise<number> {
+  return runPhase(conn, log, syncLogId, name, tx => fn({ db: drizzle(tx, { schema }), sql: tx, syncLogId }));
+}
 
-  try {
-    // Sync in dependency order
-    console.log('📍 Syncing venues...');
-    const venuesSynced = await syncVenues();
-    console.log(`   ✅ ${venuesSynced} venues`);
+/** Phases a run skips when the sources had nothing new */
+const REFRESH_PHASES = ['dedup', 'artists', 'geohashes', 'search'];
 
-    console.log('👤 Syncing accounts...');
-    const accountsSynced = await syncAccounts();
-    console.log(`   ✅ ${accountsSynced} accounts`);
+/**
+ * Every phase of a run, in dependency order. `conn` is the root
+ * connection, or the run's transaction with `--atomic` and `--dry-run`.
+ * Phase outcomes are recorded through `log`: the root connection, except
+ * in a dry run, whose `sync_log` row only exists inside its transaction.
+ */
+async function syncAll(conn: Connection, log: Connection, syncLogId: number, plan: RunPlan) {
+  console.log('📍 Syncing venues...');
+  const venuesSynced = await phase(conn, log, syncLogId, 'venues', tx => syncVenues(tx, plan));
+  console.log(`   ✅ ${venuesSynced} venues`);
+
+  console.log('👤 Syncing accounts...');
+  const accountsSynced = await phase(conn, log, syncLogId, 'accounts', tx => syncAccounts(tx, plan));
+  console.log(`   ✅ ${accountsSynced} accounts`);
+
+  console.log('📸 Syncing posts...');
+  const postsSynced = await phase(conn, log, syncLogId, 'posts', tx => syncPosts(tx, plan));
+  console.log(`   ✅ ${postsSynced} posts`);
+
+  let imagesHashed = 0;
+  if (BLEAD_IMAGES_PATH) {
+    console.log('🖼️  Hashing flyer images...');
+    imagesHashed = await phase(conn, log, syncLogId, 'images', tx => refreshImageHashes(tx.sql, BLEAD_IMAGES_PATH));
+    console.log(`   ✅ ${imagesHashed} images hashed`);
+  } else {
+    console.log('🖼️  BLEAD_IMAGES_PATH not set — skipping flyer image hashes');
+    await recordPhase(log, syncLogId, { name: 'images', status: 'skipped', rows: 0, durationMs: 0 });
+  }
 
-    console.log('📸 Syncing posts...');
-    const postsSynced = await syncPosts();
-    console.log(`   ✅ ${postsSynced} posts`);
+  console.log('🎉 Syncing events...');
+  const eventsSynced = await phase(conn, log, syncLogId, 'events', tx => syncEvents(tx, plan));
+  console.log(`   ✅ ${eventsSynced} events`);
 
-    console.log('🎉 Syncing events...');
-    const eventsSynced = await syncEvents();
-    console.log(`   ✅ ${eventsSynced} events`);
+  console.log('🎤 Syncing sub-events...');
+  const subEventsSynced = await phase(conn, log, syncLogId, 'sub-events', tx => syncSubEvents(tx, plan));
+  console.log(`   ✅ ${subEventsSynced} sub-events`);
 
-    console.log('🎤 Syncing sub-events...');
-    const subEventsSynced = await syncSubEvents();
-    console.log(`   ✅ ${subEventsSynced} sub-events`);
+  // Nothing new means nothing to dedup, link or reindex
+  const changed = venuesSynced + accountsSynced + postsSynced + imagesHashed + eventsSynced + subEventsSynced > 0;
+  let merged = 0;
 
+  if (!changed && !FULL) {
+    console.log('💤 Nothing new from the sources — skipping dedup and refreshes');
+    for (const name of REFRESH_PHASES) {
+      await recordPhase(log, syncLogId, { name, status: 'skipped', rows: 0, durationMs: 0 });
+    }
+  } else {
     // Run fuzzy dedup after sync
     console.log('🔍 Running deduplication...');
-    const dedupResult = await runDedup(sql);
-    if (dedupResult.deleted > 0) {
-      console.log(`   ✅ Removed ${dedupResult.deleted} duplicates (${dedupResult.exactDuplicates} exact + ${dedupResult.fuzzyDuplicates} fuzzy) → ${dedupResult.remaining} events`);
-    } else {
+    let dedupResult!: DedupResult;
+    await phase(conn, log, syncLogId, 'dedup', async tx => {
+      dedupResult = await runDedup(tx.sql);
+      return dedupResult.merged + dedupResult.queued + dedupResult.consolidated;
+    });
+    merged = dedupResult.merged;
+    if (dedupResult.merged > 0) {
+      console.log(`   ✅ Merged ${dedupResult.merged} duplicates (${dedupResult.exactDuplicates} exact + ${dedupResult.fuzzyDuplicates} fuzzy + ${dedupResult.imageDuplicates} image found) → ${dedupResult.remaining} events`);
+    } else if (dedupResult.queued === 0) {
       console.log(`   ✅ No duplicates found`);
     }
+    if (dedupResult.queued > 0) {
+      console.log(`   🕵️  ${dedupResult.queued} possible duplicates waiting for admin review`);
+    }
+    if (dedupResult.consolidated > 0) {
+      console.log(`   🧩 ${dedupResult.consolidated} surviving events filled in from their duplicates`);
+    }
+
+    // Link credited performers and lineup sub-events to artist pages
+    console.log('🎧 Syncing artists...');
+    let artistsCreated = 0;
+    const artistLinks = await phase(conn, log, syncLogId, 'artists', async tx => {
+      const { created, links } = await syncArtists(tx.sql);
+      artistsCreated = created;
+      return links;
+    });
+    console.log(`   ✅ ${artistLinks} lineup entries (${artistsCreated} new artists)`);
+
+    // Keep spatial lookups in sync with (possibly new) venue coordinates
+    console.log('🗺️  Refreshing geohashes...');
+    const geohashesUpdated = await phase(conn, log, syncLogId, 'geohashes', tx => refreshEventGeohashes(tx.sql));
+    console.log(`   ✅ ${geohashesUpdated} events updated`);
+
+    // Rebuild search documents so artists/lineups/venues stay searchable
+    console.log('🔎 Refreshing search index...');
+    const searchIndexed = await phase(conn, log, syncLogId, 'search', async tx => {
+      await ensureSearchSetup(tx.sql);
+      return refreshSearchIndex(tx.sql);
+    });
+    console.log(`   ✅ ${searchIndexed} events indexed`);
+  }
+
+  // Only a completed run moves the cursors, so a failed one is re-read
+  await phase(conn, log, syncLogId, 'cursors', tx => saveCursors(tx, plan, syncLogId));
+
+  return { venuesSynced, accountsSynced, postsSynced, eventsSynced, subEventsSynced, merged };
+}
+
+// ============================================================================
+// REPORTS
+// ============================================================================
+
+/** Rows of each kind a readable report lists per table before "…and N more" */
+const REPORT_LINES = 20;
+
+/** A value as a report line shows it */
+function shown(value: unknown): string {
+  const text = JSON.stringify(value) ?? 'null';
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+/** Print a run's report for people (the JSON has every row) */
+function printReport(report: SyncReport) {
+  console.log(`\n📋 ${report.dryRun ? 'Dry run — nothing was written. The run would have:' : 'This run:'}`);
+  for (const [table, { inserted, updated, deleted, unchanged }] of Object.entries(report.tables)) {
+    console.log(`   ${table.padEnd(15)} ${inserted.length} new, ${updated.length} changed, ${deleted.length} deleted, ${unchanged} unchanged`);
+  }
+
+  for (const [table, { inserted, updated, deleted }] of Object.entries(report.tables)) {
+    const lines = [
+      ...inserted.map(row => `+ #${row.id} ${shown(row.label)}`),
+      ...updated.map(row => `~ #${row.id} ${shown(row.label)}: ${Object.entries(row.changes!)
+        .map(([column, { from, to }]) => `${column} ${shown(from)} → ${shown(to)}`)
+        .join(', ')}`),
+      ...deleted.map(row => `- #${row.id} ${shown(row.label)}`),
+    ];
+    if (lines.length === 0) continue;
+    console.log(`\n   ${table}:`);
+    for (const line of lines.slice(0, REPORT_LINES)) console.log(`     ${line}`);
+    if (lines.length > REPORT_LINES) console.log(`     …and ${lines.length - REPORT_LINES} more`);
+  }
+
+  if (report.merged.length > 0) {
+    console.log('\n   dedup:');
+    for (const m of report.merged) {
+      console.log(`     🔗 "${m.loserTitle}" (#${m.loserId}) into "${m.winnerTitle}" (#${m.winnerId}) — ${m.rule}`);
+    }
+  }
+  if (report.queued > 0) {
+    console.log(`   🕵️  ${report.queued} possible duplicates queued for admin review`);
+  }
+
+  if (report.quarantined.length > 0) {
+    console.log('\n   quarantined:');
+    for (const q of report.quarantined.slice(0, REPORT_LINES)) {
+      console.log(`     🚧 #${q.id} ${q.ingestSource} ${q.kind} ${shown(q.rowKey)}: ${q.reason}`);
+    }
+    if (report.quarantined.length > REPORT_LINES) {
+      console.log(`     …and ${report.quarantined.length - REPORT_LINES} more`);
+    }
+  }
+}
+
+/** Write a run's report to REPORT_PATH as JSON */
+function writeReport(report: SyncReport) {
+  writeFileSync(REPORT_PATH!, JSON.stringify(report, null, 2));
+  console.log(`   📄 Full report: ${REPORT_PATH}`);
+}
+
+// ============================================================================
+// RUNS
+// ============================================================================
+
+/**
+ * A real run: logged in `sync_log`, each phase committed as it completes
+ * (all at once with `--atomic`), and its report stored with it.
+ */
+async function ingest(startTime: number) {
+  // A run still marked running long after it started has crashed
+  await failStaleRuns(sql);
+
+  // Log sync start
+  const [syncLog] = await db.insert(schema.syncLog).values({
+    status: 'running',
+    isFullSync: FULL,
+  }).returning();
+
+  try {
+    // Snapshot what this run changes, so an admin can roll it back
+    await ensureSnapshotSetup(sql);
+
+    const plan = await planRun();
+    const counts = ATOMIC
+      ? await inTransaction(sql, tx => syncAll(tx, sql, syncLog.id, plan))
+      : await syncAll(sql, sql, syncLog.id, plan);
+    const { venuesSynced, accountsSynced, postsSynced, eventsSynced, subEventsSynced, merged } = counts;
+
+    // The run has landed; a report that can't be built shouldn't fail it
+    const report = await runReport(sql, syncLog.id).catch(err => {
+      console.error('   ⚠️  Could not build the run report:', err);
+      return null;
+    });
 
     // Update sync log
     await db.update(schema.syncLog)
@@ -620,14 +1058,21 @@ async function main() {
         postsSynced,
         eventsSynced,
         subEventsSynced,
+        report,
       })
       .where(eq(schema.syncLog.id, syncLog.id));
+    await dropOlderSnapshots(sql, syncLog.id);
 
     const duration = ((Date.now() - startTime) / 1000).toFixed(1);
     console.log(`\n✅ Sync completed in ${duration}s`);
-    console.log(`   Summary: ${venuesSynced} venues, ${accountsSynced} accounts, ${postsSynced} posts, ${eventsSynced} events, ${subEventsSynced} sub-events, ${dedupResult.deleted} deduped`);
+    console.log(`   Summary: ${venuesSynced} venues, ${accountsSynced} accounts, ${postsSynced} posts, ${eventsSynced} events, ${subEventsSynced} sub-events, ${merged} merged`);
+    if (report && REPORT_PATH) writeReport(report);
 
   } catch (err) {
+    // With --atomic, the phases that did complete were rolled back too;
+    // otherwise they stay written, and an admin can roll them back
+    if (ATOMIC) await abandonPhases(sql, syncLog.id);
+
     // Log error
     await db.update(schema.syncLog)
       .set({
@@ -639,8 +1084,57 @@ async function main() {
 
     console.error('\n❌ Sync failed:', err);
     throw err;
+  }
+}
+
+/** Thrown to roll a dry run's transaction back once it has its report */
+const DRY_RUN_DONE = new Error('Dry run complete');
+
+/**
+ * A dry run: every phase of a real run, dedup included, inside one
+ * transaction — its `sync_log` row and snapshots too — reported on and
+ * then rolled back.
+ */
+async function dryRun(startTime: number) {
+  let report!: SyncReport;
+  try {
+    await inTransaction(sql, async tx => {
+      await ensureSnapshotSetup(tx);
+
+      const [syncLog] = await tx<{ id: number }[]>`
+        INSERT INTO sync_log (status, is_full_sync) VALUES ('running', ${FULL}) RETURNING id
+      `;
+      const plan = await planRun();
+      await syncAll(tx, tx, syncLog.id, plan);
+      report = await runReport(tx, syncLog.id, true);
+      throw DRY_RUN_DONE;
+    });
+  } catch (err) {
+    if (err !== DRY_RUN_DONE) {
+      console.error('\n❌ Dry run failed:', err);
+      throw err;
+    }
+  }
+
+  const duration = ((Date.now() - startTime) / 1000).toFixed(1);
+  console.log(`\n✅ Dry run completed in ${duration}s`);
+  printReport(report);
+  writeReport(report);
+}
+
+async function main() {
+  const startTime = Date.now();
+  const mode = [FULL ? 'full' : 'incremental', ...(ATOMIC ? ['atomic'] : []), ...(DRY_RUN ? ['dry run'] : [])];
+  console.log(`🔄 Starting sources → WheresTheFX sync (${mode.join(', ')})...`);
+  for (const adapter of adapters) {
+    console.log(`   Source: ${adapter.source} (${adapter.location})`);
+  }
+  console.log(`   Target: ${DATABASE_URL?.replace(/\/\/.*@/, '//***@')}\n`);
+
+  try {
+    await (DRY_RUN ? dryRun(startTime) : ingest(startTime));
   } finally {
-    sqlite.close();
+    for (const adapter of adapters) adapter.close();
     await sql.end();
   }
 }
@@ -8,6 +8,8 @@ import Index from "./pages/Index";
 
 const Auth = lazy(() => import("./pages/Auth"));
 const Admin = lazy(() => import("./pages/Admin"));
+const Artist = lazy(() => import("./pages/Artist"));
+const Account = lazy(() => import("./pages/Account"));
 const NotFound = lazy(() => import("./pages/NotFound"));
 
 const queryClient = new QueryClient({
@@ -32,6 +34,8 @@ const App = () => (
             <Route path="/" element={<Index />} />
             <Route path="/auth" element={<Auth />} />
             <Route path="/admin" element={<Admin />} />
+            <Route path="/artists/:id" element={<Artist />} />
+            <Route path="/accounts/:username" element={<Account />} />
             <Route path="*" element={<NotFound />} />
           </Routes>
         </Suspense>
@@ -27,6 +27,13 @@ export function isLoggedIn(): boolean {
   return !!getToken();
 }
 
+/** A failed request, with the server's per-field messages on a 400 */
+export class ApiError extends Error {
+  constructor(message: string, public status: number, public fields?: Record<string, string>) {
+    super(message);
+  }
+}
+
 /** Generic fetch wrapper with auth */
 async function apiFetch<T>(path: string, options: RequestInit = {}): Promise<T> {
   const token = getToken();
@@ -46,7 +53,7 @@ async function apiFetch<T>(path: string, options: RequestInit = {}): Promise<T>
 
   if (!res.ok) {
     const error = await res.json().catch(() => ({ error: res.statusText }));
-    throw new Error(error.error || `API error: ${res.status}`);
+    throw new ApiError(error.error || `API error: ${res.status}`, res.status, error.fields);
   }
 
   return res.json();
@@ -80,7 +87,7 @@ export async function login(email: string, password: string) {
 }
 
 export async function getMe() {
-  return apiFetch<{ id: number; email: string; username: string; display_name?: string; preferences: string[] }>('/api/users/me');
+  return apiFetch<{ id: number; email: string; username: string; display_name?: string; is_admin: boolean; preferences: string[] }>('/api/auth/me');
 }
 
 export function logout() {
@@ -124,6 +131,9 @@ export interface EventData {
   event_end_date?: string | null;
   event_time?: string | null;
   end_time?: string | null;
+  /** Start/end instants (ISO, resolved in Manila; overnight end times roll into the next day) */
+  start_at?: string | null;
+  end_at?: string | null;
   description?: string | null;
   venue_name?: string | null;
   venue_address?: string | null;
@@ -138,12 +148,32 @@ export interface EventData {
   signup_url?: string | null;
   category: string;
   artists?: string[];
+  /** Linked artists in billing order (credits plus lineup sub-events) */
+  lineup?: LineupArtist[];
   event_status: string;
+  /** The night this event was last moved from, if it was */
+  rescheduled_from?: RescheduledFrom | null;
   availability_status?: string;
   image_url?: string | null;
   source_username?: string | null;
   event_hash?: string | null;
+  /** The ingest source that last wrote it */
+  ingest_source?: IngestSource;
+  /** Field groups filled from merged duplicates, and who supplied them */
+  field_sources?: FieldSources;
+  /** Every post this event was found in, its own first (detail only) */
+  sources?: EventSourcePost[];
   is_saved?: boolean;
+  is_recurring?: boolean;
+  recurrence_pattern?: string | null;
+  // Set on expanded occurrences of recurring series
+  parent_event_id?: number;
+  occurrence_id?: string;
+  // Set when listing with `search`; snippet marks matches with <mark>…</mark>
+  search_rank?: number;
+  search_snippet?: string | null;
+  // Set by /api/events/nearby
+  distance_km?: number;
   // Source post info (for image proxy shortcode fallback)
   source_post_shortcode?: string | null;
   source_post_url?: string | null;
@@ -163,18 +193,336 @@ export interface EventsResponse {
   };
 }
 
-export async function fetchEvents(params: Record<string, string> = {}) {
-  const query = new URLSearchParams(params).toString();
-  return apiFetch<EventsResponse>(`/api/events${query ? '?' + query : ''}`);
+/**
+ * Filters accepted by every event-listing endpoint (events, upcoming, map,
+ * nearby, venue and artist events, categories, .ics feeds). Lists are sent
+ * comma-separated. Invalid values get a 400 with per-field messages.
+ */
+export interface EventFilterParams {
+  category?: string | string[];
+  date_from?: string;
+  date_to?: string;
+  is_free?: boolean;
+  price_min?: number;
+  price_max?: number;
+  venue_id?: number;
+  artist_id?: number;
+  account?: string | string[];
+  availability?: string | string[];
+  location_status?: string | string[];
+  status?: string | string[];
+  search?: string;
+  happening_now?: boolean;
+  /** `morning`, `afternoon`, `evening`, `late_night` (by Manila start time) */
+  time_of_day?: string | string[];
+  /** Weekdays, e.g. `fri,sat` */
+  day_of_week?: string | string[];
+}
+
+type QueryValue = string | number | boolean | string[] | undefined;
+
+/** Build a query string (with leading `?`, or empty), skipping unset values */
+export function buildEventQuery(params: Record<string, QueryValue> = {}): string {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === '') continue;
+    if (Array.isArray(value)) {
+      if (value.length > 0) query.set(key, value.join(','));
+    } else {
+      query.set(key, String(value));
+    }
+  }
+  const str = query.toString();
+  return str ? `?${str}` : '';
+}
+
+export async function fetchEvents(params: EventFilterParams & { page?: number; limit?: number } = {}) {
+  return apiFetch<EventsResponse>(`/api/events${buildEventQuery({ ...params })}`);
+}
+
+export async function fetchUpcomingEvents(limit = 50, filters: EventFilterParams = {}) {
+  return apiFetch<{ data: EventData[] }>(`/api/events/upcoming${buildEventQuery({ ...filters, limit })}`);
+}
+
+export async function fetchMapEvents(params: EventFilterParams & { bbox?: string; zoom?: number } = {}) {
+  return apiFetch<{ data: any[] }>(`/api/events/map${buildEventQuery({ ...params })}`);
+}
+
+export async function fetchNearbyEvents(lat: number, lng: number, radiusKm: number, filters: EventFilterParams = {}) {
+  return apiFetch<{ data: EventData[] }>(`/api/events/nearby${buildEventQuery({ ...filters, lat, lng, radius_km: radiusKm })}`);
+}
+
+export interface RescheduledFrom {
+  event_date: string;
+  event_time: string | null;
+}
+
+/** An Instagram post an event was found in, with its account */
+export interface EventSourcePost {
+  post_id: number;
+  shortcode: string;
+  post_url: string;
+  posted_at: string | null;
+  username: string | null;
+  display_name: string | null;
+  profile_pic_url: string | null;
+  is_verified: boolean | null;
+  /** The post this event row was extracted from, vs. a merged duplicate's */
+  is_primary: boolean;
+}
+
+/** The merged duplicate a value was taken from */
+export interface FieldSource {
+  event_id: number;
+  source_post_id: number | null;
+  source_username: string | null;
+}
+
+export type MergeGroup = "venue" | "event_time" | "end_time" | "price" | "signup_url" | "description" | "image_url";
+
+export type FieldSources = Partial<Record<MergeGroup, FieldSource>> & {
+  artists?: (FieldSource & { names: string[] })[];
+};
+
+export type RevisionValue = string | number | boolean | null;
+
+/** One recorded change to an event: field → { from, to } */
+export interface EventRevision {
+  id: number;
+  source: "ingest" | "admin";
+  changes: Record<string, { from: RevisionValue; to: RevisionValue }>;
+  created_at: string;
+}
+
+export async function fetchEventHistory(id: number) {
+  return apiFetch<{ data: EventRevision[] }>(`/api/events/${id}/history`);
+}
+
+/** A revision as listed for admins, across events */
+export interface AdminEventRevision extends EventRevision {
+  event_id: number;
+  event_title: string;
+  event_date: string;
+  /** Admin username; null for ingest */
+  changed_by: string | null;
+}
+
+/** Admin only */
+export async function fetchRecentRevisions(params: { source?: EventRevision["source"]; limit?: number } = {}) {
+  return apiFetch<{ data: AdminEventRevision[] }>(`/api/admin/revisions${buildEventQuery({ ...params })}`);
+}
+
+export type MergeRule = "exact_title_date" | "fuzzy_title_venue" | "same_image";
+
+/** A duplicate dedup folded into another event */
+export interface EventMerge {
+  id: number;
+  rule: MergeRule;
+  /** Title similarity for fuzzy matches, flyer similarity for image matches */
+  similarity: number | null;
+  winner_id: number;
+  winner_title: string;
+  winner_date: string;
+  loser_id: number;
+  loser_title: string;
+  loser_date: string;
+  /** Bookmarks moved to the winner / dropped as already saved there */
+  moved_saves: number;
+  dropped_saves: number;
+  created_at: string;
+  undone_at: string | null;
+  undone_by: string | null;
+}
+
+/** Admin only */
+export async function fetchMerges(params: { rule?: MergeRule; undone?: boolean; limit?: number } = {}) {
+  return apiFetch<{ data: EventMerge[] }>(`/api/admin/merges${buildEventQuery({ ...params })}`);
+}
+
+/** Admin only. Splits the merged duplicate back out */
+export async function undoMerge(id: number) {
+  return apiFetch<{ id: number; winner_id: number; loser_id: number; undone_at: string }>(`/api/admin/merges/${id}/undo`, {
+    method: 'POST',
+  });
+}
+
+export type CandidateStatus = "pending" | "confirmed" | "rejected";
+
+/** One side of a possible duplicate, as shown in the review queue */
+export interface CandidateEvent {
+  id: number;
+  title: string;
+  event_date: string;
+  event_end_date: string | null;
+  event_time: string | null;
+  end_time: string | null;
+  venue_name: string | null;
+  is_free: boolean;
+  price: number | null;
+  price_min: number | null;
+  price_max: number | null;
+  description: string | null;
+  image_url: string | null;
+  source_username: string | null;
+  completeness_score: number | null;
+  merged_into_id: number | null;
+  /** The post it came from, for the image proxy's cache fallback */
+  source_post: { shortcode: string; post_url: string } | null;
+}
+
+/** A match dedup wasn't confident enough to merge (`dedup_candidate`) */
+export interface DedupCandidate {
+  id: number;
+  winner_id: number;
+  loser_id: number;
+  rule: MergeRule;
+  similarity: number | null;
+  score: number;
+  reasons: string[];
+  status: CandidateStatus;
+  merge_id: number | null;
+  created_at: string;
+  updated_at: string;
+  reviewed_at: string | null;
+  reviewed_by: string | null;
+  winner: CandidateEvent;
+  loser: CandidateEvent;
+}
+
+/** Admin only */
+export async function fetchDedupCandidates(params: { status?: CandidateStatus; limit?: number } = {}) {
+  return apiFetch<{ data: DedupCandidate[] }>(`/api/admin/dedup-candidates${buildEventQuery({ ...params })}`);
+}
+
+/** Admin only. Merges the pair, keeping `keepId` if given */
+export async function confirmDedupCandidate(id: number, keepId?: number) {
+  return apiFetch<{ id: number; merge_id: number; winner_id: number; loser_id: number }>(`/api/admin/dedup-candidates/${id}/confirm`, {
+    method: 'POST',
+    body: JSON.stringify({ keepId }),
+  });
+}
+
+/** Admin only. Dedup won't propose the pair again */
+export async function rejectDedupCandidate(id: number) {
+  return apiFetch<{ id: number; status: CandidateStatus }>(`/api/admin/dedup-candidates/${id}/reject`, {
+    method: 'POST',
+  });
+}
+
+export type SyncStatus = "running" | "completed" | "failed" | "rolled_back";
+
+/** One phase of an ingest run */
+export interface SyncPhase {
+  name: string;
+  status: "completed" | "failed" | "skipped" | "rolled_back";
+  rows: number;
+  duration_ms: number;
+  error?: string;
+}
+
+/** An ingest run (`sync_log`) */
+export interface SyncRun {
+  id: number;
+  status: SyncStatus;
+  is_full_sync: boolean;
+  started_at: string;
+  completed_at: string | null;
+  venues_synced: number | null;
+  accounts_synced: number | null;
+  posts_synced: number | null;
+  events_synced: number | null;
+  sub_events_synced: number | null;
+  phases: SyncPhase[];
+  error_message: string | null;
+  rolled_back_at: string | null;
+  rolled_back_by: string | null;
+  /** Whether this is the run that can be rolled back */
+  rollbackable: boolean;
+}
+
+/** Admin only */
+export async function fetchSyncRuns(params: { limit?: number } = {}) {
+  return apiFetch<{ data: SyncRun[] }>(`/api/admin/sync-runs${buildEventQuery({ ...params })}`);
+}
+
+/** Admin only. Puts back what the run changed and deletes what it created */
+export async function rollbackSyncRun(id: number) {
+  return apiFetch<{ id: number; status: SyncStatus; restored: number; removed: number }>(`/api/admin/sync-runs/${id}/rollback`, {
+    method: 'POST',
+  });
+}
+
+/** Where ingest read an event from: blead's database, the drop folder or an `.ics` feed */
+export type IngestSource = "blead" | "drop_folder" | "ics";
+
+export type RecordKind = "venue" | "account" | "post" | "event" | "sub_event";
+
+export type QuarantineStatus = "pending" | "resubmitted" | "resolved" | "dismissed";
+
+/** A source record ingest refused to write */
+export interface QuarantinedRow {
+  id: number;
+  sync_log_id: number | null;
+  ingest_source: IngestSource;
+  kind: RecordKind;
+  row_key: string;
+  /** The record in its kind's columns; after a resubmit, the fixed version */
+  payload: Record<string, unknown>;
+  reason: string;
+  /** `{ column: message }` for validation failures */
+  issues: Record<string, string>;
+  status: QuarantineStatus;
+  created_at: string;
+  updated_at: string;
+  reviewed_at: string | null;
+  reviewed_by: string | null;
+  resolved_at: string | null;
 }
 
-export async function fetchUpcomingEvents(limit = 50) {
-  return apiFetch<{ data: EventData[] }>(`/api/events/upcoming?limit=${limit}`);
+/** Admin only */
+export async function fetchQuarantine(
+  params: { status?: QuarantineStatus; source?: IngestSource; kind?: RecordKind; limit?: number } = {},
+) {
+  return apiFetch<{ data: QuarantinedRow[] }>(`/api/admin/quarantine${buildEventQuery({ ...params })}`);
 }
 
-export async function fetchMapEvents(params: Record<string, string> = {}) {
-  const query = new URLSearchParams(params).toString();
-  return apiFetch<{ data: any[] }>(`/api/events/map${query ? '?' + query : ''}`);
+/** Admin only. The next ingest run writes the fixed record; a 400 `ApiError` has the failing columns */
+export async function resubmitQuarantined(id: number, payload: Record<string, unknown>) {
+  return apiFetch<{ id: number; status: QuarantineStatus }>(`/api/admin/quarantine/${id}/resubmit`, {
+    method: 'POST',
+    body: JSON.stringify({ payload }),
+  });
+}
+
+/** Admin only. The record stays out of WheresTheFX */
+export async function dismissQuarantined(id: number) {
+  return apiFetch<{ id: number; status: QuarantineStatus }>(`/api/admin/quarantine/${id}/dismiss`, {
+    method: 'POST',
+  });
+}
+
+/** Fields admins can correct; each change is recorded in the event's history */
+export interface EventEdit {
+  eventDate?: string;
+  eventEndDate?: string | null;
+  eventTime?: string | null;
+  endTime?: string | null;
+  venueId?: number | null;
+  venueName?: string | null;
+  isFree?: boolean;
+  price?: number | null;
+  priceMin?: number | null;
+  priceMax?: number | null;
+  eventStatus?: string;
+  availabilityStatus?: string;
+}
+
+/** Admin only */
+export async function updateEvent(id: number, edit: EventEdit) {
+  return apiFetch<EventData>(`/api/admin/events/${id}`, {
+    method: 'PATCH',
+    body: JSON.stringify(edit),
+  });
 }
 
 export async function fetchEvent(id: number) {
@@ -185,16 +533,142 @@ export async function fetchEvent(id: number) {
 // VENUES
 // ============================================================================
 
-export async function fetchVenues() {
-  return apiFetch<{ data: any[] }>('/api/venues');
+/** Manila "HH:MM"; a close at or before open runs past midnight */
+export interface DayHours {
+  open?: string;
+  close?: string;
+  closed?: boolean;
+}
+
+/** Per-day opening hours; days left out are unknown */
+export interface OperatingHours {
+  monday?: DayHours;
+  tuesday?: DayHours;
+  wednesday?: DayHours;
+  thursday?: DayHours;
+  friday?: DayHours;
+  saturday?: DayHours;
+  sunday?: DayHours;
+  notes?: string;
+  [key: string]: DayHours | string | undefined;
+}
+
+export interface VenueData {
+  id: number;
+  name: string;
+  aliases: string[] | null;
+  address: string | null;
+  city: string | null;
+  lat: number | null;
+  lng: number | null;
+  category: string | null;
+  instagram_handle: string | null;
+  operating_hours: OperatingHours | null;
+  /** Null when its hours for right now aren't known */
+  open_now: boolean | null;
+  created_at: string;
+  updated_at: string | null;
+}
+
+/** `open_now`: only venues open (true) or known closed (false) right now */
+export async function fetchVenues(params: { open_now?: boolean } = {}) {
+  return apiFetch<{ data: any[] }>(`/api/venues${buildEventQuery({ ...params })}`);
 }
 
 export async function fetchVenue(id: number) {
   return apiFetch<any>(`/api/venues/${id}`);
 }
 
-export async function fetchVenueEvents(venueId: number) {
-  return apiFetch<{ data: EventData[] }>(`/api/venues/${venueId}/events`);
+/** Admin only */
+export async function updateVenueHours(id: number, hours: OperatingHours) {
+  return apiFetch<VenueData>(`/api/admin/venues/${id}/hours`, {
+    method: 'PUT',
+    body: JSON.stringify(hours),
+  });
+}
+
+/** Admin only */
+export async function clearVenueHours(id: number) {
+  return apiFetch<VenueData>(`/api/admin/venues/${id}/hours`, { method: 'DELETE' });
+}
+
+export async function fetchVenueEvents(venueId: number, filters: EventFilterParams = {}) {
+  return apiFetch<{ data: EventData[] }>(`/api/venues/${venueId}/events${buildEventQuery({ ...filters })}`);
+}
+
+// ============================================================================
+// ARTISTS
+// ============================================================================
+
+/** An artist as listed in an event's `lineup` */
+export interface LineupArtist {
+  id: number;
+  name: string;
+  instagram_handle: string | null;
+}
+
+export interface ArtistData extends LineupArtist {
+  aliases?: string[];
+  /** Upcoming confirmed events (artist list only) */
+  event_count?: number;
+}
+
+export async function fetchArtists(params: { search?: string; limit?: number } = {}) {
+  return apiFetch<{ data: ArtistData[] }>(`/api/artists${buildEventQuery({ ...params })}`);
+}
+
+export async function fetchArtist(id: number) {
+  return apiFetch<ArtistData>(`/api/artists/${id}`);
+}
+
+export async function fetchArtistEvents(artistId: number, filters: EventFilterParams = {}) {
+  return apiFetch<{ data: EventData[] }>(`/api/artists/${artistId}/events${buildEventQuery({ ...filters })}`);
+}
+
+// ============================================================================
+// ACCOUNTS
+// ============================================================================
+
+export type AccountCategory = "nightlife" | "venue" | "promoter" | "artist" | "community" | "other";
+
+/** An Instagram account events are scraped from (promoter, venue, …) */
+export interface AccountData {
+  id: number;
+  username: string;
+  display_name: string | null;
+  category: AccountCategory | null;
+  profile_pic_url: string | null;
+  follower_count: number | null;
+  is_verified: boolean | null;
+  bio?: string | null;
+  /** Upcoming confirmed events (account list only) */
+  event_count?: number;
+}
+
+/** A row from /api/accounts/popular, with the inputs to its score */
+export interface PopularAccount extends AccountData {
+  posts: number;
+  likes: number;
+  comments: number;
+  events: number;
+  engagement_score: number;
+}
+
+export interface AccountDetail extends AccountData {
+  upcoming_events: EventData[];
+  past_events: EventData[];
+}
+
+export async function fetchAccounts(params: { search?: string; category?: AccountCategory[]; limit?: number } = {}) {
+  return apiFetch<{ data: AccountData[] }>(`/api/accounts${buildEventQuery({ ...params })}`);
+}
+
+export async function fetchPopularAccounts(params: { limit?: number; days?: number } = {}) {
+  return apiFetch<{ data: PopularAccount[]; days: number }>(`/api/accounts/popular${buildEventQuery({ ...params })}`);
+}
+
+export async function fetchAccount(username: string) {
+  return apiFetch<AccountDetail>(`/api/accounts/${encodeURIComponent(username)}`);
 }
 
 // ============================================================================
@@ -208,8 +682,9 @@ export interface CategoryData {
   count: number;
 }
 
-export async function fetchCategories() {
-  return apiFetch<{ data: CategoryData[] }>('/api/categories');
+/** Categories with event counts; counts honour every filter except `category` */
+export async function fetchCategories(filters: EventFilterParams = {}) {
+  return apiFetch<{ data: CategoryData[] }>(`/api/categories${buildEventQuery({ ...filters })}`);
 }
 
 // ============================================================================
@@ -0,0 +1,226 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { Check, Copy, X } from "lucide-react";
+import { toast } from "sonner";
+import {
+  confirmDedupCandidate,
+  fetchDedupCandidates,
+  getImageUrl,
+  rejectDedupCandidate,
+  type CandidateEvent,
+  type CandidateStatus,
+  type DedupCandidate,
+} from "@/api/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+function formatPrice(event: CandidateEvent): string {
+  if (event.price_min !== null && event.price_max !== null) {
+    return `₱${event.price_min.toLocaleString()}–${event.price_max.toLocaleString()}`;
+  }
+  if (event.price !== null) return `₱${event.price.toLocaleString()}`;
+  return event.is_free ? "Free" : "—";
+}
+
+interface EventSideProps {
+  event: CandidateEvent;
+  /** Dedup's pick to survive */
+  ranked: boolean;
+  onKeep?: () => void;
+  disabled: boolean;
+}
+
+const EventSide = ({ event, ranked, onKeep, disabled }: EventSideProps) => {
+  // Instagram CDN links expire; the proxy falls back to blead's cached copy
+  const imageUrl = getImageUrl(null, event.image_url, event.source_post?.post_url);
+  return (
+    <div className="flex-1 min-w-0 space-y-2">
+      {imageUrl ? (
+        <img
+          src={imageUrl}
+          alt={event.title}
+          loading="lazy"
+          className="w-full aspect-square object-cover rounded-md border border-border/50"
+        />
+      ) : (
+        <div className="w-full aspect-square rounded-md border border-dashed border-border/50 flex items-center justify-center text-xs text-muted-foreground">
+          No image
+        </div>
+      )}
+      <div className="flex items-start justify-between gap-2">
+        <div className="font-medium leading-tight">{event.title}</div>
+        {ranked && <Badge variant="secondary" className="text-[10px] shrink-0">Dedup's pick</Badge>}
+      </div>
+      <dl className="grid grid-cols-[auto_1fr] gap-x-2 gap-y-0.5 text-xs">
+        <dt className="text-muted-foreground">Date</dt>
+        <dd>
+          {format(parseISO(event.event_date), "EEE, MMM d")}
+          {event.event_end_date && ` – ${format(parseISO(event.event_end_date), "MMM d")}`}
+        </dd>
+        <dt className="text-muted-foreground">Time</dt>
+        <dd>{event.event_time ?? "—"}{event.end_time && ` – ${event.end_time}`}</dd>
+        <dt className="text-muted-foreground">Venue</dt>
+        <dd className="truncate">{event.venue_name ?? "—"}</dd>
+        <dt className="text-muted-foreground">Price</dt>
+        <dd>{formatPrice(event)}</dd>
+        <dt className="text-muted-foreground">Posted by</dt>
+        <dd>{event.source_username ? `@${event.source_username}` : "—"}</dd>
+        <dt className="text-muted-foreground">Score</dt>
+        <dd>#{event.id} · completeness {event.completeness_score ?? "—"}</dd>
+      </dl>
+      {event.description && (
+        <p className="text-xs text-muted-foreground line-clamp-3">{event.description}</p>
+      )}
+      {onKeep && (
+        <Button variant="outline" size="sm" className="w-full" disabled={disabled} onClick={onKeep}>
+          <Check className="h-3.5 w-3.5 mr-1" />
+          Merge, keep this one
+        </Button>
+      )}
+    </div>
+  );
+};
+
+const STATUS_LABELS: Record<CandidateStatus, string> = {
+  pending: "Waiting for review",
+  confirmed: "Merged",
+  rejected: "Kept apart",
+};
+
+/**
+ * Possible duplicates dedup wasn't sure enough to merge (`dedup_candidate`),
+ * side by side. Confirming merges them; rejecting keeps them apart for good.
+ */
+export function DuplicateReviewQueue() {
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<CandidateStatus>("pending");
+
+  const { data: candidates, isLoading, isError } = useQuery({
+    queryKey: ["admin-dedup-candidates", status],
+    queryFn: async () => {
+      const res = await fetchDedupCandidates({ status });
+      return res.data;
+    },
+  });
+
+  const onReviewed = () => {
+    queryClient.invalidateQueries({ queryKey: ["admin-dedup-candidates"] });
+    queryClient.invalidateQueries({ queryKey: ["admin-merges"] });
+  };
+
+  const confirm = useMutation({
+    mutationFn: ({ candidate, keepId }: { candidate: DedupCandidate; keepId: number }) =>
+      confirmDedupCandidate(candidate.id, keepId),
+    onSuccess: () => {
+      toast.success("Merged");
+      onReviewed();
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : "Failed to merge");
+    },
+  });
+
+  const reject = useMutation({
+    mutationFn: (candidate: DedupCandidate) => rejectDedupCandidate(candidate.id),
+    onSuccess: () => {
+      toast.success("Kept apart — dedup won't suggest this pair again");
+      onReviewed();
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : "Failed to reject");
+    },
+  });
+
+  const busy = confirm.isPending || reject.isPending;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h2 className="text-xl md:text-2xl font-bold">Possible Duplicates</h2>
+          <p className="text-sm text-muted-foreground mt-1">
+            Matches dedup wasn't sure of. Merge them, or keep them apart for good.
+          </p>
+        </div>
+        <Select value={status} onValueChange={(value) => setStatus(value as CandidateStatus)}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="pending">Waiting for review</SelectItem>
+            <SelectItem value="confirmed">Merged</SelectItem>
+            <SelectItem value="rejected">Kept apart</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center p-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-accent"></div>
+        </div>
+      ) : isError ? (
+        <p className="p-6 text-center text-destructive text-sm">Failed to load duplicates. Admin access is required.</p>
+      ) : candidates?.length === 0 ? (
+        <p className="p-6 text-center text-muted-foreground text-sm">
+          {status === "pending" ? "Nothing to review" : "None yet"}
+        </p>
+      ) : (
+        candidates?.map((candidate) => (
+          <Card key={candidate.id} className="frosted-glass border-border/50">
+            <CardHeader className="p-4 border-b border-border/30 space-y-2">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <Copy className="h-4 w-4 text-muted-foreground" />
+                <span className="font-medium">{Math.round(candidate.score * 100)}% match</span>
+                {status !== "pending" && (
+                  <Badge variant="outline" className="text-xs">
+                    {STATUS_LABELS[candidate.status]}
+                    {candidate.reviewed_by && ` by ${candidate.reviewed_by}`}
+                  </Badge>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {candidate.reasons.map((reason) => (
+                  <Badge key={reason} variant="secondary" className="text-xs font-normal">
+                    {reason}
+                  </Badge>
+                ))}
+              </div>
+            </CardHeader>
+            <CardContent className="p-4 space-y-4">
+              <div className="flex flex-col sm:flex-row gap-4">
+                {[candidate.winner, candidate.loser].map((event) => (
+                  <EventSide
+                    key={event.id}
+                    event={event}
+                    ranked={event.id === candidate.winner_id}
+                    disabled={busy}
+                    onKeep={
+                      candidate.status === "pending"
+                        ? () => confirm.mutate({ candidate, keepId: event.id })
+                        : undefined
+                    }
+                  />
+                ))}
+              </div>
+              {candidate.status === "pending" && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="w-full"
+                  disabled={busy}
+                  onClick={() => reject.mutate(candidate)}
+                >
+                  <X className="h-3.5 w-3.5 mr-1" />
+                  Not duplicates — keep both
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { Ban, Construction, Send } from "lucide-react";
+import { toast } from "sonner";
+import {
+  ApiError,
+  dismissQuarantined,
+  fetchQuarantine,
+  resubmitQuarantined,
+  type IngestSource,
+  type QuarantineStatus,
+  type QuarantinedRow,
+  type RecordKind,
+} from "@/api/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+
+const STATUS_LABELS: Record<QuarantineStatus, string> = {
+  pending: "Needs a fix",
+  resubmitted: "Fixed, waiting for ingest",
+  resolved: "Written",
+  dismissed: "Dismissed",
+};
+
+const KIND_LABELS: Record<RecordKind, string> = {
+  venue: "Venue",
+  account: "Account",
+  post: "Post",
+  event: "Event",
+  sub_event: "Sub-event",
+};
+
+const SOURCE_LABELS: Record<IngestSource, string> = {
+  blead: "blead",
+  drop_folder: "Drop folder",
+  ics: "Calendar feed",
+};
+
+interface QuarantineCardProps {
+  row: QuarantinedRow;
+  onReviewed: () => void;
+}
+
+const QuarantineCard = ({ row, onReviewed }: QuarantineCardProps) => {
+  const [draft, setDraft] = useState(() => JSON.stringify(row.payload, null, 2));
+  const [fields, setFields] = useState<Record<string, string> | null>(null);
+  const open = row.status === "pending" || row.status === "resubmitted";
+
+  const resubmit = useMutation({
+    mutationFn: (payload: Record<string, unknown>) => resubmitQuarantined(row.id, payload),
+    onSuccess: () => {
+      setFields(null);
+      toast.success("Resubmitted — the next ingest run will write it");
+      onReviewed();
+    },
+    onError: (err) => {
+      if (err instanceof ApiError && err.fields) setFields(err.fields);
+      toast.error(err instanceof Error ? err.message : "Failed to resubmit");
+    },
+  });
+
+  const dismiss = useMutation({
+    mutationFn: () => dismissQuarantined(row.id),
+    onSuccess: () => {
+      toast.success("Dismissed — ingest will leave this record out");
+      onReviewed();
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : "Failed to dismiss");
+    },
+  });
+
+  const submit = () => {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(draft);
+    } catch {
+      setFields({ payload: "Not valid JSON" });
+      return;
+    }
+    if (typeof payload !== "object" || payload === null || Array.isArray(payload)) {
+      setFields({ payload: "Expected a JSON object" });
+      return;
+    }
+    resubmit.mutate(payload as Record<string, unknown>);
+  };
+
+  const busy = resubmit.isPending || dismiss.isPending;
+  // After a failed resubmit, what's still wrong with the fix
+  const issues = Object.entries(fields ?? row.issues);
+
+  return (
+    <Card className="frosted-glass border-border/50">
+      <CardHeader className="p-4 border-b border-border/30 space-y-2">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <Construction className="h-4 w-4 text-muted-foreground" />
+          <Badge variant="secondary" className="text-xs">{KIND_LABELS[row.kind] ?? row.kind}</Badge>
+          <Badge variant="outline" className="text-xs">{SOURCE_LABELS[row.ingest_source] ?? row.ingest_source}</Badge>
+          <span className="font-medium font-mono text-xs break-all">{row.row_key}</span>
+          <Badge variant="outline" className="text-xs">
+            {STATUS_LABELS[row.status]}
+            {row.reviewed_by && ` by ${row.reviewed_by}`}
+          </Badge>
+        </div>
+        <p className="text-sm text-destructive">{row.reason}</p>
+        <p className="text-xs text-muted-foreground">
+          #{row.id} · {row.sync_log_id ? `run #${row.sync_log_id}` : "run since deleted"} ·{" "}
+          {format(parseISO(row.updated_at), "MMM d, h:mm a")}
+        </p>
+      </CardHeader>
+      <CardContent className="p-4 space-y-3">
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          readOnly={!open}
+          spellCheck={false}
+          rows={Math.min(16, draft.split("\n").length)}
+          className="font-mono text-xs"
+        />
+        {issues.length > 0 && (
+          <ul className="text-xs space-y-0.5">
+            {issues.map(([column, message]) => (
+              <li key={column}>
+                <span className="font-mono">{column}</span>: <span className="text-destructive">{message}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+        {open && (
+          <div className="flex gap-2 justify-end">
+            <Button variant="ghost" size="sm" disabled={busy} onClick={() => dismiss.mutate()}>
+              <Ban className="h-3.5 w-3.5 mr-1" />
+              Dismiss
+            </Button>
+            <Button variant="outline" size="sm" disabled={busy} onClick={submit}>
+              <Send className="h-3.5 w-3.5 mr-1" />
+              Resubmit
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+/**
+ * Source records ingest refused to write (`ingest_quarantine`), with why.
+ * Fix a record's JSON and resubmit it for the next run, or dismiss it.
+ */
+export function IngestQuarantine() {
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<QuarantineStatus>("pending");
+
+  const { data: rows, isLoading, isError } = useQuery({
+    queryKey: ["admin-quarantine", status],
+    queryFn: async () => {
+      const res = await fetchQuarantine({ status });
+      return res.data;
+    },
+  });
+
+  const onReviewed = () => {
+    queryClient.invalidateQueries({ queryKey: ["admin-quarantine"] });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h2 className="text-xl md:text-2xl font-bold">Quarantined Records</h2>
+          <p className="text-sm text-muted-foreground mt-1">
+            Records from blead, the drop folder and calendar feeds that ingest wouldn't write. Fix one and resubmit
+            it for the next run, or dismiss it.
+          </p>
+        </div>
+        <Select value={status} onValueChange={(value) => setStatus(value as QuarantineStatus)}>
+          <SelectTrigger className="w-52">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="pending">Needs a fix</SelectItem>
+            <SelectItem value="resubmitted">Fixed, waiting for ingest</SelectItem>
+            <SelectItem value="resolved">Written</SelectItem>
+            <SelectItem value="dismissed">Dismissed</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center p-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-accent"></div>
+        </div>
+      ) : isError ? (
+        <p className="p-6 text-center text-destructive text-sm">Failed to load quarantined records. Admin access is required.</p>
+      ) : rows?.length === 0 ? (
+        <p className="p-6 text-center text-muted-foreground text-sm">
+          {status === "pending" ? "Nothing to fix" : "None yet"}
+        </p>
+      ) : (
+        rows?.map((row) => <QuarantineCard key={`${row.id}:${row.updated_at}`} row={row} onReviewed={onReviewed} />)
+      )}
+    </div>
+  );
+}
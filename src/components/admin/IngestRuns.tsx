@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { History, Undo2 } from "lucide-react";
+import { toast } from "sonner";
+import { fetchSyncRuns, rollbackSyncRun, type SyncPhase, type SyncRun, type SyncStatus } from "@/api/client";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+const STATUS_VARIANTS: Record<SyncStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  running: "secondary",
+  completed: "default",
+  failed: "destructive",
+  rolled_back: "outline",
+};
+
+const STATUS_LABELS: Record<SyncStatus, string> = {
+  running: "Running",
+  completed: "Completed",
+  failed: "Failed",
+  rolled_back: "Rolled back",
+};
+
+const PHASE_CLASSES: Record<SyncPhase["status"], string> = {
+  completed: "",
+  skipped: "text-muted-foreground",
+  failed: "text-destructive",
+  rolled_back: "text-muted-foreground line-through",
+};
+
+const PhaseList = ({ phases }: { phases: SyncPhase[] }) => (
+  <div className="flex flex-wrap gap-x-3 gap-y-0.5 text-xs">
+    {phases.map((phase, i) => (
+      <span key={i} className={PHASE_CLASSES[phase.status]} title={phase.error ?? `${phase.duration_ms} ms`}>
+        {phase.name}
+        {phase.status === "skipped" ? " —" : ` ${phase.rows}`}
+        {phase.status === "failed" && " ✕"}
+      </span>
+    ))}
+  </div>
+);
+
+/**
+ * Recent ingest runs (`sync_log`) phase by phase, with a rollback for the
+ * latest run that changed anything.
+ */
+export function IngestRuns() {
+  const queryClient = useQueryClient();
+  const [confirming, setConfirming] = useState<SyncRun | null>(null);
+
+  const { data: runs, isLoading, isError } = useQuery({
+    queryKey: ["admin-sync-runs"],
+    queryFn: async () => {
+      const res = await fetchSyncRuns();
+      return res.data;
+    },
+  });
+
+  const rollback = useMutation({
+    mutationFn: (run: SyncRun) => rollbackSyncRun(run.id),
+    onSuccess: (result) => {
+      toast.success(`Run #${result.id} rolled back: ${result.restored} rows restored, ${result.removed} removed`);
+      queryClient.invalidateQueries({ queryKey: ["admin-sync-runs"] });
+      queryClient.invalidateQueries({ queryKey: ["admin-merges"] });
+      queryClient.invalidateQueries({ queryKey: ["admin-dedup-candidates"] });
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : "Failed to roll back run");
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-xl md:text-2xl font-bold">Ingest Runs</h2>
+        <p className="text-sm text-muted-foreground mt-1">
+          What each blead sync wrote, phase by phase. The latest run that changed anything can be rolled back.
+        </p>
+      </div>
+
+      <Card className="frosted-glass border-border/50">
+        <CardHeader className="p-4 border-b border-border/30">
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <History className="h-4 w-4" />
+            <span>Most recent runs</span>
+          </div>
+        </CardHeader>
+        <CardContent className="p-4 md:p-6 pt-0">
+          {isLoading ? (
+            <div className="flex items-center justify-center p-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-accent"></div>
+            </div>
+          ) : isError ? (
+            <p className="p-6 text-center text-destructive text-sm">Failed to load ingest runs. Admin access is required.</p>
+          ) : (
+            <div className="rounded-md border overflow-x-auto max-h-[600px] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Started</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Events</TableHead>
+                    <TableHead>Phases</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {runs?.map((run) => (
+                    <TableRow key={run.id}>
+                      <TableCell className="text-xs text-muted-foreground whitespace-nowrap">
+                        #{run.id} · {format(parseISO(run.started_at), "MMM d, h:mm a")}
+                        {run.is_full_sync && <div>Full sync</div>}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_VARIANTS[run.status]} className="text-xs whitespace-nowrap">
+                          {STATUS_LABELS[run.status]}
+                        </Badge>
+                        {run.error_message && (
+                          <div className="text-xs text-destructive mt-1 max-w-48 truncate" title={run.error_message}>
+                            {run.error_message}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-xs whitespace-nowrap">
+                        {run.events_synced ?? 0} events, {run.sub_events_synced ?? 0} sub-events
+                        <div className="text-muted-foreground">
+                          {run.posts_synced ?? 0} posts · {run.accounts_synced ?? 0} accounts · {run.venues_synced ?? 0} venues
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <PhaseList phases={run.phases} />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {run.rolled_back_at ? (
+                          <span className="text-xs text-muted-foreground whitespace-nowrap">
+                            Rolled back{run.rolled_back_by && ` by ${run.rolled_back_by}`}
+                          </span>
+                        ) : run.rollbackable ? (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={rollback.isPending}
+                            onClick={() => setConfirming(run)}
+                          >
+                            <Undo2 className="h-3.5 w-3.5 mr-1" />
+                            Roll back
+                          </Button>
+                        ) : null}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {runs?.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                        No runs yet
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={confirming !== null} onOpenChange={(open) => !open && setConfirming(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Roll back run #{confirming?.id}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Everything this run changed goes back to how it was, and what it created is deleted — including
+              edits made to those rows since. The next ingest pulls the same blead rows again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => confirming && rollback.mutate(confirming)}
+              className="bg-destructive hover:bg-destructive/90 text-destructive-foreground"
+            >
+              Roll back
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,7 +1,10 @@
 import { useState, useEffect } from "react";
-import { fetchVenues } from "@/api/client";
+import { useQuery } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { fetchVenues, getMe, isLoggedIn, updateVenueHours, type OperatingHours } from "@/api/client";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import {
   Table,
@@ -12,9 +15,10 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Search, Clock } from "lucide-react";
+import { VenueHoursEditor } from "./VenueHoursEditor";
 
 interface KnownVenue {
-  id: string;
+  id: number;
   name: string;
   aliases: string[] | null;
   address: string | null;
@@ -25,7 +29,8 @@ interface KnownVenue {
   learned_from_corrections: boolean | null;
   correction_count: number | null;
   created_at: string | null;
-  operating_hours: unknown | null;
+  operating_hours: OperatingHours | null;
+  open_now: boolean | null;
 }
 
 export const KnownVenuesManager = () => {
@@ -33,6 +38,32 @@ export const KnownVenuesManager = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [fetchError, setFetchError] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
+  const [editingVenue, setEditingVenue] = useState<KnownVenue | null>(null);
+  const [isSavingHours, setIsSavingHours] = useState(false);
+
+  const { data: me } = useQuery({
+    queryKey: ["me"],
+    queryFn: getMe,
+    enabled: isLoggedIn(),
+  });
+  const canEdit = me?.is_admin === true;
+
+  const saveHours = async (hours: OperatingHours) => {
+    if (!editingVenue) return;
+    setIsSavingHours(true);
+    try {
+      const updated = await updateVenueHours(editingVenue.id, hours);
+      setVenues((prev) => prev.map((v) =>
+        v.id === updated.id ? { ...v, operating_hours: updated.operating_hours, open_now: updated.open_now } : v
+      ));
+      setEditingVenue(null);
+      toast.success(`Saved hours for ${editingVenue.name}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save hours");
+    } finally {
+      setIsSavingHours(false);
+    }
+  };
 
   useEffect(() => {
     fetchVenues()
@@ -79,9 +110,11 @@ export const KnownVenuesManager = () => {
             Venues used by AI extraction for location matching
           </p>
         </div>
-        <div className="rounded-lg border border-border bg-card p-3 text-center">
-          <p className="text-muted-foreground text-sm">Admin endpoint not yet implemented — write operations disabled</p>
-        </div>
+        {!canEdit && (
+          <div className="rounded-lg border border-border bg-card p-3 text-center">
+            <p className="text-muted-foreground text-sm">Sign in with an admin account to edit opening hours</p>
+          </div>
+        )}
       </div>
       <Card className="frosted-glass border-border/50">
         <CardHeader className="p-4 border-b border-border/30">
@@ -129,14 +162,21 @@ export const KnownVenuesManager = () => {
                     </TableCell>
                     <TableCell>{venue.city || "-"}</TableCell>
                     <TableCell>
-                      {venue.operating_hours ? (
-                        <Badge variant="secondary" className="text-xs flex items-center gap-1 w-fit">
-                          <Clock className="h-3 w-3" />
-                          Set
-                        </Badge>
-                      ) : (
-                        <span className="text-muted-foreground text-xs">-</span>
-                      )}
+                      <div className="flex items-center gap-1">
+                        {venue.operating_hours ? (
+                          <Badge variant="secondary" className="text-xs flex items-center gap-1 w-fit">
+                            <Clock className="h-3 w-3" />
+                            {venue.open_now === true ? "Open now" : venue.open_now === false ? "Closed now" : "Set"}
+                          </Badge>
+                        ) : (
+                          <span className="text-muted-foreground text-xs">-</span>
+                        )}
+                        {canEdit && (
+                          <Button variant="ghost" size="sm" className="text-xs h-6 px-2" onClick={() => setEditingVenue(venue)}>
+                            Edit
+                          </Button>
+                        )}
+                      </div>
                     </TableCell>
                     <TableCell className="text-xs text-muted-foreground">
                       {venue.lat && venue.lng ? `${venue.lat.toFixed(4)}, ${venue.lng.toFixed(4)}` : "-"}
@@ -162,6 +202,18 @@ export const KnownVenuesManager = () => {
           </div>
         </CardContent>
       </Card>
+
+      {editingVenue && (
+        <VenueHoursEditor
+          key={editingVenue.id}
+          open
+          onOpenChange={(open) => !open && setEditingVenue(null)}
+          venueName={editingVenue.name}
+          currentHours={editingVenue.operating_hours}
+          onSave={saveHours}
+          isSaving={isSavingHours}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { GitMerge, Undo2 } from "lucide-react";
+import { toast } from "sonner";
+import { fetchMerges, undoMerge, type EventMerge, type MergeRule } from "@/api/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+const RULE_LABELS: Record<MergeRule, string> = {
+  exact_title_date: "Same title & date",
+  fuzzy_title_venue: "Similar event, same place",
+  same_image: "Same flyer image",
+};
+
+type StatusFilter = "active" | "undone" | "all";
+
+const EventCell = ({ id, title, date }: { id: number; title: string; date: string }) => (
+  <div>
+    <div className="font-medium">{title}</div>
+    <div className="text-xs text-muted-foreground">
+      #{id} · {format(parseISO(date), "EEE, MMM d")}
+    </div>
+  </div>
+);
+
+/**
+ * Duplicates folded together by dedup (`event_merge`), with an undo that
+ * splits the duplicate back out and returns its bookmarks.
+ */
+export function MergeHistory() {
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<StatusFilter>("active");
+
+  const { data: merges, isLoading, isError } = useQuery({
+    queryKey: ["admin-merges", status],
+    queryFn: async () => {
+      const res = await fetchMerges({ undone: status === "all" ? undefined : status === "undone" });
+      return res.data;
+    },
+  });
+
+  const undo = useMutation({
+    mutationFn: (merge: EventMerge) => undoMerge(merge.id),
+    onSuccess: (_, merge) => {
+      toast.success(`"${merge.loser_title}" is its own event again`);
+      queryClient.invalidateQueries({ queryKey: ["admin-merges"] });
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : "Failed to undo merge");
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h2 className="text-xl md:text-2xl font-bold">Merged Duplicates</h2>
+          <p className="text-sm text-muted-foreground mt-1">
+            Events dedup folded into another. Undo if they were really two events.
+          </p>
+        </div>
+        <Select value={status} onValueChange={(value) => setStatus(value as StatusFilter)}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="active">Active merges</SelectItem>
+            <SelectItem value="undone">Undone</SelectItem>
+            <SelectItem value="all">All merges</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card className="frosted-glass border-border/50">
+        <CardHeader className="p-4 border-b border-border/30">
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <GitMerge className="h-4 w-4" />
+            <span>Most recent merges</span>
+          </div>
+        </CardHeader>
+        <CardContent className="p-4 md:p-6 pt-0">
+          {isLoading ? (
+            <div className="flex items-center justify-center p-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-accent"></div>
+            </div>
+          ) : isError ? (
+            <p className="p-6 text-center text-destructive text-sm">Failed to load merges. Admin access is required.</p>
+          ) : (
+            <div className="rounded-md border overflow-x-auto max-h-[600px] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>Kept</TableHead>
+                    <TableHead>Merged</TableHead>
+                    <TableHead>Rule</TableHead>
+                    <TableHead>Saves</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {merges?.map((merge) => (
+                    <TableRow key={merge.id}>
+                      <TableCell className="text-xs text-muted-foreground whitespace-nowrap">
+                        {format(parseISO(merge.created_at), "MMM d, h:mm a")}
+                      </TableCell>
+                      <TableCell>
+                        <EventCell id={merge.winner_id} title={merge.winner_title} date={merge.winner_date} />
+                      </TableCell>
+                      <TableCell>
+                        <EventCell id={merge.loser_id} title={merge.loser_title} date={merge.loser_date} />
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className="text-xs whitespace-nowrap">
+                          {RULE_LABELS[merge.rule]}
+                          {merge.similarity !== null && ` · ${Math.round(merge.similarity * 100)}%`}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {merge.moved_saves} moved
+                        {merge.dropped_saves > 0 && `, ${merge.dropped_saves} already saved`}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {merge.undone_at ? (
+                          <span className="text-xs text-muted-foreground whitespace-nowrap">
+                            Undone{merge.undone_by && ` by ${merge.undone_by}`}
+                          </span>
+                        ) : (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={undo.isPending}
+                            onClick={() => undo.mutate(merge)}
+                          >
+                            <Undo2 className="h-3.5 w-3.5 mr-1" />
+                            Undo
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {merges?.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                        No merges yet
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,10 +1,171 @@
-export function ReschedulingHistory() {
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { ArrowRight, History } from "lucide-react";
+import {
+  fetchEventHistory,
+  fetchRecentRevisions,
+  type AdminEventRevision,
+  type EventRevision,
+  type RevisionValue,
+} from "@/api/client";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+const FIELD_LABELS: Record<string, string> = {
+  event_date: "Date",
+  event_end_date: "End date",
+  event_time: "Start time",
+  end_time: "End time",
+  venue_id: "Venue link",
+  venue_name: "Venue",
+  is_free: "Free",
+  price: "Price",
+  price_min: "Min price",
+  price_max: "Max price",
+  event_status: "Status",
+  availability_status: "Availability",
+};
+
+const DATE_FIELDS = new Set(["event_date", "event_end_date"]);
+
+type SourceFilter = "all" | EventRevision["source"];
+
+function formatValue(field: string, value: RevisionValue): string {
+  if (value === null || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (DATE_FIELDS.has(field) && typeof value === "string") return format(parseISO(value), "EEE, MMM d yyyy");
+  if (field.startsWith("price") && typeof value === "number") return `₱${value.toLocaleString()}`;
+  return String(value).replace(/_/g, " ");
+}
+
+const ChangeList = ({ changes }: { changes: EventRevision["changes"] }) => (
+  <ul className="space-y-0.5">
+    {Object.entries(changes).map(([field, { from, to }]) => (
+      <li key={field} className="flex flex-wrap items-center gap-1 text-xs">
+        <span className="font-medium">{FIELD_LABELS[field] ?? field}:</span>
+        <span className="text-muted-foreground line-through">{formatValue(field, from)}</span>
+        <ArrowRight className="h-3 w-3 text-muted-foreground" />
+        <span>{formatValue(field, to)}</span>
+      </li>
+    ))}
+  </ul>
+);
+
+interface ReschedulingHistoryProps {
+  /** Show one event's history; without it, recent changes across all events */
+  eventId?: number;
+}
+
+/**
+ * Event revision history — date moves, price changes and status updates
+ * recorded by ingest and admin edits (`event_revision`).
+ */
+export function ReschedulingHistory({ eventId }: ReschedulingHistoryProps) {
+  const [source, setSource] = useState<SourceFilter>("all");
+
+  const { data: revisions, isLoading, isError } = useQuery({
+    queryKey: eventId ? ["event-history", eventId] : ["admin-revisions", source],
+    queryFn: async (): Promise<(EventRevision & Partial<AdminEventRevision>)[]> => {
+      const res = eventId
+        ? await fetchEventHistory(eventId)
+        : await fetchRecentRevisions({ source: source === "all" ? undefined : source });
+      return res.data;
+    },
+  });
+
   return (
-    <div className="p-6">
-      <div className="rounded-lg border border-border bg-card p-6 text-center space-y-2">
-        <h3 className="font-semibold text-lg">ReschedulingHistory</h3>
-        <p className="text-muted-foreground text-sm">Admin endpoint not yet implemented</p>
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h2 className="text-xl md:text-2xl font-bold">Rescheduling History</h2>
+          <p className="text-sm text-muted-foreground mt-1">
+            Date, venue, price and status changes picked up by ingest or made by admins
+          </p>
+        </div>
+        {!eventId && (
+          <Select value={source} onValueChange={(value) => setSource(value as SourceFilter)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All changes</SelectItem>
+              <SelectItem value="ingest">From ingest</SelectItem>
+              <SelectItem value="admin">Admin edits</SelectItem>
+            </SelectContent>
+          </Select>
+        )}
       </div>
+
+      <Card className="frosted-glass border-border/50">
+        <CardHeader className="p-4 border-b border-border/30">
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <History className="h-4 w-4" />
+            <span>{eventId ? "Changes to this event" : "Most recent changes"}</span>
+          </div>
+        </CardHeader>
+        <CardContent className="p-4 md:p-6 pt-0">
+          {isLoading ? (
+            <div className="flex items-center justify-center p-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-accent"></div>
+            </div>
+          ) : isError ? (
+            <p className="p-6 text-center text-destructive text-sm">Failed to load history. Admin access is required.</p>
+          ) : (
+            <div className="rounded-md border overflow-x-auto max-h-[600px] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    {!eventId && <TableHead>Event</TableHead>}
+                    <TableHead>Source</TableHead>
+                    <TableHead>Changes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {revisions?.map((revision) => (
+                    <TableRow key={revision.id}>
+                      <TableCell className="text-xs text-muted-foreground whitespace-nowrap">
+                        {format(parseISO(revision.created_at), "MMM d, h:mm a")}
+                      </TableCell>
+                      {!eventId && (
+                        <TableCell>
+                          <div className="font-medium">{revision.event_title}</div>
+                          <div className="text-xs text-muted-foreground">#{revision.event_id}</div>
+                        </TableCell>
+                      )}
+                      <TableCell>
+                        <Badge variant={revision.source === "admin" ? "secondary" : "outline"} className="text-xs">
+                          {revision.source === "admin" ? revision.changed_by ?? "Admin" : "Ingest"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <ChangeList changes={revision.changes} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {revisions?.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={eventId ? 3 : 4} className="text-center py-8 text-muted-foreground">
+                        No changes recorded yet
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
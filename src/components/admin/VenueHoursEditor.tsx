@@ -11,24 +11,7 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Clock } from "lucide-react";
-
-interface DayHours {
-  open?: string;
-  close?: string;
-  closed?: boolean;
-}
-
-interface OperatingHours {
-  monday?: DayHours;
-  tuesday?: DayHours;
-  wednesday?: DayHours;
-  thursday?: DayHours;
-  friday?: DayHours;
-  saturday?: DayHours;
-  sunday?: DayHours;
-  notes?: string;
-  [key: string]: DayHours | string | undefined;
-}
+import type { DayHours, OperatingHours } from "@/api/client";
 
 interface VenueHoursEditorProps {
   open: boolean;
@@ -71,7 +54,15 @@ export const VenueHoursEditor = ({
   };
 
   const handleSave = () => {
-    const cleanedHours: OperatingHours = { ...hours };
+    const cleanedHours: OperatingHours = {};
+    for (const { key } of DAYS) {
+      const day = hours[key];
+      if (!day) continue;
+      // Drop cleared time inputs; a closed day needs no times
+      cleanedHours[key] = day.closed
+        ? { closed: true }
+        : { ...(day.open ? { open: day.open } : {}), ...(day.close ? { close: day.close } : {}) };
+    }
     if (notes.trim()) {
       cleanedHours.notes = notes.trim();
     }
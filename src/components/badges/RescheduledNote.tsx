@@ -0,0 +1,28 @@
+import { History } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { formatTimeRange } from '@/utils/dateUtils';
+import type { RescheduledFrom } from '@/api/client';
+
+interface RescheduledNoteProps {
+  rescheduledFrom?: RescheduledFrom | null;
+  /** Current start time; the old time is only shown when it differs */
+  eventTime?: string | null;
+}
+
+/** "Rescheduled from Fri, Mar 6" under an event's date */
+export function RescheduledNote({ rescheduledFrom, eventTime }: RescheduledNoteProps) {
+  if (!rescheduledFrom) return null;
+
+  const { event_date, event_time } = rescheduledFrom;
+  const showTime = event_time && event_time !== eventTime;
+
+  return (
+    <div className="flex items-center gap-1 text-[11px] text-warning">
+      <History className="h-3 w-3 flex-shrink-0" />
+      <span>
+        Rescheduled from {format(parseISO(event_date), 'EEE, MMM d')}
+        {showTime && `, ${formatTimeRange(event_time)}`}
+      </span>
+    </div>
+  );
+}
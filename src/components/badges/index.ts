@@ -5,3 +5,4 @@ export type { AvailabilityStatus } from './AvailabilityBadge';
 export { RecurringEventBadge } from './RecurringEventBadge';
 export { PriceDisplay } from './PriceDisplay';
 export { EventDatesDisplay } from './EventDatesDisplay';
+export { RescheduledNote } from './RescheduledNote';
@@ -102,6 +102,8 @@ export function EventPopup({ events, onClose }: EventPopupProps) {
                 availability_status: event.availability_status,
                 is_recurring: event.is_recurring,
                 recurrence_pattern: event.recurrence_pattern,
+                lineup: event.lineup,
+                rescheduled_from: event.rescheduled_from,
                 instagram_accounts: {
                   username: event.instagram_account_username || event.instagram_accounts?.username || 'unknown',
                   display_name: null,
@@ -110,7 +112,7 @@ export function EventPopup({ events, onClose }: EventPopupProps) {
                 },
               };
 
-              return <InstagramPostCard key={event.id} post={postData} variant="popup" onReport={handleReport} />;
+              return <InstagramPostCard key={event.occurrence_id || event.id} post={postData} variant="popup" onReport={handleReport} />;
             })}
           </div>
         </div>
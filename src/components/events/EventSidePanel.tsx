@@ -7,6 +7,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, Di
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { InstagramPostCard, InstagramPost } from "./InstagramPostCard";
+import { PostedBy } from "./PostedBy";
 
 interface EventSidePanelProps {
   events: any[];
@@ -87,6 +88,8 @@ export function EventSidePanel({ events, onClose }: EventSidePanelProps) {
                   availability_status: event.availability_status,
                   is_recurring: event.is_recurring,
                   recurrence_pattern: event.recurrence_pattern,
+                  lineup: event.lineup,
+                  rescheduled_from: event.rescheduled_from,
                   instagram_accounts: {
                     username: event.instagram_accounts?.username || 'unknown',
                     display_name: event.instagram_accounts?.display_name || null,
@@ -96,15 +99,17 @@ export function EventSidePanel({ events, onClose }: EventSidePanelProps) {
                 };
 
                 return (
-                  <InstagramPostCard
-                    key={event.id}
-                    post={postData}
-                    variant="popup"
-                    onReport={(postId) => {
-                      setReportingEventId(postId);
-                      setReportDialogOpen(true);
-                    }}
-                  />
+                  <div key={event.occurrence_id || event.id} className="space-y-1">
+                    <InstagramPostCard
+                      post={postData}
+                      variant="popup"
+                      onReport={(postId) => {
+                        setReportingEventId(postId);
+                        setReportDialogOpen(true);
+                      }}
+                    />
+                    <PostedBy eventId={event.id} />
+                  </div>
                 );
               })}
             </div>
@@ -3,28 +3,17 @@ import { InstagramPostCard, InstagramPost } from "./InstagramPostCard";
 import { MapPin, Search } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { fetchEvents, EventData } from "@/api/client";
+import { fetchEvents, fetchNearbyEvents, EventData } from "@/api/client";
 import { useQuery } from "@tanstack/react-query";
 import { toast as sonnerToast } from "sonner";
 
-const calculateDistance = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
-  const R = 6371;
-  const dLat = (lat2 - lat1) * (Math.PI / 180);
-  const dLng = (lng2 - lng1) * (Math.PI / 180);
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(lat1 * (Math.PI / 180)) *
-    Math.cos(lat2 * (Math.PI / 180)) *
-    Math.sin(dLng / 2) *
-    Math.sin(dLng / 2);
-  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-};
+const NEARBY_RADIUS_KM = 10;
 
 interface InstagramPostWithDistance extends InstagramPost {
   distance?: number;
 }
 
-const toInstagramPost = (e: EventData): InstagramPost => ({
+export const toInstagramPost = (e: EventData): InstagramPost => ({
   id: String(e.id),
   post_id: `event-${e.id}`,
   caption: e.description || null,
@@ -53,6 +42,8 @@ const toInstagramPost = (e: EventData): InstagramPost => ({
   price_notes: e.price_notes || null,
   event_status: e.event_status,
   availability_status: e.availability_status || null,
+  lineup: e.lineup,
+  rescheduled_from: e.rescheduled_from ?? null,
   instagram_accounts: {
     username: e.source_username || "unknown",
     display_name: e.source_username || null,
@@ -72,18 +63,34 @@ export const EventSidebar = () => {
   const [isLoadingMore, setIsLoadingMore] = useState(false);
 
   // Use React Query instead of raw useEffect fetch
-  const { data: allPosts = [], isLoading: isLoadingPosts } = useQuery({
+  const { data: allPosts = [], isLoading: isLoadingAll } = useQuery({
     queryKey: ['sidebar-events'],
     queryFn: async () => {
-      const res = await fetchEvents({ is_event: "true" });
+      const res = await fetchEvents();
       return (res.data || []).map(toInstagramPost);
     },
+    enabled: !userLocation,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  // With a location, the server returns events sorted by distance
+  const { data: nearbyPosts = [], isLoading: isLoadingNearby } = useQuery({
+    queryKey: ['sidebar-nearby', userLocation],
+    queryFn: async (): Promise<InstagramPostWithDistance[]> => {
+      const res = await fetchNearbyEvents(userLocation!.lat, userLocation!.lng, NEARBY_RADIUS_KM);
+      return (res.data || []).map((e) => ({ ...toInstagramPost(e), distance: e.distance_km }));
+    },
+    enabled: !!userLocation,
     staleTime: 5 * 60 * 1000,
   });
 
-  // Filter + sort client-side (memoized)
+  const isLoadingPosts = userLocation ? isLoadingNearby : isLoadingAll;
+
+  // Filter client-side (memoized)
   const filteredPosts = useMemo(() => {
-    let filtered: InstagramPostWithDistance[] = allPosts;
+    let filtered: InstagramPostWithDistance[] = userLocation
+      ? nearbyPosts
+      : allPosts.filter((post) => post.location_lat && post.location_lng);
 
     if (searchQuery) {
       const q = searchQuery.toLowerCase();
@@ -94,24 +101,8 @@ export const EventSidebar = () => {
       );
     }
 
-    if (userLocation) {
-      filtered = filtered
-        .map((post) => {
-          if (!post.location_lat || !post.location_lng) return null;
-          const distance = calculateDistance(
-            userLocation.lat, userLocation.lng,
-            Number(post.location_lat), Number(post.location_lng)
-          );
-          return { ...post, distance };
-        })
-        .filter((post): post is InstagramPostWithDistance & { distance: number } => post !== null)
-        .sort((a, b) => (a.distance ?? Infinity) - (b.distance ?? Infinity));
-    } else {
-      filtered = filtered.filter((post) => post.location_lat && post.location_lng);
-    }
-
     return filtered;
-  }, [searchQuery, allPosts, userLocation]);
+  }, [searchQuery, allPosts, nearbyPosts, userLocation]);
 
   // Intersection observer for infinite scroll
   useEffect(() => {
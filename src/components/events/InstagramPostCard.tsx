@@ -1,15 +1,16 @@
 import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
 import { MapPin, Heart, MessageCircle, ExternalLink, Bookmark, Flag, AtSign } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { AspectRatio } from "@/components/ui/aspect-ratio";
-import { isLoggedIn, toggleSaveEvent, getImageUrl } from "@/api/client";
+import { isLoggedIn, toggleSaveEvent, getImageUrl, type LineupArtist, type RescheduledFrom } from "@/api/client";
 import { toast } from "sonner";
 import { useQueryClient } from "@tanstack/react-query";
-import { ImageWithSkeleton } from "@/components/shared";
+import { ImageWithSkeleton, PerformersDisplay } from "@/components/shared";
 
 import { CATEGORY_LABELS, CATEGORY_COLORS } from "@/constants/categoryColors";
-import { EventStatusBadge, EventStatus, AvailabilityBadge, AvailabilityStatus, PriceDisplay, RecurringEventBadge, EventDatesDisplay } from "@/components/badges";
+import { EventStatusBadge, EventStatus, AvailabilityBadge, AvailabilityStatus, PriceDisplay, RecurringEventBadge, EventDatesDisplay, RescheduledNote } from "@/components/badges";
 
 export interface InstagramPost {
   id: string;
@@ -44,6 +45,8 @@ export interface InstagramPost {
   price_notes?: string | null;
   is_recurring?: boolean | null;
   recurrence_pattern?: string | null;
+  lineup?: LineupArtist[];
+  rescheduled_from?: RescheduledFrom | null;
   instagram_accounts: {
     username: string;
     display_name: string | null;
@@ -157,14 +160,19 @@ export const InstagramPostCard = ({ post, variant = 'default', onReport, isSaved
         <div className="flex-1 min-w-0 space-y-0.5">
           <div className="flex items-center gap-1">
             <AtSign className="h-3 w-3 text-accent flex-shrink-0" />
-            <a
-              href={`https://instagram.com/${post.instagram_accounts.username}`}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="font-medium text-[11px] text-muted-foreground hover:underline truncate"
-            >
-              @{post.instagram_accounts.username}
-            </a>
+            {post.instagram_accounts.username !== 'unknown' ? (
+              <Link
+                to={`/accounts/${post.instagram_accounts.username}`}
+                onClick={(e) => e.stopPropagation()}
+                className="font-medium text-[11px] text-muted-foreground hover:underline truncate"
+              >
+                @{post.instagram_accounts.username}
+              </Link>
+            ) : (
+              <span className="font-medium text-[11px] text-muted-foreground truncate">
+                @{post.instagram_accounts.username}
+              </span>
+            )}
             {post.instagram_accounts.is_verified && (
               <Badge variant="secondary" className="text-[10px] px-1 py-0 leading-none h-3.5">
                 ✓
@@ -201,6 +209,9 @@ export const InstagramPostCard = ({ post, variant = 'default', onReport, isSaved
             isPublishedEvent={!!post.published_event_id}
           />
         )}
+        {post.is_event && (
+          <RescheduledNote rescheduledFrom={post.rescheduled_from} eventTime={post.event_time} />
+        )}
 
         {/* Location + Distance */}
         {post.is_event && post.location_name && (
@@ -215,6 +226,11 @@ export const InstagramPostCard = ({ post, variant = 'default', onReport, isSaved
           </div>
         )}
 
+        {/* Lineup */}
+        {post.is_event && (
+          <PerformersDisplay artists={post.lineup} max={6} className="pt-0.5" />
+        )}
+
         {/* Price */}
         {post.is_event && (
           <PriceDisplay
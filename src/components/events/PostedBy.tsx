@@ -0,0 +1,50 @@
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { Megaphone } from "lucide-react";
+import { fetchEvent } from "@/api/client";
+
+/** Accounts named before collapsing the rest into "+N" */
+const SHOWN_ACCOUNTS = 2;
+
+interface PostedByProps {
+  eventId: number;
+}
+
+/**
+ * "Posted by @venue, @promoter +3" — every account whose post this
+ * event was found in, including duplicates merged into it. Hidden when
+ * only one account posted it (the card already names that one).
+ */
+export function PostedBy({ eventId }: PostedByProps) {
+  const { data: event } = useQuery({
+    queryKey: ["event", eventId],
+    queryFn: () => fetchEvent(eventId),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const usernames = [...new Set((event?.sources ?? []).flatMap((source) => source.username ?? []))];
+  if (usernames.length < 2) return null;
+
+  const shown = usernames.slice(0, SHOWN_ACCOUNTS);
+  const rest = usernames.slice(SHOWN_ACCOUNTS);
+
+  return (
+    <div className="flex items-center gap-1 px-1 text-[11px] text-muted-foreground">
+      <Megaphone className="h-3 w-3 flex-shrink-0" />
+      <span className="truncate">
+        Posted by{" "}
+        {shown.map((username, i) => (
+          <span key={username}>
+            {i > 0 && ", "}
+            <Link to={`/accounts/${username}`} className="hover:underline">
+              @{username}
+            </Link>
+          </span>
+        ))}
+        {rest.length > 0 && (
+          <span title={rest.map((username) => `@${username}`).join(", ")}> +{rest.length}</span>
+        )}
+      </span>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 export { EventPopup } from './EventPopup';
 export { EventSidePanel } from './EventSidePanel';
-export { EventSidebar } from './EventSidebar';
+export { EventSidebar, toInstagramPost } from './EventSidebar';
 export { InstagramPostCard } from './InstagramPostCard';
 export type { InstagramPost } from './InstagramPostCard';
 export { SavedEventsDrawer } from './SavedEventsDrawer';
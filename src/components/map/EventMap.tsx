@@ -1,11 +1,29 @@
 import { useEffect, useRef, useState } from "react";
 import L, { LatLngExpression, Map as LeafletMap, LayerGroup } from "leaflet";
 import "leaflet/dist/leaflet.css";
-import { createMiddleFingerIcon, type LocationMarker } from "@/utils/markerUtils";
+import { createClusterIcon, createMiddleFingerIcon, type ClusterMarker, type LocationMarker } from "@/utils/markerUtils";
 import { EventPopup, EventSidePanel } from "@/components/events";
 import { useEventMarkers } from "@/hooks/useEventMarkers";
 import { useIsMobile } from "@/hooks/use-mobile";
 
+/** Fraction of the viewport added on each side of the bbox, so small pans don't refetch */
+const BBOX_PADDING = 0.25;
+
+/** Visible map area (padded) as "minLng,minLat,maxLng,maxLat", rounded to keep query keys stable */
+function toBboxParam(map: LeafletMap): string {
+  const bounds = map.getBounds().pad(BBOX_PADDING);
+  return [
+    Math.max(-180, bounds.getWest()),
+    Math.max(-90, bounds.getSouth()),
+    Math.min(180, bounds.getEast()),
+    Math.min(90, bounds.getNorth()),
+  ].map((n) => n.toFixed(3)).join(",");
+}
+
+// Stable empty arrays so effects don't re-run while markers load
+const NO_LOCATIONS: LocationMarker[] = [];
+const NO_CLUSTERS: ClusterMarker[] = [];
+
 interface EventMapProps {
   filters?: any;
   searchQuery?: string;
@@ -20,14 +38,20 @@ export function EventMap({ filters, searchQuery }: EventMapProps) {
 
   const [selectedMarker, setSelectedMarker] = useState<LocationMarker | null>(null);
   const [userLocation, setUserLocation] = useState<[number, number] | null>(null);
+  const [bbox, setBbox] = useState<string | undefined>(undefined);
+  const [zoom, setZoom] = useState<number | undefined>(undefined);
 
   const isMobile = useIsMobile();
   const isDesktop = !isMobile;
 
-  const { data: markers = [] } = useEventMarkers({
+  const { data: markerData } = useEventMarkers({
     ...filters,
     searchQuery,
+    bbox,
+    zoom,
   });
+  const markers = markerData?.locations ?? NO_LOCATIONS;
+  const clusters = markerData?.clusters ?? NO_CLUSTERS;
 
   // Initialize map once
   useEffect(() => {
@@ -67,6 +91,15 @@ export function EventMap({ filters, searchQuery }: EventMapProps) {
 
     markersLayerRef.current = L.layerGroup().addTo(map);
     mapRef.current = map;
+
+    // Only load pins for the visible area, clustered for the current zoom;
+    // refetch after each pan/zoom
+    const syncViewport = () => {
+      setBbox(toBboxParam(map));
+      setZoom(map.getZoom());
+    };
+    syncViewport();
+    map.on("moveend", syncViewport);
   }, []);
 
   // Center map — geolocation first, fallback to first marker. Run once.
@@ -139,7 +172,18 @@ export function EventMap({ filters, searchQuery }: EventMapProps) {
       marker.on("click", () => setSelectedMarker(m));
       marker.addTo(layer);
     });
-  }, [markers]);
+
+    // Clusters zoom in until they split into individual locations
+    clusters.forEach((c) => {
+      const marker = L.marker([c.lat, c.lng], {
+        icon: createClusterIcon(c.count, c.category),
+      });
+      marker.on("click", () => {
+        map.flyToBounds(c.bounds, { maxZoom: c.expansionZoom, padding: [48, 48] });
+      });
+      marker.addTo(layer);
+    });
+  }, [markers, clusters]);
 
   return (
     <>
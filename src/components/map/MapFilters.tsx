@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { Search, Calendar, User, Bookmark, Settings as SettingsIcon, DollarSign, LogOut, Bug, Info, Moon, Sun } from "lucide-react";
+import { Search, Calendar, Clock, CalendarDays, User, Bookmark, Settings as SettingsIcon, DollarSign, LogOut, Bug, Info, Moon, Sun } from "lucide-react";
 import {
   Select,
   SelectContent,
@@ -18,8 +18,40 @@ import { SavedEventsDrawer } from "@/components/events";
 import { useNavigate } from "react-router-dom";
 import { isLoggedIn, logout } from "@/api/client";
 import { toast } from "sonner";
+import { currentNight } from "@/utils/timeUtils";
 import { useTheme } from "next-themes";
 
+/** Date range for a date select value, in Manila calendar days */
+function dateRangeFor(value: string): { start: Date; end: Date } | undefined {
+  const today = currentNight();
+
+  switch (value) {
+    case "today":
+      return { start: today, end: today };
+    case "week": {
+      const weekEnd = new Date(today);
+      weekEnd.setDate(weekEnd.getDate() + 7);
+      return { start: today, end: weekEnd };
+    }
+    case "weekend": {
+      const dayOfWeek = today.getDay();
+      const daysUntilFriday = (5 - dayOfWeek + 7) % 7;
+      const friday = new Date(today);
+      friday.setDate(friday.getDate() + daysUntilFriday);
+      const sunday = new Date(friday);
+      sunday.setDate(sunday.getDate() + 2);
+      return { start: friday, end: sunday };
+    }
+    case "month": {
+      const monthEnd = new Date(today);
+      monthEnd.setMonth(monthEnd.getMonth() + 1);
+      return { start: today, end: monthEnd };
+    }
+    default:
+      return undefined;
+  }
+}
+
 interface MapFiltersProps {
   onFilterChange: (filters: any) => void;
   onSearchChange: (query: string) => void;
@@ -29,6 +61,8 @@ export function MapFilters({ onFilterChange, onSearchChange }: MapFiltersProps)
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedDate, setSelectedDate] = useState("all");
   const [selectedPrice, setSelectedPrice] = useState("all");
+  const [selectedTime, setSelectedTime] = useState("all");
+  const [selectedDay, setSelectedDay] = useState("all");
   const [savedDrawerOpen, setSavedDrawerOpen] = useState(false);
   const [isUserLoggedIn, setIsUserLoggedIn] = useState<boolean>(isLoggedIn());
   const navigate = useNavigate();
@@ -43,77 +77,33 @@ export function MapFilters({ onFilterChange, onSearchChange }: MapFiltersProps)
     onSearchChange(value);
   };
 
+  const emitFilters = (next: { date?: string; price?: string; time?: string; day?: string }) => {
+    onFilterChange({
+      dateRange: dateRangeFor(next.date ?? selectedDate),
+      priceFilter: next.price ?? selectedPrice,
+      timeOfDay: next.time ?? selectedTime,
+      dayOfWeek: next.day ?? selectedDay,
+    });
+  };
+
   const handleDateChange = (value: string) => {
     setSelectedDate(value);
-    let dateRange;
-
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    switch (value) {
-      case "today":
-        dateRange = { start: today, end: today };
-        break;
-      case "week":
-        const weekEnd = new Date(today);
-        weekEnd.setDate(weekEnd.getDate() + 7);
-        dateRange = { start: today, end: weekEnd };
-        break;
-      case "weekend":
-        const dayOfWeek = today.getDay();
-        const daysUntilFriday = (5 - dayOfWeek + 7) % 7;
-        const friday = new Date(today);
-        friday.setDate(friday.getDate() + daysUntilFriday);
-        const sunday = new Date(friday);
-        sunday.setDate(sunday.getDate() + 2);
-        dateRange = { start: friday, end: sunday };
-        break;
-      case "month":
-        const monthEnd = new Date(today);
-        monthEnd.setMonth(monthEnd.getMonth() + 1);
-        dateRange = { start: today, end: monthEnd };
-        break;
-    }
-
-    onFilterChange({ dateRange, priceFilter: selectedPrice });
+    emitFilters({ date: value });
   };
 
   const handlePriceChange = (value: string) => {
     setSelectedPrice(value);
+    emitFilters({ price: value });
+  };
 
-    let dateRange;
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    switch (selectedDate) {
-      case "today":
-        dateRange = { start: today, end: today };
-        break;
-      case "week":
-        const weekEnd = new Date(today);
-        weekEnd.setDate(weekEnd.getDate() + 7);
-        dateRange = { start: today, end: weekEnd };
-        break;
-      case "weekend":
-        const dayOfWeek = today.getDay();
-        const daysUntilFriday = (5 - dayOfWeek + 7) % 7;
-        const friday = new Date(today);
-        friday.setDate(friday.getDate() + daysUntilFriday);
-        const sunday = new Date(friday);
-        sunday.setDate(sunday.getDate() + 2);
-        dateRange = { start: friday, end: sunday };
-        break;
-      case "month":
-        const monthEnd = new Date(today);
-        monthEnd.setMonth(monthEnd.getMonth() + 1);
-        dateRange = { start: today, end: monthEnd };
-        break;
-    }
+  const handleTimeChange = (value: string) => {
+    setSelectedTime(value);
+    emitFilters({ time: value });
+  };
 
-    onFilterChange({
-      priceFilter: value,
-      dateRange
-    });
+  const handleDayChange = (value: string) => {
+    setSelectedDay(value);
+    emitFilters({ day: value });
   };
 
   const handleSignOut = async () => {
@@ -174,6 +164,48 @@ export function MapFilters({ onFilterChange, onSearchChange }: MapFiltersProps)
           </SelectContent>
         </Select>
 
+        {/* Time Filter */}
+        <Select value={selectedTime} onValueChange={handleTimeChange}>
+          <SelectTrigger className="md:w-[140px] w-8 h-8 glass-control bg-transparent text-white text-xs border-0 px-2 [&>svg.lucide-chevron-down]:hidden md:[&>svg.lucide-chevron-down]:block md:[&>svg.lucide-chevron-down]:h-3 md:[&>svg.lucide-chevron-down]:w-3 md:[&>svg.lucide-chevron-down]:opacity-40">
+            <div className="flex items-center gap-1.5 w-full">
+              <Clock className="h-3.5 w-3.5 shrink-0 opacity-70" />
+              <span className="hidden md:block truncate">
+                <SelectValue placeholder="Time" />
+              </span>
+            </div>
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any Time</SelectItem>
+            <SelectItem value="now">Happening Now</SelectItem>
+            <SelectItem value="morning">Morning</SelectItem>
+            <SelectItem value="afternoon">Afternoon</SelectItem>
+            <SelectItem value="evening">Evening</SelectItem>
+            <SelectItem value="late_night">Late Night</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {/* Day Filter */}
+        <Select value={selectedDay} onValueChange={handleDayChange}>
+          <SelectTrigger className="md:w-[120px] w-8 h-8 glass-control bg-transparent text-white text-xs border-0 px-2 [&>svg.lucide-chevron-down]:hidden md:[&>svg.lucide-chevron-down]:block md:[&>svg.lucide-chevron-down]:h-3 md:[&>svg.lucide-chevron-down]:w-3 md:[&>svg.lucide-chevron-down]:opacity-40">
+            <div className="flex items-center gap-1.5 w-full">
+              <CalendarDays className="h-3.5 w-3.5 shrink-0 opacity-70" />
+              <span className="hidden md:block truncate">
+                <SelectValue placeholder="Day" />
+              </span>
+            </div>
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any Day</SelectItem>
+            <SelectItem value="mon">Monday</SelectItem>
+            <SelectItem value="tue">Tuesday</SelectItem>
+            <SelectItem value="wed">Wednesday</SelectItem>
+            <SelectItem value="thu">Thursday</SelectItem>
+            <SelectItem value="fri">Friday</SelectItem>
+            <SelectItem value="sat">Saturday</SelectItem>
+            <SelectItem value="sun">Sunday</SelectItem>
+          </SelectContent>
+        </Select>
+
         {/* Spacer */}
         <div className="flex-1" />
 
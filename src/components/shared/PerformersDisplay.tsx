@@ -1,65 +1,23 @@
+import { Link } from "react-router-dom";
 import { User, Music } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
-
-// Local Json type matching the Drizzle JSON field shape
-type Json = string | number | boolean | null | { [key: string]: Json } | Json[];
-
-interface SubEvent {
-  date?: string;
-  time?: string;
-  endTime?: string;
-  title?: string;
-  artist?: string;
-  activity?: string;
-  description?: string;
-}
+import type { LineupArtist } from "@/api/client";
 
 interface PerformersDisplayProps {
-  subEvents: Json | null;
+  /** Event lineup from the API, in billing order */
+  artists?: LineupArtist[] | null;
+  /** Show at most this many, with a "+N" badge for the rest */
+  max?: number;
   className?: string;
 }
 
-export const PerformersDisplay = ({ subEvents, className = "" }: PerformersDisplayProps) => {
-  if (!subEvents || (Array.isArray(subEvents) && subEvents.length === 0)) {
+export const PerformersDisplay = ({ artists, max, className = "" }: PerformersDisplayProps) => {
+  if (!artists || artists.length === 0) {
     return null;
   }
 
-  // Parse subEvents - handle both array and object formats
-  let events: SubEvent[] = [];
-  
-  if (Array.isArray(subEvents)) {
-    events = subEvents as SubEvent[];
-  } else if (typeof subEvents === 'object' && subEvents !== null) {
-    events = [subEvents as SubEvent];
-  }
-
-  // Filter to performers: either explicitly marked, or entries that look like performer names
-  const performerDescriptions = ['performer', 'dj set', 'dj', 'b2b', 'live set', 'headliner', 'opening act'];
-  
-  const performers = events.filter(e => {
-    // Explicitly marked as performer type
-    if (e.description && performerDescriptions.includes(e.description.toLowerCase())) return true;
-    if (e.description === 'performer' && !e.date) return true;
-    if (e.artist) return true;
-    
-    // Check if description contains performer-like keywords
-    if (e.description && /\b(b2b|dj|set|live)\b/i.test(e.description)) return true;
-    
-    // If multiple sub-events exist with same date and short titles (likely performers)
-    if (e.title && e.title.length < 30) {
-      const sameDate = events.filter(ev => ev.date === e.date);
-      if (sameDate.length >= 3 && !e.title.toLowerCase().includes('event') && 
-          !e.title.toLowerCase().includes('session') && !e.title.toLowerCase().includes('night')) {
-        return true;
-      }
-    }
-    
-    return false;
-  });
-
-  if (performers.length === 0) {
-    return null;
-  }
+  const shown = max !== undefined ? artists.slice(0, max) : artists;
+  const hidden = artists.length - shown.length;
 
   return (
     <div className={`space-y-1.5 ${className}`}>
@@ -67,18 +25,24 @@ export const PerformersDisplay = ({ subEvents, className = "" }: PerformersDispl
         <Music className="h-3.5 w-3.5" />
         <span>Featuring</span>
       </div>
-      
+
       <div className="flex flex-wrap gap-1.5">
-        {performers.map((performer, index) => (
-          <Badge 
-            key={index} 
-            variant="secondary"
-            className="text-xs px-2 py-0.5 flex items-center gap-1"
-          >
-            <User className="h-3 w-3" />
-            {performer.artist || performer.title || 'Artist'}
-          </Badge>
+        {shown.map((artist) => (
+          <Link key={artist.id} to={`/artists/${artist.id}`} onClick={(e) => e.stopPropagation()}>
+            <Badge
+              variant="secondary"
+              className="text-xs px-2 py-0.5 flex items-center gap-1 hover:bg-secondary/60"
+            >
+              <User className="h-3 w-3" />
+              {artist.name}
+            </Badge>
+          </Link>
         ))}
+        {hidden > 0 && (
+          <Badge variant="outline" className="text-xs px-2 py-0.5">
+            +{hidden}
+          </Badge>
+        )}
       </div>
     </div>
   );
@@ -16,7 +16,7 @@ export function WordCloud({ accounts }: WordCloudProps) {
     const minScore = Math.min(...accounts.map(a => a.engagement_score));
     
     return accounts.map(account => {
-      const normalizedSize = ((account.engagement_score - minScore) / (maxScore - minScore)) * 100;
+      const normalizedSize = ((account.engagement_score - minScore) / (maxScore - minScore || 1)) * 100;
       const fontSize = 12 + (normalizedSize / 100) * 24; // 12px to 36px
       
       return {
@@ -1,27 +1,43 @@
-import { useQuery } from "@tanstack/react-query";
-import { groupEventsByProximity, type LocationMarker } from "@/utils/markerUtils";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import type { ClusterMarker, LocationMarker } from "@/utils/markerUtils";
 
 interface UseEventMarkersOptions {
   dateRange?: { start: Date; end: Date };
   accountIds?: string[];
   eventTypes?: string[];
   priceFilter?: 'free' | 'paid' | 'all';
+  /** 'now' for events going on right now, a time slot, or 'all' */
+  timeOfDay?: 'all' | 'now' | 'morning' | 'afternoon' | 'evening' | 'late_night';
+  /** Weekday ('mon' … 'sun') or 'all' */
+  dayOfWeek?: string;
   searchQuery?: string;
   interestTags?: string[];
   category?: string;
+  /** Visible map area as "minLng,minLat,maxLng,maxLat"; omit to load all pins */
+  bbox?: string;
+  /** Map zoom level; the server clusters pins for this zoom */
+  zoom?: number;
 }
 
+export interface EventMarkers {
+  locations: LocationMarker[];
+  clusters: ClusterMarker[];
+}
+
+const DEFAULT_ZOOM = 13;
+
 const API_BASE = import.meta.env.VITE_API_URL || 'http://localhost:3001';
 
 export function useEventMarkers(options: UseEventMarkersOptions = {}) {
   return useQuery({
     queryKey: ['event-markers', options],
-    queryFn: async (): Promise<LocationMarker[]> => {
+    queryFn: async (): Promise<EventMarkers> => {
       const params = new URLSearchParams();
 
       if (options.dateRange) {
-        params.set('date_from', options.dateRange.start.toISOString().split('T')[0]);
-        params.set('date_to', options.dateRange.end.toISOString().split('T')[0]);
+        params.set('date_from', format(options.dateRange.start, 'yyyy-MM-dd'));
+        params.set('date_to', format(options.dateRange.end, 'yyyy-MM-dd'));
       }
 
       if (options.category && options.category !== 'all') {
@@ -29,15 +45,31 @@ export function useEventMarkers(options: UseEventMarkersOptions = {}) {
       }
 
       if (options.priceFilter === 'free') {
-        params.set('free', 'true');
+        params.set('is_free', 'true');
       } else if (options.priceFilter === 'paid') {
-        params.set('free', 'false');
+        params.set('is_free', 'false');
+      }
+
+      if (options.timeOfDay === 'now') {
+        params.set('happening_now', 'true');
+      } else if (options.timeOfDay && options.timeOfDay !== 'all') {
+        params.set('time_of_day', options.timeOfDay);
+      }
+
+      if (options.dayOfWeek && options.dayOfWeek !== 'all') {
+        params.set('day_of_week', options.dayOfWeek);
       }
 
       if (options.searchQuery) {
         params.set('search', options.searchQuery);
       }
 
+      if (options.bbox) {
+        params.set('bbox', options.bbox);
+      }
+
+      params.set('zoom', String(options.zoom ?? DEFAULT_ZOOM));
+
       const query = params.toString();
       const url = `${API_BASE}/api/events/map${query ? '?' + query : ''}`;
 
@@ -45,8 +77,9 @@ export function useEventMarkers(options: UseEventMarkersOptions = {}) {
       if (!res.ok) throw new Error(`API error: ${res.status}`);
       const json = await res.json();
 
-      const transformedData = (json.data || []).map((event: any) => ({
+      const toMarkerEvent = (event: any) => ({
         id: event.id,
+        occurrence_id: event.occurrence_id || null,
         post_id: null,
         source_post_id: null,
         post_url: event.source_post_url || null,
@@ -72,6 +105,8 @@ export function useEventMarkers(options: UseEventMarkersOptions = {}) {
         availability_status: event.availability_status || 'available',
         is_recurring: event.is_recurring || false,
         recurrence_pattern: event.recurrence_pattern || null,
+        lineup: event.lineup || [],
+        rescheduled_from: event.rescheduled_from || null,
         likes_count: 0,
         comments_count: 0,
         category: event.category || 'other',
@@ -79,10 +114,40 @@ export function useEventMarkers(options: UseEventMarkersOptions = {}) {
         instagram_accounts: event.source_username ? {
           username: event.source_username
         } : null
-      }));
+      });
+
+      // Server returns pre-aggregated features: clusters, or events grouped per location
+      const result: EventMarkers = { locations: [], clusters: [] };
+      for (const feature of json.data || []) {
+        if (feature.type === 'cluster') {
+          result.clusters.push({
+            id: feature.id,
+            lat: feature.lat,
+            lng: feature.lng,
+            count: feature.count,
+            category: feature.dominant_category,
+            bounds: [
+              [feature.bounds.min_lat, feature.bounds.min_lng],
+              [feature.bounds.max_lat, feature.bounds.max_lng],
+            ],
+            expansionZoom: feature.expansion_zoom,
+          });
+        } else {
+          result.locations.push({
+            lat: feature.lat,
+            lng: feature.lng,
+            eventCount: feature.count,
+            events: feature.events.map(toMarkerEvent),
+          });
+        }
+      }
 
-      return groupEventsByProximity(transformedData, 100);
+      return result;
     },
     staleTime: 5 * 60 * 1000,
+    // "Happening now" changes as events start and end
+    refetchInterval: options.timeOfDay === 'now' ? 60 * 1000 : false,
+    // Keep current pins on screen while the next viewport loads
+    placeholderData: keepPreviousData,
   });
 }
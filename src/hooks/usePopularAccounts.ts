@@ -1,5 +1,11 @@
-// TODO: needs admin API endpoint — GET /api/accounts/popular
-// No Express endpoint exists yet for popular Instagram accounts.
-export function usePopularAccounts(_limit: number = 30) {
-  return { data: [] as any[], isLoading: false, error: null };
+import { useQuery } from "@tanstack/react-query";
+import { fetchPopularAccounts } from "@/api/client";
+
+/** Accounts ranked by recent engagement (likes, comments, event volume) */
+export function usePopularAccounts(limit: number = 30) {
+  return useQuery({
+    queryKey: ["popular-accounts", limit],
+    queryFn: async () => (await fetchPopularAccounts({ limit })).data,
+    staleTime: 1000 * 60 * 30, // Scores move slowly
+  });
 }
@@ -0,0 +1,128 @@
+import { Link, useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft, AtSign, CalendarX, Loader2, Megaphone, Users } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { fetchAccount, type EventData } from "@/api/client";
+import { InstagramPostCard, toInstagramPost } from "@/components/events";
+
+const CATEGORY_LABELS: Record<string, string> = {
+  nightlife: "Nightlife",
+  venue: "Venue",
+  promoter: "Promoter",
+  artist: "Artist",
+  community: "Community",
+};
+
+/**
+ * Account page — an organizer's profile and the events they posted.
+ * Reached from the @username on event cards.
+ */
+const Account = () => {
+  const { username = "" } = useParams<{ username: string }>();
+
+  const { data: account, isLoading, isError } = useQuery({
+    queryKey: ["account", username.toLowerCase()],
+    queryFn: () => fetchAccount(username),
+    enabled: username !== "",
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (isError || !account) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center gap-4 bg-background">
+        <p className="text-muted-foreground">Account not found</p>
+        <Button asChild variant="outline" size="sm">
+          <Link to="/">Back to map</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const categoryLabel = account.category ? CATEGORY_LABELS[account.category] : undefined;
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-6 lg:p-8">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <Button asChild variant="ghost" size="sm" className="-ml-2">
+          <Link to="/">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Map
+          </Link>
+        </Button>
+
+        <div className="space-y-2 border-b border-border/50 pb-6">
+          <div className="flex items-center gap-2 text-xs font-medium text-muted-foreground">
+            <Megaphone className="h-3.5 w-3.5" />
+            <span>Organizer</span>
+            {categoryLabel && (
+              <Badge variant="outline" className="text-xs px-2 py-0">
+                {categoryLabel}
+              </Badge>
+            )}
+          </div>
+          <h1 className="text-3xl md:text-4xl font-bold tracking-tight">
+            {account.display_name || `@${account.username}`}
+            {account.is_verified && (
+              <Badge variant="secondary" className="ml-2 align-middle text-xs px-1.5 py-0">
+                ✓
+              </Badge>
+            )}
+          </h1>
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <a
+              href={`https://www.instagram.com/${account.username}/`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 text-accent hover:underline"
+            >
+              <AtSign className="h-3.5 w-3.5" />
+              {account.username}
+            </a>
+            {account.follower_count != null && (
+              <span className="inline-flex items-center gap-1 text-muted-foreground">
+                <Users className="h-3.5 w-3.5" />
+                {account.follower_count.toLocaleString()} followers
+              </span>
+            )}
+          </div>
+          {account.bio && (
+            <p className="text-sm text-muted-foreground whitespace-pre-line">{account.bio}</p>
+          )}
+        </div>
+
+        <EventSection title="Upcoming events" events={account.upcoming_events} empty="No upcoming events" />
+        {account.past_events.length > 0 && (
+          <EventSection title="Past events" events={account.past_events} empty="" />
+        )}
+      </div>
+    </div>
+  );
+};
+
+const EventSection = ({ title, events, empty }: { title: string; events: EventData[]; empty: string }) => (
+  <section className="space-y-3">
+    <h2 className="text-lg font-semibold">{title}</h2>
+    {events.length > 0 ? (
+      <div className="space-y-2.5">
+        {events.map((event) => (
+          <InstagramPostCard key={event.occurrence_id || event.id} post={toInstagramPost(event)} />
+        ))}
+      </div>
+    ) : (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <CalendarX className="h-4 w-4" />
+        <span>{empty}</span>
+      </div>
+    )}
+  </section>
+);
+
+export default Account;
@@ -15,9 +15,14 @@ import {
 } from "lucide-react";
 import { ConsolidatedReviewQueue } from "@/components/admin/ConsolidatedReviewQueue";
 import { PublishedEventsManager } from "@/components/admin/PublishedEventsManager";
+import { ReschedulingHistory } from "@/components/admin/ReschedulingHistory";
+import { MergeHistory } from "@/components/admin/MergeHistory";
+import { DuplicateReviewQueue } from "@/components/admin/DuplicateReviewQueue";
 import { LocationTemplatesManager } from "@/components/admin/LocationTemplatesManager";
 import { PatternManager } from "@/components/admin/PatternManager";
 import { ScraperLogs } from "@/components/admin/ScraperLogs";
+import { IngestRuns } from "@/components/admin/IngestRuns";
+import { IngestQuarantine } from "@/components/admin/IngestQuarantine";
 import { KnownVenuesManager } from "@/components/admin/KnownVenuesManager";
 import { LocationCorrectionsViewer } from "@/components/admin/LocationCorrectionsViewer";
 import { AccountVenueStatsViewer } from "@/components/admin/AccountVenueStatsViewer";
@@ -129,12 +134,15 @@ const Admin = () => {
             <AccountVenueStatsViewer />
           </TabsContent>
 
-          <TabsContent value="review" className="mt-6">
+          <TabsContent value="review" className="space-y-6 mt-6">
             <ConsolidatedReviewQueue />
+            <DuplicateReviewQueue />
           </TabsContent>
 
-          <TabsContent value="published" className="mt-6">
+          <TabsContent value="published" className="space-y-6 mt-6">
             <PublishedEventsManager />
+            <ReschedulingHistory />
+            <MergeHistory />
           </TabsContent>
 
           <TabsContent value="patterns" className="mt-6">
@@ -152,7 +160,9 @@ const Admin = () => {
             <GeoConfigurationManager />
           </TabsContent>
 
-          <TabsContent value="logs" className="mt-6">
+          <TabsContent value="logs" className="space-y-6 mt-6">
+            <IngestRuns />
+            <IngestQuarantine />
             <ScraperLogs />
           </TabsContent>
         </Tabs>
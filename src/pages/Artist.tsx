@@ -0,0 +1,113 @@
+import { Link, useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft, AtSign, CalendarX, Loader2, Music } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { fetchArtist, fetchArtistEvents } from "@/api/client";
+import { InstagramPostCard, toInstagramPost } from "@/components/events";
+
+/**
+ * Artist page — who they are and where to catch them next.
+ * Reached from lineup badges on event cards (`PerformersDisplay`).
+ */
+const Artist = () => {
+  const { id } = useParams<{ id: string }>();
+  const artistId = Number(id);
+  const validId = Number.isInteger(artistId) && artistId > 0;
+
+  const { data: artist, isLoading, isError } = useQuery({
+    queryKey: ["artist", artistId],
+    queryFn: () => fetchArtist(artistId),
+    enabled: validId,
+  });
+
+  const { data: events, isLoading: eventsLoading } = useQuery({
+    queryKey: ["artist-events", artistId],
+    queryFn: () => fetchArtistEvents(artistId),
+    enabled: validId,
+    select: (res) => res.data,
+  });
+
+  if (validId && isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!validId || isError || !artist) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center gap-4 bg-background">
+        <p className="text-muted-foreground">Artist not found</p>
+        <Button asChild variant="outline" size="sm">
+          <Link to="/">Back to map</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const aliases = artist.aliases ?? [];
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-6 lg:p-8">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <Button asChild variant="ghost" size="sm" className="-ml-2">
+          <Link to="/">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Map
+          </Link>
+        </Button>
+
+        <div className="space-y-2 border-b border-border/50 pb-6">
+          <div className="flex items-center gap-2 text-xs font-medium text-muted-foreground">
+            <Music className="h-3.5 w-3.5" />
+            <span>Artist</span>
+          </div>
+          <h1 className="text-3xl md:text-4xl font-bold tracking-tight">{artist.name}</h1>
+          {artist.instagram_handle && (
+            <a
+              href={`https://www.instagram.com/${artist.instagram_handle}/`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 text-sm text-accent hover:underline"
+            >
+              <AtSign className="h-3.5 w-3.5" />
+              {artist.instagram_handle}
+            </a>
+          )}
+          {aliases.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1.5 text-xs text-muted-foreground">
+              <span>Also credited as</span>
+              {aliases.map((alias) => (
+                <Badge key={alias} variant="outline" className="text-xs px-2 py-0">
+                  {alias}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <section className="space-y-3">
+          <h2 className="text-lg font-semibold">Upcoming events</h2>
+          {eventsLoading ? (
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          ) : events && events.length > 0 ? (
+            <div className="space-y-2.5">
+              {events.map((event) => (
+                <InstagramPostCard key={event.occurrence_id || event.id} post={toInstagramPost(event)} />
+              ))}
+            </div>
+          ) : (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <CalendarX className="h-4 w-4" />
+              <span>No upcoming events</span>
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default Artist;
@@ -1,6 +1,6 @@
 import L from "leaflet";
 import markerIcon from "@/assets/middle-finger-marker.png";
-import { getCategoryFilter } from "@/constants/categoryColors";
+import { CATEGORY_COLORS, getCategoryFilter } from "@/constants/categoryColors";
 
 export interface LocationMarker {
   lat: number;
@@ -9,6 +9,17 @@ export interface LocationMarker {
   events: any[];
 }
 
+// Server-side cluster of events spread over several locations (see /api/events/map?zoom=)
+export interface ClusterMarker {
+  id: string;
+  lat: number;
+  lng: number;
+  count: number;
+  category: string;
+  bounds: [[number, number], [number, number]]; // [[south, west], [north, east]]
+  expansionZoom: number;
+}
+
 // Marker dimensions (match w-8 h-10 => 32x40)
 const ICON_W = 32;
 const ICON_H = 40;
@@ -59,64 +70,30 @@ export function createMiddleFingerIcon(count: number, category: string = 'other'
   });
 }
 
-// Haversine formula to calculate distance between two lat/lng points in meters
-function calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
-  const R = 6371e3; // Earth's radius in meters
-  const φ1 = (lat1 * Math.PI) / 180;
-  const φ2 = (lat2 * Math.PI) / 180;
-  const Δφ = ((lat2 - lat1) * Math.PI) / 180;
-  const Δλ = ((lng2 - lng1) * Math.PI) / 180;
-
-  const a =
-    Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-  return R * c;
-}
-
-// Group events by proximity (default 100m radius)
-export function groupEventsByProximity(events: any[], radiusMeters: number = 100): LocationMarker[] {
-  const clusters: LocationMarker[] = [];
-
-  events.forEach((event) => {
-    if (!event.location_lat || !event.location_lng) return;
-
-    const eventLat = parseFloat(event.location_lat);
-    const eventLng = parseFloat(event.location_lng);
-
-    // Find nearest cluster within radius
-    let nearestCluster: LocationMarker | null = null;
-    let minDistance = Infinity;
+// Round bubble for clusters, sized by count and tinted by dominant category
+export function createClusterIcon(count: number, category: string = 'other'): L.DivIcon {
+  const color = CATEGORY_COLORS[category] || CATEGORY_COLORS.other;
+  const size = count < 10 ? 32 : count < 100 ? 40 : 48;
 
-    for (const cluster of clusters) {
-      const distance = calculateDistance(cluster.lat, cluster.lng, eventLat, eventLng);
-      if (distance <= radiusMeters && distance < minDistance) {
-        minDistance = distance;
-        nearestCluster = cluster;
-      }
-    }
+  const iconHtml = `
+    <div
+      class="flex items-center justify-center rounded-full text-white font-semibold select-none"
+      style="
+        width:${size}px;
+        height:${size}px;
+        background:${color}cc;
+        box-shadow:0 0 0 4px ${color}40;
+        font-size:12px;
+      "
+    >${count}</div>
+  `;
 
-    if (nearestCluster) {
-      // Add to existing cluster
-      nearestCluster.eventCount++;
-      nearestCluster.events.push(event);
-      // Update cluster center to average position
-      const totalEvents = nearestCluster.events.length;
-      nearestCluster.lat = nearestCluster.events.reduce((sum, e) => sum + parseFloat(e.location_lat), 0) / totalEvents;
-      nearestCluster.lng = nearestCluster.events.reduce((sum, e) => sum + parseFloat(e.location_lng), 0) / totalEvents;
-    } else {
-      // Create new cluster
-      clusters.push({
-        lat: eventLat,
-        lng: eventLng,
-        eventCount: 1,
-        events: [event],
-      });
-    }
+  return L.divIcon({
+    html: iconHtml,
+    className: "custom-marker",
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
   });
-
-  return clusters;
 }
 
 export function groupEventsByLocation(events: any[]): LocationMarker[] {
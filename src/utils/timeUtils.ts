@@ -0,0 +1,31 @@
+/**
+ * Manila time helpers
+ *
+ * Event dates and times are Manila local time, and "today" on the site
+ * means today in Manila — not in the browser's timezone, and not in UTC
+ * (`toISOString()` is still yesterday until 8am in Manila). Mirrors
+ * `server/src/lib/time.ts`.
+ */
+
+export const MANILA_TZ = "Asia/Manila";
+
+/** Hour at which "tonight" becomes the next day (matches the API's night rollover) */
+const NIGHT_ROLLOVER_HOUR = 6;
+
+const dateFormat = new Intl.DateTimeFormat("en-CA", { timeZone: MANILA_TZ });
+
+/** Manila calendar date of an instant, as YYYY-MM-DD */
+export function manilaDate(now: Date = new Date()): string {
+  return dateFormat.format(now);
+}
+
+/**
+ * Current night in Manila as a local-midnight Date, for calendar math
+ * with `setDate()`/`getDay()`. Before 6am it is still the previous
+ * night, so "Today" at 1am includes the party that started at 11pm.
+ */
+export function currentNight(now: Date = new Date()): Date {
+  const shifted = new Date(now.getTime() - NIGHT_ROLLOVER_HOUR * 60 * 60 * 1000);
+  const [year, month, day] = manilaDate(shifted).split("-").map(Number);
+  return new Date(year, month - 1, day);
+}